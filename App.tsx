@@ -12,12 +12,15 @@ import Chatur from './components/Chatur';
 import Settings from './components/Settings';
 import Auth from './components/Auth';
 import AgentsDashboard from './components/AgentsDashboard';
+import SyncConflictModal from './components/SyncConflictModal';
+import SyncFailuresModal from './components/SyncFailuresModal';
 import { ViewState } from './types';
-import { Sun, Moon, LogOut, Loader2, Settings as SettingsIcon, Heart, Github, Linkedin } from 'lucide-react';
+import { Sun, Moon, LogOut, Loader2, Settings as SettingsIcon, Heart, Github, Linkedin, CloudOff, AlertOctagon } from 'lucide-react';
 
 const MainContent: React.FC = () => {
   const [currentView, setCurrentView] = useState<ViewState>('dashboard');
-  const { theme, toggleTheme, loading: dataLoading, jobs, resume } = useJobContext();
+  const [showSyncFailures, setShowSyncFailures] = useState(false);
+  const { theme, toggleTheme, loading: dataLoading, jobs, resume, syncState } = useJobContext();
   const { signOut, user } = useAuth();
 
   const renderView = () => {
@@ -25,7 +28,7 @@ const MainContent: React.FC = () => {
       case 'dashboard':
         return <Dashboard setView={setCurrentView} />;
       case 'applications':
-        return <JobList />;
+        return <JobList setView={setCurrentView} />;
       case 'offers':
         return <Offers />;
       case 'resume':
@@ -62,7 +65,12 @@ const MainContent: React.FC = () => {
 
   // If in Agent Mode, render full screen without standard sidebar
   if (currentView === 'agents') {
-     return <AgentsDashboard setView={setCurrentView} />;
+     return (
+       <>
+         <AgentsDashboard setView={setCurrentView} />
+         <SyncConflictModal />
+       </>
+     );
   }
 
   return (
@@ -95,6 +103,29 @@ const MainContent: React.FC = () => {
                   </div>
                 )}
 
+                {/* Offline Queue Indicator */}
+                {(!syncState.isOnline || syncState.pending > 0) && (
+                  <div
+                    className="flex items-center gap-2 px-3 py-1.5 rounded-full bg-amber-50 dark:bg-amber-900/20 text-amber-600 dark:text-amber-400 text-[10px] font-bold uppercase tracking-wider animate-fade-in"
+                    title="Changes are saved on this device and will sync when the connection returns."
+                  >
+                    {syncState.isOnline ? <Loader2 size={12} className="animate-spin" /> : <CloudOff size={12} />}
+                    <span>{syncState.isOnline ? '' : 'Offline · '}{syncState.pending} pending</span>
+                  </div>
+                )}
+
+                {/* Writes the server kept rejecting */}
+                {syncState.failures.length > 0 && (
+                  <button
+                    onClick={() => setShowSyncFailures(true)}
+                    className="flex items-center gap-2 px-3 py-1.5 rounded-full bg-rose-50 dark:bg-rose-900/20 text-rose-600 dark:text-rose-400 text-[10px] font-bold uppercase tracking-wider animate-fade-in hover:bg-rose-100 dark:hover:bg-rose-900/40"
+                    title="Some changes could not be saved. Click to retry or discard them."
+                  >
+                    <AlertOctagon size={12} />
+                    <span>{syncState.failures.length} not saved</span>
+                  </button>
+                )}
+
                 <button 
                   onClick={toggleTheme}
                   className="p-2 rounded-lg bg-white dark:bg-slate-800 text-slate-600 dark:text-slate-300 shadow-sm border border-slate-200 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-700 transition-all"
@@ -149,6 +180,9 @@ const MainContent: React.FC = () => {
           </footer>
         )}
       </main>
+
+      <SyncConflictModal />
+      {showSyncFailures && <SyncFailuresModal onClose={() => setShowSyncFailures(false)} />}
     </div>
   );
 }
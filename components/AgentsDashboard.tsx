@@ -16,6 +16,7 @@ import {
   runAgentAnalyzer, runAgentInterviewPrep, 
   runAgentDocumentGen, runAgentResearch, AnalyzerResult, ResearchResult, validateResearchResult, InterviewPrepResult
 } from '../services/geminiService';
+import CachedResultNotice from './CachedResultNotice';
 
 interface AgentsDashboardProps {
   setView: (view: ViewState) => void;
@@ -31,12 +32,13 @@ interface ResearchState {
   report: ResearchResult | null;
   rawMarkdown: string | null;
   error: string | null;
+  cachedAt: number | null; // Set when the report came from the response cache
 }
 
 const AgentsDashboard: React.FC<AgentsDashboardProps> = ({ setView }) => {
   const [activeAgent, setActiveAgent] = useState<AgentType>('analyzer');
   const [isSidebarOpen, setIsSidebarOpen] = useState(true);
-  const { addResearchReport } = useJobContext();
+  const { researchHistory, addResearchReport } = useJobContext();
 
   // Hoisted Research State to persist across tab switches
   const [researchState, setResearchState] = useState<ResearchState>({
@@ -45,21 +47,23 @@ const AgentsDashboard: React.FC<AgentsDashboardProps> = ({ setView }) => {
     loading: false,
     report: null,
     rawMarkdown: null,
-    error: null
+    error: null,
+    cachedAt: null
   });
 
   // Hoisted Research Handler
-  const handleRunResearch = async () => {
+  const handleRunResearch = async (refresh = false) => {
     if (!researchState.company || !researchState.role) return;
     
     // Capture current values to use in async closure
     const currentCompany = researchState.company;
     const currentRole = researchState.role;
 
-    setResearchState(prev => ({ ...prev, loading: true, report: null, rawMarkdown: null, error: null }));
+    setResearchState(prev => ({ ...prev, loading: true, report: null, rawMarkdown: null, error: null, cachedAt: null }));
     
     try {
-      const data = await runAgentResearch(currentCompany, currentRole);
+      let cachedAt: number | null = null;
+      const data = await runAgentResearch(currentCompany, currentRole, { refresh, onCached: savedAt => { cachedAt = savedAt; } });
       
       const newReport: ResearchReport = {
           id: crypto.randomUUID(),
@@ -70,10 +74,12 @@ const AgentsDashboard: React.FC<AgentsDashboardProps> = ({ setView }) => {
       };
       
       // Auto-display and stop loading
-      setResearchState(prev => ({ ...prev, report: data, loading: false }));
+      setResearchState(prev => ({ ...prev, report: data, loading: false, cachedAt }));
       
-      // Persist to history
-      addResearchReport(newReport);
+      // Persist to history, unless it's a saved result that is already there
+      if (!cachedAt || !researchHistory.some(r => r.content === newReport.content)) {
+        addResearchReport(newReport);
+      }
 
     } catch (e: any) {
       console.error(e);
@@ -274,6 +280,8 @@ const AgentAnalyzer = () => {
   const { resume } = useJobContext();
   const { isDemoMode } = useAuth();
   const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [cachedAt, setCachedAt] = useState<number | null>(null);
   
   const [jd, setJd] = useState(() => {
     if (typeof window !== 'undefined') return localStorage.getItem('agent_analyzer_jd') || '';
@@ -360,9 +368,11 @@ const AgentAnalyzer = () => {
       }
   }, [result]);
 
-  const handleAnalyze = async () => {
+  const handleAnalyze = async (refresh = false) => {
     if (!jd.trim()) return;
     setLoading(true);
+    setError(null);
+    setCachedAt(null);
 
     if (isDemoMode && jd === DEMO_JD) {
         setTimeout(() => {
@@ -373,10 +383,11 @@ const AgentAnalyzer = () => {
     }
 
     try {
-      const data = await runAgentAnalyzer(jd, resume);
+      const data = await runAgentAnalyzer(jd, resume, { refresh, onCached: setCachedAt });
       setResult(data);
-    } catch (e) {
+    } catch (e: any) {
       console.error(e);
+      setError(e.message || "Analysis failed. Please try again.");
     } finally {
       setLoading(false);
     }
@@ -385,6 +396,7 @@ const AgentAnalyzer = () => {
   const handleClear = () => {
       setJd('');
       setResult(null);
+      setCachedAt(null);
       localStorage.removeItem('agent_analyzer_jd');
       localStorage.removeItem('agent_analyzer_result');
   };
@@ -444,7 +456,7 @@ const AgentAnalyzer = () => {
           />
           <div className="flex justify-end">
              <button 
-                onClick={handleAnalyze}
+                onClick={() => handleAnalyze()}
                 disabled={loading || !jd.trim()}
                 className="w-full md:w-auto bg-indigo-600 hover:bg-indigo-700 text-white px-8 py-3 rounded-xl font-bold flex items-center justify-center gap-2 transition-all disabled:opacity-50 shadow-lg shadow-indigo-900/20"
              >
@@ -454,8 +466,15 @@ const AgentAnalyzer = () => {
           </div>
        </div>
 
+       {error && (
+          <div className="p-4 rounded-xl border border-rose-500/30 bg-rose-950/30 text-sm text-rose-300 flex items-start gap-3">
+             <AlertTriangle size={18} className="shrink-0 mt-0.5" /> {error}
+          </div>
+       )}
+
        {result && (
           <div className="animate-fade-in space-y-6">
+             {cachedAt && <CachedResultNotice savedAt={cachedAt} onRefresh={() => handleAnalyze(true)} disabled={loading} />}
              <div className={`p-4 rounded-xl border flex flex-col md:flex-row items-center justify-between gap-4 shadow-lg ${
                 result.recommendation.status === 'Strong Apply' ? 'bg-emerald-950/30 border-emerald-500/30' :
                 result.recommendation.status === 'Conditional Apply' ? 'bg-amber-950/30 border-amber-500/30' :
@@ -665,16 +684,22 @@ const AgentPrep = () => {
   const [jd, setJd] = useState('');
   const [loading, setLoading] = useState(false);
   const [result, setResult] = useState<InterviewPrepResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [cachedAt, setCachedAt] = useState<number | null>(null);
   const [activeTab, setActiveTab] = useState(0);
   const [expandedQuestion, setExpandedQuestion] = useState<string | null>(null);
 
-  const handleGenerate = async () => {
+  const handleGenerate = async (refresh = false) => {
     if (!company || !role) return;
     setLoading(true);
     setResult(null);
+    setError(null);
+    setCachedAt(null);
     try {
-      const data = await runAgentInterviewPrep(company, role, jd);
+      let savedAt: number | null = null;
+      const data = await runAgentInterviewPrep(company, role, jd, { refresh, onCached: at => { savedAt = at; } });
       setResult(data);
+      setCachedAt(savedAt);
       
       const newReport: InterviewPrepReport = {
           id: crypto.randomUUID(),
@@ -684,9 +709,12 @@ const AgentPrep = () => {
           content: JSON.stringify(data)
       };
       
-      addPrepReport(newReport);
-    } catch (e) {
+      if (!savedAt || !prepHistory.some(r => r.content === newReport.content)) {
+        addPrepReport(newReport);
+      }
+    } catch (e: any) {
       console.error(e);
+      setError(e.message || "Failed to generate the kit. Please try again.");
     } finally {
       setLoading(false);
     }
@@ -695,6 +723,8 @@ const AgentPrep = () => {
   const loadPrep = (item: InterviewPrepReport) => {
       setCompany(item.company);
       setRole(item.role);
+      setCachedAt(null);
+      setError(null);
       try {
           const parsed = JSON.parse(item.content);
           setResult(parsed);
@@ -729,7 +759,7 @@ const AgentPrep = () => {
                       <textarea className="w-full bg-slate-950 border border-slate-800 rounded-lg p-3 text-sm text-white h-24 resize-none" value={jd} onChange={e => setJd(e.target.value)} placeholder="Paste JD context..." />
                    </div>
                    <button 
-                      onClick={handleGenerate}
+                      onClick={() => handleGenerate()}
                       disabled={loading || !company || !role}
                       className="w-full bg-indigo-600 hover:bg-indigo-700 text-white py-3 rounded-xl font-bold flex items-center justify-center gap-2 transition-all disabled:opacity-50 mt-2"
                    >
@@ -774,9 +804,19 @@ const AgentPrep = () => {
               )}
           </div>
 
-          <div className="lg:col-span-2">
+          <div className="lg:col-span-2 space-y-4">
+             {error && (
+                <div className="p-4 rounded-xl border border-rose-500/30 bg-rose-950/30 text-sm text-rose-300 flex items-start gap-3">
+                   <AlertTriangle size={18} className="shrink-0 mt-0.5" /> {error}
+                </div>
+             )}
              {result ? (
                 <div className="bg-slate-900 border border-slate-800 rounded-2xl overflow-hidden flex flex-col h-[600px]">
+                   {cachedAt && (
+                      <div className="p-3 border-b border-slate-800">
+                         <CachedResultNotice savedAt={cachedAt} onRefresh={() => handleGenerate(true)} disabled={loading} />
+                      </div>
+                   )}
                    <div className="flex border-b border-slate-800 bg-slate-950/50 overflow-x-auto">
                       {['Research', 'Technical', 'Behavioral', 'My Questions'].map((tab, i) => (
                          <button 
@@ -1024,9 +1064,9 @@ Best regards,
         additionalContext: context
       });
       setOutput(text);
-    } catch (e) {
+    } catch (e: any) {
       console.error(e);
-      alert("Generation failed. Check API Key or Input length.");
+      alert(`Generation failed. ${e.message || 'Check API Key or Input length.'}`);
     } finally {
       setLoading(false);
     }
@@ -1227,10 +1267,10 @@ Best regards,
 const AgentResearch: React.FC<{
   researchState: ResearchState;
   setResearchState: React.Dispatch<React.SetStateAction<ResearchState>>;
-  onRunResearch: () => void;
+  onRunResearch: (refresh?: boolean) => void;
 }> = ({ researchState, setResearchState, onRunResearch }) => {
   const { researchHistory, deleteResearchReport } = useJobContext();
-  const { company, role, loading, report, error } = researchState;
+  const { company, role, loading, report, error, cachedAt } = researchState;
   const [activeTab, setActiveTab] = useState('overview');
 
   const tabs = [
@@ -1251,7 +1291,8 @@ const AgentResearch: React.FC<{
                loading: false,
                report: validated,
                rawMarkdown: null,
-               error: null
+               error: null,
+               cachedAt: null
            });
        } catch(e) { console.error("Failed to load report", e); }
   };
@@ -1295,7 +1336,7 @@ const AgentResearch: React.FC<{
                        </div>
                     </div>
                     <button 
-                       onClick={onRunResearch}
+                       onClick={() => onRunResearch()}
                        disabled={loading || !company || !role}
                        className="w-full bg-indigo-600 hover:bg-indigo-700 text-white py-3 rounded-xl font-bold flex items-center justify-center gap-2 transition-all disabled:opacity-50 mt-2 shadow-lg shadow-indigo-900/20"
                     >
@@ -1367,7 +1408,7 @@ const AgentResearch: React.FC<{
                       <h3 className="text-xl font-bold text-rose-200">Analysis Halted</h3>
                       <p className="text-sm text-rose-300/80 max-w-sm">{error}</p>
                       <button 
-                          onClick={onRunResearch} 
+                          onClick={() => onRunResearch()} 
                           className="px-4 py-2 bg-rose-500/10 hover:bg-rose-500/20 border border-rose-500/20 rounded-lg text-rose-300 text-sm transition-colors"
                       >
                           Try Again
@@ -1377,6 +1418,11 @@ const AgentResearch: React.FC<{
                  <div className="bg-slate-900 border border-slate-800 rounded-2xl overflow-hidden flex flex-col h-[700px]">
                     {/* Header */}
                     <div className="p-6 border-b border-slate-800 bg-slate-950/30">
+                        {cachedAt && (
+                            <div className="mb-4">
+                                <CachedResultNotice savedAt={cachedAt} onRefresh={() => onRunResearch(true)} disabled={loading} />
+                            </div>
+                        )}
                         <div className="flex justify-between items-start mb-4">
                             <div>
                                 <h3 className="text-2xl font-bold text-white">{report.companyName}</h3>
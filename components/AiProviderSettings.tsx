@@ -0,0 +1,128 @@
+import React, { useState } from 'react';
+import { Cpu, Save, RotateCcw } from 'lucide-react';
+import { getLlmConfig, getSavedLlmConfig, saveLlmConfig, LlmConfig, LlmProvider, LLM_PROVIDER_LABELS } from '../services/llm';
+
+const MODEL_PLACEHOLDERS: Record<LlmProvider, string> = {
+  gemini: 'gemini-2.5-flash',
+  openai: 'llama3.1',
+  fixture: 'fixture',
+};
+
+/** Settings card for choosing which model provider the AI features use in this browser. */
+const AiProviderSettings: React.FC = () => {
+  const [saved, setSaved] = useState<LlmConfig | null>(() => getSavedLlmConfig());
+  const [draft, setDraft] = useState<LlmConfig>(() => saved || { ...getLlmConfig(), apiKey: '' });
+  const [message, setMessage] = useState<string | null>(null);
+
+  const update = (fields: Partial<LlmConfig>) => {
+    setDraft({ ...draft, ...fields });
+    setMessage(null);
+  };
+
+  const handleSave = () => {
+    const config = { ...draft, model: draft.model.trim(), baseUrl: draft.baseUrl.trim(), apiKey: draft.apiKey.trim(), embeddingModel: draft.embeddingModel.trim() };
+    saveLlmConfig(config);
+    setSaved(config);
+    setMessage(`AI features now use ${LLM_PROVIDER_LABELS[config.provider]}.`);
+  };
+
+  const handleReset = () => {
+    saveLlmConfig(null);
+    setSaved(null);
+    setDraft({ ...getLlmConfig(), apiKey: '' });
+    setMessage("Back to the app's default AI provider.");
+  };
+
+  const inputClass = "w-full p-2.5 rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 text-sm text-slate-900 dark:text-white focus:ring-2 focus:ring-indigo-500 outline-none transition-all placeholder:text-slate-400";
+  const labelClass = "block text-xs font-semibold text-slate-500 dark:text-slate-400 uppercase tracking-wider mb-1";
+
+  return (
+    <div className="bg-white dark:bg-slate-900 rounded-2xl p-6 md:p-8 shadow-sm border border-slate-100 dark:border-slate-800 space-y-6">
+      <div>
+        <h3 className="text-xl font-bold text-slate-900 dark:text-white flex items-center gap-2">
+          <Cpu size={20} className="text-indigo-600 dark:text-indigo-400" /> AI Provider
+        </h3>
+        <p className="text-sm text-slate-500 dark:text-slate-400">
+          Choose the model behind the agents, resume tools and Chatur. Saved in this browser only.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div>
+          <label className={labelClass}>Provider</label>
+          <select className={inputClass} value={draft.provider} onChange={(e) => update({ provider: e.target.value as LlmProvider })}>
+            {(Object.keys(LLM_PROVIDER_LABELS) as LlmProvider[]).map(provider => (
+              <option key={provider} value={provider}>{LLM_PROVIDER_LABELS[provider]}</option>
+            ))}
+          </select>
+        </div>
+        {draft.provider !== 'fixture' && (
+          <div>
+            <label className={labelClass}>Model</label>
+            <input className={inputClass} value={draft.model} placeholder={MODEL_PLACEHOLDERS[draft.provider]} onChange={(e) => update({ model: e.target.value })} />
+          </div>
+        )}
+        {draft.provider === 'openai' && (
+          <div>
+            <label className={labelClass}>Server URL</label>
+            <input className={inputClass} value={draft.baseUrl} placeholder="http://localhost:11434/v1" onChange={(e) => update({ baseUrl: e.target.value })} />
+          </div>
+        )}
+        {draft.provider !== 'fixture' && (
+          <div>
+            <label className={labelClass}>Embedding Model</label>
+            <input
+              className={inputClass}
+              value={draft.embeddingModel}
+              placeholder={draft.provider === 'openai' ? 'e.g. nomic-embed-text (optional)' : 'text-embedding-004'}
+              onChange={(e) => update({ embeddingModel: e.target.value })}
+            />
+          </div>
+        )}
+        {draft.provider !== 'fixture' && (
+          <div>
+            <label className={labelClass}>API Key</label>
+            <input
+              type="password"
+              className={inputClass}
+              value={draft.apiKey}
+              placeholder={draft.provider === 'openai' ? 'Not needed for most local servers' : "Leave blank to use the app's key"}
+              onChange={(e) => update({ apiKey: e.target.value })}
+            />
+          </div>
+        )}
+      </div>
+
+      {draft.provider === 'openai' && (
+        <p className="text-xs text-slate-500 dark:text-slate-400">
+          Local models can't search the web or create images, so deep research answers from the model's own knowledge and avatar generation is unavailable. Without an embedding model, Chatur searches your notes and reports by keyword.
+        </p>
+      )}
+      {draft.provider === 'fixture' && (
+        <p className="text-xs text-slate-500 dark:text-slate-400">
+          Fixtures never call a model. Each request gets the same deterministic placeholder answer every time, which is useful for testing the UI offline.
+        </p>
+      )}
+      {message && <p className="text-sm font-medium text-emerald-600 dark:text-emerald-400">{message}</p>}
+
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        {saved ? (
+          <button
+            onClick={handleReset}
+            className="px-4 py-2 rounded-lg text-sm font-medium text-slate-500 hover:text-slate-700 dark:hover:text-slate-300 transition-colors flex items-center gap-2"
+          >
+            <RotateCcw size={16} /> Use Default
+          </button>
+        ) : <span />}
+        <button
+          onClick={handleSave}
+          className="bg-indigo-600 hover:bg-indigo-700 text-white px-6 py-2 rounded-lg text-sm font-bold flex items-center gap-2 transition-colors"
+        >
+          <Save size={16} /> Save Provider
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default AiProviderSettings;
@@ -0,0 +1,325 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { BarChart3, Save, Trash2, Loader2 } from 'lucide-react';
+import {
+  listUsage, clearUsage, sumUsage, getUsageBudget, saveUsageBudget,
+  UsageRecord, UsageBudget
+} from '../services/llm';
+
+const DAY = 24 * 60 * 60 * 1000;
+const RANGES = [7, 30, 90];
+
+type Metric = 'costUsd' | 'tokens' | 'calls';
+
+const METRIC_LABELS: Record<Metric, string> = {
+  costUsd: 'Est. cost',
+  tokens: 'Tokens',
+  calls: 'Calls',
+};
+
+// Keyed by the service function that made the call
+const FEATURE_LABELS: Record<string, string> = {
+  scoreResume: 'Resume score',
+  generateCoverLetter: 'Cover letters',
+  generateInterviewGuide: 'Interview guide',
+  generateNegotiationStrategy: 'Negotiation strategy',
+  enhanceResumeText: 'Resume section enhance',
+  enhanceFullResume: 'Full resume enhance',
+  tailorResume: 'Resume tailoring',
+  generateAvatar: 'Avatar',
+  parseResumeFromDocument: 'Resume import',
+  chatWithChatur: 'Chatur',
+  runChaturChain: 'Chatur',
+  streamChaturChain: 'Chatur',
+  summarizeChatMemory: 'Chatur memory',
+  runAgentAnalyzer: 'Job analyzer',
+  runAgentResearch: 'Deep research',
+  runAgentInterviewPrep: 'Interview prep',
+  runAgentDocumentGen: 'Document writer',
+  searchKnowledge: 'Knowledge search',
+  warmKnowledgeIndex: 'Knowledge indexing',
+};
+
+interface FeatureRow {
+  label: string;
+  calls: number;
+  cacheHits: number;
+  failures: number;
+  inputTokens: number;
+  outputTokens: number;
+  latencyMs: number; // Total, for the average
+  costUsd: number;
+}
+
+const formatCost = (usd: number) => `$${usd > 0 && usd < 0.01 ? usd.toFixed(4) : usd.toFixed(2)}`;
+const formatTokens = (tokens: number) => new Intl.NumberFormat(undefined, { notation: 'compact', maximumFractionDigits: 1 }).format(tokens);
+const dayKey = (time: number) => new Date(time).toDateString();
+
+const groupByFeature = (records: UsageRecord[]): FeatureRow[] => {
+  const rows = new Map<string, FeatureRow>();
+  for (const r of records) {
+    const label = FEATURE_LABELS[r.feature] || r.feature;
+    const row = rows.get(label) || { label, calls: 0, cacheHits: 0, failures: 0, inputTokens: 0, outputTokens: 0, latencyMs: 0, costUsd: 0 };
+    if (r.cacheHit) {
+      row.cacheHits++;
+    } else {
+      row.calls++;
+      row.failures += r.ok ? 0 : 1;
+      row.inputTokens += r.inputTokens;
+      row.outputTokens += r.outputTokens;
+      row.latencyMs += r.latencyMs;
+      row.costUsd += r.costUsd;
+    }
+    rows.set(label, row);
+  }
+  return [...rows.values()].sort((a, b) => b.costUsd - a.costUsd || b.calls - a.calls);
+};
+
+const groupByDay = (records: UsageRecord[], days: number) => {
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  const buckets = Array.from({ length: days }, (_, i) => {
+    const start = today.getTime() - (days - 1 - i) * DAY;
+    return { key: dayKey(start), name: new Date(start).toLocaleDateString(undefined, { month: 'short', day: 'numeric' }), costUsd: 0, tokens: 0, calls: 0 };
+  });
+  const byKey = new Map(buckets.map(b => [b.key, b]));
+  for (const r of records) {
+    const bucket = byKey.get(dayKey(r.at));
+    if (!bucket || r.cacheHit) continue;
+    bucket.calls++;
+    bucket.tokens += r.inputTokens + r.outputTokens;
+    bucket.costUsd += r.costUsd;
+  }
+  return buckets;
+};
+
+const CapBar: React.FC<{ label: string; used: number; cap: number | null; format: (n: number) => string }> = ({ label, used, cap, format }) => {
+  const percent = cap ? Math.min(100, (used / cap) * 100) : 0;
+  return (
+    <div>
+      <div className="flex justify-between text-xs text-slate-500 dark:text-slate-400 mb-1">
+        <span>{label}</span>
+        <span className="font-medium">{format(used)}{cap !== null ? ` of ${format(cap)}` : ' (no cap)'}</span>
+      </div>
+      <div className="h-2 rounded-full bg-slate-100 dark:bg-slate-800 overflow-hidden">
+        <div
+          className={`h-full rounded-full ${percent >= 100 ? 'bg-rose-500' : percent >= 80 ? 'bg-amber-500' : 'bg-indigo-500'}`}
+          style={{ width: `${cap !== null ? percent : 0}%` }}
+        />
+      </div>
+    </div>
+  );
+};
+
+/** Settings card summarising the usage ledger, with the optional monthly caps. */
+const AiUsageSettings: React.FC = () => {
+  const [days, setDays] = useState(30);
+  const [metric, setMetric] = useState<Metric>('costUsd');
+  const [records, setRecords] = useState<UsageRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [budget, setBudget] = useState<UsageBudget>(() => getUsageBudget());
+  const [costCap, setCostCap] = useState(budget.monthlyCostUsd?.toString() || '');
+  const [tokenCap, setTokenCap] = useState(budget.monthlyTokens?.toString() || '');
+  const [message, setMessage] = useState<string | null>(null);
+
+  const monthStart = new Date(new Date().getFullYear(), new Date().getMonth(), 1).getTime();
+  const rangeStart = new Date(Date.now() - (days - 1) * DAY).setHours(0, 0, 0, 0);
+
+  const load = async () => {
+    setIsLoading(true);
+    try {
+      // Always covers the whole current month, so the caps show progress whatever the range
+      setRecords(await listUsage(Math.min(rangeStart, monthStart)));
+    } catch (e) {
+      console.error("Failed to load AI usage", e);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, [days]);
+
+  const inRange = useMemo(() => records.filter(r => r.at >= rangeStart), [records, rangeStart]);
+  const month = useMemo(() => sumUsage(records.filter(r => r.at >= monthStart)), [records, monthStart]);
+  const totals = useMemo(() => sumUsage(inRange), [inRange]);
+  const features = useMemo(() => groupByFeature(inRange), [inRange]);
+  const daily = useMemo(() => groupByDay(inRange, days), [inRange, days]);
+  const cacheHits = inRange.filter(r => r.cacheHit).length;
+  const failures = inRange.filter(r => !r.cacheHit && !r.ok).length;
+  const inputTokens = inRange.reduce((sum, r) => sum + r.inputTokens, 0);
+
+  const handleSaveBudget = () => {
+    const parse = (value: string) => {
+      const number = parseFloat(value);
+      return Number.isFinite(number) && number > 0 ? number : null;
+    };
+    const tokens = parse(tokenCap);
+    const next = { monthlyCostUsd: parse(costCap), monthlyTokens: tokens === null ? null : Math.round(tokens) };
+    saveUsageBudget(next);
+    setBudget(next);
+    setCostCap(next.monthlyCostUsd?.toString() || '');
+    setTokenCap(next.monthlyTokens?.toString() || '');
+    setMessage(next.monthlyCostUsd === null && next.monthlyTokens === null
+      ? "No monthly cap. AI features are never blocked."
+      : "Monthly cap saved. AI calls stop once it is reached; saved results still load.");
+  };
+
+  const handleClear = async () => {
+    if (!window.confirm("Delete the usage history stored in this browser? Monthly caps will count from zero again.")) return;
+    await clearUsage();
+    setRecords([]);
+    setMessage("Usage history cleared.");
+  };
+
+  const inputClass = "w-full p-2.5 rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 text-sm text-slate-900 dark:text-white focus:ring-2 focus:ring-indigo-500 outline-none transition-all placeholder:text-slate-400";
+  const labelClass = "block text-xs font-semibold text-slate-500 dark:text-slate-400 uppercase tracking-wider mb-1";
+
+  const stats = [
+    { label: 'Calls', value: totals.calls.toLocaleString(), detail: failures > 0 ? `${failures} failed` : 'none failed' },
+    { label: 'Tokens', value: formatTokens(totals.tokens), detail: `${formatTokens(inputTokens)} in · ${formatTokens(totals.tokens - inputTokens)} out` },
+    { label: 'Est. cost', value: formatCost(totals.costUsd), detail: `${formatCost(month.costUsd)} this month` },
+    { label: 'Cache hits', value: cacheHits.toLocaleString(), detail: 'calls not made' },
+  ];
+
+  return (
+    <div className="bg-white dark:bg-slate-900 rounded-2xl p-6 md:p-8 shadow-sm border border-slate-100 dark:border-slate-800 space-y-6">
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div>
+          <h3 className="text-xl font-bold text-slate-900 dark:text-white flex items-center gap-2">
+            <BarChart3 size={20} className="text-indigo-600 dark:text-indigo-400" /> AI Usage
+          </h3>
+          <p className="text-sm text-slate-500 dark:text-slate-400">
+            Every AI call made from this browser, with the token counts the provider reported. Costs are estimates from list prices; local models count as free.
+          </p>
+        </div>
+        <select className="p-2 rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 text-sm text-slate-900 dark:text-white" value={days} onChange={(e) => setDays(Number(e.target.value))}>
+          {RANGES.map(range => <option key={range} value={range}>Last {range} days</option>)}
+        </select>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-10 text-slate-400"><Loader2 className="animate-spin" size={24} /></div>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            {stats.map(stat => (
+              <div key={stat.label} className="p-4 rounded-xl bg-slate-50 dark:bg-slate-950/50 border border-slate-100 dark:border-slate-800">
+                <p className="text-xs font-semibold text-slate-500 dark:text-slate-400 uppercase tracking-wider">{stat.label}</p>
+                <p className="text-2xl font-bold text-slate-900 dark:text-white">{stat.value}</p>
+                <p className="text-xs text-slate-400">{stat.detail}</p>
+              </div>
+            ))}
+          </div>
+
+          <div>
+            <div className="flex gap-1 mb-3">
+              {(Object.keys(METRIC_LABELS) as Metric[]).map(m => (
+                <button
+                  key={m}
+                  onClick={() => setMetric(m)}
+                  className={`px-3 py-1 rounded-lg text-xs font-bold transition-colors ${metric === m ? 'bg-indigo-600 text-white' : 'text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-800'}`}
+                >
+                  {METRIC_LABELS[m]}
+                </button>
+              ))}
+            </div>
+            <div className="h-[220px] w-full">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={daily}>
+                  <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" strokeOpacity={0.5} />
+                  <XAxis dataKey="name" axisLine={false} tickLine={false} tick={{fill: '#94a3b8', fontSize: 12}} minTickGap={16} />
+                  <YAxis
+                    axisLine={false}
+                    tickLine={false}
+                    tick={{fill: '#94a3b8', fontSize: 12}}
+                    allowDecimals={metric === 'costUsd'}
+                    tickFormatter={(value: number) => metric === 'costUsd' ? formatCost(value) : formatTokens(value)}
+                  />
+                  <Tooltip
+                    formatter={(value: number) => [metric === 'costUsd' ? formatCost(value) : value.toLocaleString(), METRIC_LABELS[metric]]}
+                    contentStyle={{ borderRadius: '12px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)', backgroundColor: '#1e293b', color: '#f8fafc' }}
+                  />
+                  <Bar dataKey={metric} fill="#6366f1" radius={[4, 4, 0, 0]} />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+
+          {features.length > 0 ? (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs font-semibold text-slate-500 dark:text-slate-400 uppercase tracking-wider border-b border-slate-100 dark:border-slate-800">
+                    <th className="py-2 pr-3">Feature</th>
+                    <th className="py-2 px-3 text-right">Calls</th>
+                    <th className="py-2 px-3 text-right">Cached</th>
+                    <th className="py-2 px-3 text-right">Tokens in / out</th>
+                    <th className="py-2 px-3 text-right">Avg time</th>
+                    <th className="py-2 pl-3 text-right">Est. cost</th>
+                  </tr>
+                </thead>
+                <tbody className="text-slate-700 dark:text-slate-300">
+                  {features.map(row => (
+                    <tr key={row.label} className="border-b border-slate-50 dark:border-slate-800/50">
+                      <td className="py-2 pr-3 font-medium">{row.label}</td>
+                      <td className="py-2 px-3 text-right">
+                        {row.calls}
+                        {row.failures > 0 && <span className="text-rose-500 text-xs"> ({row.failures} failed)</span>}
+                      </td>
+                      <td className="py-2 px-3 text-right">{row.cacheHits}</td>
+                      <td className="py-2 px-3 text-right">{formatTokens(row.inputTokens)} / {formatTokens(row.outputTokens)}</td>
+                      <td className="py-2 px-3 text-right">{row.calls > 0 ? `${(row.latencyMs / row.calls / 1000).toFixed(1)}s` : '-'}</td>
+                      <td className="py-2 pl-3 text-right font-medium">{formatCost(row.costUsd)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <p className="text-sm text-slate-400 text-center py-4">No AI calls in this period.</p>
+          )}
+        </>
+      )}
+
+      <div className="p-4 rounded-xl bg-slate-50 dark:bg-slate-950/50 border border-slate-100 dark:border-slate-800 space-y-4">
+        <div>
+          <h4 className="font-bold text-slate-800 dark:text-white">Monthly Budget</h4>
+          <p className="text-sm text-slate-500">Once a cap is reached, AI features stop calling the model until next month. Leave blank for no cap.</p>
+        </div>
+        <div className="space-y-3">
+          <CapBar label="Estimated cost this month" used={month.costUsd} cap={budget.monthlyCostUsd} format={formatCost} />
+          <CapBar label="Tokens this month" used={month.tokens} cap={budget.monthlyTokens} format={formatTokens} />
+        </div>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div>
+            <label className={labelClass}>Cost Cap (USD)</label>
+            <input type="number" min="0" step="0.5" className={inputClass} value={costCap} placeholder="No cap" onChange={(e) => { setCostCap(e.target.value); setMessage(null); }} />
+          </div>
+          <div>
+            <label className={labelClass}>Token Cap</label>
+            <input type="number" min="0" step="10000" className={inputClass} value={tokenCap} placeholder="No cap" onChange={(e) => { setTokenCap(e.target.value); setMessage(null); }} />
+          </div>
+        </div>
+        {message && <p className="text-sm font-medium text-emerald-600 dark:text-emerald-400">{message}</p>}
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <button
+            onClick={handleClear}
+            className="px-4 py-2 rounded-lg text-sm font-medium text-slate-500 hover:text-rose-600 transition-colors flex items-center gap-2"
+          >
+            <Trash2 size={16} /> Clear History
+          </button>
+          <button
+            onClick={handleSaveBudget}
+            className="bg-indigo-600 hover:bg-indigo-700 text-white px-6 py-2 rounded-lg text-sm font-bold flex items-center gap-2 transition-colors"
+          >
+            <Save size={16} /> Save Budget
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AiUsageSettings;
@@ -0,0 +1,27 @@
+import React from 'react';
+import { History, RefreshCw } from 'lucide-react';
+
+interface CachedResultNoticeProps {
+  savedAt: number;
+  onRefresh: () => void;
+  disabled?: boolean;
+}
+
+/** Shown above an AI result that came from the response cache, with a way to ask the model again. */
+const CachedResultNotice: React.FC<CachedResultNoticeProps> = ({ savedAt, onRefresh, disabled }) => (
+  <div className="flex items-center justify-between gap-3 px-3 py-2 rounded-lg border border-amber-500/30 bg-amber-500/10 text-xs text-amber-600 dark:text-amber-400">
+    <span className="flex items-center gap-2">
+      <History size={14} className="shrink-0" />
+      Saved result from {new Date(savedAt).toLocaleString()}. No new AI call was made.
+    </span>
+    <button
+      onClick={onRefresh}
+      disabled={disabled}
+      className="flex items-center gap-1 font-bold shrink-0 hover:underline disabled:opacity-50"
+    >
+      <RefreshCw size={12} /> Refresh
+    </button>
+  </div>
+);
+
+export default CachedResultNotice;
@@ -0,0 +1,151 @@
+import React, { useState } from 'react';
+import { useJobContext } from '../context/JobContext';
+import { Job } from '../types';
+import { CalendarEvent, findMatchingJob, guessCompany, eventToRound } from '../lib/ical';
+import { getFirstStage } from '../lib/pipeline';
+import { CalendarPlus, X } from 'lucide-react';
+import { generateId } from '../lib/id';
+
+const NEW_JOB = '__new__';
+const SKIP = '__skip__';
+
+interface ImportRow {
+  event: CalendarEvent;
+  target: string; // job id, NEW_JOB or SKIP
+  company: string;
+  role: string;
+}
+
+interface CalendarImportModalProps {
+  events: CalendarEvent[];
+  onClose: () => void;
+}
+
+/** Lets the user confirm which job each invite belongs to before rounds are written. */
+const CalendarImportModal: React.FC<CalendarImportModalProps> = ({ events, onClose }) => {
+  const { jobs, addJob, updateJob, pipelineStages } = useJobContext();
+  const [rows, setRows] = useState<ImportRow[]>(() => events.map(event => ({
+    event,
+    target: findMatchingJob(event, jobs)?.id || NEW_JOB,
+    company: guessCompany(event),
+    role: '',
+  })));
+
+  const updateRow = (index: number, fields: Partial<ImportRow>) => {
+    setRows(rows.map((r, i) => i === index ? { ...r, ...fields } : r));
+  };
+
+  const canImport = rows.some(r => r.target !== SKIP) &&
+    rows.every(r => r.target !== NEW_JOB || r.company.trim());
+
+  const handleImport = () => {
+    // Group rounds per existing job so each job is written once
+    const updates = new Map<string, Job>();
+    rows.forEach(row => {
+      if (row.target === SKIP || row.target === NEW_JOB) return;
+      const job = updates.get(row.target) || jobs.find(j => j.id === row.target);
+      if (!job) return;
+      const round = eventToRound(row.event, job);
+      const existing = (job.interviewRounds || []).find(r => r.id === round.id);
+      const interviewRounds = existing
+        // Re-imports only refresh the timing; names, outcomes and feedback stay as edited
+        ? job.interviewRounds!.map(r => r.id === round.id ? { ...r, date: round.date, durationMinutes: round.durationMinutes } : r)
+        : [...(job.interviewRounds || []), round];
+      updates.set(job.id, { ...job, interviewRounds });
+    });
+    updates.forEach(job => updateJob(job.id, { interviewRounds: job.interviewRounds }));
+
+    // Several invites for the same new company and role become rounds of one application
+    const newJobs = new Map<string, ImportRow[]>();
+    rows.filter(r => r.target === NEW_JOB).forEach(row => {
+      const key = `${row.company.trim().toLowerCase()}|${row.role.trim().toLowerCase()}`;
+      newJobs.set(key, [...(newJobs.get(key) || []), row]);
+    });
+    newJobs.forEach(([row, ...others]) => {
+      addJob({
+        id: generateId(),
+        company: row.company.trim(),
+        role: row.role.trim() || row.event.summary,
+        status: getFirstStage(pipelineStages, 'active').id,
+        salary: '',
+        location: '',
+        dateApplied: new Date().toISOString().split('T')[0],
+        description: '',
+        coverLetter: '',
+        origin: 'application',
+        notes: row.event.description,
+        attachments: [],
+        contacts: [],
+        checklist: [],
+        interviewLogs: [],
+        interviewRounds: [row, ...others].map(r => eventToRound(r.event)),
+      });
+    });
+    onClose();
+  };
+
+  const inputClass = "w-full p-2 rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-950 text-sm text-slate-900 dark:text-white focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500 outline-none placeholder:text-slate-400";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/50 backdrop-blur-sm">
+      <div className="bg-white dark:bg-slate-900 rounded-2xl shadow-2xl w-full max-w-2xl max-h-[90vh] flex flex-col animate-fade-in">
+        <div className="flex items-center justify-between p-6 border-b border-slate-100 dark:border-slate-800">
+          <div>
+            <h3 className="text-xl font-bold text-slate-900 dark:text-white">Import Calendar Invites</h3>
+            <p className="text-sm text-slate-500 dark:text-slate-400">{events.length} {events.length === 1 ? 'event' : 'events'} found. Choose where each one belongs.</p>
+          </div>
+          <button onClick={onClose} className="p-2 text-slate-400 hover:text-slate-600 dark:hover:text-slate-200 rounded-lg">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-4">
+          {rows.map((row, index) => (
+            <div key={`${row.event.uid}-${index}`} className="p-4 rounded-xl bg-slate-50 dark:bg-slate-950/50 border border-slate-200 dark:border-slate-800 space-y-3">
+              <div>
+                <p className="font-semibold text-slate-900 dark:text-white">{row.event.summary}</p>
+                <p className="text-xs text-slate-500 dark:text-slate-400">
+                  {new Date(row.event.start).toLocaleString('en-US', { weekday: 'short', month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}
+                  {' · '}{row.event.durationMinutes} min
+                  {row.event.location && ` · ${row.event.location}`}
+                </p>
+              </div>
+              <select
+                className={inputClass}
+                value={row.target}
+                onChange={(e) => updateRow(index, { target: e.target.value })}
+              >
+                {jobs.map(job => (
+                  <option key={job.id} value={job.id}>{job.role} at {job.company}</option>
+                ))}
+                <option value={NEW_JOB}>+ Create a new application</option>
+                <option value={SKIP}>Skip this event</option>
+              </select>
+              {row.target === NEW_JOB && (
+                <div className="grid grid-cols-2 gap-3">
+                  <input className={inputClass} placeholder="Company (required)" value={row.company} onChange={(e) => updateRow(index, { company: e.target.value })} />
+                  <input className={inputClass} placeholder="Role" value={row.role} onChange={(e) => updateRow(index, { role: e.target.value })} />
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div className="flex justify-end gap-3 p-6 border-t border-slate-100 dark:border-slate-800">
+          <button onClick={onClose} className="px-5 py-2.5 rounded-xl text-slate-600 dark:text-slate-400 hover:bg-slate-50 dark:hover:bg-slate-800 font-medium transition-colors">
+            Cancel
+          </button>
+          <button
+            onClick={handleImport}
+            disabled={!canImport}
+            className="px-5 py-2.5 rounded-xl bg-indigo-600 hover:bg-indigo-700 text-white font-medium flex items-center gap-2 transition-colors disabled:opacity-50"
+          >
+            <CalendarPlus size={18} /> Import
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CalendarImportModal;
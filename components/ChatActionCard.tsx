@@ -0,0 +1,68 @@
+import React from 'react';
+import { ChatAction } from '../types';
+import { getToolTitle } from '../lib/chaturTools';
+import { Zap, Check, X, Loader2, AlertTriangle } from 'lucide-react';
+
+interface ChatActionCardProps {
+  action: ChatAction;
+  details: string[];
+  error: string | null; // Why a pending action can't be applied as proposed
+  isRunning: boolean;
+  disabled: boolean; // An action is running, this one or another
+  onConfirm: () => void;
+  onDismiss: () => void;
+}
+
+/** A change Chatur proposed, shown in the thread until the user confirms or dismisses it. */
+const ChatActionCard: React.FC<ChatActionCardProps> = ({ action, details, error, isRunning, disabled, onConfirm, onDismiss }) => {
+  const isPending = action.status === 'pending';
+
+  return (
+    <div className={`w-full max-w-md rounded-xl border p-4 text-sm shadow-sm ${isPending ? 'border-indigo-200 dark:border-indigo-800 bg-indigo-50/50 dark:bg-indigo-950/30' : 'border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 opacity-80'}`}>
+      <div className="flex items-center justify-between gap-2 mb-2">
+        <p className="font-bold text-slate-900 dark:text-white flex items-center gap-2">
+          <Zap size={14} className="text-indigo-500" /> {getToolTitle(action.tool)}
+        </p>
+        {action.status === 'applied' && <span className="text-xs font-bold text-emerald-600 dark:text-emerald-400 flex items-center gap-1"><Check size={12} /> Applied</span>}
+        {action.status === 'dismissed' && <span className="text-xs font-bold text-slate-400">Dismissed</span>}
+        {action.status === 'failed' && <span className="text-xs font-bold text-rose-600 dark:text-rose-400">Failed</span>}
+      </div>
+
+      {details.length > 0 && (
+        <ul className="space-y-0.5 text-slate-600 dark:text-slate-300">
+          {details.map((line, i) => <li key={i} className={i === 0 ? 'font-medium' : ''}>{line}</li>)}
+        </ul>
+      )}
+
+      {isPending && error && (
+        <p className="mt-2 flex items-start gap-1.5 text-xs text-amber-700 dark:text-amber-300">
+          <AlertTriangle size={14} className="shrink-0 mt-0.5" /> {error}
+        </p>
+      )}
+      {!isPending && action.result && (
+        <p className={`mt-2 text-xs ${action.status === 'failed' ? 'text-rose-600 dark:text-rose-400' : 'text-slate-500 dark:text-slate-400'}`}>{action.result}</p>
+      )}
+
+      {isPending && (
+        <div className="flex justify-end gap-2 mt-3">
+          <button
+            onClick={onDismiss}
+            disabled={disabled}
+            className="px-3 py-1.5 rounded-lg text-xs font-medium text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors flex items-center gap-1 disabled:opacity-50"
+          >
+            <X size={14} /> Dismiss
+          </button>
+          <button
+            onClick={onConfirm}
+            disabled={!!error || isRunning || disabled}
+            className="px-3 py-1.5 rounded-lg text-xs font-bold bg-indigo-600 hover:bg-indigo-700 text-white transition-colors flex items-center gap-1 disabled:opacity-50"
+          >
+            {isRunning ? <Loader2 size={14} className="animate-spin" /> : <Check size={14} />} Confirm
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ChatActionCard;
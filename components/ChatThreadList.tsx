@@ -0,0 +1,77 @@
+import React, { useState } from 'react';
+import { ChatThread, Job } from '../types';
+import { searchThreads } from '../lib/chatThreads';
+import { MessageSquarePlus, Search, Briefcase, MessageSquare } from 'lucide-react';
+
+interface ChatThreadListProps {
+  threads: ChatThread[];
+  jobs: Job[];
+  activeThreadId: string | null;
+  onSelect: (id: string) => void;
+  onCreate: (jobId?: string) => void;
+}
+
+/** Chatur's conversation sidebar: new threads (general or about one job), search and switching. */
+const ChatThreadList: React.FC<ChatThreadListProps> = ({ threads, jobs, activeThreadId, onSelect, onCreate }) => {
+  const [query, setQuery] = useState('');
+  const matches = searchThreads(threads, query, jobs);
+
+  return (
+    <div className="h-full flex flex-col bg-slate-50/50 dark:bg-slate-950/30">
+      <div className="p-3 space-y-2 border-b border-slate-200 dark:border-slate-800">
+        <button
+          onClick={() => onCreate()}
+          className="w-full flex items-center justify-center gap-2 px-3 py-2 rounded-lg bg-indigo-600 hover:bg-indigo-700 text-white text-sm font-bold transition-colors"
+        >
+          <MessageSquarePlus size={16} /> New chat
+        </button>
+        <select
+          value=""
+          onChange={(e) => e.target.value && onCreate(e.target.value)}
+          className="w-full px-3 py-2 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-lg text-xs text-slate-600 dark:text-slate-300 outline-none focus:ring-2 focus:ring-indigo-500"
+        >
+          <option value="">Chat about a job...</option>
+          {jobs.map(job => <option key={job.id} value={job.id}>{job.role} at {job.company}</option>)}
+        </select>
+        <div className="relative">
+          <Search size={14} className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400 pointer-events-none" />
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search conversations"
+            className="w-full pl-8 pr-3 py-2 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-lg text-xs text-slate-900 dark:text-white placeholder:text-slate-400 outline-none focus:ring-2 focus:ring-indigo-500"
+          />
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto custom-scrollbar p-2 space-y-1">
+        {matches.length === 0 && (
+          <p className="p-3 text-xs text-slate-400 text-center">{query ? 'No conversations match.' : 'No conversations yet.'}</p>
+        )}
+        {matches.map(({ thread, snippet }) => {
+          const job = jobs.find(j => j.id === thread.jobId);
+          const isActive = thread.id === activeThreadId;
+          return (
+            <button
+              key={thread.id}
+              onClick={() => onSelect(thread.id)}
+              className={`w-full text-left p-2.5 rounded-lg transition-colors ${isActive ? 'bg-indigo-50 dark:bg-indigo-900/20' : 'hover:bg-slate-100 dark:hover:bg-slate-800'}`}
+            >
+              <p className={`text-sm font-medium truncate flex items-center gap-1.5 ${isActive ? 'text-indigo-700 dark:text-indigo-300' : 'text-slate-700 dark:text-slate-200'}`}>
+                {thread.jobId ? <Briefcase size={13} className="shrink-0" /> : <MessageSquare size={13} className="shrink-0" />}
+                <span className="truncate">{thread.title}</span>
+              </p>
+              <p className="text-[11px] text-slate-400 truncate mt-0.5">
+                {job ? `${job.company} · ` : ''}{new Date(thread.updatedAt).toLocaleDateString()} · {thread.messages.length} messages
+              </p>
+              {snippet && <p className="text-[11px] text-slate-500 dark:text-slate-400 mt-1 line-clamp-2">{snippet}</p>}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default ChatThreadList;
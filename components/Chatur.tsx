@@ -1,22 +1,47 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { useJobContext } from '../context/JobContext';
-import { chatWithChatur } from '../services/geminiService';
-import { ChatMessage } from '../types';
-import { Send, Sparkles, Loader2, Bot, User, Trash2, RefreshCw } from 'lucide-react';
-
-const generateId = () => {
-  if (typeof crypto !== 'undefined' && crypto.randomUUID) {
-    return crypto.randomUUID();
-  }
-  return Math.random().toString(36).substring(2) + Date.now().toString(36);
-};
+import { isInCategory } from '../lib/pipeline';
+import { getNextRound } from '../lib/interviews';
+import { streamChaturChain } from '../services/langchainService';
+import { summarizeChatMemory } from '../services/geminiService';
+import { searchKnowledge, warmKnowledgeIndex, RetrievalResult } from '../services/retrievalIndex';
+import { toLlmError } from '../services/llm';
+import { ChatMessage, ChatAction, ChatThread } from '../types';
+import { describeChaturTools, extractChatActions, hideChatActions, prepareChatAction } from '../lib/chaturTools';
+import { buildChaturContext, citePassages, estimateTokens, ContextReport, DEFAULT_TOKEN_BUDGET } from '../lib/chaturContext';
+import { SOURCE_KIND_LABELS, SourceKind } from '../lib/retrieval';
+import { sortThreads, threadToMarkdown, threadFileName } from '../lib/chatThreads';
+import ChatActionCard from './ChatActionCard';
+import ChaturContextDebug from './ChaturContextDebug';
+import ChatThreadList from './ChatThreadList';
+import { Send, Sparkles, Loader2, Bot, User, Trash2, Square, Gauge, Download, Pencil, Briefcase, PanelLeft, BookOpen } from 'lucide-react';
+import { generateId } from '../lib/id';
 
 const Chatur: React.FC = () => {
-  const { stats, jobs, resume, chatMessages, addChatMessage, clearChat, isChatInitialized, setChatInitialized } = useJobContext();
+  const {
+    stats, jobs, pipelineStages, resume, loading, researchHistory, prepHistory,
+    chatThreads, activeThreadId, setActiveThreadId, createChatThread, renameChatThread, deleteChatThread, addChatMessage, updateChatMessage,
+    addJob, updateJob, addResearchReport, addPrepReport
+  } = useJobContext();
+  const toolContext = { jobs, pipelineStages, addJob, updateJob, addResearchReport, addPrepReport };
+  // Falls back to the latest thread when none is picked (or the picked one was deleted)
+  const activeThread = chatThreads.find(t => t.id === activeThreadId) || sortThreads(chatThreads)[0] || null;
+  const chatMessages = activeThread?.messages || [];
+  const threadJob = jobs.find(j => j.id === activeThread?.jobId);
   const [input, setInput] = useState('');
-  const [isTyping, setIsTyping] = useState(false);
-  const [isResetting, setIsResetting] = useState(false); // Visual state for clearing
+  const [typingThreadId, setTypingThreadId] = useState<string | null>(null); // Thread a reply is streaming into
+  const isTyping = typingThreadId !== null;
+  const [streamingText, setStreamingText] = useState(''); // Reply received so far while isTyping
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [titleDraft, setTitleDraft] = useState('');
+  const [showThreads, setShowThreads] = useState(false); // Thread list on small screens
+  const [runningActionId, setRunningActionId] = useState<string | null>(null);
+  const [tokenBudget, setTokenBudget] = useState(() => Number(localStorage.getItem('chaturTokenBudget')) || DEFAULT_TOKEN_BUDGET);
+  const [contextReport, setContextReport] = useState<ContextReport | null>(null);
+  const [showContext, setShowContext] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const greetedThreadIds = useRef(new Set<string>());
 
   // Auto-scroll to bottom
   const scrollToBottom = () => {
@@ -24,41 +49,63 @@ const Chatur: React.FC = () => {
   };
 
   useEffect(() => {
-    if (!isResetting) {
-        scrollToBottom();
-    }
-  }, [chatMessages, isTyping, isResetting]);
+    scrollToBottom();
+  }, [chatMessages, isTyping, streamingText]);
+
+  // Cancels the reply in flight without saving any of it
+  const discardReply = () => {
+    const controller = abortControllerRef.current;
+    abortControllerRef.current = null;
+    controller?.abort();
+  };
+
+  // Don't keep a request running after leaving the page
+  useEffect(() => discardReply, []);
 
-  // Initial Proactive Message
+  // Index new notes and reports while the user is still typing
   useEffect(() => {
-    // Only trigger if NOT currently resetting manually (to avoid race conditions)
-    if (!isChatInitialized && chatMessages.length === 0 && !isResetting) {
-      const timer = setTimeout(() => {
-          setChatInitialized(true);
-          const conversionRate = stats.applied > 0 ? (stats.interview / stats.applied) : 0;
-          
-          let initialText = "Hi! I'm Chatur, your AI Career Companion. I have access to your resume and job applications. How can I help you land your dream job today?";
-          
-          if (conversionRate < 0.1 && stats.applied > 5) {
-            initialText = "Hi there! I noticed your interview rate is a bit low. Would you like me to analyze your resume against your recent applications to suggest improvements?";
-          } else if (stats.offer > 0) {
-            initialText = "Congratulations on your offers! 🎉 Do you need help analyzing the compensation packages or drafting a negotiation script?";
-          } else if (jobs.some(j => j.status === 'Interview' && j.interviewDate && new Date(j.interviewDate) > new Date())) {
-            const nextInterview = jobs.find(j => j.status === 'Interview' && j.interviewDate && new Date(j.interviewDate) > new Date());
-            if (nextInterview) {
-                initialText = `I see you have an interview with ${nextInterview.company} coming up. Shall we do a quick mock interview round for the ${nextInterview.role} role?`;
-            }
-          }
-
-          addChatMessage({ id: 'init', role: 'model', text: initialText, timestamp: Date.now() });
-      }, 600); // Slightly longer delay for natural feel
-      
-      return () => clearTimeout(timer);
+    warmKnowledgeIndex({ jobs, researchReports: researchHistory, prepReports: prepHistory, resume });
+  }, [jobs, researchHistory, prepHistory, resume]);
+
+  // Always have a thread to talk in
+  useEffect(() => {
+    if (!loading && chatThreads.length === 0) {
+      createChatThread();
     }
-  }, [isChatInitialized, chatMessages.length, stats, jobs, setChatInitialized, addChatMessage, isResetting]);
+  }, [loading, chatThreads.length]);
+
+  // Proactive opening message for each new thread
+  useEffect(() => {
+    if (!activeThread || activeThread.messages.length > 0 || greetedThreadIds.current.has(activeThread.id)) return;
+    const threadId = activeThread.id;
+    const timer = setTimeout(() => {
+        greetedThreadIds.current.add(threadId);
+        const conversionRate = stats.total > 0 ? (stats.interview / stats.total) : 0;
+        
+        let initialText = "Hi! I'm Chatur, your AI Career Companion. I have access to your resume and job applications. How can I help you land your dream job today?";
+        
+        if (threadJob) {
+          const next = getNextRound([threadJob]);
+          initialText = `Let's focus on your ${threadJob.role} application at ${threadJob.company}. I have the job description, your notes, contacts and interview history at hand.` +
+            (next ? ` Your ${next.round.name} round is coming up. Want to prepare for it?` : ' What would you like to work on?');
+        } else if (conversionRate < 0.1 && stats.total > 5) {
+          initialText = "Hi there! I noticed your interview rate is a bit low. Would you like me to analyze your resume against your recent applications to suggest improvements?";
+        } else if (stats.offer > 0) {
+          initialText = "Congratulations on your offers! 🎉 Do you need help analyzing the compensation packages or drafting a negotiation script?";
+        } else if (getNextRound(jobs)) {
+          const { job, round } = getNextRound(jobs)!;
+          initialText = `I see you have the ${round.name} round with ${job.company} coming up. Shall we do a quick mock interview round for the ${job.role} role?`;
+        }
+
+        addChatMessage(threadId, { id: generateId(), role: 'model', text: initialText, timestamp: Date.now() });
+    }, 600); // Slightly longer delay for natural feel
+    
+    return () => clearTimeout(timer);
+  }, [activeThread?.id, activeThread?.messages.length, threadJob, stats, jobs]);
 
   const handleSend = async () => {
-    if (!input.trim()) return;
+    if (!input.trim() || isTyping || !activeThread) return;
+    const threadId = activeThread.id;
 
     const userMsg: ChatMessage = {
       id: generateId(),
@@ -67,63 +114,143 @@ const Chatur: React.FC = () => {
       timestamp: Date.now()
     };
 
-    addChatMessage(userMsg);
+    addChatMessage(threadId, userMsg);
     setInput('');
-    setIsTyping(true);
+    setTypingThreadId(threadId);
 
     // Prepare rich context
-    const activeOffers = jobs.filter(j => j.status === 'Offer' || j.status === 'Accepted');
-    const sortedJobs = [...jobs].sort((a, b) => new Date(b.dateApplied).getTime() - new Date(a.dateApplied).getTime());
-
-    const contextData = {
-      userProfile: {
-        name: resume.fullName,
-        title: resume.jobTitle,
-        skills: resume.skills,
-        summary: resume.summary,
-        experience: resume.experience,
-        projects: resume.projects,
-        education: resume.education
-      },
-      stats,
-      offers: activeOffers.map(j => ({
-        company: j.company,
-        role: j.role,
-        salary: j.salary,
-        negotiationStrategy: j.negotiationStrategy,
-        notes: j.notes
-      })),
-      jobs: sortedJobs.map(j => ({
-            company: j.company,
-            role: j.role,
-            status: j.status,
-            location: j.location,
-            salary: j.salary,
-            dateApplied: j.dateApplied,
-            interviewDate: j.interviewDate,
-            description: j.description || 'No description provided',
-            notes: j.notes,
-            negotiationStrategy: j.negotiationStrategy,
-            interviewGuide: j.interviewGuide,
-            coverLetter: j.coverLetter || 'Not generated yet',
-            contacts: j.contacts?.map(c => ({ name: c.name, role: c.role })),
-            checklist: j.checklist?.filter(c => !c.completed).map(c => c.text),
-      })),
-      currentDate: new Date().toLocaleDateString('en-US', { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' })
+    const activeOffers = jobs.filter(j => isInCategory(pipelineStages, j, 'offer'));
+    const userProfile = {
+      name: resume.fullName,
+      title: resume.jobTitle,
+      skills: resume.skills,
+      summary: resume.summary,
     };
+    const offers = activeOffers.map(j => ({
+      company: j.company,
+      role: j.role,
+      salary: j.salary,
+      negotiationStrategy: j.negotiationStrategy,
+      notes: j.notes
+    }));
+    const toolInstructions = describeChaturTools(pipelineStages);
+    // Created before retrieval so Stop works from the start
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
 
-    // Use the native Gemini service
-    const responseText = await chatWithChatur(chatMessages, userMsg.text, contextData);
+    try {
+      // Answer without passages rather than not at all when the index can't be searched
+      const retrieved = await searchKnowledge(userMsg.text, { jobs, researchReports: researchHistory, prepReports: prepHistory, resume }, controller.signal)
+        .catch((error): RetrievalResult => {
+          if (!controller.signal.aborted) console.warn("Knowledge search failed:", error);
+          return { chunks: [], method: 'keyword' };
+        });
 
-    const botMsg: ChatMessage = {
-      id: generateId(),
-      role: 'model',
-      text: responseText,
-      timestamp: Date.now()
-    };
+      // Fit jobs and history into the budget; older turns are carried by the rolling memory
+      const context = buildChaturContext({
+        message: userMsg.text,
+        history: chatMessages,
+        jobs,
+        stages: pipelineStages,
+        budget: tokenBudget,
+        reservedTokens: estimateTokens(JSON.stringify({ userProfile, stats, offers }) + toolInstructions),
+        focusJobId: activeThread.jobId,
+        retrieved,
+      });
+      setContextReport(context.report);
+
+      const contextData = {
+        userProfile,
+        stats,
+        offers,
+        focusJob: context.focusJob,
+        jobs: context.jobs,
+        passages: context.passages.map(({ n, chunk }) => ({ n, title: chunk.title, kind: SOURCE_KIND_LABELS[chunk.kind], text: chunk.text })),
+        memory: context.memory,
+        currentDate: new Date().toLocaleDateString('en-US', { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' }),
+        toolInstructions
+      };
+
+      let responseText = '';
+      setStreamingText('');
+
+      try {
+        for await (const chunk of streamChaturChain(context.history, userMsg.text, contextData, resume, controller.signal)) {
+          if (controller.signal.aborted) break;
+          responseText += chunk;
+          setStreamingText(responseText);
+        }
+      } catch (error) {
+        // A stop surfaces as an abort error; keep whatever arrived before it
+        if (!controller.signal.aborted) {
+          console.error("Chatur Stream Error:", error);
+          const { message } = toLlmError(error);
+          responseText = responseText
+            ? `${responseText}\n\n(I couldn't finish: ${message})`
+            : `I couldn't answer that. ${message}`;
+        }
+      }
 
-    addChatMessage(botMsg);
-    setIsTyping(false);
+      if (abortControllerRef.current !== controller) return; // Discarded by a reset or unmount
+      // Proposed actions become confirmation cards instead of raw text
+      const { text, actions } = extractChatActions(responseText);
+      if (!text && actions.length === 0) return; // Stopped before anything arrived
+      const citations = citePassages(text, context.passages);
+
+      const botMsg: ChatMessage = {
+        id: generateId(),
+        role: 'model',
+        text: text || "I've prepared this for you to confirm.",
+        timestamp: Date.now(),
+        ...(actions.length > 0 && { actions }),
+        ...(citations.length > 0 && { citations })
+      };
+
+      addChatMessage(threadId, botMsg);
+
+      // Fold the turns that fell out of the prompt into memory, ready for the next message
+      if (context.unsummarized.length > 0) {
+        const lastCovered = context.unsummarized[context.unsummarized.length - 1];
+        summarizeChatMemory(context.savedMemory, context.unsummarized, resume)
+          .then(memory => updateChatMessage(threadId, lastCovered.id, { memory }));
+      }
+    } finally {
+      // Also reached when something above throws, so the thread never stays "typing"
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+        setStreamingText('');
+      }
+      setTypingThreadId(current => current === threadId ? null : current);
+    }
+  };
+
+  const handleBudgetChange = (budget: number) => {
+    setTokenBudget(budget);
+    localStorage.setItem('chaturTokenBudget', String(budget));
+  };
+
+  const setActionStatus = (thread: ChatThread, message: ChatMessage, actionId: string, fields: Partial<ChatAction>) => {
+    updateChatMessage(thread.id, message.id, {
+      actions: (message.actions || []).map(a => a.id === actionId ? { ...a, ...fields } : a)
+    });
+  };
+
+  const handleConfirmAction = async (thread: ChatThread, message: ChatMessage, action: ChatAction) => {
+    setRunningActionId(action.id);
+    try {
+      const result = await prepareChatAction(action, toolContext).run();
+      setActionStatus(thread, message, action.id, { status: 'applied', result });
+    } catch (error: any) {
+      console.error("Chatur Action Error:", error);
+      setActionStatus(thread, message, action.id, { status: 'failed', result: error.message || "Something went wrong." });
+    } finally {
+      setRunningActionId(null);
+    }
+  };
+
+  // Stopping keeps the partial reply, unlike discardReply
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
   };
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
@@ -133,22 +260,50 @@ const Chatur: React.FC = () => {
     }
   };
 
-  const handleClear = () => {
-    if (window.confirm("Start a new conversation? Current history will be cleared.")) {
-      setIsResetting(true); // Start visual reset
-      setIsTyping(false);
-      setInput('');
-      
-      // Perform clear
-      clearChat();
-      
-      // Keep visual "Resetting" state for a moment to indicate action
-      setTimeout(() => {
-        setIsResetting(false);
-      }, 1500);
+  const handleSelectThread = (id: string) => {
+    setActiveThreadId(id);
+    setIsRenaming(false);
+    setShowThreads(false);
+    setContextReport(null);
+  };
+
+  const handleCreateThread = (jobId?: string) => {
+    const job = jobs.find(j => j.id === jobId);
+    const thread = createChatThread(job ? { title: `${job.role} at ${job.company}`, jobId: job.id } : {});
+    handleSelectThread(thread.id);
+  };
+
+  const handleDeleteThread = () => {
+    if (!activeThread) return;
+    if (window.confirm(`Delete "${activeThread.title}"? This conversation will be removed.`)) {
+      if (typingThreadId === activeThread.id) {
+        discardReply();
+        setStreamingText('');
+        setTypingThreadId(null);
+      }
+      deleteChatThread(activeThread.id);
+      setContextReport(null);
     }
   };
 
+  const handleRename = () => {
+    if (activeThread && titleDraft.trim()) renameChatThread(activeThread.id, titleDraft.trim());
+    setIsRenaming(false);
+  };
+
+  const handleExportThread = () => {
+    if (!activeThread) return;
+    const blob = new Blob([threadToMarkdown(activeThread, threadJob)], { type: 'text/markdown;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const anchor = document.createElement('a');
+    anchor.href = url;
+    anchor.download = threadFileName(activeThread);
+    document.body.appendChild(anchor);
+    anchor.click();
+    anchor.remove();
+    URL.revokeObjectURL(url);
+  };
+
   // Render markdown bold helper
   const renderFormattedText = (text: string) => {
     const parts = text.split(/(\*\*.*?\*\*)/g);
@@ -161,84 +316,187 @@ const Chatur: React.FC = () => {
   };
 
   return (
-    <div className="h-[calc(100vh-170px)] flex flex-col bg-white dark:bg-slate-900 rounded-2xl shadow-sm border border-slate-200 dark:border-slate-800 overflow-hidden relative">
+    <div className="h-[calc(100vh-170px)] flex bg-white dark:bg-slate-900 rounded-2xl shadow-sm border border-slate-200 dark:border-slate-800 overflow-hidden relative">
+
+      {/* Threads */}
+      <div className={`${showThreads ? 'absolute inset-y-0 left-0 z-30 shadow-xl' : 'hidden'} md:static md:block md:shadow-none w-72 md:w-64 shrink-0 border-r border-slate-200 dark:border-slate-800 bg-white dark:bg-slate-900`}>
+        <ChatThreadList
+          threads={chatThreads}
+          jobs={jobs}
+          activeThreadId={activeThread?.id || null}
+          onSelect={handleSelectThread}
+          onCreate={handleCreateThread}
+        />
+      </div>
+
+      <div className="flex-1 min-w-0 flex flex-col">
         
         {/* Chat Header */}
-        <div className="p-4 border-b border-slate-200 dark:border-slate-800 bg-slate-50/50 dark:bg-slate-950/30 flex justify-between items-center z-10">
-            <div className="flex items-center gap-3">
+        <div className="p-4 border-b border-slate-200 dark:border-slate-800 bg-slate-50/50 dark:bg-slate-950/30 flex justify-between items-center gap-2 z-10">
+            <div className="flex items-center gap-3 min-w-0">
+                <button
+                    onClick={() => setShowThreads(!showThreads)}
+                    className="md:hidden p-2 text-slate-400 hover:text-indigo-500 hover:bg-indigo-50 dark:hover:bg-indigo-900/20 rounded-lg transition-colors"
+                    title="Conversations"
+                >
+                    <PanelLeft size={18} />
+                </button>
                 <div className="p-2.5 bg-gradient-to-br from-indigo-500 to-purple-600 rounded-xl text-white shadow-lg shadow-indigo-200 dark:shadow-none">
                     <Bot size={24} />
                 </div>
-                <div>
+                <div className="min-w-0">
                     <h2 className="font-bold text-slate-900 dark:text-white flex items-center gap-2">
                         Chatur <span className="px-2 py-0.5 rounded-full bg-indigo-100 dark:bg-indigo-900/30 text-indigo-700 dark:text-indigo-300 text-[10px] font-extrabold uppercase tracking-wider">AI Agent</span>
                     </h2>
-                    <p className="text-xs text-slate-500 dark:text-slate-400">Powered by Gen AI</p>
+                    {isRenaming ? (
+                        <input
+                            autoFocus
+                            value={titleDraft}
+                            onChange={(e) => setTitleDraft(e.target.value)}
+                            onBlur={handleRename}
+                            onKeyDown={(e) => {
+                                if (e.key === 'Enter') handleRename();
+                                if (e.key === 'Escape') setIsRenaming(false);
+                            }}
+                            className="text-xs px-1.5 py-0.5 bg-white dark:bg-slate-950 border border-indigo-300 dark:border-indigo-700 rounded text-slate-900 dark:text-white outline-none w-56"
+                        />
+                    ) : (
+                        <button
+                            onClick={() => { setTitleDraft(activeThread?.title || ''); setIsRenaming(true); }}
+                            disabled={!activeThread}
+                            className="group text-xs text-slate-500 dark:text-slate-400 flex items-center gap-1.5 max-w-full hover:text-indigo-600 dark:hover:text-indigo-400"
+                            title="Rename conversation"
+                        >
+                            {threadJob && <Briefcase size={12} className="shrink-0 text-indigo-500" />}
+                            <span className="truncate">{activeThread?.title || 'Powered by Gen AI'}</span>
+                            <Pencil size={11} className="shrink-0 opacity-0 group-hover:opacity-100" />
+                        </button>
+                    )}
                 </div>
             </div>
-            <button 
-                onClick={handleClear}
-                disabled={isResetting}
-                className="p-2 text-slate-400 hover:text-rose-500 hover:bg-rose-50 dark:hover:bg-rose-900/20 rounded-lg transition-colors disabled:opacity-50" 
-                title="Reset Chat"
-            >
-                {isResetting ? <Loader2 size={18} className="animate-spin" /> : <Trash2 size={18} />}
-            </button>
+            <div className="flex items-center gap-1 shrink-0">
+                <button
+                    onClick={handleExportThread}
+                    disabled={!activeThread || chatMessages.length === 0}
+                    className="p-2 text-slate-400 hover:text-indigo-500 hover:bg-indigo-50 dark:hover:bg-indigo-900/20 rounded-lg transition-colors disabled:opacity-50"
+                    title="Export as Markdown"
+                >
+                    <Download size={18} />
+                </button>
+                <button
+                    onClick={() => setShowContext(!showContext)}
+                    className={`p-2 rounded-lg transition-colors ${showContext ? 'text-indigo-600 bg-indigo-50 dark:bg-indigo-900/20' : 'text-slate-400 hover:text-indigo-500 hover:bg-indigo-50 dark:hover:bg-indigo-900/20'}`}
+                    title="Context sent to Chatur"
+                >
+                    <Gauge size={18} />
+                </button>
+                <button 
+                    onClick={handleDeleteThread}
+                    disabled={!activeThread}
+                    className="p-2 text-slate-400 hover:text-rose-500 hover:bg-rose-50 dark:hover:bg-rose-900/20 rounded-lg transition-colors disabled:opacity-50" 
+                    title="Delete conversation"
+                >
+                    <Trash2 size={18} />
+                </button>
+            </div>
         </div>
 
+        {showContext && <ChaturContextDebug report={contextReport} budget={tokenBudget} onBudgetChange={handleBudgetChange} />}
+
         {/* Messages Area */}
         <div className="flex-1 overflow-y-auto p-4 md:p-6 space-y-6 custom-scrollbar bg-slate-50/30 dark:bg-slate-950/30 relative">
             
-            {isResetting ? (
-                <div className="absolute inset-0 flex flex-col items-center justify-center bg-slate-50/80 dark:bg-slate-950/80 backdrop-blur-sm z-20">
-                    <RefreshCw size={32} className="text-indigo-500 animate-spin mb-3" />
-                    <p className="text-sm font-medium text-slate-600 dark:text-slate-300">Starting new session...</p>
-                </div>
-            ) : (
-                <>
-                    {chatMessages.map((msg) => (
-                        <div 
-                            key={msg.id} 
-                            className={`flex items-start gap-3 ${msg.role === 'user' ? 'flex-row-reverse' : ''}`}
-                        >
-                            <div className={`
-                                w-8 h-8 rounded-full flex items-center justify-center flex-shrink-0 mt-1
-                                ${msg.role === 'user' 
-                                    ? 'bg-slate-200 dark:bg-slate-700 text-slate-600 dark:text-slate-300' 
-                                    : 'bg-indigo-100 dark:bg-indigo-900/30 text-indigo-600 dark:text-indigo-400'
-                                }
-                            `}>
-                                {msg.role === 'user' ? <User size={16} /> : <Bot size={16} />}
-                            </div>
+            {chatMessages.map((msg) => (
+                <div 
+                    key={msg.id} 
+                    className={`flex items-start gap-3 ${msg.role === 'user' ? 'flex-row-reverse' : ''}`}
+                >
+                    <div className={`
+                        w-8 h-8 rounded-full flex items-center justify-center flex-shrink-0 mt-1
+                        ${msg.role === 'user' 
+                            ? 'bg-slate-200 dark:bg-slate-700 text-slate-600 dark:text-slate-300' 
+                            : 'bg-indigo-100 dark:bg-indigo-900/30 text-indigo-600 dark:text-indigo-400'
+                        }
+                    `}>
+                        {msg.role === 'user' ? <User size={16} /> : <Bot size={16} />}
+                    </div>
 
-                            <div className={`
-                                max-w-[85%] md:max-w-[75%] p-4 rounded-2xl text-sm leading-relaxed shadow-sm
-                                ${msg.role === 'user' 
-                                    ? 'bg-white dark:bg-slate-800 text-slate-800 dark:text-slate-200 border border-slate-100 dark:border-slate-700 rounded-tr-none' 
-                                    : 'bg-white dark:bg-slate-800 text-slate-800 dark:text-slate-200 border border-slate-100 dark:border-slate-700 rounded-tl-none'
-                                }
-                            `}>
-                                <div className="whitespace-pre-wrap">
-                                    {renderFormattedText(msg.text)}
-                                </div>
-                            </div>
+                    <div className={`
+                        max-w-[85%] md:max-w-[75%] p-4 rounded-2xl text-sm leading-relaxed shadow-sm
+                        ${msg.role === 'user' 
+                            ? 'bg-white dark:bg-slate-800 text-slate-800 dark:text-slate-200 border border-slate-100 dark:border-slate-700 rounded-tr-none' 
+                            : 'bg-white dark:bg-slate-800 text-slate-800 dark:text-slate-200 border border-slate-100 dark:border-slate-700 rounded-tl-none'
+                        }
+                    `}>
+                        <div className="whitespace-pre-wrap">
+                            {renderFormattedText(msg.text)}
                         </div>
-                    ))}
-
-                    {isTyping && (
-                        <div className="flex items-start gap-3">
-                            <div className="w-8 h-8 rounded-full bg-indigo-100 dark:bg-indigo-900/30 text-indigo-600 dark:text-indigo-400 flex items-center justify-center flex-shrink-0 mt-1">
-                                <Bot size={16} />
+                        {msg.citations && msg.citations.length > 0 && (
+                            <div className="mt-3 pt-3 border-t border-slate-100 dark:border-slate-700 space-y-1.5">
+                                <p className="text-[11px] font-bold uppercase tracking-wider text-slate-400 flex items-center gap-1"><BookOpen size={12} /> Sources</p>
+                                {msg.citations.map(citation => (
+                                    <details key={citation.n} className="text-xs text-slate-600 dark:text-slate-300">
+                                        <summary className="cursor-pointer hover:text-indigo-600 dark:hover:text-indigo-400">
+                                            <span className="font-bold text-indigo-600 dark:text-indigo-400">[{citation.n}]</span> {citation.title} · <span className="text-slate-400">{SOURCE_KIND_LABELS[citation.kind as SourceKind] || citation.kind}</span>
+                                        </summary>
+                                        <p className="mt-1 ml-5 p-2 rounded-lg bg-slate-50 dark:bg-slate-900 whitespace-pre-wrap text-slate-500 dark:text-slate-400">{citation.excerpt}</p>
+                                    </details>
+                                ))}
                             </div>
-                            <div className="bg-white dark:bg-slate-800 p-4 rounded-2xl rounded-tl-none border border-slate-100 dark:border-slate-700 shadow-sm flex items-center gap-2">
-                                <Loader2 size={16} className="animate-spin text-indigo-500" />
-                                <span className="text-xs text-slate-400">Thinking...</span>
+                        )}
+                        {msg.actions && msg.actions.length > 0 && (
+                            <div className="mt-3 space-y-2">
+                                {msg.actions.map(action => {
+                                    let details: string[] = [];
+                                    let error: string | null = null;
+                                    if (action.status === 'pending') {
+                                        // Re-checked against live data, so an earlier confirmation can unblock a later card
+                                        try {
+                                            details = prepareChatAction(action, toolContext).details;
+                                        } catch (err: any) {
+                                            error = err.message;
+                                        }
+                                    }
+                                    return (
+                                        <ChatActionCard
+                                            key={action.id}
+                                            action={action}
+                                            details={details}
+                                            error={error}
+                                            isRunning={runningActionId === action.id}
+                                            disabled={runningActionId !== null}
+                                            onConfirm={() => handleConfirmAction(activeThread!, msg, action)}
+                                            onDismiss={() => setActionStatus(activeThread!, msg, action.id, { status: 'dismissed' })}
+                                        />
+                                    );
+                                })}
                             </div>
+                        )}
+                    </div>
+                </div>
+            ))}
+
+            {isTyping && typingThreadId === activeThread?.id && (
+                <div className="flex items-start gap-3">
+                    <div className="w-8 h-8 rounded-full bg-indigo-100 dark:bg-indigo-900/30 text-indigo-600 dark:text-indigo-400 flex items-center justify-center flex-shrink-0 mt-1">
+                        <Bot size={16} />
+                    </div>
+                    {hideChatActions(streamingText) ? (
+                        <div className="max-w-[85%] md:max-w-[75%] p-4 rounded-2xl rounded-tl-none text-sm leading-relaxed shadow-sm bg-white dark:bg-slate-800 text-slate-800 dark:text-slate-200 border border-slate-100 dark:border-slate-700">
+                            <div className="whitespace-pre-wrap">
+                                {renderFormattedText(hideChatActions(streamingText))}
+                                <span className="inline-block w-1.5 h-4 ml-0.5 align-text-bottom bg-indigo-500 animate-pulse" />
+                            </div>
+                        </div>
+                    ) : (
+                        <div className="bg-white dark:bg-slate-800 p-4 rounded-2xl rounded-tl-none border border-slate-100 dark:border-slate-700 shadow-sm flex items-center gap-2">
+                            <Loader2 size={16} className="animate-spin text-indigo-500" />
+                            <span className="text-xs text-slate-400">Thinking...</span>
                         </div>
                     )}
-                    <div ref={messagesEndRef} />
-                </>
+                </div>
             )}
+            <div ref={messagesEndRef} />
         </div>
 
         {/* Input Area */}
@@ -252,19 +510,30 @@ const Chatur: React.FC = () => {
                     value={input}
                     onChange={(e) => setInput(e.target.value)}
                     onKeyDown={handleKeyDown}
-                    disabled={isResetting}
-                    placeholder="Ask Chatur about your applications, interviews, or resume..."
+                    disabled={!activeThread}
+                    placeholder={threadJob ? `Ask Chatur about your ${threadJob.company} application...` : "Ask Chatur about your applications, interviews, or resume..."}
                     className="flex-1 w-full pl-12 pr-12 py-3.5 bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-slate-800 rounded-xl text-slate-900 dark:text-white placeholder:text-slate-400 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all shadow-sm disabled:opacity-50"
                 />
-                <button 
-                    onClick={handleSend}
-                    disabled={!input.trim() || isTyping || isResetting}
-                    className="absolute right-2 p-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg disabled:opacity-50 disabled:cursor-not-allowed transition-all shadow-md shadow-indigo-200 dark:shadow-none"
-                >
-                    <Send size={18} />
-                </button>
+                {isTyping ? (
+                    <button 
+                        onClick={handleStop}
+                        className="absolute right-2 p-2 bg-slate-900 dark:bg-white hover:opacity-90 text-white dark:text-slate-900 rounded-lg transition-all shadow-md"
+                        title="Stop generating"
+                    >
+                        <Square size={18} fill="currentColor" />
+                    </button>
+                ) : (
+                    <button 
+                        onClick={handleSend}
+                        disabled={!input.trim() || !activeThread}
+                        className="absolute right-2 p-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg disabled:opacity-50 disabled:cursor-not-allowed transition-all shadow-md shadow-indigo-200 dark:shadow-none"
+                    >
+                        <Send size={18} />
+                    </button>
+                )}
             </div>
         </div>
+      </div>
     </div>
   );
 };
@@ -0,0 +1,113 @@
+import React from 'react';
+import { ContextReport, TOKEN_BUDGET_OPTIONS } from '../lib/chaturContext';
+import { SOURCE_KIND_LABELS, SourceKind } from '../lib/retrieval';
+
+interface ChaturContextDebugProps {
+  report: ContextReport | null;
+  budget: number;
+  onBudgetChange: (budget: number) => void;
+}
+
+const DETAIL_STYLES = {
+  focus: 'bg-indigo-100 dark:bg-indigo-900/30 text-indigo-700 dark:text-indigo-300',
+  full: 'bg-emerald-100 dark:bg-emerald-900/30 text-emerald-700 dark:text-emerald-300',
+  compact: 'bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-300',
+  omitted: 'bg-slate-100 dark:bg-slate-800 text-slate-500',
+};
+
+/** Shows what went into Chatur's last prompt and lets the user pick the token budget. */
+const ChaturContextDebug: React.FC<ChaturContextDebugProps> = ({ report, budget, onBudgetChange }) => {
+  const sections = report ? [
+    { label: 'Prompt & profile', tokens: report.tokens.fixed, color: 'bg-slate-400' },
+    { label: 'Memory', tokens: report.tokens.memory, color: 'bg-purple-500' },
+    { label: 'Recent turns', tokens: report.tokens.history, color: 'bg-indigo-500' },
+    { label: 'Notes & reports', tokens: report.tokens.passages, color: 'bg-amber-500' },
+    { label: 'Jobs', tokens: report.tokens.jobs, color: 'bg-emerald-500' },
+  ] : [];
+  const used = sections.reduce((sum, s) => sum + s.tokens, 0);
+
+  return (
+    <div className="border-b border-slate-200 dark:border-slate-800 bg-white dark:bg-slate-900 p-4 text-xs space-y-3 max-h-72 overflow-y-auto custom-scrollbar">
+      <div className="flex items-center justify-between gap-2">
+        <p className="font-bold text-slate-700 dark:text-slate-200">Context sent with the last message</p>
+        <label className="flex items-center gap-2 text-slate-500">
+          Token budget
+          <select
+            value={budget}
+            onChange={(e) => onBudgetChange(Number(e.target.value))}
+            className="px-2 py-1 bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-slate-800 rounded-lg text-slate-900 dark:text-white outline-none"
+          >
+            {TOKEN_BUDGET_OPTIONS.map(option => <option key={option} value={option}>{option.toLocaleString()}</option>)}
+          </select>
+        </label>
+      </div>
+
+      {!report ? (
+        <p className="text-slate-400">Send a message to see what Chatur receives.</p>
+      ) : (
+        <>
+          <div>
+            <div className="flex h-2 rounded-full overflow-hidden bg-slate-100 dark:bg-slate-800">
+              {sections.map(s => (
+                <div key={s.label} className={s.color} style={{ width: `${Math.min(100, (s.tokens / report.budget) * 100)}%` }} />
+              ))}
+            </div>
+            <div className="flex flex-wrap gap-x-4 gap-y-1 mt-2 text-slate-500">
+              {sections.map(s => (
+                <span key={s.label} className="flex items-center gap-1.5">
+                  <span className={`w-2 h-2 rounded-full ${s.color}`} /> {s.label}: ~{s.tokens.toLocaleString()}
+                </span>
+              ))}
+              <span className={`font-bold ${used > report.budget ? 'text-rose-600' : 'text-slate-700 dark:text-slate-200'}`}>
+                ~{used.toLocaleString()} / {report.budget.toLocaleString()} tokens
+              </span>
+            </div>
+          </div>
+
+          <p className="text-slate-500">
+            {report.recentMessages} recent message{report.recentMessages === 1 ? '' : 's'} sent verbatim, {report.summarizedMessages} older one{report.summarizedMessages === 1 ? '' : 's'} covered by memory.
+          </p>
+          {report.memory && (
+            <pre className="whitespace-pre-wrap font-sans p-2 rounded-lg bg-slate-50 dark:bg-slate-950 text-slate-600 dark:text-slate-300">{report.memory}</pre>
+          )}
+
+          {report.passages.length > 0 && (
+            <div>
+              <p className="font-medium text-slate-500 mb-1">
+                Notes & reports found by {report.retrievalMethod === 'embedding' ? 'embedding' : 'keyword'} search
+              </p>
+              <ul className="space-y-0.5 text-slate-600 dark:text-slate-300">
+                {report.passages.map((passage, i) => (
+                  <li key={i} className={`flex justify-between gap-2 ${passage.included ? '' : 'opacity-50 line-through'}`}>
+                    <span className="truncate">{passage.title} · {SOURCE_KIND_LABELS[passage.kind as SourceKind]}</span>
+                    <span className="shrink-0 text-slate-400">{passage.score} · {passage.tokens || '-'}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {report.jobs.length > 0 && (
+            <table className="w-full text-left">
+              <thead className="text-slate-400">
+                <tr><th className="font-medium py-1">Job</th><th className="font-medium">Relevance</th><th className="font-medium">Included</th><th className="font-medium text-right">Tokens</th></tr>
+              </thead>
+              <tbody className="text-slate-600 dark:text-slate-300">
+                {report.jobs.map(job => (
+                  <tr key={job.jobId} className="border-t border-slate-100 dark:border-slate-800">
+                    <td className="py-1 pr-2 truncate max-w-[12rem]">{job.label}</td>
+                    <td>{job.score}</td>
+                    <td><span className={`px-1.5 py-0.5 rounded font-medium ${DETAIL_STYLES[job.detail]}`}>{job.detail}</span></td>
+                    <td className="text-right">{job.tokens || '-'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ChaturContextDebug;
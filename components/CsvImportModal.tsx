@@ -0,0 +1,140 @@
+import React, { useState, useMemo } from 'react';
+import { useJobContext } from '../context/JobContext';
+import {
+  CSV_IMPORT_FIELDS, CSV_FIELD_LABELS, CsvColumnMapping, CsvImportField,
+  guessColumnMapping, rowsToJobs
+} from '../lib/csv';
+import { getStage } from '../lib/pipeline';
+import { FileSpreadsheet, X, AlertTriangle } from 'lucide-react';
+import { generateId } from '../lib/id';
+
+interface CsvImportModalProps {
+  fileName: string;
+  rows: string[][]; // First row is the header
+  onClose: () => void;
+}
+
+/** Column-mapping step for spreadsheet imports. Company and role are the only required columns. */
+const CsvImportModal: React.FC<CsvImportModalProps> = ({ fileName, rows, onClose }) => {
+  const { addJob, pipelineStages } = useJobContext();
+  const headers = rows[0];
+  const dataRows = useMemo(() => rows.slice(1), [rows]);
+  const [mapping, setMapping] = useState<CsvColumnMapping>(() => guessColumnMapping(headers));
+
+  const result = useMemo(() => rowsToJobs(dataRows, mapping, pipelineStages), [dataRows, mapping, pipelineStages]);
+  const isMappingComplete = mapping.company !== null && mapping.role !== null;
+
+  const handleImport = () => {
+    // addJob prepends, so add in reverse to keep the spreadsheet's order
+    [...result.jobs].reverse().forEach(job => addJob({ ...job, id: generateId() }));
+    onClose();
+  };
+
+  const selectClass = "w-full p-2 rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-950 text-sm text-slate-900 dark:text-white focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500 outline-none";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/50 backdrop-blur-sm">
+      <div className="bg-white dark:bg-slate-900 rounded-2xl shadow-2xl w-full max-w-3xl max-h-[90vh] flex flex-col animate-fade-in">
+        <div className="flex items-center justify-between p-6 border-b border-slate-100 dark:border-slate-800">
+          <div>
+            <h3 className="text-xl font-bold text-slate-900 dark:text-white">Import Applications from CSV</h3>
+            <p className="text-sm text-slate-500 dark:text-slate-400">{fileName} · {dataRows.length} rows. Match your columns to application fields.</p>
+          </div>
+          <button onClick={onClose} className="p-2 text-slate-400 hover:text-slate-600 dark:hover:text-slate-200 rounded-lg">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          {/* Column Mapping */}
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            {CSV_IMPORT_FIELDS.map((field: CsvImportField) => (
+              <div key={field} className="space-y-1">
+                <label className="block text-xs font-semibold text-slate-500 dark:text-slate-400 uppercase tracking-wider">
+                  {CSV_FIELD_LABELS[field]}{(field === 'company' || field === 'role') && <span className="text-rose-500"> *</span>}
+                </label>
+                <select
+                  className={selectClass}
+                  value={mapping[field] ?? ''}
+                  onChange={(e) => setMapping({ ...mapping, [field]: e.target.value === '' ? null : Number(e.target.value) })}
+                >
+                  <option value="">— Don't import —</option>
+                  {headers.map((header, index) => (
+                    <option key={index} value={index}>{header || `Column ${index + 1}`}</option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+
+          {/* Preview */}
+          {isMappingComplete && result.jobs.length > 0 && (
+            <div>
+              <h4 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">Preview</h4>
+              <div className="overflow-x-auto rounded-xl border border-slate-100 dark:border-slate-800">
+                <table className="w-full text-sm">
+                  <thead className="bg-slate-50 dark:bg-slate-950 text-left text-xs text-slate-500 uppercase tracking-wider">
+                    <tr>
+                      <th className="p-3">Company</th>
+                      <th className="p-3">Role</th>
+                      <th className="p-3">Status</th>
+                      <th className="p-3">Applied</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-100 dark:divide-slate-800 text-slate-700 dark:text-slate-300">
+                    {result.jobs.slice(0, 5).map((job, i) => (
+                      <tr key={i}>
+                        <td className="p-3 font-medium">{job.company}</td>
+                        <td className="p-3">{job.role}</td>
+                        <td className="p-3">{getStage(pipelineStages, job.status).name}</td>
+                        <td className="p-3">{job.dateApplied}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              {result.jobs.length > 5 && (
+                <p className="text-xs text-slate-400 mt-2">…and {result.jobs.length - 5} more.</p>
+              )}
+            </div>
+          )}
+
+          {isMappingComplete && result.skippedLines.length > 0 && (
+            <div className="flex items-start gap-2 p-4 rounded-xl bg-amber-50 dark:bg-amber-900/20 text-sm text-amber-700 dark:text-amber-300">
+              <AlertTriangle size={18} className="shrink-0 mt-0.5" />
+              <span>
+                {result.skippedLines.length} {result.skippedLines.length === 1 ? 'row has' : 'rows have'} no company or role and will be skipped
+                (row {result.skippedLines.slice(0, 10).join(', ')}{result.skippedLines.length > 10 ? ', …' : ''}).
+              </span>
+            </div>
+          )}
+
+          {isMappingComplete && result.undatedLines.length > 0 && (
+            <div className="flex items-start gap-2 p-4 rounded-xl bg-amber-50 dark:bg-amber-900/20 text-sm text-amber-700 dark:text-amber-300">
+              <AlertTriangle size={18} className="shrink-0 mt-0.5" />
+              <span>
+                {result.undatedLines.length} {result.undatedLines.length === 1 ? 'row has a date' : 'rows have dates'} that couldn't be read and will be dated today
+                (row {result.undatedLines.slice(0, 10).join(', ')}{result.undatedLines.length > 10 ? ', …' : ''}). Use YYYY-MM-DD or MM/DD/YYYY to keep them.
+              </span>
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-3 p-6 border-t border-slate-100 dark:border-slate-800">
+          <button onClick={onClose} className="px-5 py-2.5 rounded-xl text-slate-600 dark:text-slate-400 hover:bg-slate-50 dark:hover:bg-slate-800 font-medium transition-colors">
+            Cancel
+          </button>
+          <button
+            onClick={handleImport}
+            disabled={!isMappingComplete || result.jobs.length === 0}
+            className="px-5 py-2.5 rounded-xl bg-indigo-600 hover:bg-indigo-700 text-white font-medium flex items-center gap-2 transition-colors disabled:opacity-50"
+          >
+            <FileSpreadsheet size={18} /> Import {isMappingComplete ? result.jobs.length : ''} Applications
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CsvImportModal;
@@ -1,8 +1,11 @@
 import React from 'react';
 import { useJobContext } from '../context/JobContext';
 import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
-import { TrendingUp, Users, CheckCircle, FileText, XCircle, Sparkles, ArrowRight, Bot } from 'lucide-react';
+import { TrendingUp, Users, CheckCircle, Briefcase, XCircle, Sparkles, ArrowRight, Bot, Timer } from 'lucide-react';
 import { ViewState } from '../types';
+import { getAverageDaysInStage } from '../lib/statusHistory';
+import { hasInterviews } from '../lib/interviews';
+import { getStage, isInCategory, STAGE_COLORS } from '../lib/pipeline';
 
 interface DashboardProps {
   setView?: (view: ViewState) => void;
@@ -26,7 +29,7 @@ const StatCard = ({ title, value, icon: Icon, colorClass, gradient }: any) => (
 );
 
 const Dashboard: React.FC<{ setView?: (view: ViewState) => void }> = ({ setView }) => {
-  const { jobs, stats } = useJobContext();
+  const { jobs, stats, pipelineStages } = useJobContext();
 
   // Prepare chart data (Applications over last 7 days)
   const chartData = Array.from({ length: 7 }, (_, i) => {
@@ -38,11 +41,20 @@ const Dashboard: React.FC<{ setView?: (view: ViewState) => void }> = ({ setView
     return {
       name: d.toLocaleDateString('en-US', { weekday: 'short' }),
       Applications: dayJobs.length,
-      Interviews: dayJobs.filter(j => j.status === 'Interview').length,
-      Offers: dayJobs.filter(j => j.status === 'Offer' || j.status === 'Accepted').length
+      Interviews: dayJobs.filter(hasInterviews).length,
+      Offers: dayJobs.filter(j => isInCategory(pipelineStages, j, 'offer')).length
     };
   });
 
+  // Average time spent in each stage, in pipeline order (unknown stages sort last)
+  const stageOrder = (id: string) => {
+    const index = pipelineStages.findIndex(s => s.id === id);
+    return index === -1 ? pipelineStages.length : index;
+  };
+  const stageDurations = getAverageDaysInStage(jobs, pipelineStages)
+    .sort((a, b) => stageOrder(a.status) - stageOrder(b.status));
+  const longestStage = Math.max(1, ...stageDurations.map(s => s.days));
+
   return (
     <div className="space-y-8 animate-fade-in">
       
@@ -74,9 +86,9 @@ const Dashboard: React.FC<{ setView?: (view: ViewState) => void }> = ({ setView
 
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
         <StatCard 
-          title="Total Applied" 
-          value={stats.applied} 
-          icon={FileText} 
+          title="Active Pipeline" 
+          value={stats.active} 
+          icon={Briefcase} 
           colorClass="text-blue-600"
           gradient="bg-gradient-to-br from-blue-500 to-blue-700" 
         />
@@ -95,8 +107,8 @@ const Dashboard: React.FC<{ setView?: (view: ViewState) => void }> = ({ setView
           gradient="bg-gradient-to-br from-emerald-500 to-emerald-700"
         />
         <StatCard 
-          title="Rejected" 
-          value={stats.rejected} 
+          title="Closed" 
+          value={stats.closed} 
           icon={XCircle} 
           colorClass="text-rose-600"
           gradient="bg-gradient-to-br from-rose-500 to-rose-700"
@@ -175,16 +187,12 @@ const Dashboard: React.FC<{ setView?: (view: ViewState) => void }> = ({ setView
           <div className="space-y-4">
             {jobs.slice(0, 4).map(job => (
               <div key={job.id} className="flex items-start gap-3 pb-3 border-b border-slate-50 dark:border-slate-800 last:border-0 last:pb-0">
-                <div className={`mt-1 h-2 w-2 rounded-full ${
-                  job.status === 'Offer' ? 'bg-emerald-500' :
-                  job.status === 'Interview' ? 'bg-purple-500' :
-                  job.status === 'Rejected' ? 'bg-rose-500' : 'bg-blue-500'
-                }`} />
+                <div className={`mt-1 h-2 w-2 rounded-full ${STAGE_COLORS[getStage(pipelineStages, job.status).color].dot}`} />
                 <div>
                   <p className="text-sm font-semibold text-slate-800 dark:text-slate-200">{job.role}</p>
                   <p className="text-xs text-slate-500 dark:text-slate-400">{job.company}</p>
                   <span className="inline-block mt-1 px-2 py-0.5 rounded-full bg-slate-100 dark:bg-slate-800 text-[10px] font-medium text-slate-600 dark:text-slate-300">
-                    {job.status}
+                    {getStage(pipelineStages, job.status).name}
                   </span>
                 </div>
               </div>
@@ -195,6 +203,34 @@ const Dashboard: React.FC<{ setView?: (view: ViewState) => void }> = ({ setView
           </div>
         </div>
       </div>
+
+      {/* Time in Stage */}
+      <div className="bg-white dark:bg-slate-900 rounded-2xl p-6 shadow-sm border border-slate-100 dark:border-slate-800">
+        <h2 className="text-lg font-bold text-slate-800 dark:text-slate-100 mb-6 flex items-center gap-2">
+          <Timer size={20} className="text-indigo-600 dark:text-indigo-400" />
+          Average Days in Stage
+        </h2>
+        <div className="space-y-4">
+          {stageDurations.map(stage => (
+            <div key={stage.status} className="flex items-center gap-4">
+              <span className="w-24 text-sm font-medium text-slate-600 dark:text-slate-300 truncate">{getStage(pipelineStages, stage.status).name}</span>
+              <div className="flex-1 h-2.5 rounded-full bg-slate-100 dark:bg-slate-800 overflow-hidden">
+                <div
+                  className={`h-full rounded-full ${STAGE_COLORS[getStage(pipelineStages, stage.status).color].dot}`}
+                  style={{ width: `${(stage.days / longestStage) * 100}%` }}
+                />
+              </div>
+              <span className="w-28 text-right text-sm font-bold text-slate-900 dark:text-white">
+                {stage.days.toFixed(1)} days
+                <span className="block text-[10px] font-medium text-slate-400">{stage.count} {stage.count === 1 ? 'stint' : 'stints'}</span>
+              </span>
+            </div>
+          ))}
+          {stageDurations.length === 0 && (
+            <p className="text-sm text-slate-400 italic">Move applications between stages to see how long each one takes.</p>
+          )}
+        </div>
+      </div>
     </div>
   );
 };
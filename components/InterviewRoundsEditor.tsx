@@ -0,0 +1,175 @@
+import React from 'react';
+import { Contact, InterviewRound, InterviewFormat, InterviewOutcome } from '../types';
+import { INTERVIEW_FORMATS, INTERVIEW_OUTCOMES, sortRounds, toDateTimeLocal } from '../lib/interviews';
+import { Plus, Trash2, Calendar, Clock, Users } from 'lucide-react';
+import { generateId } from '../lib/id';
+
+interface InterviewRoundsEditorProps {
+  rounds: InterviewRound[];
+  contacts: Contact[];
+  onChange: (rounds: InterviewRound[]) => void;
+}
+
+const OUTCOME_STYLES: Record<InterviewOutcome, string> = {
+  Pending: 'bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300',
+  Passed: 'bg-emerald-100 dark:bg-emerald-900/30 text-emerald-700 dark:text-emerald-300',
+  Failed: 'bg-rose-100 dark:bg-rose-900/30 text-rose-700 dark:text-rose-300',
+  Cancelled: 'bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-300',
+};
+
+const InterviewRoundsEditor: React.FC<InterviewRoundsEditorProps> = ({ rounds, contacts, onChange }) => {
+  const inputClass = "w-full p-2 rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-950 text-sm text-slate-900 dark:text-white focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500 outline-none placeholder:text-slate-400";
+  const labelClass = "block text-[10px] font-semibold text-slate-500 dark:text-slate-400 mb-1 uppercase tracking-wider";
+
+  const updateRound = (id: string, fields: Partial<InterviewRound>) => {
+    onChange(rounds.map(r => r.id === id ? { ...r, ...fields } : r));
+  };
+
+  const addRound = () => {
+    // Default to the day after the latest round, at the same time
+    const last = sortRounds(rounds)[rounds.length - 1];
+    const date = last ? new Date(new Date(last.date).getTime() + 86400000) : new Date(Date.now() + 86400000);
+    onChange([...rounds, {
+      id: generateId(),
+      name: `Round ${rounds.length + 1}`,
+      date: date.toISOString(),
+      durationMinutes: 60,
+      format: 'Video',
+      interviewerIds: [],
+      outcome: 'Pending',
+    }]);
+  };
+
+  const toggleInterviewer = (round: InterviewRound, contactId: string) => {
+    const interviewerIds = round.interviewerIds.includes(contactId)
+      ? round.interviewerIds.filter(id => id !== contactId)
+      : [...round.interviewerIds, contactId];
+    updateRound(round.id, { interviewerIds });
+  };
+
+  return (
+    <div className="space-y-3">
+      {sortRounds(rounds).map((round, index) => (
+        <div key={round.id} className="p-4 bg-slate-50 dark:bg-slate-950/50 rounded-xl border border-slate-200 dark:border-slate-800 space-y-3">
+          <div className="flex items-center gap-2">
+            <span className="w-6 h-6 rounded-full bg-indigo-100 dark:bg-indigo-900/40 text-indigo-700 dark:text-indigo-300 text-xs font-bold flex items-center justify-center shrink-0">
+              {index + 1}
+            </span>
+            <input
+              className={`${inputClass} font-semibold`}
+              value={round.name}
+              onChange={(e) => updateRound(round.id, { name: e.target.value })}
+              placeholder="Round name (e.g. System Design)"
+            />
+            <span className={`px-2 py-1 rounded-full text-[10px] font-bold uppercase tracking-wider shrink-0 ${OUTCOME_STYLES[round.outcome]}`}>
+              {round.outcome}
+            </span>
+            <button
+              onClick={() => onChange(rounds.filter(r => r.id !== round.id))}
+              className="p-2 text-slate-400 hover:text-rose-500 transition-colors shrink-0"
+              title="Remove round"
+            >
+              <Trash2 size={16} />
+            </button>
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            <div className="col-span-2">
+              <label className={`${labelClass} flex items-center gap-1`}><Calendar size={10} /> Date & Time</label>
+              <input
+                type="datetime-local"
+                className={inputClass}
+                value={toDateTimeLocal(round.date)}
+                onChange={(e) => e.target.value && updateRound(round.id, { date: new Date(e.target.value).toISOString() })}
+              />
+            </div>
+            <div>
+              <label className={`${labelClass} flex items-center gap-1`}><Clock size={10} /> Minutes</label>
+              <input
+                type="number"
+                min={5}
+                step={5}
+                className={inputClass}
+                value={round.durationMinutes}
+                onChange={(e) => updateRound(round.id, { durationMinutes: Math.max(0, Number(e.target.value) || 0) })}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Format</label>
+              <select
+                className={inputClass}
+                value={round.format}
+                onChange={(e) => updateRound(round.id, { format: e.target.value as InterviewFormat })}
+              >
+                {INTERVIEW_FORMATS.map(f => <option key={f} value={f}>{f}</option>)}
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <label className={`${labelClass} flex items-center gap-1`}><Users size={10} /> Interviewers</label>
+            {contacts.length > 0 ? (
+              <div className="flex flex-wrap gap-2">
+                {contacts.map(contact => {
+                  const selected = round.interviewerIds.includes(contact.id);
+                  return (
+                    <button
+                      key={contact.id}
+                      onClick={() => toggleInterviewer(round, contact.id)}
+                      aria-pressed={selected}
+                      className={`px-2.5 py-1 rounded-full text-xs font-medium border transition-colors ${
+                        selected
+                          ? 'bg-indigo-600 border-indigo-600 text-white'
+                          : 'bg-white dark:bg-slate-900 border-slate-200 dark:border-slate-700 text-slate-600 dark:text-slate-300 hover:border-indigo-400'
+                      }`}
+                    >
+                      {contact.name}
+                    </button>
+                  );
+                })}
+              </div>
+            ) : (
+              <p className="text-xs text-slate-400 italic">Add people in the People tab to tag them as interviewers.</p>
+            )}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+            <div>
+              <label className={labelClass}>Outcome</label>
+              <select
+                className={inputClass}
+                value={round.outcome}
+                onChange={(e) => updateRound(round.id, { outcome: e.target.value as InterviewOutcome })}
+              >
+                {INTERVIEW_OUTCOMES.map(o => <option key={o} value={o}>{o}</option>)}
+              </select>
+            </div>
+            <div className="md:col-span-3">
+              <label className={labelClass}>Feedback</label>
+              <textarea
+                className={`${inputClass} min-h-[38px] resize-y`}
+                rows={1}
+                value={round.feedback || ''}
+                onChange={(e) => updateRound(round.id, { feedback: e.target.value })}
+                placeholder="How did it go? What did they ask?"
+              />
+            </div>
+          </div>
+        </div>
+      ))}
+
+      {rounds.length === 0 && (
+        <p className="text-xs text-slate-400 italic">No rounds scheduled yet.</p>
+      )}
+
+      <button
+        onClick={addRound}
+        className="w-full py-2.5 rounded-xl border border-dashed border-slate-300 dark:border-slate-700 text-sm font-medium text-slate-500 hover:text-indigo-600 hover:border-indigo-400 dark:hover:text-indigo-400 transition-colors flex items-center justify-center gap-2"
+      >
+        <Plus size={16} /> Add Round
+      </button>
+    </div>
+  );
+};
+
+export default InterviewRoundsEditor;
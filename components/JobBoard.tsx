@@ -0,0 +1,171 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { useJobContext } from '../context/JobContext';
+import { Job, JobStatus } from '../types';
+import { getStage, STAGE_COLORS } from '../lib/pipeline';
+import { getNextRound } from '../lib/interviews';
+import { MapPin, IndianRupee, Calendar, ChevronLeft, ChevronRight } from 'lucide-react';
+
+interface JobBoardProps {
+  jobs: Job[];
+  onOpenJob: (job: Job) => void;
+}
+
+const JobBoard: React.FC<JobBoardProps> = ({ jobs, onOpenJob }) => {
+  const { pipelineStages, updateJob } = useJobContext();
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<JobStatus | null>(null);
+  const [announcement, setAnnouncement] = useState('');
+  const [collapsed, setCollapsed] = useState<Record<string, boolean>>({});
+  const cardRefs = useRef<Record<string, HTMLDivElement | null>>({});
+  const focusAfterMove = useRef<string | null>(null);
+
+  // Jobs whose stage was deleted still need a column so they stay reachable
+  const orphanStatuses = Array.from(new Set(jobs.map(j => j.status)))
+    .filter(status => !pipelineStages.some(s => s.id === status));
+  const columns = [...pipelineStages, ...orphanStatuses.map(status => getStage(pipelineStages, status))];
+
+  useEffect(() => {
+    if (focusAfterMove.current) {
+      cardRefs.current[focusAfterMove.current]?.focus();
+      focusAfterMove.current = null;
+    }
+  });
+
+  const moveJob = (job: Job, status: JobStatus) => {
+    if (job.status === status) return;
+    const stage = getStage(pipelineStages, status);
+    updateJob(job.id, { status });
+    setCollapsed(prev => ({ ...prev, [status]: false }));
+    setAnnouncement(`${job.role} at ${job.company} moved to ${stage.name}.`);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent, job: Job) => {
+    if (e.key === 'Enter' || e.key === ' ') {
+      e.preventDefault();
+      onOpenJob(job);
+      return;
+    }
+    if (e.key !== 'ArrowLeft' && e.key !== 'ArrowRight') return;
+    e.preventDefault();
+    const index = columns.findIndex(c => c.id === job.status);
+    const target = columns[index + (e.key === 'ArrowLeft' ? -1 : 1)];
+    if (!target) return;
+    focusAfterMove.current = job.id;
+    moveJob(job, target.id);
+  };
+
+  const handleDrop = (e: React.DragEvent, status: JobStatus) => {
+    e.preventDefault();
+    const job = jobs.find(j => j.id === e.dataTransfer.getData('text/plain'));
+    if (job) moveJob(job, status);
+    setDraggingId(null);
+    setDropTarget(null);
+  };
+
+  return (
+    <div className="flex gap-4 overflow-x-auto pb-4 -mx-1 px-1">
+      <p className="sr-only" aria-live="polite">{announcement}</p>
+      {columns.map(stage => {
+        const columnJobs = jobs.filter(j => j.status === stage.id);
+        // Closed stages pile up without needing attention, so they start collapsed
+        const isCollapsed = collapsed[stage.id] ?? stage.category === 'closed';
+        const isTarget = dropTarget === stage.id && draggingId !== null;
+
+        return (
+          <section
+            key={stage.id}
+            aria-label={`${stage.name} (${columnJobs.length})`}
+            onDragOver={(e) => { e.preventDefault(); setDropTarget(stage.id); }}
+            onDragLeave={() => setDropTarget(prev => prev === stage.id ? null : prev)}
+            onDrop={(e) => handleDrop(e, stage.id)}
+            className={`flex-shrink-0 rounded-xl border transition-all ${
+              isCollapsed ? 'w-14' : 'w-72'
+            } ${
+              isTarget ? 'border-indigo-400 bg-indigo-50/60 dark:bg-indigo-900/20' : 'border-slate-100 dark:border-slate-800 bg-slate-50 dark:bg-slate-900/60'
+            }`}
+          >
+            <button
+              onClick={() => setCollapsed(prev => ({ ...prev, [stage.id]: !isCollapsed }))}
+              aria-expanded={!isCollapsed}
+              title={isCollapsed ? `Expand ${stage.name}` : `Collapse ${stage.name}`}
+              className={`w-full flex items-center gap-2 p-3 text-left ${isCollapsed ? 'flex-col' : ''}`}
+            >
+              <span className={`h-2.5 w-2.5 rounded-full shrink-0 ${STAGE_COLORS[stage.color].dot}`} />
+              <span className={`text-sm font-bold text-slate-700 dark:text-slate-200 truncate ${isCollapsed ? '[writing-mode:vertical-rl]' : 'flex-1'}`}>
+                {stage.name}
+              </span>
+              <span className="px-2 py-0.5 rounded-full bg-white dark:bg-slate-800 text-xs font-semibold text-slate-500 dark:text-slate-400">
+                {columnJobs.length}
+              </span>
+            </button>
+
+            {!isCollapsed && (
+              <div className="px-3 pb-3 space-y-3 min-h-[120px]">
+                {columnJobs.map(job => {
+                  const index = columns.findIndex(c => c.id === job.status);
+                  return (
+                    <div
+                      key={job.id}
+                      ref={el => { cardRefs.current[job.id] = el; }}
+                      tabIndex={0}
+                      draggable
+                      role="button"
+                      aria-roledescription="Draggable application"
+                      aria-label={`${job.role} at ${job.company}, ${stage.name}. Use left and right arrow keys to change stage.`}
+                      onDragStart={(e) => { e.dataTransfer.setData('text/plain', job.id); e.dataTransfer.effectAllowed = 'move'; setDraggingId(job.id); }}
+                      onDragEnd={() => { setDraggingId(null); setDropTarget(null); }}
+                      onClick={() => onOpenJob(job)}
+                      onKeyDown={(e) => handleKeyDown(e, job)}
+                      className={`group bg-white dark:bg-slate-900 p-4 rounded-lg shadow-sm border border-slate-100 dark:border-slate-800 cursor-grab active:cursor-grabbing hover:shadow-md focus:outline-none focus:ring-2 focus:ring-indigo-500 transition-all ${
+                        draggingId === job.id ? 'opacity-50' : ''
+                      }`}
+                    >
+                      <h4 className="font-bold text-sm text-slate-900 dark:text-white group-hover:text-indigo-600 dark:group-hover:text-indigo-400 transition-colors">{job.role}</h4>
+                      <p className="text-xs text-slate-600 dark:text-slate-400 font-medium mb-2">{job.company}</p>
+                      <div className="flex flex-wrap gap-x-3 gap-y-1 text-[11px] text-slate-500 dark:text-slate-400">
+                        <span className="flex items-center gap-1"><MapPin size={12}/> {job.location || 'Remote'}</span>
+                        {job.salary && <span className="flex items-center gap-1"><IndianRupee size={12}/> {job.salary}</span>}
+                        {getNextRound([job]) && (
+                          <span className="flex items-center gap-1 text-purple-600 dark:text-purple-400 font-medium">
+                            <Calendar size={12} /> {new Date(getNextRound([job])!.round.date).toLocaleDateString()}
+                          </span>
+                        )}
+                      </div>
+                      <div className="flex justify-between mt-3 opacity-0 group-hover:opacity-100 group-focus:opacity-100 transition-opacity">
+                        <button
+                          tabIndex={-1}
+                          disabled={index <= 0}
+                          onClick={(e) => { e.stopPropagation(); moveJob(job, columns[index - 1].id); }}
+                          className="p-1 rounded text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 dark:hover:bg-indigo-900/20 disabled:invisible"
+                          title={index > 0 ? `Move to ${columns[index - 1].name}` : undefined}
+                        >
+                          <ChevronLeft size={14} />
+                        </button>
+                        <button
+                          tabIndex={-1}
+                          disabled={index >= columns.length - 1}
+                          onClick={(e) => { e.stopPropagation(); moveJob(job, columns[index + 1].id); }}
+                          className="p-1 rounded text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 dark:hover:bg-indigo-900/20 disabled:invisible"
+                          title={index < columns.length - 1 ? `Move to ${columns[index + 1].name}` : undefined}
+                        >
+                          <ChevronRight size={14} />
+                        </button>
+                      </div>
+                    </div>
+                  );
+                })}
+                {columnJobs.length === 0 && (
+                  <p className="text-xs text-center text-slate-400 italic py-6 border border-dashed border-slate-200 dark:border-slate-700 rounded-lg">
+                    Drop applications here
+                  </p>
+                )}
+              </div>
+            )}
+          </section>
+        );
+      })}
+    </div>
+  );
+};
+
+export default JobBoard;
@@ -1,24 +1,35 @@
-import React, { useState } from 'react';
+import React, { useState, useRef } from 'react';
 import { useJobContext } from '../context/JobContext';
-import { Job, JobStatus, Attachment, ChecklistItem, InterviewLog, Contact, Interaction } from '../types';
+import { Job, JobStatus, Attachment, ChecklistItem, InterviewLog, Contact, Interaction, ViewState } from '../types';
 import { generateCoverLetter } from '../services/geminiService';
+import { getStageStints } from '../lib/statusHistory';
+import { getFirstStage, getStage, STAGE_COLORS } from '../lib/pipeline';
+import JobBoard from './JobBoard';
+import InterviewRoundsEditor from './InterviewRoundsEditor';
+import CsvImportModal from './CsvImportModal';
+import { getNextRound } from '../lib/interviews';
+import { parseCsv, jobsToCsv } from '../lib/csv';
+import { sortThreads } from '../lib/chatThreads';
+import { latestSnapshot, snapshotLabel, SNAPSHOT_REASON_LABELS } from '../lib/resume';
+import ResumeSnapshotViewer from './ResumeSnapshotViewer';
 import { 
   Plus, Search, MapPin, IndianRupee, Sparkles, X, Edit2, Trash2, 
   Loader2, Copy, FileText, Briefcase, StickyNote, Paperclip, 
-  CheckSquare, Square, Send, Calendar, Users, Phone, Mail, Linkedin
+  CheckSquare, Square, Send, Calendar, Users, Phone, Mail, Linkedin, History,
+  LayoutList, Kanban, Download, Upload, MessageCircle, Eye
 } from 'lucide-react';
+import { generateId } from '../lib/id';
 
-const generateId = () => {
-  if (typeof crypto !== 'undefined' && crypto.randomUUID) {
-    return crypto.randomUUID();
-  }
-  return Math.random().toString(36).substring(2) + Date.now().toString(36);
-};
-
-const JobList: React.FC = () => {
-  const { jobs, addJob, updateJob, deleteJob, resume } = useJobContext();
+const JobList: React.FC<{ setView?: (view: ViewState) => void }> = ({ setView }) => {
+  const {
+    jobs, addJob, updateJob, deleteJob, resume, pipelineStages,
+    chatThreads, setActiveThreadId, createChatThread, resumeLibrary, resumeSnapshots
+  } = useJobContext();
   const [filter, setFilter] = useState<JobStatus | 'All'>('All');
   const [search, setSearch] = useState('');
+  const [csvImport, setCsvImport] = useState<{ fileName: string; rows: string[][] } | null>(null);
+  const csvInputRef = useRef<HTMLInputElement>(null);
+  const [viewMode, setViewMode] = useState<'list' | 'board'>(() => localStorage.getItem('jobListView') === 'board' ? 'board' : 'list');
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingJob, setEditingJob] = useState<Job | null>(null);
   
@@ -29,16 +40,15 @@ const JobList: React.FC = () => {
   const [formData, setFormData] = useState<Partial<Job>>({
     company: '',
     role: '',
-    status: 'Applied',
+    status: getFirstStage(pipelineStages, 'active').id,
     salary: '',
     location: '',
     description: '',
     coverLetter: '',
-    resumeVersion: '',
     notes: '',
     questions: '',
     attachments: [],
-    interviewDate: '',
+    interviewRounds: [],
     checklist: [],
     interviewLogs: [],
     contacts: []
@@ -54,9 +64,52 @@ const JobList: React.FC = () => {
   const [newAttachmentType, setNewAttachmentType] = useState<Attachment['type']>('Resume');
   const [newChecklistItem, setNewChecklistItem] = useState('');
   const [newLogNote, setNewLogNote] = useState('');
+  const [isViewingSnapshot, setIsViewingSnapshot] = useState(false);
+
+  const handleCsvFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const rows = parseCsv(await file.text());
+    if (rows.length < 2) {
+      alert("That file needs a header row and at least one application.");
+      return;
+    }
+    setCsvImport({ fileName: file.name, rows });
+  };
+
+  // Exports exactly what is on screen, so filters double as report builders
+  const handleExportCsv = () => {
+    const blob = new Blob([jobsToCsv(filteredJobs, pipelineStages)], { type: 'text/csv;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const anchor = document.createElement('a');
+    anchor.href = url;
+    anchor.download = `JobJumperAI_Applications_${new Date().toISOString().split('T')[0]}.csv`;
+    document.body.appendChild(anchor);
+    anchor.click();
+    anchor.remove();
+    URL.revokeObjectURL(url);
+  };
+
+  // Picks up the job's latest Chatur thread, or starts one
+  const handleChatAboutJob = (job: Job) => {
+    const existing = sortThreads(chatThreads).find(t => t.jobId === job.id);
+    if (existing) {
+      setActiveThreadId(existing.id);
+    } else {
+      createChatThread({ title: `${job.role} at ${job.company}`, jobId: job.id });
+    }
+    setView?.('chat');
+  };
+
+  const changeViewMode = (mode: 'list' | 'board') => {
+    setViewMode(mode);
+    localStorage.setItem('jobListView', mode);
+  };
 
   const filteredJobs = jobs.filter(job => {
-    const matchesFilter = filter === 'All' || job.status === filter;
+    // The board's columns already split jobs by status
+    const matchesFilter = viewMode === 'board' || filter === 'All' || job.status === filter;
     const company = job.company || '';
     const role = job.role || '';
     const matchesSearch = company.toLowerCase().includes(search.toLowerCase()) || 
@@ -64,9 +117,12 @@ const JobList: React.FC = () => {
     return matchesFilter && matchesSearch;
   });
 
+  const linkedSnapshot = resumeSnapshots.find(s => s.id === formData.resumeSnapshotId);
+
   const handleOpenModal = (job?: Job) => {
     setActiveTab('info');
     setIsAddingContact(false);
+    setIsViewingSnapshot(false);
     if (job) {
       setEditingJob(job);
       setFormData(JSON.parse(JSON.stringify(job))); // Deep copy to prevent mutation issues
@@ -75,18 +131,19 @@ const JobList: React.FC = () => {
       setFormData({
         company: '',
         role: '',
-        status: 'Applied',
+        status: getFirstStage(pipelineStages, 'active').id,
         salary: '',
         location: '',
         description: '',
         coverLetter: '',
         dateApplied: new Date().toISOString().split('T')[0],
         origin: 'application',
-        resumeVersion: '',
+        // Most applications go out with the latest version of the resume being worked on
+        resumeSnapshotId: latestSnapshot(resumeSnapshots, resumeLibrary.activeId)?.id,
         notes: '',
         questions: '',
         attachments: [],
-        interviewDate: '',
+        interviewRounds: [],
         checklist: [],
         interviewLogs: [],
         contacts: []
@@ -108,6 +165,7 @@ const JobList: React.FC = () => {
         attachments: formData.attachments || [],
         checklist: formData.checklist || [],
         interviewLogs: formData.interviewLogs || [],
+        interviewRounds: formData.interviewRounds || [],
         contacts: formData.contacts || []
       });
     }
@@ -117,14 +175,20 @@ const JobList: React.FC = () => {
   const handleGenerateCoverLetter = async () => {
     if (!formData.role || !formData.company) return;
     setIsGenerating(true);
-    const letter = await generateCoverLetter(
-      formData.role, 
-      formData.company, 
-      resume.skills, 
-      formData.description
-    );
-    setFormData(prev => ({ ...prev, coverLetter: letter }));
-    setIsGenerating(false);
+    try {
+      const letter = await generateCoverLetter(
+        formData.role, 
+        formData.company, 
+        resume.skills, 
+        formData.description
+      );
+      setFormData(prev => ({ ...prev, coverLetter: letter }));
+    } catch (e: any) {
+      console.error(e);
+      alert(`Failed to generate cover letter. ${e.message || 'Please try again.'}`);
+    } finally {
+      setIsGenerating(false);
+    }
   };
 
   const addAttachment = () => {
@@ -214,7 +278,8 @@ const JobList: React.FC = () => {
   const removeContact = (id: string) => {
     setFormData(prev => ({
         ...prev,
-        contacts: prev.contacts?.filter(c => c.id !== id)
+        contacts: prev.contacts?.filter(c => c.id !== id),
+        interviewRounds: prev.interviewRounds?.map(r => ({ ...r, interviewerIds: r.interviewerIds.filter(cid => cid !== id) }))
     }));
   };
 
@@ -251,15 +316,41 @@ const JobList: React.FC = () => {
     <div className="space-y-6 pb-20">
       <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
         <h2 className="text-2xl font-bold text-slate-800 dark:text-white">My Applications</h2>
-        <button 
-          onClick={() => handleOpenModal()}
-          className="bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2.5 rounded-xl font-medium flex items-center gap-2 shadow-lg shadow-indigo-200 dark:shadow-none transition-all w-full md:w-auto justify-center"
-        >
-          <Plus size={18} />
-          Add Application
-        </button>
+        <div className="flex flex-wrap gap-2">
+          <input type="file" ref={csvInputRef} className="hidden" accept=".csv,text/csv" onChange={handleCsvFile} />
+          <button
+            onClick={() => csvInputRef.current?.click()}
+            className="px-4 py-2.5 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl text-sm font-medium text-slate-700 dark:text-slate-200 hover:bg-slate-50 dark:hover:bg-slate-700 transition-colors flex items-center gap-2"
+            title="Import applications from a CSV file"
+          >
+            <Upload size={16} /> Import CSV
+          </button>
+          <button
+            onClick={handleExportCsv}
+            disabled={filteredJobs.length === 0}
+            className="px-4 py-2.5 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl text-sm font-medium text-slate-700 dark:text-slate-200 hover:bg-slate-50 dark:hover:bg-slate-700 transition-colors flex items-center gap-2 disabled:opacity-50"
+            title="Export the applications shown below"
+          >
+            <Download size={16} /> Export CSV
+          </button>
+          <button 
+            onClick={() => handleOpenModal()}
+            className="bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2.5 rounded-xl font-medium flex items-center gap-2 shadow-lg shadow-indigo-200 dark:shadow-none transition-all w-full md:w-auto justify-center"
+          >
+            <Plus size={18} />
+            Add Application
+          </button>
+        </div>
       </div>
 
+      {csvImport && (
+        <CsvImportModal fileName={csvImport.fileName} rows={csvImport.rows} onClose={() => setCsvImport(null)} />
+      )}
+
+      {isModalOpen && isViewingSnapshot && linkedSnapshot && (
+        <ResumeSnapshotViewer snapshot={linkedSnapshot} onClose={() => setIsViewingSnapshot(false)} />
+      )}
+
       {/* Filters */}
       <div className="flex flex-col sm:flex-row gap-4 bg-white dark:bg-slate-900 p-4 rounded-xl shadow-sm border border-slate-100 dark:border-slate-800 transition-colors">
         <div className="relative flex-1">
@@ -272,44 +363,63 @@ const JobList: React.FC = () => {
             onChange={(e) => setSearch(e.target.value)}
           />
         </div>
-        <select 
-          className="px-4 py-2 rounded-lg bg-slate-50 dark:bg-slate-800 border-none focus:ring-2 focus:ring-indigo-500 text-sm text-slate-700 dark:text-slate-200 cursor-pointer"
-          value={filter}
-          onChange={(e) => setFilter(e.target.value as any)}
-        >
-          <option value="All">All Status</option>
-          <option value="Applied">Applied</option>
-          <option value="Interview">Interview</option>
-          <option value="Offer">Offer</option>
-          <option value="Rejected">Rejected</option>
-          <option value="Accepted">Accepted</option>
-        </select>
+        {viewMode === 'list' && (
+          <select 
+            className="px-4 py-2 rounded-lg bg-slate-50 dark:bg-slate-800 border-none focus:ring-2 focus:ring-indigo-500 text-sm text-slate-700 dark:text-slate-200 cursor-pointer"
+            value={filter}
+            onChange={(e) => setFilter(e.target.value as any)}
+          >
+            <option value="All">All Status</option>
+            {pipelineStages.map(stage => (
+              <option key={stage.id} value={stage.id}>{stage.name}</option>
+            ))}
+          </select>
+        )}
+        <div className="flex rounded-lg bg-slate-50 dark:bg-slate-800 p-1" role="group" aria-label="View mode">
+          <button
+            onClick={() => changeViewMode('list')}
+            aria-pressed={viewMode === 'list'}
+            title="List view"
+            className={`p-1.5 rounded-md transition-colors ${viewMode === 'list' ? 'bg-white dark:bg-slate-700 text-indigo-600 dark:text-indigo-400 shadow-sm' : 'text-slate-400 hover:text-slate-600 dark:hover:text-slate-300'}`}
+          >
+            <LayoutList size={18} />
+          </button>
+          <button
+            onClick={() => changeViewMode('board')}
+            aria-pressed={viewMode === 'board'}
+            title="Board view"
+            className={`p-1.5 rounded-md transition-colors ${viewMode === 'board' ? 'bg-white dark:bg-slate-700 text-indigo-600 dark:text-indigo-400 shadow-sm' : 'text-slate-400 hover:text-slate-600 dark:hover:text-slate-300'}`}
+          >
+            <Kanban size={18} />
+          </button>
+        </div>
       </div>
 
+      {/* Board View */}
+      {viewMode === 'board' && (
+        <JobBoard jobs={filteredJobs} onOpenJob={handleOpenModal} />
+      )}
+
       {/* Job List */}
+      {viewMode === 'list' && (
       <div className="grid grid-cols-1 gap-4">
         {filteredJobs.map(job => (
           <div key={job.id} className="bg-white dark:bg-slate-900 p-5 rounded-xl shadow-sm border border-slate-100 dark:border-slate-800 hover:shadow-md transition-all flex flex-col md:flex-row gap-4 md:items-center justify-between group">
             <div className="flex-1 cursor-pointer" onClick={() => handleOpenModal(job)}>
               <div className="flex items-center gap-3 mb-1">
                 <h3 className="text-lg font-bold text-slate-900 dark:text-white group-hover:text-indigo-600 dark:group-hover:text-indigo-400 transition-colors">{job.role}</h3>
-                <span className={`px-2.5 py-0.5 rounded-full text-xs font-semibold ${
-                  job.status === 'Applied' ? 'bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300' :
-                  job.status === 'Interview' ? 'bg-purple-100 dark:bg-purple-900/30 text-purple-700 dark:text-purple-300' :
-                  job.status === 'Offer' || job.status === 'Accepted' ? 'bg-emerald-100 dark:bg-emerald-900/30 text-emerald-700 dark:text-emerald-300' :
-                  'bg-slate-100 dark:bg-slate-800 text-slate-700 dark:text-slate-300'
-                }`}>
-                  {job.status}
+                <span className={`px-2.5 py-0.5 rounded-full text-xs font-semibold ${STAGE_COLORS[getStage(pipelineStages, job.status).color].badge}`}>
+                  {getStage(pipelineStages, job.status).name}
                 </span>
               </div>
               <p className="text-slate-600 dark:text-slate-400 font-medium mb-2">{job.company}</p>
               <div className="flex flex-wrap gap-4 text-xs text-slate-500 dark:text-slate-400">
                 <span className="flex items-center gap-1"><MapPin size={14}/> {job.location || 'Remote'}</span>
                 {job.salary && <span className="flex items-center gap-1"><IndianRupee size={14}/> {job.salary}</span>}
-                {job.interviewDate && (
+                {getNextRound([job]) && (
                   <span className="flex items-center gap-1 text-purple-600 dark:text-purple-400 font-medium">
                     <Calendar size={14} /> 
-                    {new Date(job.interviewDate).toLocaleDateString()}
+                    {getNextRound([job])!.round.name} · {new Date(getNextRound([job])!.round.date).toLocaleDateString()}
                   </span>
                 )}
                 {job.contacts && job.contacts.length > 0 && (
@@ -319,6 +429,15 @@ const JobList: React.FC = () => {
             </div>
             
             <div className="flex items-center gap-2 border-t md:border-t-0 pt-3 md:pt-0 border-slate-100 dark:border-slate-800 justify-end md:justify-start">
+              {setView && (
+                <button
+                  onClick={() => handleChatAboutJob(job)}
+                  className="p-2 text-slate-400 hover:text-indigo-600 dark:hover:text-indigo-400 hover:bg-indigo-50 dark:hover:bg-indigo-900/20 rounded-lg transition-colors"
+                  title="Chat with Chatur about this job"
+                >
+                  <MessageCircle size={18} />
+                </button>
+              )}
               <button 
                 onClick={() => handleOpenModal(job)}
                 className="p-2 text-slate-400 hover:text-indigo-600 dark:hover:text-indigo-400 hover:bg-indigo-50 dark:hover:bg-indigo-900/20 rounded-lg transition-colors"
@@ -341,6 +460,7 @@ const JobList: React.FC = () => {
           </div>
         )}
       </div>
+      )}
 
       {/* Expanded Modal - Full screen on mobile */}
       {isModalOpen && (
@@ -422,11 +542,12 @@ const JobList: React.FC = () => {
                         value={formData.status}
                         onChange={(e) => setFormData({...formData, status: e.target.value as any})}
                       >
-                        <option value="Applied">Applied</option>
-                        <option value="Interview">Interview</option>
-                        <option value="Offer">Offer</option>
-                        <option value="Accepted">Accepted</option>
-                        <option value="Rejected">Rejected</option>
+                        {pipelineStages.map(stage => (
+                          <option key={stage.id} value={stage.id}>{stage.name}</option>
+                        ))}
+                        {formData.status && !pipelineStages.some(s => s.id === formData.status) && (
+                          <option value={formData.status}>{formData.status}</option>
+                        )}
                       </select>
                     </div>
                     <div className="space-y-1">
@@ -456,16 +577,42 @@ const JobList: React.FC = () => {
                         onChange={(e) => setFormData({...formData, dateApplied: e.target.value})}
                       />
                     </div>
-                    <div className="space-y-1">
-                      <label className={labelClass}>Next Interview Date</label>
-                      <input 
-                        type="datetime-local"
-                        className={inputClass}
-                        value={formData.interviewDate}
-                        onChange={(e) => setFormData({...formData, interviewDate: e.target.value})}
-                      />
-                    </div>
                   </div>
+
+                  {/* Interview Rounds */}
+                  <div className="space-y-2">
+                    <label className={`${labelClass} flex items-center gap-1.5`}><Calendar size={12} /> Interview Rounds</label>
+                    <InterviewRoundsEditor
+                      rounds={formData.interviewRounds || []}
+                      contacts={formData.contacts || []}
+                      onChange={(interviewRounds) => setFormData(prev => ({ ...prev, interviewRounds }))}
+                    />
+                  </div>
+
+                  {/* Status Timeline */}
+                  {editingJob && (
+                    <div className="bg-white dark:bg-slate-900 p-4 rounded-xl border border-slate-200 dark:border-slate-800">
+                      <label className={`${labelClass} flex items-center gap-1.5`}><History size={12} /> Status Timeline</label>
+                      <div className="mt-3 space-y-0">
+                        {getStageStints(jobs.find(j => j.id === editingJob.id) || editingJob).map((stint, i, all) => (
+                          <div key={`${stint.status}-${stint.start}`} className="flex gap-3">
+                            <div className="flex flex-col items-center">
+                              <div className={`h-3 w-3 rounded-full mt-1 ${STAGE_COLORS[getStage(pipelineStages, stint.status).color].dot} ${stint.end === null ? 'ring-4 ring-indigo-100 dark:ring-indigo-900/40' : ''}`} />
+                              {i < all.length - 1 && <div className="w-px flex-1 bg-slate-200 dark:bg-slate-700 my-1" />}
+                            </div>
+                            <div className="pb-4">
+                              <p className="text-sm font-semibold text-slate-800 dark:text-slate-200">{getStage(pipelineStages, stint.status).name}</p>
+                              <p className="text-xs text-slate-500 dark:text-slate-400">
+                                {new Date(stint.start).toLocaleDateString()}
+                                {' · '}
+                                {stint.end === null ? `${Math.floor(stint.days)} days so far` : `${Math.round(stint.days)} days`}
+                              </p>
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
                 </div>
               )}
 
@@ -740,16 +887,37 @@ const JobList: React.FC = () => {
                   
                   {/* Resume Version Tracker */}
                   <div className="bg-white dark:bg-slate-900 p-4 rounded-xl border border-slate-200 dark:border-slate-800">
-                    <label className={labelClass}>Resume Version Used</label>
+                    <label className={labelClass}>Resume Version Sent</label>
                     <div className="flex gap-2">
-                      <input 
+                      <select
                         className={inputClass}
-                        value={formData.resumeVersion}
-                        onChange={(e) => setFormData({...formData, resumeVersion: e.target.value})}
-                        placeholder="e.g. Frontend_Resume_v2_Google_Specific"
-                      />
+                        value={formData.resumeSnapshotId || ''}
+                        onChange={(e) => setFormData({...formData, resumeSnapshotId: e.target.value || undefined})}
+                      >
+                        <option value="">Not linked</option>
+                        {formData.resumeSnapshotId && !linkedSnapshot && <option value={formData.resumeSnapshotId}>Unavailable version</option>}
+                        {resumeSnapshots.map(s => (
+                          <option key={s.id} value={s.id}>
+                            {snapshotLabel(s)} · {SNAPSHOT_REASON_LABELS[s.reason]} {new Date(s.date).toLocaleDateString()}{s.note ? ` · ${s.note}` : ''}
+                          </option>
+                        ))}
+                      </select>
+                      <button
+                        onClick={() => setIsViewingSnapshot(true)}
+                        disabled={!linkedSnapshot}
+                        className="flex items-center gap-1.5 bg-indigo-50 dark:bg-indigo-900/30 text-indigo-700 dark:text-indigo-300 px-4 rounded-lg text-sm font-medium hover:bg-indigo-100 dark:hover:bg-indigo-900/50 transition-colors disabled:opacity-50"
+                      >
+                        <Eye size={16} /> View
+                      </button>
                     </div>
-                    <p className="text-xs text-slate-400 mt-2">Track exactly which resume file you sent for this application.</p>
+                    <p className="text-xs text-slate-400 mt-2">
+                      {resumeSnapshots.length === 0
+                        ? 'Use "Save Version" in the Resume Builder to keep a copy you can link here.'
+                        : 'Links the exact copy of your resume you sent for this application.'}
+                    </p>
+                    {formData.resumeVersion && (
+                      <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">Noted before versions were tracked: <span className="font-medium">{formData.resumeVersion}</span></p>
+                    )}
                   </div>
 
                   {/* Documents Repository */}
@@ -1,5 +1,6 @@
 import React, { useState, useMemo, useEffect } from 'react';
 import { useJobContext } from '../context/JobContext';
+import { getFirstStage, getStage, isInCategory } from '../lib/pipeline';
 import { generateInterviewGuide, generateNegotiationStrategy } from '../services/geminiService';
 import { 
   Search, Plus, MapPin, Calendar, IndianRupee, Trash2, X, 
@@ -8,17 +9,12 @@ import {
 } from 'lucide-react';
 import ReactMarkdown from 'react-markdown';
 import { Job } from '../types';
-
-const generateId = () => {
-  if (typeof crypto !== 'undefined' && crypto.randomUUID) {
-    return crypto.randomUUID();
-  }
-  return Math.random().toString(36).substring(2) + Date.now().toString(36);
-};
+import { generateId } from '../lib/id';
 
 const Offers: React.FC = () => {
-  const { jobs, deleteJob, addJob, updateJob } = useJobContext();
-  const offers = jobs.filter(j => j.status === 'Offer' || j.status === 'Accepted');
+  const { jobs, deleteJob, addJob, updateJob, pipelineStages } = useJobContext();
+  const offers = jobs.filter(j => isInCategory(pipelineStages, j, 'offer'));
+  const offerStageId = getFirstStage(pipelineStages, 'offer').id;
   
   const [selectedOfferId, setSelectedOfferId] = useState<string | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
@@ -38,7 +34,6 @@ const Offers: React.FC = () => {
     salary: '',
     location: '',
     description: '',
-    status: 'Offer'
   });
 
   const selectedJob = useMemo(() => 
@@ -64,15 +59,21 @@ const Offers: React.FC = () => {
     const jobId = selectedJob.id;
     setLoading(prev => ({ ...prev, [`int_${jobId}`]: true }));
     
-    const guide = await generateInterviewGuide(
-        selectedJob.role, 
-        selectedJob.company, 
-        selectedJob.description
-    );
-    
-    // Persist to Job Context
-    updateJob(jobId, { interviewGuide: guide });
-    setLoading(prev => ({ ...prev, [`int_${jobId}`]: false }));
+    try {
+        const guide = await generateInterviewGuide(
+            selectedJob.role, 
+            selectedJob.company, 
+            selectedJob.description
+        );
+        
+        // Persist to Job Context
+        updateJob(jobId, { interviewGuide: guide });
+    } catch (e: any) {
+        console.error(e);
+        alert(`Failed to generate interview guide. ${e.message || 'Please try again.'}`);
+    } finally {
+        setLoading(prev => ({ ...prev, [`int_${jobId}`]: false }));
+    }
   };
 
   const handleGenerateNegotiation = async (e?: React.MouseEvent) => {
@@ -82,16 +83,22 @@ const Offers: React.FC = () => {
     const jobId = selectedJob.id;
     setLoading(prev => ({ ...prev, [`neg_${jobId}`]: true }));
     
-    const strategy = await generateNegotiationStrategy(
-        selectedJob.role, 
-        selectedJob.company, 
-        selectedJob.salary || "Not specified",
-        selectedJob.description
-    );
-    
-    // Persist to Job Context
-    updateJob(jobId, { negotiationStrategy: strategy });
-    setLoading(prev => ({ ...prev, [`neg_${jobId}`]: false }));
+    try {
+        const strategy = await generateNegotiationStrategy(
+            selectedJob.role, 
+            selectedJob.company, 
+            selectedJob.salary || "Not specified",
+            selectedJob.description
+        );
+        
+        // Persist to Job Context
+        updateJob(jobId, { negotiationStrategy: strategy });
+    } catch (e: any) {
+        console.error(e);
+        alert(`Failed to generate negotiation strategy. ${e.message || 'Please try again.'}`);
+    } finally {
+        setLoading(prev => ({ ...prev, [`neg_${jobId}`]: false }));
+    }
   };
 
   const handleExportPDF = async () => {
@@ -132,7 +139,7 @@ const Offers: React.FC = () => {
       id: generateId(),
       company: newOffer.company,
       role: newOffer.role,
-      status: 'Offer',
+      status: offerStageId,
       salary: newOffer.salary || '',
       location: newOffer.location || '',
       dateApplied: new Date().toISOString().split('T')[0],
@@ -149,7 +156,7 @@ const Offers: React.FC = () => {
     addJob(job);
     setIsAddModalOpen(false);
     setSelectedOfferId(job.id);
-    setNewOffer({ company: '', role: '', salary: '', location: '', description: '', status: 'Offer' });
+    setNewOffer({ company: '', role: '', salary: '', location: '', description: '' });
   };
 
   const cardBase = "p-4 rounded-xl border transition-all cursor-pointer relative group";
@@ -264,7 +271,7 @@ const Offers: React.FC = () => {
                           </div>
                        </div>
                        <span className="px-2 py-0.5 rounded text-[10px] font-bold uppercase tracking-wider bg-emerald-100 text-emerald-700 dark:bg-emerald-900/50 dark:text-emerald-400">
-                          {job.status}
+                          {getStage(pipelineStages, job.status).name}
                        </span>
                     </div>
                     
@@ -0,0 +1,167 @@
+import React, { useState, useEffect } from 'react';
+import { useJobContext } from '../context/JobContext';
+import { ArrowUp, ArrowDown, Plus, Trash2, Save, Loader2, GitBranch, RotateCcw } from 'lucide-react';
+import { PipelineStage, StageCategory, StageColor } from '../types';
+import { STAGE_COLORS, STAGE_CATEGORY_LABELS } from '../lib/pipeline';
+import { generateId } from '../lib/id';
+
+const PipelineStagesEditor: React.FC = () => {
+  const { pipelineStages, updatePipelineStages, jobs } = useJobContext();
+  const [draft, setDraft] = useState<PipelineStage[]>(pipelineStages);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setDraft(pipelineStages);
+  }, [pipelineStages]);
+
+  const jobCount = (stageId: string) => jobs.filter(j => j.status === stageId).length;
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(pipelineStages);
+
+  const updateStage = (index: number, fields: Partial<PipelineStage>) => {
+    setDraft(draft.map((s, i) => i === index ? { ...s, ...fields } : s));
+    setError(null);
+  };
+
+  const moveStage = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= draft.length) return;
+    const next = [...draft];
+    [next[index], next[target]] = [next[target], next[index]];
+    setDraft(next);
+  };
+
+  const addStage = () => {
+    // Not derived from the name: jobs keep pointing at the id through renames
+    setDraft([...draft, { id: generateId(), name: 'New Stage', color: 'slate', category: 'active' }]);
+    setError(null);
+  };
+
+  const removeStage = (index: number) => {
+    const stage = draft[index];
+    const count = jobCount(stage.id);
+    if (count > 0) {
+      setError(`"${stage.name}" still has ${count} application${count === 1 ? '' : 's'}. Move them to another stage first.`);
+      return;
+    }
+    setDraft(draft.filter((_, i) => i !== index));
+    setError(null);
+  };
+
+  const handleSave = async () => {
+    if (draft.length === 0) {
+      setError("Keep at least one stage.");
+      return;
+    }
+    if (draft.some(s => !s.name.trim())) {
+      setError("Every stage needs a name.");
+      return;
+    }
+    if (!draft.some(s => s.category === 'active')) {
+      setError("Keep at least one active stage so new applications have somewhere to go.");
+      return;
+    }
+    setIsSaving(true);
+    try {
+      await updatePipelineStages(draft.map(s => ({ ...s, name: s.name.trim() })));
+    } catch (err) {
+      console.error(err);
+      setError("Failed to save pipeline stages.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const inputClass = "p-2 rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 text-sm text-slate-900 dark:text-white focus:ring-2 focus:ring-indigo-500 outline-none transition-all";
+  const iconButtonClass = "p-2 rounded-lg text-slate-400 hover:text-slate-700 dark:hover:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors disabled:opacity-30 disabled:cursor-not-allowed";
+
+  return (
+    <div className="bg-white dark:bg-slate-900 rounded-2xl p-6 md:p-8 shadow-sm border border-slate-100 dark:border-slate-800 space-y-6">
+      <div>
+        <h3 className="text-xl font-bold text-slate-900 dark:text-white flex items-center gap-2">
+          <GitBranch size={20} className="text-indigo-600 dark:text-indigo-400" /> Pipeline Stages
+        </h3>
+        <p className="text-sm text-slate-500 dark:text-slate-400">Rename, recolor and reorder the stages your applications move through.</p>
+      </div>
+
+      <div className="space-y-2">
+        {draft.map((stage, index) => (
+          <div key={stage.id} className="flex flex-wrap items-center gap-2 p-3 bg-slate-50 dark:bg-slate-950/50 rounded-xl border border-slate-100 dark:border-slate-800">
+            <span className={`h-3 w-3 rounded-full shrink-0 ${STAGE_COLORS[stage.color].dot}`} />
+            <input
+              className={`${inputClass} flex-1 min-w-[140px]`}
+              value={stage.name}
+              onChange={(e) => updateStage(index, { name: e.target.value })}
+              aria-label="Stage name"
+            />
+            <select
+              className={inputClass}
+              value={stage.color}
+              onChange={(e) => updateStage(index, { color: e.target.value as StageColor })}
+              aria-label="Stage color"
+            >
+              {(Object.keys(STAGE_COLORS) as StageColor[]).map(color => (
+                <option key={color} value={color}>{color.charAt(0).toUpperCase() + color.slice(1)}</option>
+              ))}
+            </select>
+            <select
+              className={inputClass}
+              value={stage.category}
+              onChange={(e) => updateStage(index, { category: e.target.value as StageCategory })}
+              aria-label="Stage category"
+            >
+              {(Object.keys(STAGE_CATEGORY_LABELS) as StageCategory[]).map(category => (
+                <option key={category} value={category}>{STAGE_CATEGORY_LABELS[category]}</option>
+              ))}
+            </select>
+            <span className="w-16 text-right text-xs font-medium text-slate-400">{jobCount(stage.id)} jobs</span>
+            <div className="flex items-center">
+              <button onClick={() => moveStage(index, -1)} disabled={index === 0} className={iconButtonClass} title="Move up">
+                <ArrowUp size={16} />
+              </button>
+              <button onClick={() => moveStage(index, 1)} disabled={index === draft.length - 1} className={iconButtonClass} title="Move down">
+                <ArrowDown size={16} />
+              </button>
+              <button onClick={() => removeStage(index)} className={`${iconButtonClass} hover:text-rose-600 dark:hover:text-rose-400`} title="Delete stage">
+                <Trash2 size={16} />
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {error && (
+        <p className="text-sm font-medium text-rose-600 dark:text-rose-400">{error}</p>
+      )}
+
+      <div className="flex flex-wrap items-center justify-between gap-3 pt-2">
+        <div className="flex gap-2">
+          <button
+            onClick={addStage}
+            className="px-4 py-2 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg text-sm font-medium hover:bg-slate-50 dark:hover:bg-slate-700 transition-colors flex items-center gap-2"
+          >
+            <Plus size={16} /> Add Stage
+          </button>
+          {isDirty && (
+            <button
+              onClick={() => { setDraft(pipelineStages); setError(null); }}
+              className="px-4 py-2 rounded-lg text-sm font-medium text-slate-500 hover:text-slate-700 dark:hover:text-slate-300 transition-colors flex items-center gap-2"
+            >
+              <RotateCcw size={16} /> Discard
+            </button>
+          )}
+        </div>
+        <button
+          onClick={handleSave}
+          disabled={!isDirty || isSaving}
+          className="bg-indigo-600 hover:bg-indigo-700 text-white px-6 py-2 rounded-lg text-sm font-bold flex items-center gap-2 transition-colors disabled:opacity-50"
+        >
+          {isSaving ? <Loader2 className="animate-spin" size={16} /> : <Save size={16} />}
+          Save Stages
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default PipelineStagesEditor;
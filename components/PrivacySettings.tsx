@@ -0,0 +1,81 @@
+import React, { useState } from 'react';
+import { EyeOff, Lock } from 'lucide-react';
+import { useJobContext } from '../context/JobContext';
+import {
+  getRedactionSettings, saveRedactionSettings, redactedFields, createRedactor,
+  PII_FIELD_LABELS, CONTACT_FIELDS, PiiField, RedactionSettings
+} from '../services/redaction';
+
+/** Settings card for which personal details are replaced with placeholders before reaching the AI. */
+const PrivacySettings: React.FC = () => {
+  const { resume } = useJobContext();
+  const [settings, setSettings] = useState<RedactionSettings>(() => getRedactionSettings());
+
+  const update = (next: RedactionSettings) => {
+    saveRedactionSettings(next);
+    setSettings(next);
+  };
+
+  const redacted = redactedFields(settings);
+  const preview = createRedactor(resume, settings).resume;
+
+  return (
+    <div className="bg-white dark:bg-slate-900 rounded-2xl p-6 md:p-8 shadow-sm border border-slate-100 dark:border-slate-800">
+      <div className="flex items-center gap-4 mb-6">
+        <div className="p-3 bg-emerald-100 dark:bg-emerald-900/30 rounded-xl text-emerald-600 dark:text-emerald-400">
+          <EyeOff size={24} />
+        </div>
+        <div>
+          <h3 className="text-xl font-bold text-slate-900 dark:text-white">AI Redaction</h3>
+          <p className="text-sm text-slate-500 dark:text-slate-400">
+            Personal details you pick are swapped for placeholders before your resume is sent to the AI, and filled back in on the answer.
+          </p>
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between gap-4 p-4 mb-4 bg-slate-50 dark:bg-slate-950/50 rounded-xl border border-slate-100 dark:border-slate-800">
+        <div className="flex items-center gap-3">
+          <Lock size={20} className={settings.privacyMode ? 'text-emerald-500' : 'text-slate-400'} />
+          <div>
+            <h4 className="font-bold text-slate-800 dark:text-white">Privacy Mode</h4>
+            <p className="text-sm text-slate-500">Never send your email, phone or LinkedIn. Chatur searches your notes on this device instead of indexing them with the AI provider, and resume import is turned off, since it uploads the whole file.</p>
+          </div>
+        </div>
+        <button
+          onClick={() => update({ ...settings, privacyMode: !settings.privacyMode })}
+          className={`px-4 py-2 rounded-lg text-sm font-bold transition-colors shrink-0 ${settings.privacyMode ? 'bg-emerald-600 text-white hover:bg-emerald-700' : 'bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-slate-700 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700'}`}
+        >
+          {settings.privacyMode ? 'On' : 'Off'}
+        </button>
+      </div>
+
+      <div className="divide-y divide-slate-100 dark:divide-slate-800">
+        {(Object.keys(PII_FIELD_LABELS) as PiiField[]).map(field => {
+          const locked = settings.privacyMode && CONTACT_FIELDS.includes(field);
+          return (
+            <label key={field} className={`flex items-center justify-between gap-4 py-3 ${locked ? 'opacity-60 cursor-not-allowed' : 'cursor-pointer'}`}>
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-slate-800 dark:text-white">{PII_FIELD_LABELS[field]}</p>
+                <p className="text-xs text-slate-400 truncate font-mono">
+                  {resume[field] ? (redacted.includes(field) ? `${resume[field]} → ${preview[field]}` : resume[field]) : 'Not set'}
+                </p>
+              </div>
+              <input
+                type="checkbox"
+                className="w-4 h-4 accent-indigo-600"
+                checked={redacted.includes(field)}
+                disabled={locked}
+                onChange={(e) => update({ ...settings, fields: { ...settings.fields, [field]: e.target.checked } })}
+              />
+            </label>
+          );
+        })}
+      </div>
+      <p className="text-xs text-slate-500 dark:text-slate-400 mt-4">
+        Applies to resume scoring, analysis, enhancing, tailoring, generated documents and Chatur, including its memory and note search.
+      </p>
+    </div>
+  );
+};
+
+export default PrivacySettings;
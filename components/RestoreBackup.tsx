@@ -0,0 +1,167 @@
+import React, { useState, useRef, useMemo } from 'react';
+import { useJobContext } from '../context/JobContext';
+import { readBackup, planRestore, BackupData, RestoreMode } from '../services/storage';
+import { UploadCloud, Loader2, RotateCcw, X, AlertTriangle, GitMerge, Replace } from 'lucide-react';
+
+/** Settings card that loads a backup file, previews what it would change and applies it. */
+const RestoreBackup: React.FC = () => {
+  const {
+    jobs, resume, chatThreads, researchHistory, prepHistory, pipelineStages, resumeLibrary, resumeSnapshots, restoreBackup
+  } = useJobContext();
+  const [backup, setBackup] = useState<{ fileName: string; data: BackupData } | null>(null);
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [error, setError] = useState<string | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [resultMsg, setResultMsg] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const plan = useMemo(() => {
+    if (!backup) return null;
+    const current: BackupData = {
+      jobs, resume, chatThreads, researchReports: researchHistory, prepReports: prepHistory, pipelineStages,
+      resumeLibrary, resumeSnapshots,
+    };
+    return planRestore(current, backup.data, mode);
+  }, [backup, mode, jobs, resume, chatThreads, researchHistory, prepHistory, pipelineStages, resumeLibrary, resumeSnapshots]);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setError(null);
+    setResultMsg(null);
+    try {
+      setBackup({ fileName: file.name, data: readBackup(JSON.parse(await file.text())) });
+      setMode('merge');
+    } catch (err) {
+      setBackup(null);
+      setError(err instanceof SyntaxError ? "This file isn't valid JSON." : (err as Error).message);
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!plan) return;
+    if (plan.mode === 'replace' && !window.confirm("Replace will delete your current applications and reports before restoring. Continue?")) {
+      return;
+    }
+    setIsRestoring(true);
+    try {
+      await restoreBackup(plan);
+      setResultMsg(`Restored ${plan.jobs.insert.length} applications and ${plan.researchReports.insert.length + plan.prepReports.insert.length} reports.`);
+      setBackup(null);
+    } catch (err) {
+      console.error("Restore failed", err);
+      setError("Restore failed part-way. Your data may be partially restored; check your applications before trying again.");
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  const rows = plan ? [
+    { label: 'Applications', collection: plan.jobs, total: backup!.data.jobs.length },
+    { label: 'Research reports', collection: plan.researchReports, total: backup!.data.researchReports.length },
+    { label: 'Interview prep reports', collection: plan.prepReports, total: backup!.data.prepReports.length },
+  ] : [];
+
+  return (
+    <div className="bg-white dark:bg-slate-900 rounded-2xl p-6 md:p-8 shadow-sm border border-slate-100 dark:border-slate-800">
+      <div className="flex items-center gap-4 mb-6">
+        <div className="p-3 bg-emerald-100 dark:bg-emerald-900/30 rounded-xl text-emerald-600 dark:text-emerald-400">
+          <RotateCcw size={24} />
+        </div>
+        <div>
+          <h3 className="text-xl font-bold text-slate-900 dark:text-white">Restore from Backup</h3>
+          <p className="text-sm text-slate-500 dark:text-slate-400">Load a JSON backup exported from this app, including older exports.</p>
+        </div>
+      </div>
+
+      <input type="file" ref={fileInputRef} className="hidden" accept=".json,application/json" onChange={handleFile} />
+
+      {error && (
+        <div className="flex items-start gap-2 p-4 mb-6 rounded-xl bg-rose-50 dark:bg-rose-900/20 text-sm text-rose-700 dark:text-rose-300">
+          <AlertTriangle size={18} className="shrink-0 mt-0.5" /> {error}
+        </div>
+      )}
+      {resultMsg && (
+        <p className="p-4 mb-6 rounded-xl bg-emerald-50 dark:bg-emerald-900/20 text-sm font-medium text-emerald-700 dark:text-emerald-300">{resultMsg}</p>
+      )}
+
+      {!backup || !plan ? (
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="bg-slate-900 dark:bg-white text-white dark:text-slate-900 px-6 py-3 rounded-xl font-bold hover:opacity-90 transition-opacity flex items-center gap-2"
+        >
+          <UploadCloud size={18} /> Choose Backup File
+        </button>
+      ) : (
+        <div className="space-y-6">
+          <div className="flex items-center justify-between gap-4 p-4 rounded-xl bg-slate-50 dark:bg-slate-950 border border-slate-100 dark:border-slate-800">
+            <p className="text-sm font-mono text-slate-600 dark:text-slate-400 truncate">{backup.fileName}</p>
+            <button onClick={() => setBackup(null)} className="p-1 text-slate-400 hover:text-slate-600 dark:hover:text-slate-200" title="Discard">
+              <X size={18} />
+            </button>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <button
+              onClick={() => setMode('merge')}
+              className={`p-4 rounded-xl border text-left transition-all ${mode === 'merge' ? 'border-indigo-500 bg-indigo-50 dark:bg-indigo-900/20' : 'border-slate-200 dark:border-slate-700 hover:border-slate-300'}`}
+            >
+              <p className="font-bold text-slate-900 dark:text-white flex items-center gap-2"><GitMerge size={16} /> Merge</p>
+              <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">Add what's missing. Keeps your current data and profile.</p>
+            </button>
+            <button
+              onClick={() => setMode('replace')}
+              className={`p-4 rounded-xl border text-left transition-all ${mode === 'replace' ? 'border-rose-500 bg-rose-50 dark:bg-rose-900/20' : 'border-slate-200 dark:border-slate-700 hover:border-slate-300'}`}
+            >
+              <p className="font-bold text-slate-900 dark:text-white flex items-center gap-2"><Replace size={16} /> Replace</p>
+              <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">Delete current data and restore the backup exactly.</p>
+            </button>
+          </div>
+
+          {/* Preview */}
+          <div className="rounded-xl border border-slate-100 dark:border-slate-800 divide-y divide-slate-100 dark:divide-slate-800 text-sm">
+            {rows.map(({ label, collection, total }) => (
+              <div key={label} className="flex justify-between gap-4 p-3">
+                <span className="font-medium text-slate-700 dark:text-slate-300">{label}</span>
+                <span className="text-right text-slate-500 dark:text-slate-400">
+                  {collection.insert.length} of {total} to add
+                  {collection.deleteIds.length > 0 && <span className="text-rose-600 dark:text-rose-400"> · {collection.deleteIds.length} removed</span>}
+                  {collection.skipped > 0 && <span> · {collection.skipped} already present</span>}
+                  {collection.reassigned > 0 && <span className="text-amber-600 dark:text-amber-400"> · {collection.reassigned} given new IDs</span>}
+                </span>
+              </div>
+            ))}
+            <div className="flex justify-between gap-4 p-3">
+              <span className="font-medium text-slate-700 dark:text-slate-300">Resume</span>
+              <span className="text-slate-500 dark:text-slate-400">{plan.resume ? `Restored (${plan.resume.fullName || 'unnamed'})` : 'Kept as is'}</span>
+            </div>
+            <div className="flex justify-between gap-4 p-3">
+              <span className="font-medium text-slate-700 dark:text-slate-300">Resume versions</span>
+              <span className="text-slate-500 dark:text-slate-400">{plan.resumeSnapshots.length > 0 ? `${plan.resumeSnapshots.length} to add` : 'None new'}</span>
+            </div>
+            <div className="flex justify-between gap-4 p-3">
+              <span className="font-medium text-slate-700 dark:text-slate-300">Chat threads</span>
+              <span className="text-slate-500 dark:text-slate-400">{plan.chatThreads ? `${plan.chatThreads.length} conversations` : 'Kept as is'}</span>
+            </div>
+            <div className="flex justify-between gap-4 p-3">
+              <span className="font-medium text-slate-700 dark:text-slate-300">Pipeline stages</span>
+              <span className="text-slate-500 dark:text-slate-400">{plan.pipelineStages ? `${plan.pipelineStages.length} stages` : 'Kept as is'}</span>
+            </div>
+          </div>
+
+          <button
+            onClick={handleRestore}
+            disabled={isRestoring}
+            className={`px-6 py-3 rounded-xl font-bold text-white flex items-center gap-2 transition-colors disabled:opacity-70 ${mode === 'replace' ? 'bg-rose-600 hover:bg-rose-700' : 'bg-indigo-600 hover:bg-indigo-700'}`}
+          >
+            {isRestoring ? <Loader2 className="animate-spin" size={18} /> : <RotateCcw size={18} />}
+            {isRestoring ? 'Restoring...' : mode === 'replace' ? 'Replace & Restore' : 'Merge Backup'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RestoreBackup;
@@ -2,24 +2,34 @@ import React, { useState, useRef } from 'react';
 import { useJobContext } from '../context/JobContext';
 import { enhanceResumeText, parseResumeFromDocument, enhanceFullResume, tailorResume, scoreResume, ResumeScore } from '../services/geminiService';
 import { 
-  FileText, Sparkles, Plus, Trash2, MapPin, Mail, Phone, Linkedin, 
+  FileText, Sparkles, Plus, Trash2, Pencil, Save, Library,
   GraduationCap, Briefcase, Loader2, FolderGit2, UploadCloud, Wand2, Download, Target, X,
-  Percent, AlertTriangle, CheckCircle2, Lightbulb
+  Percent, AlertTriangle, CheckCircle2, Lightbulb, BadgeCheck, Award as AwardIcon, Languages, BookOpen,
+  HeartHandshake, ListOrdered, ArrowUp, ArrowDown
 } from 'lucide-react';
-import { Experience, Education, Project, Resume } from '../types';
+import {
+  Experience, Education, Project, Resume, ReviewedChange,
+  Certification, Award, Language, Publication, Volunteering
+} from '../types';
+import CachedResultNotice from './CachedResultNotice';
+import ResumePreview from './ResumePreview';
+import ResumeReviewModal from './ResumeReviewModal';
+import ResumeSectionEditor from './ResumeSectionEditor';
+import ResumeLayoutPicker from './ResumeLayoutPicker';
+import { diffResume } from '../lib/resumeDiff';
+import { getResumeLayout } from '../lib/resumeTemplates';
+import { resumeToDocx, resumeToMarkdown, resumeToText } from '../lib/resumeExport';
+import { fillEntryIds, formatSkills, getSectionOrder, latestSnapshot, RESUME_SECTION_LABELS, snapshotLabel } from '../lib/resume';
+import { generateId } from '../lib/id';
 
 // Declare html2pdf for TypeScript since we loaded it via CDN
 // declare var html2pdf: any;
 
-const generateId = () => {
-  if (typeof crypto !== 'undefined' && crypto.randomUUID) {
-    return crypto.randomUUID();
-  }
-  return Math.random().toString(36).substring(2) + Date.now().toString(36);
-};
-
 const ResumeBuilder: React.FC = () => {
-  const { resume, updateResume } = useJobContext();
+  const {
+    resume, updateResume, resumeLibrary, resumeSnapshots,
+    createNamedResume, switchResume, renameResume, deleteNamedResume, saveResumeSnapshot
+  } = useJobContext();
   const [activeTab, setActiveTab] = useState<'edit' | 'preview'>('edit');
   const [isEnhancing, setIsEnhancing] = useState<string | null>(null);
   const [isFullEnhancing, setIsFullEnhancing] = useState(false);
@@ -36,6 +46,13 @@ const ResumeBuilder: React.FC = () => {
   const [showScoreModal, setShowScoreModal] = useState(false);
   const [scoreJd, setScoreJd] = useState('');
   const [scoreResult, setScoreResult] = useState<ResumeScore | null>(null);
+  const [scoreCachedAt, setScoreCachedAt] = useState<number | null>(null);
+
+  // AI rewrite waiting for the user to accept or reject its changes
+  const [pendingReview, setPendingReview] = useState<{ proposed: Resume; reason: 'tailored' | 'enhanced' } | null>(null);
+
+  // Pages the preview currently runs to, measured by ResumePreview
+  const [pageCount, setPageCount] = useState(1);
 
   const fileInputRef = useRef<HTMLInputElement>(null);
 
@@ -43,62 +60,19 @@ const ResumeBuilder: React.FC = () => {
   const inputClass = "w-full p-2.5 rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-950 text-slate-900 dark:text-white focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500 outline-none placeholder:text-slate-400 text-sm";
   const labelClass = "block text-xs font-semibold text-slate-500 dark:text-slate-400 mb-1 uppercase tracking-wider";
 
-  // Helper to parse **bold** markdown and format bullet points
-  const renderFormattedText = (text: string | any) => {
-    if (!text) return null;
-    
-    // Safety check: ensure text is a string
-    let safeText = "";
-    if (Array.isArray(text)) {
-        safeText = text.join('\n');
-    } else if (typeof text !== 'string') {
-        safeText = String(text);
-    } else {
-        safeText = text;
-    }
-
-    const lines = safeText.split('\n').filter(line => line.trim());
-
-    // Parse bold segments helper
-    const parseBold = (str: string) => {
-        const parts = str.split(/(\*\*.*?\*\*)/g);
-        return parts.map((part, index) => {
-            if (part.startsWith('**') && part.endsWith('**')) {
-                return <strong key={index} className="font-bold text-slate-900">{part.slice(2, -2)}</strong>;
-            }
-            return <span key={index}>{part}</span>;
-        });
-    };
-
-    return (
-      <ul className="list-none space-y-1">
-        {lines.map((line, i) => {
-            const trimmed = line.trim();
-            // Check for common bullet markers
-            const isBullet = /^[•\-\*]/.test(trimmed);
-            // Remove bullet marker for clean rendering
-            const cleanText = trimmed.replace(/^[•\-\*]\s?/, '');
-
-            return (
-                <li key={i} className={`flex items-start ${isBullet ? 'gap-2.5 pl-1' : ''}`}>
-                    {isBullet && (
-                        <span className="mt-1.5 w-1.5 h-1.5 rounded-full bg-slate-700 flex-shrink-0" />
-                    )}
-                    <span className="flex-1 leading-relaxed text-slate-700 text-justify">
-                        {parseBold(cleanText)}
-                    </span>
-                </li>
-            );
-        })}
-      </ul>
-    );
-  };
-
   const handleEnhance = async (text: string, type: 'summary' | 'experience' | 'project', id?: string) => {
     const loadingKey = id || type;
     setIsEnhancing(loadingKey);
     // Pass the full resume as context so the AI can generate content if text is empty
-    const improved = await enhanceResumeText(text, type, resume);
+    let improved: string;
+    try {
+      improved = await enhanceResumeText(text, type, resume);
+    } catch (e: any) {
+      console.error(e);
+      alert(`Failed to enhance text. ${e.message || 'Please try again.'}`);
+      setIsEnhancing(null);
+      return;
+    }
     
     if (type === 'summary') {
       updateResume({ ...resume, summary: improved });
@@ -122,13 +96,12 @@ const ResumeBuilder: React.FC = () => {
         return;
     }
 
-    if (!window.confirm("This will rewrite your resume descriptions using AI to be more professional. Your contact details will remain safe. Continue?")) return;
+    if (!window.confirm("This will ask the AI to rewrite your resume descriptions to be more professional. You'll review each change before anything is applied. Continue?")) return;
 
     setIsFullEnhancing(true);
     try {
         const enhanced = await enhanceFullResume(resume);
-        applyResumeUpdates(enhanced);
-        alert("Resume enhanced successfully!");
+        reviewResumeUpdates(enhanced, 'enhanced');
     } catch (e: any) {
         console.error(e);
         alert(`Failed to enhance resume. ${e.message || 'Please try again.'}`);
@@ -143,10 +116,9 @@ const ResumeBuilder: React.FC = () => {
     setIsTailoring(true);
     try {
         const tailored = await tailorResume(resume, tailorJd);
-        applyResumeUpdates(tailored);
+        reviewResumeUpdates(tailored, 'tailored');
         setShowTailorModal(false);
         setTailorJd('');
-        alert("Resume successfully tailored to the Job Description!");
     } catch (e: any) {
         console.error(e);
         alert(`Failed to tailor resume. ${e.message || 'Please try again.'}`);
@@ -155,16 +127,17 @@ const ResumeBuilder: React.FC = () => {
     }
   };
 
-  const handleScoreResume = async () => {
+  const handleScoreResume = async (refresh = false) => {
     if (!scoreJd.trim()) return;
     setIsScoring(true);
     setScoreResult(null);
+    setScoreCachedAt(null);
     try {
-      const result = await scoreResume(resume, scoreJd);
+      const result = await scoreResume(resume, scoreJd, { refresh, onCached: setScoreCachedAt });
       setScoreResult(result);
     } catch (e: any) {
       console.error(e);
-      alert("Failed to score resume. Please try again.");
+      alert(`Failed to score resume. ${e.message || 'Please try again.'}`);
     } finally {
       setIsScoring(false);
     }
@@ -204,27 +177,68 @@ const ResumeBuilder: React.FC = () => {
     }
   };
 
-  const applyResumeUpdates = (enhanced: Resume) => {
+  // Text exports are built from the resume data, so ATS parsers can read every word
+  const handleExportText = (format: 'txt' | 'md' | 'docx') => {
+    const safeName = (resume.fullName || 'Resume').replace(/[^a-z0-9]/gi, '_');
+    const blob = format === 'docx'
+      ? new Blob([resumeToDocx(resume)], { type: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' })
+      : new Blob([format === 'md' ? resumeToMarkdown(resume) : resumeToText(resume)], { type: `${format === 'md' ? 'text/markdown' : 'text/plain'};charset=utf-8` });
+    const url = URL.createObjectURL(blob);
+    const anchor = document.createElement('a');
+    anchor.href = url;
+    anchor.download = `${safeName}_Resume.${format}`;
+    document.body.appendChild(anchor);
+    anchor.click();
+    anchor.remove();
+    URL.revokeObjectURL(url);
+  };
+
+  // AI rewrites are shown for review rather than applied straight away
+  const reviewResumeUpdates = (enhanced: Resume, reason: 'tailored' | 'enhanced') => {
       const newResume: Resume = {
           ...resume, // Keep original as base (preserves avatar, etc.)
-          ...enhanced, // Apply AI changes
+          ...fillEntryIds(enhanced, resume), // Apply AI changes, keeping entry ids stable
           avatarImage: resume.avatarImage, // Explicitly preserve avatar as it's stripped in service
-          // Ensure IDs are present and valid, using AI returned IDs if available or fallback to original
-          experience: (enhanced.experience || []).map((e, i) => ({
-              ...e, 
-              id: e.id || resume.experience[i]?.id || generateId()
-          })),
-          projects: (enhanced.projects || []).map((p, i) => ({
-              ...p, 
-              id: p.id || resume.projects[i]?.id || generateId()
-          })),
-          education: (enhanced.education || []).map((e, i) => ({
-              ...e, 
-              id: e.id || resume.education[i]?.id || generateId()
-          }))
       };
-      
-      updateResume(newResume);
+
+      if (diffResume(resume, newResume).length === 0) {
+          alert("The AI didn't suggest any changes this time.");
+          return;
+      }
+      setPendingReview({ proposed: newResume, reason });
+  };
+
+  const handleApplyReview = (reviewed: Resume, review: ReviewedChange[]) => {
+      if (!pendingReview) return;
+      updateResume(reviewed);
+      saveResumeSnapshot(pendingReview.reason, { content: reviewed, review });
+      setPendingReview(null);
+  };
+
+  const activeResume = resumeLibrary.resumes.find(r => r.id === resumeLibrary.activeId);
+  const lastSaved = latestSnapshot(resumeSnapshots, resumeLibrary.activeId);
+
+  const handleNewResume = () => {
+    const name = window.prompt("Name the new resume. It starts as a copy of this one.", `${activeResume?.name || 'Resume'} (copy)`);
+    if (name?.trim()) createNamedResume(name.trim());
+  };
+
+  const handleRenameResume = () => {
+    if (!activeResume) return;
+    const name = window.prompt("Rename this resume:", activeResume.name);
+    if (name?.trim()) renameResume(activeResume.id, name.trim());
+  };
+
+  const handleDeleteResume = () => {
+    if (!activeResume) return;
+    if (!window.confirm(`Delete "${activeResume.name}"? Its saved versions stay linked to your applications.`)) return;
+    deleteNamedResume(activeResume.id);
+  };
+
+  const handleSaveVersion = () => {
+    const note = window.prompt("Save a version you can link to applications. Add a note (optional):", '');
+    if (note === null) return;
+    saveResumeSnapshot('saved', { note: note.trim() });
   };
 
   const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -239,19 +253,14 @@ const ResumeBuilder: React.FC = () => {
         try {
           const parsedData = await parseResumeFromDocument(base64);
           
-          // Merge logic: Ensure IDs are present for arrays
-          const newResume: Resume = {
-            ...resume,
-            ...parsedData,
-            experience: parsedData.experience?.map(e => ({ ...e, id: generateId() })) || [],
-            projects: parsedData.projects?.map(p => ({ ...p, id: generateId() })) || [],
-            education: parsedData.education?.map(ed => ({ ...ed, id: generateId() })) || [],
-          };
+          // Imported entries get fresh ids
+          const newResume: Resume = { ...resume, ...fillEntryIds(parsedData) };
           
           updateResume(newResume);
-        } catch (err) {
+          saveResumeSnapshot('imported', { content: newResume });
+        } catch (err: any) {
           console.error("Parse error", err);
-          alert("Failed to parse resume. Please ensure the file is clear.");
+          alert(`Failed to parse resume. ${err.message || 'Please ensure the file is clear.'}`);
         }
         setIsImporting(false);
       };
@@ -328,31 +337,14 @@ const ResumeBuilder: React.FC = () => {
     });
   };
 
-  // Helper to format skills if they are an object (legacy/categorized)
-  const formatSkills = (skills: any) => {
-      if (!skills) return '';
-      if (typeof skills === 'string') return skills;
-      
-      if (typeof skills === 'object') {
-          // If it's an array, join it
-          if (Array.isArray(skills)) return skills.join(' | ');
-          
-          // If it's an object (categories), flatten it into a single pipe-separated string
-          try {
-              const allSkills: string[] = [];
-              Object.values(skills).forEach((items: any) => {
-                  if (Array.isArray(items)) {
-                      allSkills.push(...items);
-                  } else if (typeof items === 'string') {
-                      allSkills.push(items);
-                  }
-              });
-              return allSkills.join(' | ');
-          } catch (e) {
-              return JSON.stringify(skills);
-          }
-      }
-      return String(skills);
+  const sectionOrder = getSectionOrder(resume);
+  const layout = getResumeLayout(resume);
+  const maxPages = layout.template.maxPages;
+
+  const moveSection = (index: number, offset: -1 | 1) => {
+    const next = [...sectionOrder];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    updateResume({ ...resume, sectionOrder: next });
   };
 
   return (
@@ -377,6 +369,44 @@ const ResumeBuilder: React.FC = () => {
       {/* Editor Panel */}
       <div className={`flex-1 overflow-y-auto pr-2 custom-scrollbar print:hidden ${activeTab === 'preview' ? 'hidden lg:block' : ''}`}>
         <div className="space-y-8 pb-10">
+
+          {/* Resume Library */}
+          <div className="bg-white dark:bg-slate-900 p-4 rounded-2xl shadow-sm border border-slate-100 dark:border-slate-800 flex flex-wrap items-center gap-3">
+            <Library size={20} className="text-indigo-600 shrink-0" />
+            <select
+              className="bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-slate-700 rounded-lg px-3 py-2 text-sm font-medium text-slate-800 dark:text-white outline-none focus:border-indigo-500"
+              value={resumeLibrary.activeId}
+              onChange={e => switchResume(e.target.value)}
+              disabled={isImporting || isFullEnhancing || isTailoring}
+            >
+              {resumeLibrary.resumes.map(r => <option key={r.id} value={r.id}>{r.name}</option>)}
+            </select>
+            <div className="flex items-center gap-1">
+              <button onClick={handleNewResume} title="New resume" className="p-2 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 dark:hover:bg-indigo-900/30 rounded-lg transition-colors">
+                <Plus size={16} />
+              </button>
+              <button onClick={handleRenameResume} title="Rename" className="p-2 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 dark:hover:bg-indigo-900/30 rounded-lg transition-colors">
+                <Pencil size={16} />
+              </button>
+              <button
+                onClick={handleDeleteResume}
+                disabled={resumeLibrary.resumes.length < 2}
+                title="Delete"
+                className="p-2 text-slate-400 hover:text-rose-500 hover:bg-rose-50 dark:hover:bg-rose-900/30 rounded-lg transition-colors disabled:opacity-40 disabled:hover:text-slate-400 disabled:hover:bg-transparent"
+              >
+                <Trash2 size={16} />
+              </button>
+            </div>
+            <span className="text-xs text-slate-500 dark:text-slate-400 ml-auto">
+              {lastSaved ? `Latest version: ${snapshotLabel(lastSaved)}, ${new Date(lastSaved.date).toLocaleDateString()}` : 'No saved versions yet'}
+            </span>
+            <button
+              onClick={handleSaveVersion}
+              className="flex items-center gap-1.5 bg-indigo-50 dark:bg-indigo-900/30 text-indigo-700 dark:text-indigo-300 px-3 py-2 rounded-lg text-xs font-bold hover:bg-indigo-100 dark:hover:bg-indigo-900/50 transition-colors"
+            >
+              <Save size={14} /> Save Version
+            </button>
+          </div>
           
           {/* AI Tools Section */}
           <div className="bg-gradient-to-r from-indigo-50 to-purple-50 dark:from-indigo-950/30 dark:to-purple-950/30 p-5 rounded-2xl border border-indigo-100 dark:border-indigo-900/50">
@@ -665,14 +695,139 @@ const ResumeBuilder: React.FC = () => {
               ))}
             </div>
           </section>
+
+          <ResumeSectionEditor<Certification>
+            title="Certifications"
+            icon={<BadgeCheck size={20} className="text-indigo-600" />}
+            addLabel="Add Certification"
+            items={resume.certifications || []}
+            fields={[
+              { key: 'name', label: 'Name', placeholder: 'AWS Certified Solutions Architect' },
+              { key: 'issuer', label: 'Issuer', placeholder: 'Amazon Web Services' },
+              { key: 'date', label: 'Date', placeholder: 'Mar 2024' },
+              { key: 'credentialId', label: 'Credential ID (Optional)' },
+              { key: 'link', label: 'Link (Optional)', placeholder: 'Verification URL' },
+            ]}
+            createItem={() => ({ id: generateId(), name: '', issuer: '', date: '' })}
+            onChange={certifications => updateResume({ ...resume, certifications })}
+          />
+
+          <ResumeSectionEditor<Award>
+            title="Awards & Honors"
+            icon={<AwardIcon size={20} className="text-indigo-600" />}
+            addLabel="Add Award"
+            items={resume.awards || []}
+            fields={[
+              { key: 'title', label: 'Title', placeholder: 'Employee of the Year' },
+              { key: 'issuer', label: 'Issuer', placeholder: 'Acme Corp' },
+              { key: 'date', label: 'Date', placeholder: '2023' },
+              { key: 'description', label: 'Description (Optional)', multiline: true },
+            ]}
+            createItem={() => ({ id: generateId(), title: '', issuer: '', date: '' })}
+            onChange={awards => updateResume({ ...resume, awards })}
+          />
+
+          <ResumeSectionEditor<Language>
+            title="Languages"
+            icon={<Languages size={20} className="text-indigo-600" />}
+            addLabel="Add Language"
+            items={resume.languages || []}
+            fields={[
+              { key: 'name', label: 'Language', placeholder: 'Hindi' },
+              { key: 'proficiency', label: 'Proficiency', placeholder: 'Native, Fluent, Professional...' },
+            ]}
+            createItem={() => ({ id: generateId(), name: '', proficiency: '' })}
+            onChange={languages => updateResume({ ...resume, languages })}
+          />
+
+          <ResumeSectionEditor<Publication>
+            title="Publications"
+            icon={<BookOpen size={20} className="text-indigo-600" />}
+            addLabel="Add Publication"
+            items={resume.publications || []}
+            fields={[
+              { key: 'title', label: 'Title' },
+              { key: 'publisher', label: 'Publisher / Venue', placeholder: 'IEEE, Medium, ...' },
+              { key: 'date', label: 'Date', placeholder: 'Jun 2022' },
+              { key: 'link', label: 'Link (Optional)' },
+              { key: 'description', label: 'Description (Optional)', multiline: true },
+            ]}
+            createItem={() => ({ id: generateId(), title: '', publisher: '', date: '' })}
+            onChange={publications => updateResume({ ...resume, publications })}
+          />
+
+          <ResumeSectionEditor<Volunteering>
+            title="Volunteering"
+            icon={<HeartHandshake size={20} className="text-indigo-600" />}
+            addLabel="Add Role"
+            items={resume.volunteering || []}
+            fields={[
+              { key: 'role', label: 'Role', placeholder: 'Mentor' },
+              { key: 'organization', label: 'Organization', placeholder: 'Code.org' },
+              { key: 'startDate', label: 'Start Date' },
+              { key: 'endDate', label: 'End Date', placeholder: 'Present' },
+              { key: 'description', label: 'Description', placeholder: '• What you did and the impact it had', multiline: true },
+            ]}
+            createItem={() => ({ id: generateId(), role: '', organization: '', startDate: '', endDate: '', description: '' })}
+            onChange={volunteering => updateResume({ ...resume, volunteering })}
+          />
+
+          {/* Section Order */}
+          <section className="bg-white dark:bg-slate-900 p-6 rounded-2xl shadow-sm border border-slate-100 dark:border-slate-800">
+            <h3 className="text-lg font-bold text-slate-800 dark:text-white mb-1 flex items-center gap-2">
+              <ListOrdered size={20} className="text-indigo-600" /> Section Order
+            </h3>
+            <p className="text-sm text-slate-500 dark:text-slate-400 mb-4">The order sections appear in on your resume. Empty sections are skipped.</p>
+            <div className="space-y-2">
+              {sectionOrder.map((section, index) => (
+                <div key={section} className="flex items-center justify-between gap-3 px-3 py-2 rounded-lg border border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-950/50">
+                  <span className="text-sm font-medium text-slate-700 dark:text-slate-300">{RESUME_SECTION_LABELS[section]}</span>
+                  <div className="flex items-center gap-1">
+                    <button onClick={() => moveSection(index, -1)} disabled={index === 0} className="p-1 text-slate-400 hover:text-indigo-600 disabled:opacity-30 disabled:cursor-not-allowed" title="Move up">
+                      <ArrowUp size={16} />
+                    </button>
+                    <button onClick={() => moveSection(index, 1)} disabled={index === sectionOrder.length - 1} className="p-1 text-slate-400 hover:text-indigo-600 disabled:opacity-30 disabled:cursor-not-allowed" title="Move down">
+                      <ArrowDown size={16} />
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </section>
         </div>
       </div>
 
       {/* Preview Panel */}
       <div className={`flex-1 bg-slate-200 dark:bg-slate-900 p-4 lg:p-8 rounded-2xl overflow-y-auto print:bg-white print:p-0 print:overflow-visible ${activeTab === 'edit' ? 'hidden lg:block' : ''}`}>
         
+        <div className="mb-4 print:hidden">
+          <ResumeLayoutPicker resume={resume} onChange={updateResume} />
+        </div>
+
         {/* Actions Bar */}
-        <div className="mb-4 flex justify-end print:hidden">
+        <div className="mb-4 flex flex-wrap items-center justify-end gap-3 print:hidden">
+          <span
+            className={`flex items-center gap-1.5 text-sm font-medium px-3 py-1.5 rounded-lg ${pageCount > maxPages
+              ? 'bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-300'
+              : 'bg-white dark:bg-slate-800 text-slate-600 dark:text-slate-300'}`}
+            title={pageCount > maxPages ? `The ${layout.template.name} template is meant to fit ${maxPages === 1 ? 'one page' : `${maxPages} pages`}.` : undefined}
+          >
+            {pageCount > maxPages ? <AlertTriangle size={16} /> : <FileText size={16} />}
+            {pageCount} {pageCount === 1 ? 'page' : 'pages'}
+            {pageCount > maxPages && <span className="font-normal">· over by {pageCount - maxPages}. Trim content or use tighter spacing.</span>}
+          </span>
+          <div className="flex items-center rounded-lg border border-slate-300 dark:border-slate-700 bg-white dark:bg-slate-800 overflow-hidden" title="Text exports that applicant tracking systems can read reliably">
+            <span className="pl-3 pr-2 text-xs font-semibold uppercase tracking-wider text-slate-400">ATS</span>
+            {(['docx', 'txt', 'md'] as const).map(format => (
+              <button
+                key={format}
+                onClick={() => handleExportText(format)}
+                className="px-3 py-2 text-sm font-medium text-slate-700 dark:text-slate-200 border-l border-slate-200 dark:border-slate-700 hover:bg-slate-100 dark:hover:bg-slate-700"
+              >
+                .{format}
+              </button>
+            ))}
+          </div>
           <button 
             onClick={handleDownloadPDF}
             disabled={isDownloading}
@@ -685,105 +840,20 @@ const ResumeBuilder: React.FC = () => {
 
         {/* Resume Preview */}
         <div id="resume-preview-container">
-            <div id="resume-preview" className="bg-white text-slate-900 w-full max-w-[210mm] mx-auto min-h-[297mm] p-[10mm] shadow-2xl origin-top transform scale-100 print:shadow-none print:w-full print:max-w-none print:min-h-0">
-              
-              {/* Header */}
-              <div className="border-b-2 border-slate-800 pb-4 mb-6">
-                <h1 className="text-3xl font-bold text-slate-900 uppercase tracking-wide mb-2">{resume.fullName}</h1>
-                <div className="flex flex-wrap gap-4 text-xs text-slate-600 font-medium">
-                  {resume.email && <span className="flex items-center gap-1"><Mail size={12}/> {resume.email}</span>}
-                  {resume.phone && <span className="flex items-center gap-1"><Phone size={12}/> {resume.phone}</span>}
-                  {resume.location && <span className="flex items-center gap-1"><MapPin size={12}/> {resume.location}</span>}
-                  {resume.linkedin && <span className="flex items-center gap-1"><Linkedin size={12}/> {resume.linkedin}</span>}
-                </div>
-              </div>
-
-              {/* Summary */}
-              {resume.summary && (
-                <div className="mb-6">
-                  <h2 className="text-sm font-bold uppercase tracking-wider text-slate-800 border-b border-slate-200 mb-2 pb-1">Professional Summary</h2>
-                  <div className="text-sm text-slate-700 leading-relaxed text-justify">
-                    {renderFormattedText(resume.summary)}
-                  </div>
-                </div>
-              )}
-
-              {/* Skills */}
-              {resume.skills && (
-                <div className="mb-6">
-                  <h2 className="text-sm font-bold uppercase tracking-wider text-slate-800 border-b border-slate-200 mb-2 pb-1">Technical Skills</h2>
-                  <p className="text-sm text-slate-700 leading-relaxed whitespace-pre-wrap">
-                    {formatSkills(resume.skills)}
-                  </p>
-                </div>
-              )}
-
-              {/* Experience */}
-              {resume.experience.length > 0 && (
-                <div className="mb-6">
-                  <h2 className="text-sm font-bold uppercase tracking-wider text-slate-800 border-b border-slate-200 mb-3 pb-1">Experience</h2>
-                  <div className="space-y-4">
-                    {resume.experience.map(exp => (
-                      <div key={exp.id}>
-                        <div className="flex justify-between items-baseline mb-1">
-                          <h3 className="text-sm font-bold text-slate-900">{exp.role}</h3>
-                          <span className="text-xs font-semibold text-slate-500">{exp.startDate} - {exp.endDate}</span>
-                        </div>
-                        <div className="text-xs font-semibold text-slate-600 mb-2">{exp.company}</div>
-                        <div className="text-sm text-slate-700 leading-relaxed">
-                            {renderFormattedText(exp.description)}
-                        </div>
-                      </div>
-                    ))}
-                  </div>
-                </div>
-              )}
-
-              {/* Projects */}
-              {resume.projects && resume.projects.length > 0 && (
-                 <div className="mb-6">
-                   <h2 className="text-sm font-bold uppercase tracking-wider text-slate-800 border-b border-slate-200 mb-3 pb-1">Projects</h2>
-                   <div className="space-y-4">
-                     {resume.projects.map(proj => (
-                       <div key={proj.id}>
-                         <div className="flex justify-between items-baseline mb-1">
-                           <h3 className="text-sm font-bold text-slate-900">{proj.name}</h3>
-                           {proj.link && <span className="text-xs text-indigo-600 italic">{proj.link}</span>}
-                         </div>
-                         <div className="text-xs font-semibold text-slate-500 mb-2">{proj.technologies}</div>
-                         <div className="text-sm text-slate-700 leading-relaxed">
-                            {renderFormattedText(proj.description)}
-                         </div>
-                       </div>
-                     ))}
-                   </div>
-                 </div>
-              )}
-
-              {/* Education */}
-              {resume.education.length > 0 && (
-                <div className="mb-6">
-                  <h2 className="text-sm font-bold uppercase tracking-wider text-slate-800 border-b border-slate-200 mb-3 pb-1">Education</h2>
-                  <div className="space-y-3">
-                    {resume.education.map(edu => (
-                      <div key={edu.id} className="flex justify-between items-start">
-                        <div>
-                          <div className="text-sm font-bold text-slate-900">{edu.school}</div>
-                          <div className="text-xs text-slate-600">{edu.degree}</div>
-                        </div>
-                        <div className="text-right flex-shrink-0 ml-4">
-                            <div className="text-xs font-semibold text-slate-500">{edu.year}</div>
-                            {edu.grade && <div className="text-xs font-medium text-slate-500 mt-0.5">{edu.grade}</div>}
-                        </div>
-                      </div>
-                    ))}
-                  </div>
-                </div>
-              )}
-            </div>
+            <ResumePreview resume={resume} id="resume-preview" showPageBreaks onPageCountChange={setPageCount} />
         </div>
       </div>
 
+      {pendingReview && (
+        <ResumeReviewModal
+          title={pendingReview.reason === 'tailored' ? 'Review Tailored Resume' : 'Review Polished Resume'}
+          current={resume}
+          proposed={pendingReview.proposed}
+          onApply={handleApplyReview}
+          onCancel={() => setPendingReview(null)}
+        />
+      )}
+
       {/* Tailor Resume Modal */}
       {showTailorModal && (
         <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/50 backdrop-blur-sm">
@@ -878,7 +948,7 @@ const ResumeBuilder: React.FC = () => {
                         Cancel
                     </button>
                     <button 
-                        onClick={handleScoreResume}
+                        onClick={() => handleScoreResume()}
                         disabled={!scoreJd.trim() || isScoring}
                         className="bg-emerald-600 hover:bg-emerald-700 text-white px-6 py-2 rounded-lg font-bold shadow-lg shadow-emerald-200 dark:shadow-none transition-all flex items-center gap-2 disabled:opacity-70"
                     >
@@ -889,6 +959,7 @@ const ResumeBuilder: React.FC = () => {
                 </>
               ) : (
                 <div className="space-y-6">
+                  {scoreCachedAt && <CachedResultNotice savedAt={scoreCachedAt} onRefresh={() => handleScoreResume(true)} disabled={isScoring} />}
                   {/* Score Header */}
                   <div className="flex items-center gap-6 p-6 bg-slate-50 dark:bg-slate-950 rounded-2xl border border-slate-100 dark:border-slate-800">
                      <div className="relative h-24 w-24 flex items-center justify-center">
@@ -0,0 +1,69 @@
+import React from 'react';
+import { Check, LayoutTemplate } from 'lucide-react';
+import { Resume, ResumeFont, ResumeSpacing, ResumeTemplateId } from '../types';
+import {
+  getResumeLayout, withResumeLayout, RESUME_ACCENTS, RESUME_FONTS, RESUME_SPACING_LABELS, RESUME_TEMPLATES
+} from '../lib/resumeTemplates';
+
+const selectClass = "p-1.5 rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-950 text-slate-700 dark:text-slate-200 text-xs focus:border-indigo-500 outline-none";
+
+/** Template and per-template font, spacing and accent for the resume preview. */
+const ResumeLayoutPicker: React.FC<{ resume: Resume; onChange: (resume: Resume) => void }> = ({ resume, onChange }) => {
+  const layout = getResumeLayout(resume);
+  const templateId = layout.template.id;
+
+  return (
+    <div className="bg-white dark:bg-slate-900 p-4 rounded-xl border border-slate-100 dark:border-slate-800 shadow-sm space-y-3">
+      <div className="flex items-center gap-2 text-sm font-bold text-slate-800 dark:text-white">
+        <LayoutTemplate size={16} className="text-indigo-600" /> Layout
+      </div>
+
+      <div className="grid grid-cols-3 gap-2">
+        {(Object.keys(RESUME_TEMPLATES) as ResumeTemplateId[]).map(id => (
+          <button
+            key={id}
+            onClick={() => onChange(withResumeLayout(resume, id))}
+            title={RESUME_TEMPLATES[id].description}
+            className={`text-left p-2 rounded-lg border text-xs transition-colors ${id === templateId
+              ? 'border-indigo-500 bg-indigo-50 dark:bg-indigo-900/30 text-indigo-700 dark:text-indigo-300'
+              : 'border-slate-200 dark:border-slate-700 text-slate-600 dark:text-slate-300 hover:border-indigo-300'}`}
+          >
+            <span className="block font-bold">{RESUME_TEMPLATES[id].name}</span>
+            <span className="block text-[11px] opacity-80 leading-snug mt-0.5">{RESUME_TEMPLATES[id].description}</span>
+          </button>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <label className="flex items-center gap-1.5 text-xs text-slate-500 dark:text-slate-400">
+          Font
+          <select className={selectClass} value={layout.font} onChange={e => onChange(withResumeLayout(resume, templateId, { font: e.target.value as ResumeFont }))}>
+            {(Object.keys(RESUME_FONTS) as ResumeFont[]).map(font => <option key={font} value={font}>{RESUME_FONTS[font].label}</option>)}
+          </select>
+        </label>
+        <label className="flex items-center gap-1.5 text-xs text-slate-500 dark:text-slate-400">
+          Spacing
+          <select className={selectClass} value={layout.spacing} onChange={e => onChange(withResumeLayout(resume, templateId, { spacing: e.target.value as ResumeSpacing }))}>
+            {(Object.keys(RESUME_SPACING_LABELS) as ResumeSpacing[]).map(spacing => <option key={spacing} value={spacing}>{RESUME_SPACING_LABELS[spacing]}</option>)}
+          </select>
+        </label>
+        <div className="flex items-center gap-1.5 text-xs text-slate-500 dark:text-slate-400">
+          Accent
+          {RESUME_ACCENTS.map(color => (
+            <button
+              key={color}
+              onClick={() => onChange(withResumeLayout(resume, templateId, { accent: color }))}
+              className="w-5 h-5 rounded-full flex items-center justify-center ring-offset-1 ring-offset-white dark:ring-offset-slate-900 hover:ring-2 hover:ring-slate-300"
+              style={{ backgroundColor: color }}
+              title={color}
+            >
+              {layout.accent.toLowerCase() === color && <Check size={12} className="text-white" />}
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ResumeLayoutPicker;
@@ -0,0 +1,375 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Mail, Phone, MapPin, Linkedin } from 'lucide-react';
+import { Resume, ResumeSectionId, ResumeSpacing } from '../types';
+import { formatSkills, getSectionOrder } from '../lib/resume';
+import { A4_HEIGHT_RATIO, getResumeLayout, RESUME_FONTS, SIDEBAR_SECTIONS } from '../lib/resumeTemplates';
+
+interface ResumePreviewProps {
+  resume: Resume;
+  id?: string;
+  /** Draws a dashed line where each PDF page will end. */
+  showPageBreaks?: boolean;
+  onPageCountChange?: (pages: number) => void;
+}
+
+const SPACING: Record<ResumeSpacing, { page: string; header: string; section: string; entries: string }> = {
+  tight: { page: 'p-[8mm]', header: 'pb-2 mb-3', section: 'mb-3', entries: 'space-y-2' },
+  normal: { page: 'p-[10mm]', header: 'pb-4 mb-6', section: 'mb-6', entries: 'space-y-4' },
+  relaxed: { page: 'p-[12mm]', header: 'pb-5 mb-8', section: 'mb-8', entries: 'space-y-5' },
+};
+
+const TEXT_SIZES = {
+  regular: { name: 'text-3xl', title: 'text-sm', body: 'text-sm', meta: 'text-xs' },
+  small: { name: 'text-2xl', title: 'text-xs', body: 'text-xs', meta: 'text-[11px]' },
+};
+
+/** The printable A4 page for a resume, shared by the builder and the read-only snapshot viewer. */
+const ResumePreview: React.FC<ResumePreviewProps> = ({ resume, id, showPageBreaks, onPageCountChange }) => {
+  const layout = getResumeLayout(resume);
+  const space = SPACING[layout.spacing] || SPACING.normal;
+  const text = layout.template.id === 'compact' ? TEXT_SIZES.small : TEXT_SIZES.regular;
+  const accent = layout.accent;
+
+  // Pages follow the rendered width, since the PDF export scales the page to A4 width
+  const pageRef = useRef<HTMLDivElement>(null);
+  const [pageHeight, setPageHeight] = useState(0);
+  const [pageCount, setPageCount] = useState(1);
+
+  useEffect(() => {
+    const element = pageRef.current;
+    if (!element || typeof ResizeObserver === 'undefined') return;
+    const measure = () => {
+      const height = element.offsetWidth * A4_HEIGHT_RATIO;
+      setPageHeight(height);
+      // A pixel of slack, as the minimum height is exactly one page
+      setPageCount(height > 0 ? Math.max(1, Math.ceil((element.scrollHeight - 1) / height)) : 1);
+    };
+    const observer = new ResizeObserver(measure);
+    observer.observe(element);
+    measure();
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    onPageCountChange?.(pageCount);
+  }, [pageCount, onPageCountChange]);
+
+  // Helper to parse **bold** markdown and format bullet points
+  const renderFormattedText = (text: string | any) => {
+    if (!text) return null;
+    
+    // Safety check: ensure text is a string
+    let safeText = "";
+    if (Array.isArray(text)) {
+        safeText = text.join('\n');
+    } else if (typeof text !== 'string') {
+        safeText = String(text);
+    } else {
+        safeText = text;
+    }
+
+    const lines = safeText.split('\n').filter(line => line.trim());
+
+    // Parse bold segments helper
+    const parseBold = (str: string) => {
+        const parts = str.split(/(\*\*.*?\*\*)/g);
+        return parts.map((part, index) => {
+            if (part.startsWith('**') && part.endsWith('**')) {
+                return <strong key={index} className="font-bold text-slate-900">{part.slice(2, -2)}</strong>;
+            }
+            return <span key={index}>{part}</span>;
+        });
+    };
+
+    return (
+      <ul className="list-none space-y-1">
+        {lines.map((line, i) => {
+            const trimmed = line.trim();
+            // Check for common bullet markers
+            const isBullet = /^[•\-\*]/.test(trimmed);
+            // Remove bullet marker for clean rendering
+            const cleanText = trimmed.replace(/^[•\-\*]\s?/, '');
+
+            return (
+                <li key={i} className={`flex items-start ${isBullet ? 'gap-2.5 pl-1' : ''}`}>
+                    {isBullet && (
+                        <span className="mt-1.5 w-1.5 h-1.5 rounded-full flex-shrink-0" style={{ backgroundColor: accent }} />
+                    )}
+                    <span className="flex-1 leading-relaxed text-slate-700 text-justify">
+                        {parseBold(cleanText)}
+                    </span>
+                </li>
+            );
+        })}
+      </ul>
+    );
+  };
+
+  const heading = (title: string) => (
+    <h2 className={`${text.title} font-bold uppercase tracking-wider border-b border-slate-200 mb-3 pb-1`} style={{ color: accent }}>{title}</h2>
+  );
+
+  // Title and dates share a line, except in the narrow sidebar
+  const entryHeader = (title: string, dates: string, narrow: boolean) => (
+    <div className={narrow ? 'mb-1' : 'flex justify-between items-baseline mb-1'}>
+      <h3 className={`${text.title} font-bold text-slate-900`}>{title}</h3>
+      {dates && <span className={`${text.meta} font-semibold text-slate-500`}>{dates}</span>}
+    </div>
+  );
+
+  const dateRange = (start: string, end: string) => [start, end].filter(Boolean).join(' - ');
+
+  const renderSection = (section: ResumeSectionId, narrow = false): React.ReactNode => {
+    switch (section) {
+      case 'summary':
+        return resume.summary && (
+          <div className={space.section}>
+            {heading('Professional Summary')}
+            <div className={`${text.body} text-slate-700 leading-relaxed text-justify`}>
+              {renderFormattedText(resume.summary)}
+            </div>
+          </div>
+        );
+
+      case 'skills':
+        return resume.skills && (
+          <div className={space.section}>
+            {heading(narrow ? 'Skills' : 'Technical Skills')}
+            {narrow ? (
+              <ul className={`${text.body} text-slate-700 space-y-1`}>
+                {formatSkills(resume.skills).split('|').map(skill => skill.trim()).filter(Boolean).map((skill, i) => <li key={i}>{skill}</li>)}
+              </ul>
+            ) : (
+              <p className={`${text.body} text-slate-700 leading-relaxed whitespace-pre-wrap`}>
+                {formatSkills(resume.skills)}
+              </p>
+            )}
+          </div>
+        );
+
+      case 'experience':
+        return resume.experience.length > 0 && (
+          <div className={space.section}>
+            {heading('Experience')}
+            <div className={space.entries}>
+              {resume.experience.map(exp => (
+                <div key={exp.id}>
+                  {entryHeader(exp.role, `${exp.startDate} - ${exp.endDate}`, narrow)}
+                  <div className={`${text.meta} font-semibold text-slate-600 mb-2`}>{exp.company}</div>
+                  <div className={`${text.body} text-slate-700 leading-relaxed`}>
+                    {renderFormattedText(exp.description)}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        );
+
+      case 'projects':
+        return resume.projects && resume.projects.length > 0 && (
+          <div className={space.section}>
+            {heading('Projects')}
+            <div className={space.entries}>
+              {resume.projects.map(proj => (
+                <div key={proj.id}>
+                  <div className={narrow ? 'mb-1' : 'flex justify-between items-baseline mb-1'}>
+                    <h3 className={`${text.title} font-bold text-slate-900`}>{proj.name}</h3>
+                    {proj.link && <span className={`${text.meta} text-indigo-600 italic`}>{proj.link}</span>}
+                  </div>
+                  <div className={`${text.meta} font-semibold text-slate-500 mb-2`}>{proj.technologies}</div>
+                  <div className={`${text.body} text-slate-700 leading-relaxed`}>
+                    {renderFormattedText(proj.description)}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        );
+
+      case 'education':
+        return resume.education.length > 0 && (
+          <div className={space.section}>
+            {heading('Education')}
+            <div className="space-y-3">
+              {resume.education.map(edu => (
+                <div key={edu.id} className={narrow ? '' : 'flex justify-between items-start'}>
+                  <div>
+                    <div className={`${text.title} font-bold text-slate-900`}>{edu.school}</div>
+                    <div className={`${text.meta} text-slate-600`}>{edu.degree}</div>
+                  </div>
+                  <div className={narrow ? 'mt-0.5' : 'text-right flex-shrink-0 ml-4'}>
+                    <div className={`${text.meta} font-semibold text-slate-500`}>{edu.year}</div>
+                    {edu.grade && <div className={`${text.meta} font-medium text-slate-500 mt-0.5`}>{edu.grade}</div>}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        );
+
+      case 'certifications':
+        return !!resume.certifications?.length && (
+          <div className={space.section}>
+            {heading('Certifications')}
+            <div className="space-y-2">
+              {resume.certifications.map(cert => (
+                <div key={cert.id}>
+                  {entryHeader(cert.name, cert.date, narrow)}
+                  <div className={`${text.meta} text-slate-600`}>
+                    {[cert.issuer, cert.credentialId && `Credential ${cert.credentialId}`].filter(Boolean).join(' · ')}
+                    {cert.link && <span className="text-indigo-600 italic ml-2">{cert.link}</span>}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        );
+
+      case 'awards':
+        return !!resume.awards?.length && (
+          <div className={space.section}>
+            {heading('Awards & Honors')}
+            <div className="space-y-2">
+              {resume.awards.map(award => (
+                <div key={award.id}>
+                  {entryHeader(award.title, award.date, narrow)}
+                  {award.issuer && <div className={`${text.meta} font-semibold text-slate-600`}>{award.issuer}</div>}
+                  {award.description && <div className={`${text.body} text-slate-700 leading-relaxed mt-1`}>{renderFormattedText(award.description)}</div>}
+                </div>
+              ))}
+            </div>
+          </div>
+        );
+
+      case 'languages':
+        return !!resume.languages?.length && (
+          <div className={space.section}>
+            {heading('Languages')}
+            {narrow ? (
+              <ul className={`${text.body} text-slate-700 space-y-1`}>
+                {resume.languages.map(lang => (
+                  <li key={lang.id}>
+                    {lang.name}{lang.proficiency && <span className="text-slate-500"> · {lang.proficiency}</span>}
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className={`${text.body} text-slate-700`}>
+                {resume.languages.map(lang => lang.proficiency ? `${lang.name} (${lang.proficiency})` : lang.name).join(' | ')}
+              </p>
+            )}
+          </div>
+        );
+
+      case 'publications':
+        return !!resume.publications?.length && (
+          <div className={space.section}>
+            {heading('Publications')}
+            <div className="space-y-2">
+              {resume.publications.map(pub => (
+                <div key={pub.id}>
+                  {entryHeader(pub.title, pub.date, narrow)}
+                  <div className={`${text.meta} text-slate-600`}>
+                    {pub.publisher}
+                    {pub.link && <span className="text-indigo-600 italic ml-2">{pub.link}</span>}
+                  </div>
+                  {pub.description && <div className={`${text.body} text-slate-700 leading-relaxed mt-1`}>{renderFormattedText(pub.description)}</div>}
+                </div>
+              ))}
+            </div>
+          </div>
+        );
+
+      case 'volunteering':
+        return !!resume.volunteering?.length && (
+          <div className={space.section}>
+            {heading('Volunteering')}
+            <div className={space.entries}>
+              {resume.volunteering.map(vol => (
+                <div key={vol.id}>
+                  {entryHeader(vol.role, dateRange(vol.startDate, vol.endDate), narrow)}
+                  <div className={`${text.meta} font-semibold text-slate-600 mb-2`}>{vol.organization}</div>
+                  <div className={`${text.body} text-slate-700 leading-relaxed`}>
+                    {renderFormattedText(vol.description)}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        );
+    }
+  };
+
+  const contacts = [
+    resume.email && { icon: <Mail size={12}/>, value: resume.email },
+    resume.phone && { icon: <Phone size={12}/>, value: resume.phone },
+    resume.location && { icon: <MapPin size={12}/>, value: resume.location },
+    resume.linkedin && { icon: <Linkedin size={12}/>, value: resume.linkedin },
+  ].filter((c): c is { icon: React.ReactElement; value: string } => !!c);
+
+  const order = getSectionOrder(resume);
+  const renderSections = (sections: ResumeSectionId[], narrow = false) =>
+    sections.map(section => <React.Fragment key={section}>{renderSection(section, narrow)}</React.Fragment>);
+
+  // Excluded from the PDF capture by html2canvas
+  const pageBreaks = showPageBreaks && pageHeight > 0 && Array.from({ length: pageCount - 1 }, (_, i) => (
+    <div
+      key={i}
+      data-html2canvas-ignore="true"
+      className="absolute left-0 right-0 border-t-2 border-dashed border-rose-400 print:hidden pointer-events-none"
+      style={{ top: pageHeight * (i + 1) }}
+    >
+      <span className="absolute right-2 -top-5 text-[10px] font-bold uppercase tracking-wider text-rose-500 bg-white px-1">Page {i + 2}</span>
+    </div>
+  ));
+
+  const pageClass = "relative bg-white text-slate-900 w-full max-w-[210mm] mx-auto min-h-[297mm] shadow-2xl origin-top transform scale-100 print:shadow-none print:w-full print:max-w-none print:min-h-0";
+  const fontStyle = { fontFamily: RESUME_FONTS[layout.font]?.family };
+
+  if (layout.template.id === 'modern') {
+    return (
+      <div id={id} ref={pageRef} className={`${pageClass} flex`} style={fontStyle}>
+        {/* Sidebar */}
+        <div className={`w-[34%] flex-shrink-0 ${space.page} pr-[6mm]`} style={{ backgroundColor: `${accent}12` }}>
+          {contacts.length > 0 && (
+            <div className={space.section}>
+              {heading('Contact')}
+              <div className={`space-y-1.5 ${text.meta} text-slate-700 font-medium break-words`}>
+                {contacts.map(c => <div key={c.value} className="flex items-start gap-1.5"><span className="mt-0.5 flex-shrink-0" style={{ color: accent }}>{c.icon}</span> <span className="min-w-0">{c.value}</span></div>)}
+              </div>
+            </div>
+          )}
+          {renderSections(order.filter(s => SIDEBAR_SECTIONS.includes(s)), true)}
+        </div>
+
+        {/* Main column */}
+        <div className={`flex-1 min-w-0 ${space.page} pl-[7mm]`}>
+          <div className={space.header}>
+            <h1 className={`${text.name} font-bold tracking-tight mb-1`} style={{ color: accent }}>{resume.fullName}</h1>
+            {resume.jobTitle && <p className={`${text.body} font-semibold uppercase tracking-wider text-slate-500`}>{resume.jobTitle}</p>}
+          </div>
+          {renderSections(order.filter(s => !SIDEBAR_SECTIONS.includes(s)))}
+        </div>
+        {pageBreaks}
+      </div>
+    );
+  }
+
+  return (
+    <div id={id} ref={pageRef} className={`${pageClass} ${space.page}`} style={fontStyle}>
+      
+      {/* Header */}
+      <div className={`border-b-2 ${space.header}`} style={{ borderColor: accent }}>
+        <h1 className={`${text.name} font-bold text-slate-900 uppercase tracking-wide mb-2`}>{resume.fullName}</h1>
+        <div className={`flex flex-wrap ${layout.template.id === 'compact' ? 'gap-3' : 'gap-4'} ${text.meta} text-slate-600 font-medium`}>
+          {contacts.map(c => <span key={c.value} className="flex items-center gap-1">{c.icon} {c.value}</span>)}
+        </div>
+      </div>
+
+      {renderSections(order)}
+      {pageBreaks}
+    </div>
+  );
+};
+
+export default ResumePreview;
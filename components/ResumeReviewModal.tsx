@@ -0,0 +1,148 @@
+import React, { useMemo, useState } from 'react';
+import { Check, GitCompare, X } from 'lucide-react';
+import { Resume, ReviewedChange } from '../types';
+import { diffResume, applyResumeChanges, diffWords, ResumeChange, ResumeSection } from '../lib/resumeDiff';
+import { RESUME_LIST_KEYS, RESUME_SECTION_LABELS } from '../lib/resume';
+
+const SECTIONS: ResumeSection[] = ['profile', ...RESUME_LIST_KEYS];
+const sectionLabel = (section: ResumeSection) => section === 'profile' ? 'Profile' : RESUME_SECTION_LABELS[section];
+
+interface ResumeReviewModalProps {
+  title: string;
+  current: Resume;
+  proposed: Resume;
+  /** Called with the current resume plus the accepted changes, and the decision on every change. */
+  onApply: (resume: Resume, review: ReviewedChange[]) => void;
+  onCancel: () => void;
+}
+
+const ChangeText: React.FC<{ change: ResumeChange; side: 'before' | 'after' }> = ({ change, side }) => {
+  const text = change[side];
+  if (!text) return <span className="italic text-slate-400">Nothing</span>;
+  const hidden = side === 'before' ? 'added' : 'removed';
+  return (
+    <>
+      {diffWords(change.before, change.after).filter(part => part.type !== hidden).map((part, i) => (
+        <span
+          key={i}
+          className={part.type === 'removed'
+            ? 'bg-rose-100 dark:bg-rose-900/40 text-rose-800 dark:text-rose-200 line-through decoration-rose-400'
+            : part.type === 'added' ? 'bg-emerald-100 dark:bg-emerald-900/40 text-emerald-800 dark:text-emerald-200' : ''}
+        >
+          {part.text}
+        </span>
+      ))}
+    </>
+  );
+};
+
+/** Shows an AI rewrite next to the current resume so each change can be kept or thrown away. */
+const ResumeReviewModal: React.FC<ResumeReviewModalProps> = ({ title, current, proposed, onApply, onCancel }) => {
+  const changes = useMemo(() => diffResume(current, proposed), [current, proposed]);
+  const [accepted, setAccepted] = useState<Set<string>>(() => new Set(changes.map(c => c.id)));
+
+  const toggle = (id: string, accept: boolean) => {
+    setAccepted(prev => {
+      const next = new Set(prev);
+      if (accept) next.add(id);
+      else next.delete(id);
+      return next;
+    });
+  };
+
+  const handleApply = () => {
+    const review = changes.map(({ label, before, after, id }) => ({ label, before, after, accepted: accepted.has(id) }));
+    onApply(applyResumeChanges(current, proposed, accepted), review);
+  };
+
+  const sections = SECTIONS
+    .map(section => ({ section, items: changes.filter(c => c.section === section) }))
+    .filter(group => group.items.length > 0);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/50 backdrop-blur-sm">
+      <div className="bg-white dark:bg-slate-900 rounded-2xl shadow-2xl w-full max-w-5xl animate-fade-in border border-slate-200 dark:border-slate-800 max-h-[90vh] flex flex-col">
+        <div className="flex items-start justify-between gap-4 p-5 border-b border-slate-100 dark:border-slate-800">
+          <div className="flex items-start gap-3">
+            <div className="p-2 rounded-xl bg-purple-100 dark:bg-purple-900/30 text-purple-600 dark:text-purple-400">
+              <GitCompare size={20} />
+            </div>
+            <div>
+              <h3 className="text-lg font-bold text-slate-900 dark:text-white">{title}</h3>
+              <p className="text-sm text-slate-500 dark:text-slate-400">
+                {changes.length} suggested {changes.length === 1 ? 'change' : 'changes'}. Keep the ones you want; the rest stay as they are.
+              </p>
+            </div>
+          </div>
+          <div className="flex items-center gap-2 shrink-0">
+            <button onClick={() => setAccepted(new Set(changes.map(c => c.id)))} className="text-xs font-medium text-emerald-700 dark:text-emerald-300 bg-emerald-50 dark:bg-emerald-900/30 px-3 py-1.5 rounded-lg hover:bg-emerald-100 dark:hover:bg-emerald-900/50">
+              Accept all
+            </button>
+            <button onClick={() => setAccepted(new Set())} className="text-xs font-medium text-slate-600 dark:text-slate-300 bg-slate-100 dark:bg-slate-800 px-3 py-1.5 rounded-lg hover:bg-slate-200 dark:hover:bg-slate-700">
+              Reject all
+            </button>
+          </div>
+        </div>
+
+        <div className="overflow-y-auto p-5 space-y-6 custom-scrollbar">
+          {sections.map(({ section, items }) => (
+            <div key={section}>
+              <h4 className="text-xs font-bold uppercase tracking-wider text-slate-500 dark:text-slate-400 mb-3">{sectionLabel(section)}</h4>
+              <div className="space-y-3">
+                {items.map(change => {
+                  const isAccepted = accepted.has(change.id);
+                  return (
+                    <div key={change.id} className={`rounded-xl border p-4 transition-colors ${isAccepted ? 'border-emerald-200 dark:border-emerald-900/60' : 'border-slate-200 dark:border-slate-800 bg-slate-50/50 dark:bg-slate-950/30'}`}>
+                      <div className="flex items-center justify-between gap-3 mb-3">
+                        <p className="text-sm font-semibold text-slate-800 dark:text-slate-200">{change.label}</p>
+                        <div className="flex rounded-lg border border-slate-200 dark:border-slate-700 overflow-hidden shrink-0">
+                          <button
+                            onClick={() => toggle(change.id, true)}
+                            className={`flex items-center gap-1 px-2.5 py-1 text-xs font-medium ${isAccepted ? 'bg-emerald-600 text-white' : 'text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-800'}`}
+                          >
+                            <Check size={12} /> Accept
+                          </button>
+                          <button
+                            onClick={() => toggle(change.id, false)}
+                            className={`flex items-center gap-1 px-2.5 py-1 text-xs font-medium ${!isAccepted ? 'bg-slate-700 text-white' : 'text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-800'}`}
+                          >
+                            <X size={12} /> Reject
+                          </button>
+                        </div>
+                      </div>
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-3 text-sm leading-relaxed">
+                        <div className={`p-3 rounded-lg bg-slate-50 dark:bg-slate-950 whitespace-pre-wrap text-slate-700 dark:text-slate-300 ${!isAccepted ? 'ring-1 ring-slate-300 dark:ring-slate-700' : ''}`}>
+                          <p className="text-[10px] font-bold uppercase tracking-wider text-slate-400 mb-1">Current</p>
+                          <ChangeText change={change} side="before" />
+                        </div>
+                        <div className={`p-3 rounded-lg bg-slate-50 dark:bg-slate-950 whitespace-pre-wrap text-slate-700 dark:text-slate-300 ${isAccepted ? 'ring-1 ring-emerald-300 dark:ring-emerald-800' : 'opacity-60'}`}>
+                          <p className="text-[10px] font-bold uppercase tracking-wider text-slate-400 mb-1">Suggested</p>
+                          <ChangeText change={change} side="after" />
+                        </div>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex justify-end gap-3 p-5 border-t border-slate-100 dark:border-slate-800">
+          <button onClick={onCancel} className="px-4 py-2 text-slate-600 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-lg font-medium">
+            Discard All
+          </button>
+          <button
+            onClick={handleApply}
+            disabled={accepted.size === 0}
+            className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg font-bold shadow-lg shadow-indigo-200 dark:shadow-none disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Apply {accepted.size} of {changes.length}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ResumeReviewModal;
@@ -0,0 +1,83 @@
+import React from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+
+export interface SectionField<T> {
+  key: keyof T & string;
+  label: string;
+  placeholder?: string;
+  multiline?: boolean; // Spans both columns as a textarea
+}
+
+interface ResumeSectionEditorProps<T extends { id: string }> {
+  title: string;
+  icon: React.ReactNode;
+  addLabel: string;
+  items: T[];
+  fields: SectionField<T>[];
+  /** A blank entry, added at the top of the list. */
+  createItem: () => T;
+  onChange: (items: T[]) => void;
+}
+
+const inputClass = "w-full p-2.5 rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-950 text-slate-900 dark:text-white focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500 outline-none placeholder:text-slate-400 text-sm";
+const labelClass = "block text-xs font-semibold text-slate-500 dark:text-slate-400 mb-1 uppercase tracking-wider";
+
+/** Editor card for the optional resume sections, which are all flat lists of text fields. */
+const ResumeSectionEditor = <T extends { id: string }>({ title, icon, addLabel, items, fields, createItem, onChange }: ResumeSectionEditorProps<T>) => {
+  const updateItem = (id: string, key: keyof T, value: string) => {
+    onChange(items.map(item => item.id === id ? { ...item, [key]: value } : item));
+  };
+
+  return (
+    <section className="bg-white dark:bg-slate-900 p-6 rounded-2xl shadow-sm border border-slate-100 dark:border-slate-800">
+      <div className="flex justify-between items-center mb-6">
+        <h3 className="text-lg font-bold text-slate-800 dark:text-white flex items-center gap-2">
+          {icon} {title}
+        </h3>
+        <button onClick={() => onChange([createItem(), ...items])} className="text-sm flex items-center gap-1 text-indigo-600 hover:text-indigo-700 font-medium">
+          <Plus size={16}/> {addLabel}
+        </button>
+      </div>
+
+      {items.length === 0 && (
+        <p className="text-sm text-slate-400 dark:text-slate-500">Optional. Left out of your resume while empty.</p>
+      )}
+
+      <div className="space-y-4">
+        {items.map(item => (
+          <div key={item.id} className="p-4 rounded-xl border border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-950/50">
+            <div className="flex justify-between items-start">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4 w-full mr-4">
+                {fields.map(field => (
+                  <div key={field.key} className={field.multiline ? 'md:col-span-2' : ''}>
+                    <label className={labelClass}>{field.label}</label>
+                    {field.multiline ? (
+                      <textarea
+                        className={`${inputClass} min-h-[80px]`}
+                        value={(item[field.key] as string | undefined) || ''}
+                        onChange={e => updateItem(item.id, field.key, e.target.value)}
+                        placeholder={field.placeholder}
+                      />
+                    ) : (
+                      <input
+                        className={inputClass}
+                        value={(item[field.key] as string | undefined) || ''}
+                        onChange={e => updateItem(item.id, field.key, e.target.value)}
+                        placeholder={field.placeholder}
+                      />
+                    )}
+                  </div>
+                ))}
+              </div>
+              <button onClick={() => onChange(items.filter(i => i.id !== item.id))} className="text-slate-400 hover:text-rose-500 transition-colors mt-6">
+                <Trash2 size={16}/>
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </section>
+  );
+};
+
+export default ResumeSectionEditor;
@@ -0,0 +1,36 @@
+import React from 'react';
+import { History, X } from 'lucide-react';
+import { ResumeSnapshot } from '../types';
+import { snapshotLabel, SNAPSHOT_REASON_LABELS } from '../lib/resume';
+import ResumePreview from './ResumePreview';
+
+/** Read-only view of a saved resume version, e.g. the one sent with an application. */
+const ResumeSnapshotViewer: React.FC<{ snapshot: ResumeSnapshot; onClose: () => void }> = ({ snapshot, onClose }) => (
+  <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-slate-900/50 backdrop-blur-sm">
+    <div className="bg-white dark:bg-slate-900 rounded-2xl shadow-2xl w-full max-w-4xl animate-fade-in border border-slate-200 dark:border-slate-800 max-h-[90vh] flex flex-col">
+      <div className="flex items-start justify-between gap-4 p-5 border-b border-slate-100 dark:border-slate-800">
+        <div className="flex items-start gap-3">
+          <div className="p-2 rounded-xl bg-indigo-100 dark:bg-indigo-900/30 text-indigo-600 dark:text-indigo-400">
+            <History size={20} />
+          </div>
+          <div>
+            <h3 className="text-lg font-bold text-slate-900 dark:text-white">{snapshotLabel(snapshot)}</h3>
+            <p className="text-sm text-slate-500 dark:text-slate-400">
+              {SNAPSHOT_REASON_LABELS[snapshot.reason]} {new Date(snapshot.date).toLocaleString()}
+              {snapshot.note && <> · {snapshot.note}</>}
+              {snapshot.review && <> · {snapshot.review.filter(c => c.accepted).length} of {snapshot.review.length} suggested changes kept</>}
+            </p>
+          </div>
+        </div>
+        <button onClick={onClose} className="p-2 text-slate-400 hover:text-slate-600 dark:hover:text-slate-200 rounded-lg">
+          <X size={20} />
+        </button>
+      </div>
+      <div className="overflow-y-auto p-4 lg:p-8 bg-slate-200 dark:bg-slate-950 rounded-b-2xl">
+        <ResumePreview resume={snapshot.content} />
+      </div>
+    </div>
+  </div>
+);
+
+export default ResumeSnapshotViewer;
@@ -1,27 +1,29 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { useJobContext } from '../context/JobContext';
-import { Calendar as CalendarIcon, Clock, CheckSquare, Square, Briefcase } from 'lucide-react';
+import { Calendar as CalendarIcon, Clock, CheckSquare, Square, Briefcase, Users, Video, Download, Upload } from 'lucide-react';
 import { Job } from '../types';
+import { getStage, STAGE_COLORS } from '../lib/pipeline';
+import { getScheduledRounds, getNextRound } from '../lib/interviews';
+import { buildCalendar, parseCalendar, CalendarEvent } from '../lib/ical';
+import CalendarImportModal from './CalendarImportModal';
 
 const Schedule: React.FC = () => {
-  const { jobs, updateJob } = useJobContext();
+  const { jobs, updateJob, pipelineStages } = useJobContext();
   const [timeLeft, setTimeLeft] = useState<{ days: number; hours: number; minutes: number } | null>(null);
+  const [importedEvents, setImportedEvents] = useState<CalendarEvent[] | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
 
-  // Filter jobs that have an interview date and sort them
-  const scheduledJobs = jobs
-    .filter(j => j.interviewDate)
-    .sort((a, b) => new Date(a.interviewDate!).getTime() - new Date(b.interviewDate!).getTime());
-
-  const upcomingJobs = scheduledJobs.filter(j => new Date(j.interviewDate!).getTime() > Date.now());
-
-  const nextInterview = upcomingJobs[0];
+  // Every round across all jobs, in date order
+  const scheduledRounds = getScheduledRounds(jobs);
+  const nextInterview = getNextRound(jobs);
+  const nextDate = nextInterview?.round.date;
 
   useEffect(() => {
-    if (!nextInterview || !nextInterview.interviewDate) return;
+    if (!nextDate) return;
 
     const interval = setInterval(() => {
       const now = new Date().getTime();
-      const distance = new Date(nextInterview.interviewDate!).getTime() - now;
+      const distance = new Date(nextDate).getTime() - now;
 
       if (distance < 0) {
         setTimeLeft(null);
@@ -36,7 +38,7 @@ const Schedule: React.FC = () => {
 
     // Initial call
     const now = new Date().getTime();
-    const distance = new Date(nextInterview.interviewDate!).getTime() - now;
+    const distance = new Date(nextDate).getTime() - now;
     if (distance > 0) {
         setTimeLeft({
             days: Math.floor(distance / (1000 * 60 * 60 * 24)),
@@ -46,7 +48,31 @@ const Schedule: React.FC = () => {
     }
 
     return () => clearInterval(interval);
-  }, [nextInterview]);
+  }, [nextDate]);
+
+  const handleExportCalendar = () => {
+    const blob = new Blob([buildCalendar(scheduledRounds)], { type: 'text/calendar;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const anchor = document.createElement('a');
+    anchor.href = url;
+    anchor.download = `JobJumperAI_Interviews_${new Date().toISOString().split('T')[0]}.ics`;
+    document.body.appendChild(anchor);
+    anchor.click();
+    anchor.remove();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImportCalendar = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow picking the same file again
+    if (!file) return;
+    const events = parseCalendar(await file.text());
+    if (events.length === 0) {
+      alert("No events with a start time were found in that file.");
+      return;
+    }
+    setImportedEvents(events);
+  };
 
   const toggleChecklistItem = (job: Job, itemId: string) => {
     const updatedChecklist = job.checklist?.map(item => 
@@ -57,16 +83,38 @@ const Schedule: React.FC = () => {
 
   return (
     <div className="space-y-8 animate-fade-in">
-      <div className="flex items-center gap-3">
-        <div className="p-3 bg-blue-100 dark:bg-blue-900/30 rounded-xl text-blue-600 dark:text-blue-400">
-           <CalendarIcon size={24} />
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <div className="p-3 bg-blue-100 dark:bg-blue-900/30 rounded-xl text-blue-600 dark:text-blue-400">
+             <CalendarIcon size={24} />
+          </div>
+          <div>
+             <h2 className="text-2xl font-bold text-slate-800 dark:text-white">Interview Schedule</h2>
+             <p className="text-slate-500 dark:text-slate-400">Track upcoming interviews and preparation tasks.</p>
+          </div>
         </div>
-        <div>
-           <h2 className="text-2xl font-bold text-slate-800 dark:text-white">Interview Schedule</h2>
-           <p className="text-slate-500 dark:text-slate-400">Track upcoming interviews and preparation tasks.</p>
+        <div className="flex gap-2">
+          <input type="file" ref={fileInputRef} className="hidden" accept=".ics,text/calendar" onChange={handleImportCalendar} />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="px-4 py-2 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg text-sm font-medium text-slate-700 dark:text-slate-200 hover:bg-slate-50 dark:hover:bg-slate-700 transition-colors flex items-center gap-2"
+          >
+            <Upload size={16} /> Import .ics
+          </button>
+          <button
+            onClick={handleExportCalendar}
+            disabled={scheduledRounds.length === 0}
+            className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg text-sm font-medium transition-colors flex items-center gap-2 disabled:opacity-50"
+          >
+            <Download size={16} /> Export .ics
+          </button>
         </div>
       </div>
 
+      {importedEvents && (
+        <CalendarImportModal events={importedEvents} onClose={() => setImportedEvents(null)} />
+      )}
+
       {/* Countdown Hero */}
       {nextInterview ? (
         <div className="bg-gradient-to-r from-indigo-600 to-purple-600 rounded-3xl p-8 text-white shadow-xl shadow-indigo-200 dark:shadow-none relative overflow-hidden">
@@ -77,8 +125,10 @@ const Schedule: React.FC = () => {
              <div className="inline-block px-3 py-1 bg-white/20 rounded-full text-xs font-semibold mb-4 backdrop-blur-sm">
                 Next Interview
              </div>
-             <h1 className="text-4xl font-bold mb-2">{nextInterview.role}</h1>
-             <p className="text-indigo-100 text-lg mb-6">at {nextInterview.company}</p>
+             <h1 className="text-4xl font-bold mb-2">{nextInterview.job.role}</h1>
+             <p className="text-indigo-100 text-lg mb-6">
+               {nextInterview.round.name} at {nextInterview.job.company} · {nextInterview.round.format}, {nextInterview.round.durationMinutes} min
+             </p>
              
              {timeLeft && (
                <div className="flex gap-4">
@@ -104,7 +154,7 @@ const Schedule: React.FC = () => {
               <CalendarIcon size={32} />
            </div>
            <h3 className="text-lg font-semibold text-slate-800 dark:text-white">No Interviews Scheduled</h3>
-           <p className="text-slate-500 dark:text-slate-400 mt-2">Add an interview date to your applications to see the countdown.</p>
+           <p className="text-slate-500 dark:text-slate-400 mt-2">Add interview rounds to your applications to see the countdown.</p>
         </div>
       )}
 
@@ -115,14 +165,17 @@ const Schedule: React.FC = () => {
            Upcoming Timeline
         </h3>
         
-        {scheduledJobs.length > 0 ? (
+        {scheduledRounds.length > 0 ? (
           <div className="relative border-l-2 border-slate-200 dark:border-slate-800 ml-4 space-y-8 pb-4">
-            {scheduledJobs.map((job) => {
-               const date = new Date(job.interviewDate!);
-               const isPast = date.getTime() < Date.now();
+            {scheduledRounds.map(({ job, round }) => {
+               const date = new Date(round.date);
+               const isPast = date.getTime() < Date.now() || round.outcome === 'Cancelled';
+               // The prep checklist belongs to the job, so show it once, on the job's next round
+               const showChecklist = getNextRound([job])?.round.id === round.id;
+               const interviewers = (job.contacts || []).filter(c => round.interviewerIds.includes(c.id));
 
                return (
-                 <div key={job.id} className="relative pl-8">
+                 <div key={round.id} className="relative pl-8">
                     {/* Dot */}
                     <div className={`absolute -left-[9px] top-0 w-4 h-4 rounded-full border-2 ${
                         isPast ? 'bg-slate-200 border-slate-300 dark:bg-slate-800 dark:border-slate-700' : 'bg-white dark:bg-slate-950 border-indigo-600'
@@ -138,17 +191,37 @@ const Schedule: React.FC = () => {
                                 }`}>
                                     {date.toLocaleDateString('en-US', { weekday: 'long', month: 'short', day: 'numeric' })} • {date.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' })}
                                 </span>
-                                <h4 className="text-lg font-bold text-slate-900 dark:text-white">{job.role}</h4>
+                                <h4 className="text-lg font-bold text-slate-900 dark:text-white">{round.name} · {job.role}</h4>
                                 <p className="text-slate-600 dark:text-slate-400">{job.company}</p>
+                                <div className="flex flex-wrap gap-4 mt-2 text-xs text-slate-500 dark:text-slate-400">
+                                    <span className="flex items-center gap-1"><Video size={14} /> {round.format} · {round.durationMinutes} min</span>
+                                    {interviewers.length > 0 && (
+                                        <span className="flex items-center gap-1"><Users size={14} /> {interviewers.map(c => c.name).join(', ')}</span>
+                                    )}
+                                </div>
+                            </div>
+                            <div className="flex gap-2 shrink-0">
+                                {round.outcome !== 'Pending' && (
+                                    <span className={`px-3 py-1 rounded-full text-xs font-semibold ${
+                                        round.outcome === 'Passed' ? 'bg-emerald-100 dark:bg-emerald-900/30 text-emerald-700 dark:text-emerald-300' :
+                                        round.outcome === 'Failed' ? 'bg-rose-100 dark:bg-rose-900/30 text-rose-700 dark:text-rose-300' :
+                                        'bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-300'
+                                    }`}>
+                                        {round.outcome}
+                                    </span>
+                                )}
+                                <span className={`px-3 py-1 rounded-full text-xs font-semibold ${STAGE_COLORS[getStage(pipelineStages, job.status).color].badge}`}>
+                                    {getStage(pipelineStages, job.status).name}
+                                </span>
                             </div>
-                            <span className={`px-3 py-1 rounded-full text-xs font-semibold ${
-                                job.status === 'Interview' ? 'bg-purple-100 dark:bg-purple-900/30 text-purple-700 dark:text-purple-300' : 'bg-slate-100 dark:bg-slate-800 text-slate-600'
-                            }`}>
-                                {job.status}
-                            </span>
                         </div>
 
+                        {round.feedback && (
+                            <p className="text-sm text-slate-600 dark:text-slate-400 italic mb-4">"{round.feedback}"</p>
+                        )}
+
                         {/* Checklist */}
+                        {showChecklist && (
                         <div className="bg-slate-50 dark:bg-slate-950/50 rounded-lg p-4">
                             <h5 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-3">Preparation Checklist</h5>
                             <div className="space-y-2">
@@ -172,6 +245,7 @@ const Schedule: React.FC = () => {
                                 )}
                             </div>
                         </div>
+                        )}
                     </div>
                  </div>
                );
@@ -8,16 +8,19 @@ import {
 } from 'lucide-react';
 import { Resume } from '../types';
 import { parseResumeFromDocument } from '../services/geminiService';
-
-const generateId = () => {
-  if (typeof crypto !== 'undefined' && crypto.randomUUID) {
-    return crypto.randomUUID();
-  }
-  return Math.random().toString(36).substring(2) + Date.now().toString(36);
-};
+import PipelineStagesEditor from './PipelineStagesEditor';
+import AiProviderSettings from './AiProviderSettings';
+import AiUsageSettings from './AiUsageSettings';
+import PrivacySettings from './PrivacySettings';
+import RestoreBackup from './RestoreBackup';
+import { createBackup } from '../services/storage';
+import { fillEntryIds } from '../lib/resume';
 
 const Settings: React.FC = () => {
-  const { resume, updateResume, theme, toggleTheme, jobs, stats, loadDemoData } = useJobContext();
+  const {
+    resume, updateResume, theme, toggleTheme, jobs, loadDemoData,
+    chatThreads, researchHistory, prepHistory, pipelineStages, resumeLibrary, resumeSnapshots
+  } = useJobContext();
   const { user, signOut } = useAuth();
   
   const [activeTab, setActiveTab] = useState<'profile' | 'app' | 'data'>('profile');
@@ -68,22 +71,16 @@ const Settings: React.FC = () => {
         try {
           const parsedData = await parseResumeFromDocument(base64);
           
-          // Merge logic: Ensure IDs are present for arrays
-          const newResume: Resume = {
-            ...resume,
-            ...parsedData,
-            experience: parsedData.experience?.map(e => ({ ...e, id: generateId() })) || [],
-            projects: parsedData.projects?.map(p => ({ ...p, id: generateId() })) || [],
-            education: parsedData.education?.map(ed => ({ ...ed, id: generateId() })) || [],
-          };
+          // Imported entries get fresh ids
+          const newResume: Resume = { ...resume, ...fillEntryIds(parsedData) };
           
           await updateResume(newResume);
           setFormData(newResume); // Update local form state immediately
           setSuccessMsg("Resume parsed and saved! AI now has access to this data.");
           setTimeout(() => setSuccessMsg(null), 5000);
-        } catch (err) {
+        } catch (err: any) {
           console.error("Parse error", err);
-          alert("Failed to parse resume. Please ensure the file is clear.");
+          alert(`Failed to parse resume. ${err.message || 'Please ensure the file is clear.'}`);
         }
         setIsImporting(false);
       };
@@ -94,12 +91,16 @@ const Settings: React.FC = () => {
   };
 
   const handleExportData = () => {
-    const data = {
-      userProfile: resume,
-      jobApplications: jobs,
-      stats: stats,
-      exportDate: new Date().toISOString()
-    };
+    const data = createBackup({
+      jobs,
+      resume,
+      chatThreads,
+      researchReports: researchHistory,
+      prepReports: prepHistory,
+      pipelineStages,
+      resumeLibrary,
+      resumeSnapshots,
+    });
 
     const dataStr = "data:text/json;charset=utf-8," + encodeURIComponent(JSON.stringify(data, null, 2));
     const downloadAnchorNode = document.createElement('a');
@@ -307,6 +308,7 @@ const Settings: React.FC = () => {
 
           {/* APP PREFERENCES TAB */}
           {activeTab === 'app' && (
+            <div className="space-y-6 animate-fade-in">
              <div className="bg-white dark:bg-slate-900 rounded-2xl p-6 md:p-8 shadow-sm border border-slate-100 dark:border-slate-800 space-y-6">
                 <h3 className="text-xl font-bold text-slate-900 dark:text-white">Appearance & Behavior</h3>
                 
@@ -343,6 +345,13 @@ const Settings: React.FC = () => {
                    </div>
                 </div>
              </div>
+
+             <PipelineStagesEditor />
+
+             <AiProviderSettings />
+
+             <AiUsageSettings />
+            </div>
           )}
 
           {/* DATA & PRIVACY TAB */}
@@ -376,6 +385,8 @@ const Settings: React.FC = () => {
                  </button>
               </div>
 
+              <PrivacySettings />
+
               {/* Export */}
               <div className="bg-white dark:bg-slate-900 rounded-2xl p-6 md:p-8 shadow-sm border border-slate-100 dark:border-slate-800">
                  <div className="flex items-center gap-4 mb-6">
@@ -384,13 +395,15 @@ const Settings: React.FC = () => {
                     </div>
                     <div>
                        <h3 className="text-xl font-bold text-slate-900 dark:text-white">Export Your Data</h3>
-                       <p className="text-sm text-slate-500 dark:text-slate-400">Download a copy of all your jobs, resume data, and interview logs.</p>
+                       <p className="text-sm text-slate-500 dark:text-slate-400">Download a copy of your jobs, resume, chat history, and research and prep reports.</p>
                     </div>
                  </div>
                  <div className="bg-slate-50 dark:bg-slate-950 p-4 rounded-xl text-sm text-slate-600 dark:text-slate-400 mb-6 font-mono border border-slate-100 dark:border-slate-800">
                     <p>{jobs.length} Applications</p>
                     <p>{resume.experience.length} Experience Entries</p>
                     <p>{resume.projects.length} Projects</p>
+                    <p>{chatThreads.length} Chat Conversations</p>
+                    <p>{researchHistory.length + prepHistory.length} Research & Prep Reports</p>
                  </div>
                  <button 
                    onClick={handleExportData}
@@ -400,6 +413,9 @@ const Settings: React.FC = () => {
                  </button>
               </div>
 
+              {/* Restore */}
+              <RestoreBackup />
+
               {/* Danger Zone */}
               <div className="bg-white dark:bg-slate-900 rounded-2xl p-6 md:p-8 shadow-sm border border-rose-100 dark:border-rose-900/30">
                  <div className="flex items-center gap-4 mb-6">
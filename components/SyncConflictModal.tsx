@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import { useJobContext } from '../context/JobContext';
+import { SyncConflict } from '../services/storage';
+import { AlertTriangle, Cloud, Laptop, Loader2 } from 'lucide-react';
+
+// Fields worth showing side by side; everything else is still kept with the chosen copy.
+const JOB_FIELDS = ['company', 'role', 'status', 'salary', 'location', 'interviewRounds', 'notes', 'questions'] as const;
+const RESUME_FIELDS = ['fullName', 'jobTitle', 'email', 'phone', 'location', 'summary', 'skills'] as const;
+
+const describe = (value: any): string => {
+  if (value === undefined || value === null || value === '') return '—';
+  if (typeof value === 'string') return value;
+  return JSON.stringify(value);
+};
+
+const getDiffRows = (conflict: SyncConflict) => {
+  const fields: readonly string[] = conflict.entity === 'job' ? JOB_FIELDS : RESUME_FIELDS;
+  const local = conflict.local as Record<string, any>;
+  const server = (conflict.server || {}) as Record<string, any>;
+  return fields
+    .filter(field => describe(local[field]) !== describe(server[field]))
+    .map(field => ({ field, local: describe(local[field]), server: describe(server[field]) }));
+};
+
+/**
+ * Blocking prompt shown when a queued edit could not be written because the
+ * server copy changed in another tab or device. Conflicts are handled one at a time.
+ */
+const SyncConflictModal: React.FC = () => {
+  const { syncState, resolveSyncConflict } = useJobContext();
+  const [isResolving, setIsResolving] = useState(false);
+
+  const conflict = syncState.conflicts[0];
+  if (!conflict) return null;
+
+  const rows = getDiffRows(conflict);
+  const title = conflict.entity === 'job'
+    ? `${conflict.local.role} at ${conflict.local.company}`
+    : 'Your resume';
+
+  const handleResolve = async (choice: 'local' | 'server') => {
+    setIsResolving(true);
+    try {
+      await resolveSyncConflict(conflict.id, choice);
+    } finally {
+      setIsResolving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-slate-900/50 backdrop-blur-sm">
+      <div className="bg-white dark:bg-slate-900 rounded-2xl shadow-2xl w-full max-w-2xl p-6 animate-fade-in border border-slate-200 dark:border-slate-800 max-h-[90vh] overflow-y-auto">
+        <div className="flex items-start gap-3 mb-6">
+          <div className="p-2 rounded-xl bg-amber-100 dark:bg-amber-900/30 text-amber-600 dark:text-amber-400">
+            <AlertTriangle size={20} />
+          </div>
+          <div>
+            <h3 className="text-xl font-bold text-slate-900 dark:text-white">Sync Conflict</h3>
+            <p className="text-sm text-slate-500 dark:text-slate-400">
+              <strong>{title}</strong> {conflict.server ? 'was changed on another device or tab' : 'was deleted on another device or tab'} while you were editing it.
+              {syncState.conflicts.length > 1 && ` (${syncState.conflicts.length - 1} more after this)`}
+            </p>
+          </div>
+        </div>
+
+        {conflict.server && rows.length > 0 && (
+          <div className="rounded-xl border border-slate-200 dark:border-slate-800 overflow-hidden mb-6">
+            <div className="grid grid-cols-[120px_1fr_1fr] bg-slate-50 dark:bg-slate-950/50 text-xs font-bold uppercase tracking-wider text-slate-500 dark:text-slate-400">
+              <div className="p-3">Field</div>
+              <div className="p-3 flex items-center gap-1.5"><Laptop size={12} /> This Device</div>
+              <div className="p-3 flex items-center gap-1.5"><Cloud size={12} /> Server</div>
+            </div>
+            {rows.map(row => (
+              <div key={row.field} className="grid grid-cols-[120px_1fr_1fr] border-t border-slate-100 dark:border-slate-800 text-sm">
+                <div className="p-3 font-medium text-slate-500 dark:text-slate-400">{row.field}</div>
+                <div className="p-3 text-slate-800 dark:text-slate-200 break-words whitespace-pre-wrap max-h-32 overflow-y-auto">{row.local}</div>
+                <div className="p-3 text-slate-800 dark:text-slate-200 break-words whitespace-pre-wrap max-h-32 overflow-y-auto">{row.server}</div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {conflict.server && rows.length === 0 && (
+          <p className="text-sm text-slate-500 dark:text-slate-400 mb-6">The differences are in checklist, contact or log details.</p>
+        )}
+
+        <div className="flex flex-col sm:flex-row justify-end gap-3">
+          <button
+            onClick={() => handleResolve('server')}
+            disabled={isResolving}
+            className="px-4 py-2 rounded-lg border border-slate-200 dark:border-slate-700 text-slate-700 dark:text-slate-300 font-medium hover:bg-slate-50 dark:hover:bg-slate-800 transition-colors disabled:opacity-70 flex items-center justify-center gap-2"
+          >
+            <Cloud size={16} /> {conflict.server ? 'Use Server Version' : 'Discard My Changes'}
+          </button>
+          <button
+            onClick={() => handleResolve('local')}
+            disabled={isResolving}
+            className="bg-indigo-600 hover:bg-indigo-700 text-white px-6 py-2 rounded-lg font-bold shadow-lg shadow-indigo-200 dark:shadow-none transition-all flex items-center justify-center gap-2 disabled:opacity-70"
+          >
+            {isResolving ? <Loader2 className="animate-spin" size={16} /> : <Laptop size={16} />}
+            {conflict.server ? 'Keep My Version' : 'Restore My Copy'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SyncConflictModal;
@@ -0,0 +1,80 @@
+import React, { useState } from 'react';
+import { useJobContext } from '../context/JobContext';
+import { AlertOctagon, Loader2, RotateCcw, Trash2, X } from 'lucide-react';
+
+/**
+ * Writes the backend kept rejecting. They stay on this device and in the app until the user
+ * retries them (e.g. after a database migration) or discards them.
+ */
+const SyncFailuresModal: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+  const { syncState, retrySyncFailure, discardSyncFailure } = useJobContext();
+  const [discardingId, setDiscardingId] = useState<string | null>(null);
+  const failures = syncState.failures;
+
+  const handleDiscard = async (id: string, description: string) => {
+    if (!window.confirm(`Discard "${description}"? The change is lost and the saved copy is shown instead.`)) return;
+    setDiscardingId(id);
+    try {
+      await discardSyncFailure(id);
+    } finally {
+      setDiscardingId(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-slate-900/50 backdrop-blur-sm">
+      <div className="bg-white dark:bg-slate-900 rounded-2xl shadow-2xl w-full max-w-2xl p-6 animate-fade-in border border-slate-200 dark:border-slate-800 max-h-[90vh] overflow-y-auto">
+        <div className="flex items-start justify-between gap-3 mb-6">
+          <div className="flex items-start gap-3">
+            <div className="p-2 rounded-xl bg-rose-100 dark:bg-rose-900/30 text-rose-600 dark:text-rose-400">
+              <AlertOctagon size={20} />
+            </div>
+            <div>
+              <h3 className="text-xl font-bold text-slate-900 dark:text-white">Changes Not Saved</h3>
+              <p className="text-sm text-slate-500 dark:text-slate-400">
+                These changes were rejected by the server several times. They are kept on this device until you retry or discard them.
+              </p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 text-slate-400 hover:text-slate-600 dark:hover:text-slate-200 rounded-lg">
+            <X size={20} />
+          </button>
+        </div>
+
+        {failures.length === 0 ? (
+          <p className="text-sm text-slate-500 dark:text-slate-400">Everything has been saved.</p>
+        ) : (
+          <div className="space-y-3">
+            {failures.map(failure => (
+              <div key={failure.id} className="p-4 rounded-xl border border-slate-200 dark:border-slate-800 flex flex-col sm:flex-row sm:items-center gap-3">
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-semibold text-slate-800 dark:text-slate-200">{failure.description}</p>
+                  <p className="text-xs text-slate-500 dark:text-slate-400 break-words">
+                    {new Date(failure.failedAt).toLocaleString()} · {failure.error}
+                  </p>
+                </div>
+                <div className="flex gap-2 shrink-0">
+                  <button
+                    onClick={() => handleDiscard(failure.id, failure.description)}
+                    disabled={discardingId === failure.id}
+                    className="px-3 py-1.5 rounded-lg border border-slate-200 dark:border-slate-700 text-sm text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-800 flex items-center gap-1.5 disabled:opacity-70"
+                  >
+                    {discardingId === failure.id ? <Loader2 size={14} className="animate-spin" /> : <Trash2 size={14} />} Discard
+                  </button>
+                  <button
+                    onClick={() => retrySyncFailure(failure.id)}
+                    className="px-3 py-1.5 rounded-lg bg-indigo-600 hover:bg-indigo-700 text-white text-sm font-medium flex items-center gap-1.5"
+                  >
+                    <RotateCcw size={14} /> Retry
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SyncFailuresModal;
@@ -1,8 +1,20 @@
 
-import React, { createContext, useContext, useState, useEffect, ReactNode, useRef } from 'react';
-import { Job, Resume, ChatMessage, ResearchReport, InterviewPrepReport } from '../types';
-import { supabase } from '../services/supabaseClient';
+import React, { createContext, useContext, useState, useEffect, ReactNode, useRef, useMemo } from 'react';
+import {
+  Job, Resume, ChatMessage, ChatThread, ResearchReport, InterviewPrepReport, PipelineStage,
+  ResumeLibrary, ResumeSnapshot, ResumeSnapshotReason, ReviewedChange
+} from '../types';
+import {
+  createStorageRepository, createDemoSnapshot, importSnapshot,
+  createSyncQueue, stampVersion, SyncQueue, SyncState,
+  applyRestore, RestorePlan, DEFAULT_THREAD_TITLE
+} from '../services/storage';
 import { useAuth } from './AuthContext';
+import { appendStatusChange, initialStatusHistory } from '../lib/statusHistory';
+import { DEFAULT_PIPELINE_STAGES, getStage } from '../lib/pipeline';
+import { migrateLegacyInterview, hasInterviews } from '../lib/interviews';
+import { DEFAULT_RESUME_LIBRARY, latestSnapshot } from '../lib/resume';
+import { generateId } from '../lib/id';
 
 interface JobContextType {
   jobs: Job[];
@@ -14,21 +26,46 @@ interface JobContextType {
   loadDemoData: () => Promise<void>;
   stats: {
     total: number;
-    applied: number;
-    interview: number;
+    active: number;
+    interview: number; // Jobs with at least one interview round, whatever their stage
     offer: number;
-    rejected: number;
+    closed: number;
+    byStage: Record<string, number>;
   };
+
+  // Pipeline Configuration
+  pipelineStages: PipelineStage[];
+  updatePipelineStages: (stages: PipelineStage[]) => void;
+
+  // Resume Library (`resume` is always the active named resume)
+  resumeLibrary: ResumeLibrary;
+  resumeSnapshots: ResumeSnapshot[];
+  /** Adds a named resume, starting as a copy of the active one, and switches to it. */
+  createNamedResume: (name: string) => void;
+  switchResume: (id: string) => void;
+  renameResume: (id: string, name: string) => void;
+  /** Removes a named resume, switching away first if it is active. Its snapshots stay for the jobs that use them. */
+  deleteNamedResume: (id: string) => void;
+  /** Takes an immutable copy of the active resume, or of `content` when it was only just changed. */
+  saveResumeSnapshot: (reason: ResumeSnapshotReason, fields?: { note?: string; content?: Resume; review?: ReviewedChange[] }) => ResumeSnapshot;
+
+  // Backup
+  restoreBackup: (plan: RestorePlan) => Promise<void>;
+
   theme: 'light' | 'dark';
   toggleTheme: () => void;
   loading: boolean;
   
   // Chat Persistence
-  chatMessages: ChatMessage[];
-  addChatMessage: (message: ChatMessage) => void;
-  clearChat: () => void;
-  isChatInitialized: boolean;
-  setChatInitialized: (initialized: boolean) => void;
+  chatThreads: ChatThread[];
+  activeThreadId: string | null;
+  setActiveThreadId: (id: string | null) => void;
+  /** Creates a thread and makes it the active one. */
+  createChatThread: (fields?: { title?: string; jobId?: string }) => ChatThread;
+  renameChatThread: (id: string, title: string) => void;
+  deleteChatThread: (id: string) => void;
+  addChatMessage: (threadId: string, message: ChatMessage) => void;
+  updateChatMessage: (threadId: string, id: string, fields: Partial<ChatMessage>) => void;
 
   // Research Persistence
   researchHistory: ResearchReport[];
@@ -39,6 +76,13 @@ interface JobContextType {
   prepHistory: InterviewPrepReport[];
   addPrepReport: (report: InterviewPrepReport) => void;
   deletePrepReport: (id: string) => void;
+
+  // Offline Sync
+  syncState: SyncState;
+  resolveSyncConflict: (conflictId: string, choice: 'local' | 'server') => Promise<void>;
+  retrySyncFailure: (failureId: string) => void;
+  /** Drops a write the backend kept rejecting and reloads what the backend has. */
+  discardSyncFailure: (failureId: string) => Promise<void>;
 }
 
 const JobContext = createContext<JobContextType | undefined>(undefined);
@@ -58,16 +102,21 @@ const DEFAULT_RESUME: Resume = {
   avatarImage: ""
 };
 
+const EMPTY_SYNC_STATE: SyncState = { pending: 0, conflicts: [], failures: [], isOnline: true, isFlushing: false };
+
 export const JobProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
   const { user, isDemoMode } = useAuth();
   const [jobs, setJobs] = useState<Job[]>([]);
+  // Jobs as of the last write, including writes made since the last render (e.g. earlier in a calendar import)
+  const latestJobs = useRef<Job[]>(jobs);
+  latestJobs.current = jobs;
   const [resume, setResume] = useState<Resume>(DEFAULT_RESUME);
   const [loading, setLoading] = useState(true);
   const isInitialLoad = useRef(true);
 
   // Chat State
-  const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
-  const [isChatInitialized, setChatInitialized] = useState(false);
+  const [chatThreads, setChatThreads] = useState<ChatThread[]>([]);
+  const [activeThreadId, setActiveThreadId] = useState<string | null>(null);
 
   // Research State
   const [researchHistory, setResearchHistory] = useState<ResearchReport[]>([]);
@@ -75,6 +124,13 @@ export const JobProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   // Prep State
   const [prepHistory, setPrepHistory] = useState<InterviewPrepReport[]>([]);
 
+  // Resume Library State
+  const [resumeLibrary, setResumeLibrary] = useState<ResumeLibrary>(DEFAULT_RESUME_LIBRARY);
+  const [resumeSnapshots, setResumeSnapshots] = useState<ResumeSnapshot[]>([]);
+
+  // Pipeline State
+  const [pipelineStages, setPipelineStages] = useState<PipelineStage[]>(DEFAULT_PIPELINE_STAGES);
+
   const [theme, setTheme] = useState<'light' | 'dark'>(() => {
     if (typeof window !== 'undefined') {
         const saved = localStorage.getItem('theme');
@@ -84,14 +140,84 @@ export const JobProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     return 'light';
   });
 
-  // Fetch Data from Supabase or Load Demo Data
+  // Pick the storage backend for this session (Supabase, or IndexedDB in demo mode).
+  // All writes go through the sync queue so they survive going offline.
+  const syncQueue = useMemo(
+    () => user
+      ? createSyncQueue(createStorageRepository(user.id, isDemoMode), user.id)
+      : null,
+    [user, isDemoMode]
+  );
+  const repository = syncQueue?.repository ?? null;
+  const [syncState, setSyncState] = useState<SyncState>(EMPTY_SYNC_STATE);
+
+  useEffect(() => {
+    if (!syncQueue) {
+      setSyncState(EMPTY_SYNC_STATE);
+      return;
+    }
+    setSyncState(syncQueue.getState());
+    const unsubscribe = syncQueue.subscribe(setSyncState);
+    syncQueue.start();
+    return () => {
+      unsubscribe();
+      syncQueue.stop();
+    };
+  }, [syncQueue]);
+
+  const loadFromRepository = async (queue: SyncQueue) => {
+    const repo = queue.repository;
+    // A secondary list failing (e.g. a table not migrated yet) shouldn't keep jobs and the profile from loading
+    const orEmpty = <T,>(label: string, request: Promise<T[]>) => request.catch((err): T[] => {
+      console.error(`Error loading ${label}:`, err);
+      return [];
+    });
+    const [loadedJobs, profile, research, prep, snapshots] = await Promise.all([
+      repo.listJobs(),
+      repo.getProfile(),
+      orEmpty('research reports', repo.listResearchReports()),
+      orEmpty('prep reports', repo.listPrepReports()),
+      orEmpty('resume snapshots', repo.listResumeSnapshots())
+    ]);
+
+    // Writes still waiting in the queue are newer than what the backend returned
+    setJobs(queue.applyPendingJobs(loadedJobs).map(migrateLegacyInterview));
+    setResearchHistory(research);
+    setPrepHistory(prep);
+    setResumeSnapshots(queue.applyPendingResumeSnapshots(snapshots));
+
+    if (profile) {
+      const savedResume = queue.pendingResume() || profile.resume;
+      if (savedResume) {
+        setResume({ ...DEFAULT_RESUME, ...savedResume });
+      }
+      setResumeLibrary(queue.pendingResumeLibrary() || profile.resumeLibrary || DEFAULT_RESUME_LIBRARY);
+      const savedStages = queue.pendingPipelineStages() || profile.pipelineStages;
+      if (savedStages && savedStages.length > 0) {
+        setPipelineStages(savedStages);
+      }
+      const savedThreads = queue.pendingChatThreads() || profile.chatThreads;
+      if (savedThreads) {
+        setChatThreads(savedThreads);
+      }
+    } else {
+      // Create profile if missing
+      await repo.createProfile(DEFAULT_RESUME);
+    }
+  };
+
+  // Fetch Data from the active repository
   useEffect(() => {
-    if (!user) {
+    if (!user || !syncQueue) {
         setJobs([]);
         setResume(DEFAULT_RESUME);
-        setChatMessages([]);
+        setChatThreads([]);
+        setActiveThreadId(null);
         setResearchHistory([]);
         setPrepHistory([]);
+        setResumeLibrary(DEFAULT_RESUME_LIBRARY);
+        setResumeSnapshots([]);
+        setPipelineStages(DEFAULT_PIPELINE_STAGES);
         setLoading(false);
         isInitialLoad.current = true;
         return;
@@ -104,93 +230,7 @@ export const JobProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       }
       
       try {
-          if (isDemoMode) {
-              await loadIndianDemoData();
-          } else {
-              // Fetch Jobs
-              const { data: jobData, error: jobError } = await supabase
-                .from('jobs')
-                .select('*')
-                .eq('user_id', user.id)
-                .order('created_at', { ascending: false });
-
-              if (jobData) {
-                const loadedJobs = jobData.map(row => ({
-                  ...row.content,
-                  id: row.id
-                }));
-                setJobs(loadedJobs);
-              }
-
-              // Fetch Profile/Resume AND Chat History
-              const { data: profileData, error: profileError } = await supabase
-                .from('profiles')
-                .select('*')
-                .eq('id', user.id)
-                .maybeSingle();
-
-              if (profileData) {
-                if (profileData.resume_data) {
-                   setResume(prev => ({ ...DEFAULT_RESUME, ...profileData.resume_data }));
-                }
-                
-                if (profileData.chat_history && Array.isArray(profileData.chat_history)) {
-                   setChatMessages(profileData.chat_history);
-                   if (profileData.chat_history.length > 0) {
-                     setChatInitialized(true);
-                   }
-                } else {
-                    const localChat = localStorage.getItem(`chat_history_${user.id}`);
-                    if (localChat) {
-                        try {
-                            const parsed = JSON.parse(localChat);
-                            setChatMessages(parsed);
-                            if (parsed.length > 0) setChatInitialized(true);
-                        } catch (e) {}
-                    }
-                }
-              } else if (!profileError) {
-                 // Create profile if missing
-                 await supabase.from('profiles').upsert({ id: user.id, resume_data: DEFAULT_RESUME }, { onConflict: 'id' });
-              }
-
-              // Load Research Reports
-              const { data: reportsData } = await supabase
-                .from('research_reports')
-                .select('*')
-                .eq('user_id', user.id)
-                .order('created_at', { ascending: false });
-
-              if (reportsData) {
-                 const mappedReports = reportsData.map(r => ({
-                     id: r.id,
-                     company: r.company,
-                     role: r.role,
-                     date: r.created_at,
-                     content: r.content
-                 }));
-                 setResearchHistory(mappedReports);
-              }
-
-              // Load Prep Reports
-              const { data: prepData } = await supabase
-                .from('prep_reports')
-                .select('*')
-                .eq('user_id', user.id)
-                .order('created_at', { ascending: false });
-
-              if (prepData) {
-                 const mappedPrep = prepData.map(r => ({
-                     id: r.id,
-                     company: r.company,
-                     role: r.role,
-                     date: r.created_at,
-                     content: r.content
-                 }));
-                 setPrepHistory(mappedPrep);
-              }
-          }
-
+          await loadFromRepository(syncQueue);
       } catch (err) {
           console.error("Unexpected error loading data:", err);
       } finally {
@@ -200,7 +240,7 @@ export const JobProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     };
 
     fetchData();
-  }, [user, isDemoMode]);
+  }, [syncQueue]);
 
   useEffect(() => {
     localStorage.setItem('theme', theme);
@@ -214,344 +254,251 @@ export const JobProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   const toggleTheme = () => setTheme(prev => prev === 'light' ? 'dark' : 'light');
 
   const addJob = async (job: Job) => {
-    if (!user) return;
-    setJobs((prev) => {
-        const newJobs = [job, ...prev];
-        if (isDemoMode) {
-            localStorage.setItem('demo_jobs_cache', JSON.stringify(newJobs));
-        }
-        return newJobs;
-    });
-    if (!isDemoMode) {
-        const { data, error } = await supabase.from('jobs').insert({ user_id: user.id, content: job }).select().single();
-        if (data) {
-          setJobs(prev => prev.map(j => j.id === job.id ? { ...j, id: data.id } : j));
-        }
-    }
+    if (!repository) return;
+    const migrated = migrateLegacyInterview(job);
+    const newJob = migrated.statusHistory ? migrated : { ...migrated, statusHistory: initialStatusHistory(migrated.status, migrated.dateApplied) };
+    latestJobs.current = [newJob, ...latestJobs.current];
+    setJobs((prev) => [newJob, ...prev]);
+    await repository.insertJob(newJob);
   };
 
   const updateJob = async (id: string, updatedFields: Partial<Job>) => {
-    if (!user) return;
-    const updatedJobs = jobs.map((job) => (job.id === id ? { ...job, ...updatedFields } : job));
-    setJobs(updatedJobs);
-    
-    if (isDemoMode) {
-        localStorage.setItem('demo_jobs_cache', JSON.stringify(updatedJobs));
-    } else {
-        const jobToSave = updatedJobs.find(j => j.id === id);
-        if (jobToSave) {
-            await supabase.from('jobs').update({ content: jobToSave }).eq('id', id);
-        }
-    }
+    if (!repository) return;
+    // Version stamps and status history are owned here; callers often pass back a stale copy of the whole job
+    const { version, updatedAt, statusHistory, ...fields } = updatedFields;
+    const savedAt = new Date().toISOString();
+    const merge = (job: Job): Job => {
+      const history = fields.status ? appendStatusChange(job, fields.status) : job.statusHistory;
+      return { ...stampVersion({ ...job, ...fields, statusHistory: history }), updatedAt: savedAt };
+    };
+    const job = latestJobs.current.find(j => j.id === id);
+    if (!job) return;
+    const jobToSave = merge(job);
+    latestJobs.current = latestJobs.current.map(j => j.id === id ? jobToSave : j);
+    // Merged onto the latest state so several jobs changed in one go (e.g. a calendar import) don't overwrite each other
+    setJobs(prev => prev.map(j => j.id === id ? merge(j) : j));
+    await repository.updateJob(jobToSave);
   };
 
   const deleteJob = async (id: string) => {
-    if (!user) return;
-    const filteredJobs = jobs.filter((job) => job.id !== id);
-    setJobs(filteredJobs);
-    
-    if (isDemoMode) {
-        localStorage.setItem('demo_jobs_cache', JSON.stringify(filteredJobs));
-    } else {
-        await supabase.from('jobs').delete().eq('id', id);
-    }
+    if (!repository) return;
+    latestJobs.current = latestJobs.current.filter(job => job.id !== id);
+    setJobs(prev => prev.filter(job => job.id !== id));
+    await repository.deleteJob(id);
   };
 
   const updateResume = async (newResume: Resume) => {
-    if (!user) return;
-    setResume(newResume);
-    if (!isDemoMode) {
-        await supabase.from('profiles').update({ resume_data: newResume }).eq('id', user.id);
-    }
+    if (!repository) return;
+    const stamped = stampVersion({ ...newResume, version: resume.version });
+    setResume(stamped);
+    await repository.saveResume(stamped);
   };
 
-  const addChatMessage = (message: ChatMessage) => {
-    setChatMessages(prev => {
-        const newHistory = [...prev, message];
-        if (user && !isDemoMode) {
-            supabase.from('profiles').update({ chat_history: newHistory }).eq('id', user.id).then(() => {
-              localStorage.setItem(`chat_history_${user.id}`, JSON.stringify(newHistory));
-            });
-        }
-        return newHistory;
+  const saveResumeLibrary = (library: ResumeLibrary) => {
+    setResumeLibrary(library);
+    repository?.saveResumeLibrary(library);
+  };
+
+  // The outgoing resume's content moves into its library entry and the incoming one's out of it
+  const activateResume = (library: ResumeLibrary, id: string, content: Resume) => {
+    saveResumeLibrary({
+      activeId: id,
+      resumes: library.resumes.map(r => {
+        if (r.id === library.activeId) return { ...r, content: { ...resume, version: undefined } };
+        if (r.id === id) return { id: r.id, name: r.name };
+        return r;
+      }),
     });
+    updateResume({ ...DEFAULT_RESUME, ...content });
   };
 
-  const clearChat = () => {
-    setChatMessages([]);
-    setChatInitialized(false);
-    if (user && !isDemoMode) {
-        localStorage.removeItem(`chat_history_${user.id}`);
-        supabase.from('profiles').update({ chat_history: [] }).eq('id', user.id);
+  const createNamedResume = (name: string) => {
+    if (!repository) return;
+    const id = generateId();
+    activateResume({ ...resumeLibrary, resumes: [...resumeLibrary.resumes, { id, name }] }, id, resume);
+  };
+
+  const switchResume = (id: string) => {
+    const target = resumeLibrary.resumes.find(r => r.id === id);
+    if (!repository || !target || id === resumeLibrary.activeId) return;
+    activateResume(resumeLibrary, id, target.content || DEFAULT_RESUME);
+  };
+
+  const renameResume = (id: string, name: string) => {
+    saveResumeLibrary({ ...resumeLibrary, resumes: resumeLibrary.resumes.map(r => r.id === id ? { ...r, name } : r) });
+  };
+
+  const deleteNamedResume = (id: string) => {
+    const remaining = resumeLibrary.resumes.filter(r => r.id !== id);
+    if (!repository || remaining.length === 0) return;
+    if (id !== resumeLibrary.activeId) {
+      saveResumeLibrary({ ...resumeLibrary, resumes: remaining });
+      return;
     }
+    const next = remaining[0];
+    saveResumeLibrary({ activeId: next.id, resumes: remaining.map(r => r.id === next.id ? { id: r.id, name: r.name } : r) });
+    updateResume({ ...DEFAULT_RESUME, ...next.content });
+  };
+
+  const saveResumeSnapshot = (reason: ResumeSnapshotReason, fields: { note?: string; content?: Resume; review?: ReviewedChange[] } = {}) => {
+    const active = resumeLibrary.resumes.find(r => r.id === resumeLibrary.activeId) || DEFAULT_RESUME_LIBRARY.resumes[0];
+    const { version, ...content } = fields.content || resume;
+    const snapshot: ResumeSnapshot = {
+      id: generateId(),
+      resumeId: active.id,
+      resumeName: active.name,
+      number: (latestSnapshot(resumeSnapshots, active.id)?.number ?? 0) + 1,
+      reason,
+      ...(fields.note && { note: fields.note }),
+      ...(fields.review && { review: fields.review }),
+      date: new Date().toISOString(),
+      content,
+    };
+    setResumeSnapshots(prev => [snapshot, ...prev]);
+    repository?.insertResumeSnapshot(snapshot);
+    return snapshot;
+  };
+
+  const updatePipelineStages = async (stages: PipelineStage[]) => {
+    if (!repository) return;
+    setPipelineStages(stages);
+    await repository.savePipelineStages(stages);
+  };
+
+  // Functional so a reply landing while the user types in another thread doesn't overwrite it
+  const saveChatThreads = (update: (prev: ChatThread[]) => ChatThread[]) => {
+    setChatThreads(prev => {
+        const newThreads = update(prev);
+        repository?.saveChatThreads(newThreads);
+        return newThreads;
+    });
+  };
+
+  const updateThread = (id: string, update: (thread: ChatThread) => ChatThread) =>
+    saveChatThreads(prev => prev.map(t => t.id === id ? update(t) : t));
+
+  const createChatThread = (fields: { title?: string; jobId?: string } = {}) => {
+    const now = Date.now();
+    const thread: ChatThread = { id: generateId(), title: fields.title || DEFAULT_THREAD_TITLE, jobId: fields.jobId, messages: [], createdAt: now, updatedAt: now };
+    saveChatThreads(prev => [thread, ...prev]);
+    setActiveThreadId(thread.id);
+    return thread;
+  };
+
+  const renameChatThread = (id: string, title: string) => {
+    updateThread(id, t => ({ ...t, title }));
+  };
+
+  const deleteChatThread = (id: string) => {
+    saveChatThreads(prev => prev.filter(t => t.id !== id));
+    if (activeThreadId === id) setActiveThreadId(null);
+  };
+
+  const addChatMessage = (threadId: string, message: ChatMessage) => {
+    updateThread(threadId, t => ({
+        ...t,
+        // Untitled threads are named after their first question
+        title: t.title === DEFAULT_THREAD_TITLE && message.role === 'user'
+          ? message.text.replace(/\s+/g, ' ').trim().slice(0, 60)
+          : t.title,
+        messages: [...t.messages, message],
+        updatedAt: message.timestamp,
+    }));
+  };
+
+  const updateChatMessage = (threadId: string, id: string, fields: Partial<ChatMessage>) => {
+    updateThread(threadId, t => ({ ...t, messages: t.messages.map(m => m.id === id ? { ...m, ...fields } : m) }));
   };
 
   const addResearchReport = async (report: ResearchReport) => {
       setResearchHistory(prev => [report, ...prev]);
-      if (user && !isDemoMode) {
-          await supabase.from('research_reports').insert({
-              id: report.id,
-              user_id: user.id,
-              company: report.company,
-              role: report.role,
-              content: report.content,
-              created_at: report.date
-          });
-      }
+      await repository?.insertResearchReport(report);
   };
 
   const deleteResearchReport = async (id: string) => {
       setResearchHistory(prev => prev.filter(r => r.id !== id));
-      if (user && !isDemoMode) {
-          await supabase.from('research_reports').delete().eq('id', id).eq('user_id', user.id);
-      }
+      await repository?.deleteResearchReport(id);
   };
 
   const addPrepReport = async (report: InterviewPrepReport) => {
       setPrepHistory(prev => [report, ...prev]);
-      if (user && !isDemoMode) {
-          await supabase.from('prep_reports').insert({
-              id: report.id,
-              user_id: user.id,
-              company: report.company,
-              role: report.role,
-              content: report.content,
-              created_at: report.date
-          });
-      }
+      await repository?.insertPrepReport(report);
   };
 
   const deletePrepReport = async (id: string) => {
       setPrepHistory(prev => prev.filter(r => r.id !== id));
-      if (user && !isDemoMode) {
-          await supabase.from('prep_reports').delete().eq('id', id).eq('user_id', user.id);
-      }
+      await repository?.deletePrepReport(id);
   };
 
-  const loadIndianDemoData = async () => {
-      // Check for cached demo jobs first
-      const cachedJobs = localStorage.getItem('demo_jobs_cache');
-      if (cachedJobs) {
-          try {
-              setJobs(JSON.parse(cachedJobs));
-          } catch (e) {
-              console.error("Failed to parse cached demo jobs", e);
-          }
+  const resolveSyncConflict = async (conflictId: string, choice: 'local' | 'server') => {
+      const conflict = syncState.conflicts.find(c => c.id === conflictId);
+      if (!syncQueue || !conflict) return;
+      const record = await syncQueue.resolveConflict(conflictId, choice);
+
+      if (conflict.entity === 'resume') {
+          if (record) setResume({ ...DEFAULT_RESUME, ...(record as Resume) });
+          return;
+      }
+      if (!record) {
+          setJobs(prev => prev.filter(j => j.id !== conflict.recordId));
       } else {
-          const demoJobs: Job[] = [
-              {
-                  id: 'demo1',
-                  company: 'Google',
-                  role: 'Senior AI Engineer',
-                  status: 'Interview',
-                  salary: '₹45L - ₹60L',
-                  location: 'Bangalore (Hybrid)',
-                  dateApplied: new Date(Date.now() - 86400000 * 10).toISOString().split('T')[0],
-                  description: 'Join the Google Research India team to work on LLMs for Indian languages.',
-                  coverLetter: 'I am excited to apply for the Senior AI Engineer role...',
-                  origin: 'application',
-                  interviewDate: new Date(Date.now() + 86400000 * 3).toISOString(),
-                  checklist: [{ id: 'cl1', text: 'Review Transformer architecture', completed: true }, { id: 'cl2', text: 'Prepare system design for LLM serving', completed: false }],
-                  contacts: [{ id: 'ct1', name: 'Priya Singh', role: 'Technical Recruiter', email: 'priya.s@google.com', phone: '', linkedin: '', history: [] }]
-              },
-              {
-                  id: 'demo2',
-                  company: 'Swiggy',
-                  role: 'Lead Data Scientist',
-                  status: 'Offer',
-                  salary: '₹55L',
-                  location: 'Bangalore (Remote)',
-                  dateApplied: new Date(Date.now() - 86400000 * 25).toISOString().split('T')[0],
-                  description: 'Lead the delivery optimization team using RL.',
-                  coverLetter: '',
-                  origin: 'offer',
-                  interviewDate: undefined,
-                  checklist: [],
-                  contacts: []
-              },
-              {
-                  id: 'demo3',
-                  company: 'Zomato',
-                  role: 'Machine Learning Engineer',
-                  status: 'Applied',
-                  salary: '₹35L - ₹50L',
-                  location: 'Gurgaon',
-                  dateApplied: new Date(Date.now() - 86400000 * 2).toISOString().split('T')[0],
-                  description: 'Work on personalization and search.',
-                  coverLetter: '',
-                  origin: 'application',
-                  interviewDate: undefined,
-                  checklist: [],
-                  contacts: []
-              },
-              {
-                  id: 'demo4',
-                  company: 'Microsoft',
-                  role: 'Applied Scientist II',
-                  status: 'Rejected',
-                  salary: '₹50L',
-                  location: 'Hyderabad',
-                  dateApplied: new Date(Date.now() - 86400000 * 45).toISOString().split('T')[0],
-                  description: 'Bing Search team.',
-                  coverLetter: '',
-                  origin: 'application',
-                  interviewDate: undefined,
-                  checklist: [],
-                  contacts: []
-              }
-          ];
-          setJobs(demoJobs);
-          localStorage.setItem('demo_jobs_cache', JSON.stringify(demoJobs));
+          const job = record as Job;
+          setJobs(prev => prev.some(j => j.id === job.id) ? prev.map(j => j.id === job.id ? job : j) : [job, ...prev]);
       }
+  };
 
-      const demoResume: Resume = {
-          fullName: "Rishiraj Gupta",
-          email: "rishiraj.gupta@example.com",
-          phone: "+91 98765 43210",
-          linkedin: "https://linkedin.com/in/rishirajgupta-ds",
-          location: "Bangalore, India",
-          summary: "Senior Data Scientist with 5+ years of experience in Machine Learning, NLP, and Predictive Analytics. Proven track record of deploying scalable AI models in production for e-commerce and fintech sectors.",
-          skills: "Python, TensorFlow, PyTorch, SQL, AWS SageMaker, NLP, Computer Vision, Docker, Kubernetes, React (Basic)",
-          jobTitle: "Lead Data Scientist",
-          avatarImage: "",
-          experience: [
-              { id: 'exp1', role: 'Senior Data Scientist', company: 'Flipkart', startDate: '2022-01', endDate: 'Present', description: '• Led the development of a new recommendation engine improving conversion by 15%.\n• Managed a team of 4 junior data scientists.\n• Optimized search ranking algorithms using BERT models.' },
-              { id: 'exp2', role: 'Data Scientist', company: 'Paytm', startDate: '2019-06', endDate: '2021-12', description: '• Built fraud detection models reducing transaction fraud by 25%.\n• Collaborated with engineering teams to deploy models on AWS.' }
-          ],
-          projects: [
-              { id: 'proj1', name: 'IndicNLP Library', technologies: 'Python, PyTorch, HuggingFace', link: 'github.com/aarav/indic-nlp', description: 'Open source library for NLP tasks in Indian languages.' },
-              { id: 'proj2', name: 'StockPred', technologies: 'LSTM, Python, Pandas', link: 'github.com/aarav/stockpred', description: 'Time-series forecasting tool for NSE/BSE stocks.' }
-          ],
-          education: [
-              { id: 'edu1', degree: 'M.Tech in Artificial Intelligence', school: 'IIT Bombay', year: '2019' },
-              { id: 'edu2', degree: 'B.Tech in Computer Science', school: 'NIT Trichy', year: '2017' }
-          ]
-      };
-      setResume(demoResume);
-      
-      // Add some dummy chat history
-      setChatMessages([
-          { id: 'msg1', role: 'user', text: 'Can you help me prepare for my Google interview?', timestamp: Date.now() - 10000 },
-          { id: 'msg2', role: 'model', text: 'Certainly! For a Senior AI Engineer role at Google Research India, you should focus on: \n\n1. **Deep Learning Fundamentals**: Transformers, Attention mechanisms, Backpropagation.\n2. **System Design**: How to serve LLMs at scale, inference optimization.\n3. **Coding**: LeetCode Hard problems (Graphs, DP).\n\nWould you like a mock interview question?', timestamp: Date.now() }
-      ]);
-      setChatInitialized(true);
-
-      // Add demo Research Reports
-      const demoResearch: ResearchReport[] = [
-          {
-              id: 'res1',
-              company: 'Google',
-              role: 'Senior AI Engineer',
-              date: new Date(Date.now() - 86400000 * 2).toISOString(),
-              content: JSON.stringify({
-                  companyName: 'Google',
-                  roleTitle: 'Senior AI Engineer',
-                  summary: {
-                      opportunityScore: 9,
-                      applyPriority: "High",
-                      verdict: "Excellent opportunity for AI research impact.",
-                      nextSteps: ["Review Transformer papers", "Practice System Design"]
-                  },
-                  companyIntelligence: {
-                      overview: "Google is a global tech leader in AI, Search, and Cloud.",
-                      sizeAndStage: "Public, 100k+ employees",
-                      competitors: ["Microsoft", "OpenAI", "Meta"],
-                      financialHealth: "Strong, consistent growth"
-                  },
-                  marketAnalysis: {
-                      recentNews: ["Gemini model launch", "Focus on AI integration across products"],
-                      marketPosition: "Market Leader in Search & AI"
-                  },
-                  culture: {
-                      workEnvironment: "Hybrid (3 days office)",
-                      engineeringCulture: "Engineering-driven, innovative, collaborative"
-                  },
-                  compensation: {
-                      salaryRange: "₹50L - ₹80L",
-                      breakdown: { fresher: "₹30L", mid: "₹50L", senior: "₹80L+" },
-                      comparison: "Top Tier",
-                      benefits: ["Free food", "Health insurance", "Stock options"]
-                  },
-                  hiring: {
-                      process: ["Recruiter Screen", "Coding Rounds (x2)", "System Design", "Googlyness (Behavioral)"],
-                      applicationStrategy: "Referrals are very effective."
-                  },
-                  risks: {
-                      level: "Low",
-                      concerns: ["High competition"]
-                  },
-                  strategy: {
-                      outreach: "Connect with current AI researchers on LinkedIn.",
-                      differentiators: ["Published papers", "Open source contributions"]
-                  },
-                  reviews: {
-                      glassdoor: { rating: "4.5", pros: "Great perks, smart people", cons: "Bureaucracy" },
-                      reddit: { sentiment: "Positive", keyDiscussions: ["Best place for AI research", "Good WLB"] },
-                      employeeVoices: [{ source: "Blind", quote: "Amazing learning opportunities.", sentiment: "Positive" }]
-                  },
-                  sources: [{ title: "Google Careers", url: "https://careers.google.com" }]
-              })
-          }
-      ];
-      setResearchHistory(demoResearch);
-
-      // Add demo Prep Reports
-      const demoPrep: InterviewPrepReport[] = [
-          {
-              id: 'prep1',
-              company: 'Swiggy',
-              role: 'Lead Data Scientist',
-              date: new Date(Date.now() - 86400000 * 5).toISOString(),
-              content: JSON.stringify({
-                  companyResearch: {
-                      mission: "To elevate the quality of life for the urban consumer with unparalleled convenience.",
-                      products: ["Food Delivery", "Instamart", "Genie"],
-                      culture: "Fast-paced, data-driven, customer-obsessed.",
-                      recentNews: ["IPO plans", "Expansion of Instamart"]
-                  },
-                  technical: {
-                      topics: ["Reinforcement Learning", "Optimization", "A/B Testing"],
-                      questions: [
-                          { question: "How would you optimize delivery times using RL?", answer: "Model the problem as an MDP where agents (drivers) take actions (routes) to maximize reward (on-time delivery)." },
-                          { question: "Explain the Multi-Armed Bandit problem in the context of food recommendations.", answer: "Balancing exploration (new restaurants) vs exploitation (user favorites) to maximize order value." }
-                      ]
-                  },
-                  behavioral: {
-                      competencies: ["Leadership", "Stakeholder Management", "Bias for Action"],
-                      questions: [
-                          { question: "Tell me about a time you had to convince a product manager to change a feature based on data.", starGuide: "Situation: PM wanted feature X. Task: Prove Y is better. Action: Ran A/B test. Result: Y showed 10% lift. PM agreed." }
-                      ]
-                  },
-                  questionsToAsk: [
-                      "How is the data science team structured?",
-                      "What is the biggest technical challenge in last-mile delivery right now?"
-                  ]
-              })
-          }
-      ];
-      setPrepHistory(demoPrep);
+  const retrySyncFailure = (failureId: string) => {
+      syncQueue?.retryFailure(failureId);
+  };
+
+  const discardSyncFailure = async (failureId: string) => {
+      if (!syncQueue) return;
+      syncQueue.discardFailure(failureId);
+      try {
+          await loadFromRepository(syncQueue);
+      } catch (err) {
+          console.error("Failed to reload after discarding a write:", err);
+      }
   };
 
-  // Keep the old loadDemoData for backward compatibility or remove it if not needed. 
-  // I'll leave it as a stub or alias if other components use it, but currently only used internally or via context.
+  // Seeds the current account with the demo persona, then reloads from storage.
   const loadDemoData = async () => {
-      await loadIndianDemoData();
+      if (!syncQueue) return;
+      try {
+          await importSnapshot(syncQueue.repository, createDemoSnapshot());
+          await loadFromRepository(syncQueue);
+      } catch (err) {
+          console.error("Failed to load demo data:", err);
+      }
+  };
+
+  const restoreBackup = async (plan: RestorePlan) => {
+      if (!syncQueue) return;
+      await applyRestore(syncQueue.repository, plan);
+      await loadFromRepository(syncQueue);
   };
 
+  const countCategory = (category: PipelineStage['category']) =>
+    jobs.filter(j => getStage(pipelineStages, j.status).category === category).length;
+
   const stats = {
     total: jobs.length,
-    applied: jobs.filter(j => j.status === 'Applied').length,
-    interview: jobs.filter(j => j.status === 'Interview').length,
-    offer: jobs.filter(j => j.status === 'Offer' || j.status === 'Accepted').length,
-    rejected: jobs.filter(j => j.status === 'Rejected').length,
+    active: countCategory('active'),
+    interview: jobs.filter(hasInterviews).length,
+    offer: countCategory('offer'),
+    closed: countCategory('closed'),
+    byStage: jobs.reduce<Record<string, number>>((acc, j) => ({ ...acc, [j.status]: (acc[j.status] || 0) + 1 }), {}),
   };
 
   return (
     <JobContext.Provider value={{ 
         jobs, resume, addJob, updateJob, deleteJob, updateResume, loadDemoData, stats, theme, toggleTheme, loading,
-        chatMessages, addChatMessage, clearChat, isChatInitialized, setChatInitialized,
+        pipelineStages, updatePipelineStages, restoreBackup,
+        resumeLibrary, resumeSnapshots, createNamedResume, switchResume, renameResume, deleteNamedResume, saveResumeSnapshot,
+        chatThreads, activeThreadId, setActiveThreadId, createChatThread, renameChatThread, deleteChatThread, addChatMessage, updateChatMessage,
         researchHistory, addResearchReport, deleteResearchReport,
-        prepHistory, addPrepReport, deletePrepReport
+        prepHistory, addPrepReport, deletePrepReport,
+        syncState, resolveSyncConflict, retrySyncFailure, discardSyncFailure
     }}>
       {children}
     </JobContext.Provider>
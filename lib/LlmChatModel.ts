@@ -0,0 +1,51 @@
+import { BaseChatModel, type BaseChatModelParams } from "@langchain/core/language_models/chat_models";
+import { BaseMessage, AIMessage, AIMessageChunk } from "@langchain/core/messages";
+import { ChatResult, ChatGenerationChunk } from "@langchain/core/outputs";
+import { CallbackManagerForLLMRun } from "@langchain/core/callbacks/manager";
+import type { LlmClient, LlmRequest, LlmMessage } from "../services/llm";
+
+export interface LlmChatModelInput extends BaseChatModelParams {
+  client: LlmClient;
+}
+
+const toLlmRequest = (messages: BaseMessage[]): LlmRequest => {
+  const turns: LlmMessage[] = [];
+  let system: string | undefined;
+
+  for (const m of messages) {
+    const text = typeof m.content === 'string' ? m.content : JSON.stringify(m.content);
+    if (m._getType() === "system") system = text;
+    else if (m._getType() === "human") turns.push({ role: 'user', text });
+    else if (m._getType() === "ai") turns.push({ role: 'model', text });
+  }
+  return { prompt: turns, system };
+};
+
+/**
+ * LangChain ChatModel over the app's provider-agnostic LLM client, so chains run against any
+ * configured provider with the client's call policy and usage metering.
+ */
+export class LlmChatModel extends BaseChatModel {
+  client: LlmClient;
+
+  constructor(fields: LlmChatModelInput) {
+    super(fields);
+    this.client = fields.client;
+  }
+
+  _llmType() {
+    return "llm_client";
+  }
+
+  async _generate(messages: BaseMessage[]): Promise<ChatResult> {
+    const text = await this.client.generateText(toLlmRequest(messages));
+    return { generations: [{ text, message: new AIMessage(text) }] };
+  }
+
+  async *_streamResponseChunks(messages: BaseMessage[], options: { signal?: AbortSignal }, runManager?: CallbackManagerForLLMRun): AsyncGenerator<ChatGenerationChunk> {
+    for await (const text of this.client.streamText(toLlmRequest(messages), options?.signal)) {
+      yield new ChatGenerationChunk({ text, message: new AIMessageChunk(text) });
+      await runManager?.handleLLMNewToken(text);
+    }
+  }
+}
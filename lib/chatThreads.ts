@@ -0,0 +1,57 @@
+import { ChatThread, Job } from "../types";
+import { getToolTitle } from "./chaturTools";
+
+export interface ThreadMatch {
+  thread: ChatThread;
+  snippet?: string; // Where the query matched inside a message
+}
+
+/** Most recently active first. */
+export const sortThreads = (threads: ChatThread[]) =>
+  [...threads].sort((a, b) => b.updatedAt - a.updatedAt);
+
+const snippetAround = (text: string, index: number, length: number) => {
+  const start = Math.max(0, index - 40);
+  const end = Math.min(text.length, index + length + 60);
+  return `${start > 0 ? '...' : ''}${text.slice(start, end).replace(/\s+/g, ' ')}${end < text.length ? '...' : ''}`;
+};
+
+/**
+ * Filters threads by title, linked job and message text (case-insensitive).
+ * An empty query returns every thread.
+ */
+export const searchThreads = (threads: ChatThread[], query: string, jobs: Job[]): ThreadMatch[] => {
+  const q = query.trim().toLowerCase();
+  const sorted = sortThreads(threads);
+  if (!q) return sorted.map(thread => ({ thread }));
+
+  return sorted.flatMap(thread => {
+    const job = jobs.find(j => j.id === thread.jobId);
+    if (thread.title.toLowerCase().includes(q) || (job && `${job.company} ${job.role}`.toLowerCase().includes(q))) {
+      return [{ thread }];
+    }
+    for (const message of thread.messages) {
+      const index = message.text.toLowerCase().indexOf(q);
+      if (index !== -1) return [{ thread, snippet: snippetAround(message.text, index, q.length) }];
+    }
+    return [];
+  });
+};
+
+/** Renders a thread as a Markdown document for download. */
+export const threadToMarkdown = (thread: ChatThread, job?: Job) => {
+  const lines = [`# ${thread.title}`, ''];
+  if (job) lines.push(`**Job:** ${job.role} at ${job.company}`);
+  lines.push(`**Started:** ${new Date(thread.createdAt).toLocaleString()}`, '');
+
+  thread.messages.forEach(message => {
+    lines.push('---', '', `### ${message.role === 'user' ? 'You' : 'Chatur'} · ${new Date(message.timestamp).toLocaleString()}`, '', message.text, '');
+    (message.actions || []).forEach(action => {
+      lines.push(`> **${getToolTitle(action.tool)}** (${action.status})${action.result ? `: ${action.result}` : ''}`, '');
+    });
+  });
+  return lines.join('\n');
+};
+
+export const threadFileName = (thread: ChatThread) =>
+  `Chatur_${thread.title.replace(/[^a-z0-9]+/gi, '_').replace(/^_|_$/g, '').slice(0, 40) || 'Conversation'}.md`;
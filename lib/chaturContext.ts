@@ -0,0 +1,296 @@
+import { Job, PipelineStage, ChatMessage, ChatCitation } from "../types";
+import { getStage } from "./pipeline";
+import { getNextRound } from "./interviews";
+import { RetrievedChunk } from "./retrieval";
+
+export const DEFAULT_TOKEN_BUDGET = 8000;
+export const TOKEN_BUDGET_OPTIONS = [4000, 8000, 16000, 32000, 64000];
+
+// Share of what's left after the fixed prompt parts
+const HISTORY_SHARE = 0.3;
+const MEMORY_SHARE = 0.1;
+const PASSAGE_SHARE = 0.2;
+const MIN_RECENT_MESSAGES = 2; // The last exchange is always sent verbatim
+const FULL_DETAIL_JOBS = 5; // At most this many jobs get their description and notes
+const PROMPT_TOKENS = 500; // Chatur's fixed system prompt text
+
+/** Rough token count (about 4 characters per token for English), good enough for budgeting. */
+export const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+export type JobDetail = 'focus' | 'full' | 'compact' | 'omitted';
+
+export interface JobContextEntry {
+  jobId: string;
+  label: string;
+  score: number;
+  detail: JobDetail;
+  tokens: number;
+}
+
+export interface PassageEntry {
+  title: string;
+  kind: string;
+  score: number;
+  tokens: number;
+  included: boolean;
+}
+
+/** A retrieved passage as numbered in the prompt, so the reply can cite it as [n]. */
+export interface NumberedPassage {
+  n: number;
+  chunk: RetrievedChunk;
+}
+
+/** What went into one Chatur prompt, for the debug view. */
+export interface ContextReport {
+  budget: number;
+  tokens: { fixed: number; memory: number; history: number; passages: number; jobs: number };
+  jobs: JobContextEntry[];
+  passages: PassageEntry[];
+  retrievalMethod?: 'embedding' | 'keyword';
+  recentMessages: number;
+  summarizedMessages: number;
+  memory: string;
+}
+
+export interface ChaturContext {
+  focusJob: object | null; // The job a scoped thread is about
+  jobs: object[];
+  passages: NumberedPassage[];
+  history: ChatMessage[]; // Sent verbatim
+  memory: string; // Stands in for everything older than `history`
+  savedMemory: string; // The latest stored summary
+  /** Older messages the saved memory doesn't cover yet; summarise them after replying. */
+  unsummarized: ChatMessage[];
+  report: ContextReport;
+}
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'you', 'with', 'what', 'how', 'should', 'can', 'about', 'this', 'that', 'are', 'was',
+  'have', 'has', 'job', 'role', 'my', 'me', 'is', 'it', 'to', 'of', 'in', 'on', 'do', 'i', 'a', 'an', 'at',
+  'help', 'tell', 'give', 'any', 'which', 'there', 'from', 'your', 'please', 'would', 'could',
+]);
+
+const terms = (text: string) =>
+  (text.toLowerCase().match(/[a-z0-9+#.]{2,}/g) || []).filter(t => !STOP_WORDS.has(t));
+
+// Whole-word match, so "Meta" doesn't match "metadata"
+const mentions = (text: string, name: string) =>
+  !!name.trim() && new RegExp(`(^|\\W)${name.trim().toLowerCase().replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}($|\\W)`).test(text);
+
+const truncate = (text: string | undefined, max: number) =>
+  !text ? '' : text.length > max ? `${text.slice(0, max)}...(truncated)` : text;
+
+/**
+ * Scores how likely a job is to matter for this message: named companies and roles count most,
+ * then shared keywords, then jobs that are live (offers, upcoming interviews, recent applications).
+ */
+export const scoreJob = (job: Job, message: string, stages: PipelineStage[], now = Date.now()): number => {
+  const lower = message.toLowerCase();
+  let score = 0;
+  if (mentions(lower, job.company || '')) score += 10;
+  if (mentions(lower, job.role || '')) score += 4;
+
+  const jobTerms = new Set(terms(`${job.company} ${job.role} ${job.location} ${job.notes || ''} ${(job.description || '').slice(0, 2000)}`));
+  score += Math.min(5, terms(message).filter(t => jobTerms.has(t)).length);
+
+  const category = getStage(stages, job.status).category;
+  if (category === 'offer') score += 2;
+  if (category === 'active') score += 1;
+  const next = getNextRound([job], now);
+  if (next && new Date(next.round.date).getTime() - now < 14 * 86400000) score += 2;
+  if (now - new Date(job.dateApplied).getTime() < 30 * 86400000) score += 1;
+  return score;
+};
+
+const compactJob = (job: Job, stages: PipelineStage[]) => {
+  const next = getNextRound([job]);
+  return {
+    company: job.company,
+    role: job.role,
+    status: getStage(stages, job.status).name,
+    dateApplied: job.dateApplied,
+    ...(next && { nextInterview: `${next.round.name} on ${next.round.date}` }),
+  };
+};
+
+const fullJob = (job: Job, stages: PipelineStage[]) => ({
+  ...compactJob(job, stages),
+  location: job.location,
+  salary: job.salary,
+  interviewRounds: job.interviewRounds?.map(r => ({
+    name: r.name,
+    date: r.date,
+    format: r.format,
+    outcome: r.outcome,
+    interviewers: job.contacts?.filter(c => r.interviewerIds.includes(c.id)).map(c => c.name),
+    feedback: r.feedback,
+  })),
+  description: truncate(job.description, 1500) || 'No description provided',
+  notes: truncate(job.notes, 800),
+  negotiationStrategy: truncate(job.negotiationStrategy, 500),
+  interviewGuide: truncate(job.interviewGuide, 500),
+  hasCoverLetter: !!job.coverLetter, // The letter itself is too long to be worth sending
+  contacts: job.contacts?.map(c => ({ name: c.name, role: c.role })),
+  checklist: job.checklist?.filter(c => !c.completed).map(c => c.text),
+});
+
+// Everything about the job a scoped thread is about, with room for the whole JD and interview logs
+const focusJob = (job: Job, stages: PipelineStage[]) => ({
+  ...fullJob(job, stages),
+  description: truncate(job.description, 6000) || 'No description provided',
+  notes: truncate(job.notes, 3000),
+  interviewGuide: truncate(job.interviewGuide, 2000),
+  contacts: job.contacts?.map(c => ({
+    name: c.name,
+    role: c.role,
+    interactions: c.history?.map(h => `${h.date} ${h.type}: ${h.notes}`),
+  })),
+});
+
+/** Fallback memory when no model summary exists yet: the gist of each older turn. */
+export const outlineTurns = (messages: ChatMessage[]) =>
+  messages
+    .map(m => `- ${m.role === 'user' ? 'User' : 'Chatur'}: ${m.text.replace(/\s+/g, ' ').slice(0, 160)}`)
+    .join('\n');
+
+const trimToTokens = (text: string, tokens: number) =>
+  estimateTokens(text) <= tokens ? text : `...${text.slice(-tokens * 4)}`; // Keep the newest part
+
+interface BuildContextInput {
+  message: string;
+  history: ChatMessage[];
+  jobs: Job[];
+  stages: PipelineStage[];
+  budget: number;
+  reservedTokens: number; // Profile, stats, offers and tool instructions
+  focusJobId?: string;
+  retrieved?: { chunks: RetrievedChunk[]; method: 'embedding' | 'keyword' };
+}
+
+/**
+ * Fits a Chatur prompt into a token budget. Recent turns go verbatim, older ones become a
+ * rolling memory, and jobs fill what is left in relevance order: the best few in full,
+ * then a one-line form, then nothing.
+ */
+export const buildChaturContext = ({ message, history, jobs, stages, budget, reservedTokens, focusJobId, retrieved }: BuildContextInput): ChaturContext => {
+  const fixedTokens = PROMPT_TOKENS + reservedTokens + estimateTokens(message);
+  const available = Math.max(0, budget - fixedTokens);
+
+  // Recent history, newest first, until its share runs out
+  const historyBudget = available * HISTORY_SHARE;
+  let historyTokens = 0;
+  let cut = history.length;
+  while (cut > 0) {
+    const tokens = estimateTokens(history[cut - 1].text);
+    if (history.length - cut >= MIN_RECENT_MESSAGES && historyTokens + tokens > historyBudget) break;
+    historyTokens += tokens;
+    cut--;
+  }
+  const recent = history.slice(cut);
+  const older = history.slice(0, cut);
+
+  // The newest older message carrying a memory covers everything up to it
+  const memoryIndex = older.map(m => !!m.memory).lastIndexOf(true);
+  const savedMemory = memoryIndex === -1 ? '' : older[memoryIndex].memory!;
+  const unsummarized = older.slice(memoryIndex + 1);
+  const memory = trimToTokens(
+    [savedMemory, outlineTurns(unsummarized)].filter(Boolean).join('\n'),
+    Math.floor(available * MEMORY_SHARE)
+  );
+  const memoryTokens = estimateTokens(memory);
+
+  // Retrieved passages, best first, within their share
+  let passageBudget = available * PASSAGE_SHARE;
+  const passages: NumberedPassage[] = [];
+  const passageEntries: PassageEntry[] = (retrieved?.chunks || []).map(chunk => {
+    const tokens = estimateTokens(`${chunk.title}\n${chunk.text}`) + 10;
+    const included = tokens <= passageBudget;
+    if (included) {
+      passageBudget -= tokens;
+      passages.push({ n: passages.length + 1, chunk });
+    }
+    return { title: chunk.title, kind: chunk.kind, score: Math.round(chunk.score * 100) / 100, tokens: included ? tokens : 0, included };
+  });
+  const passageTokens = passageEntries.reduce((sum, p) => sum + p.tokens, 0);
+
+  let jobBudget = available - historyTokens - memoryTokens - passageTokens;
+  const entries: JobContextEntry[] = [];
+  const included: object[] = [];
+
+  // A scoped thread's job goes first, in as much detail as fits
+  let focus: object | null = null;
+  const scoped = jobs.find(j => j.id === focusJobId);
+  if (scoped) {
+    const label = `${scoped.role} at ${scoped.company}`;
+    const candidates = [focusJob(scoped, stages), fullJob(scoped, stages), compactJob(scoped, stages)];
+    // Always sent, even if only the compact form and over budget
+    focus = candidates.find(data => estimateTokens(JSON.stringify(data)) <= jobBudget) || candidates[2];
+    const tokens = estimateTokens(JSON.stringify(focus));
+    jobBudget = Math.max(0, jobBudget - tokens);
+    entries.push({ jobId: scoped.id, label, score: scoreJob(scoped, message, stages), detail: 'focus', tokens });
+  }
+
+  // Other jobs by relevance into whatever is left
+  const ranked = jobs
+    .filter(job => job !== scoped)
+    .map(job => ({ job, score: scoreJob(job, message, stages) }))
+    .sort((a, b) => b.score - a.score);
+  ranked.forEach(({ job, score }, i) => {
+    const label = `${job.role} at ${job.company}`;
+    const candidates: [JobDetail, object][] = i < FULL_DETAIL_JOBS
+      ? [['full', fullJob(job, stages)], ['compact', compactJob(job, stages)]]
+      : [['compact', compactJob(job, stages)]];
+    for (const [detail, data] of candidates) {
+      const tokens = estimateTokens(JSON.stringify(data));
+      if (tokens <= jobBudget) {
+        jobBudget -= tokens;
+        included.push(data);
+        entries.push({ jobId: job.id, label, score, detail, tokens });
+        return;
+      }
+    }
+    entries.push({ jobId: job.id, label, score, detail: 'omitted', tokens: 0 });
+  });
+
+  return {
+    focusJob: focus,
+    jobs: included,
+    passages,
+    history: recent,
+    memory,
+    savedMemory,
+    unsummarized,
+    report: {
+      budget,
+      tokens: {
+        fixed: fixedTokens,
+        memory: memoryTokens,
+        history: historyTokens,
+        passages: passageTokens,
+        jobs: entries.reduce((sum, e) => sum + e.tokens, 0),
+      },
+      jobs: entries,
+      passages: passageEntries,
+      retrievalMethod: retrieved?.method,
+      recentMessages: recent.length,
+      summarizedMessages: older.length,
+      memory,
+    },
+  };
+};
+
+/** The passages a reply actually cited with [n], in citation order. */
+export const citePassages = (reply: string, passages: NumberedPassage[]): ChatCitation[] => {
+  const cited = new Set(Array.from(reply.matchAll(/\[(\d+)\]/g), m => Number(m[1])));
+  return passages
+    .filter(p => cited.has(p.n))
+    .map(({ n, chunk }) => ({
+      n,
+      kind: chunk.kind,
+      title: chunk.title,
+      excerpt: chunk.text.length > 300 ? `${chunk.text.slice(0, 300)}...` : chunk.text,
+      ...(chunk.jobId && { jobId: chunk.jobId }),
+      ...(chunk.reportId && { reportId: chunk.reportId }),
+    }));
+};
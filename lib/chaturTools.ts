@@ -0,0 +1,309 @@
+import { Job, PipelineStage, ChatAction, Contact, Interaction, InterviewFormat, ResearchReport, InterviewPrepReport } from "../types";
+import { getFirstStage } from "./pipeline";
+import { INTERVIEW_FORMATS } from "./interviews";
+import { runAgentResearch, runAgentInterviewPrep } from "../services/geminiService";
+import { generateId } from "./id";
+
+/** The JobContext actions Chatur's tools are allowed to call. */
+export interface ChaturToolContext {
+  jobs: Job[];
+  pipelineStages: PipelineStage[];
+  addJob: (job: Job) => void;
+  updateJob: (id: string, fields: Partial<Job>) => void;
+  addResearchReport: (report: ResearchReport) => void;
+  addPrepReport: (report: InterviewPrepReport) => void;
+}
+
+/** What a confirmation card shows, and the change it makes once confirmed. */
+export interface PreparedAction {
+  details: string[];
+  run: () => Promise<string>; // Resolves a one-line summary of what was done
+}
+
+interface ChaturTool {
+  title: string; // Card heading
+  description: string; // For the model
+  args: string; // Argument shape, for the model
+  /** Resolves the arguments against the current data. Throws with a user-facing message when they don't fit. */
+  prepare: (args: Record<string, any>, ctx: ChaturToolContext) => PreparedAction;
+}
+
+const INTERACTION_TYPES: Interaction['type'][] = ['Email', 'Call', 'LinkedIn', 'Meeting', 'Other'];
+
+const text = (value: unknown) => typeof value === 'string' ? value.trim() : '';
+
+const findJob = (jobs: Job[], args: Record<string, any>): Job => {
+  const company = text(args.company).toLowerCase();
+  const role = text(args.role).toLowerCase();
+  if (!company) throw new Error("No company was given.");
+  let matches = jobs.filter(j => j.company.toLowerCase() === company);
+  if (matches.length === 0) matches = jobs.filter(j => j.company.toLowerCase().includes(company));
+  if (matches.length > 1 && role) {
+    const byRole = matches.filter(j => j.role.toLowerCase().includes(role));
+    if (byRole.length > 0) matches = byRole;
+  }
+  if (matches.length === 0) throw new Error(`No application for "${args.company}" was found.`);
+  if (matches.length > 1) {
+    throw new Error(`Several applications match "${args.company}" (${matches.map(j => j.role).join(', ')}). Ask Chatur again with the role.`);
+  }
+  return matches[0];
+};
+
+const findStage = (stages: PipelineStage[], value: unknown): PipelineStage => {
+  const name = text(value).toLowerCase();
+  const stage = stages.find(s => s.name.toLowerCase() === name || s.id.toLowerCase() === name);
+  if (!stage) throw new Error(`"${value}" isn't one of your stages (${stages.map(s => s.name).join(', ')}).`);
+  return stage;
+};
+
+const parseDate = (value: unknown): Date => {
+  const date = new Date(text(value));
+  if (!text(value) || isNaN(date.getTime())) throw new Error(`"${value ?? ''}" isn't a date I can schedule.`);
+  return date;
+};
+
+const formatDate = (date: Date) =>
+  date.toLocaleString('en-US', { weekday: 'short', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+const label = (job: Job) => `${job.role} at ${job.company}`;
+
+export const CHATUR_TOOLS: Record<string, ChaturTool> = {
+  add_job: {
+    title: 'Add application',
+    description: 'Start tracking a new application.',
+    args: '{"company": string, "role": string, "status"?: stage name, "location"?: string, "salary"?: string, "notes"?: string}',
+    prepare: (args, ctx) => {
+      const company = text(args.company);
+      const role = text(args.role);
+      if (!company || !role) throw new Error("A new application needs both a company and a role.");
+      const stage = args.status ? findStage(ctx.pipelineStages, args.status) : getFirstStage(ctx.pipelineStages, 'active');
+      const duplicate = ctx.jobs.some(j => j.company.toLowerCase() === company.toLowerCase() && j.role.toLowerCase() === role.toLowerCase());
+      return {
+        details: [
+          `${role} at ${company}`,
+          `Stage: ${stage.name}`,
+          ...(text(args.location) ? [`Location: ${text(args.location)}`] : []),
+          ...(text(args.salary) ? [`Salary: ${text(args.salary)}`] : []),
+          ...(text(args.notes) ? [`Notes: ${text(args.notes)}`] : []),
+          ...(duplicate ? ["You already track an application with this company and role."] : []),
+        ],
+        run: async () => {
+          ctx.addJob({
+            id: generateId(),
+            company,
+            role,
+            status: stage.id,
+            salary: text(args.salary),
+            location: text(args.location),
+            dateApplied: new Date().toISOString().split('T')[0],
+            description: '',
+            coverLetter: '',
+            origin: stage.category === 'offer' ? 'offer' : 'application',
+            notes: text(args.notes),
+            attachments: [],
+            contacts: [],
+            checklist: [],
+            interviewLogs: [],
+            interviewRounds: [],
+          });
+          return `Added ${role} at ${company}.`;
+        },
+      };
+    },
+  },
+
+  update_job: {
+    title: 'Update application',
+    description: 'Move an application to another stage and/or add to its notes.',
+    args: '{"company": string, "role"?: string, "status"?: stage name, "notes"?: text to append}',
+    prepare: (args, ctx) => {
+      const job = findJob(ctx.jobs, args);
+      const stage = args.status ? findStage(ctx.pipelineStages, args.status) : null;
+      const notes = text(args.notes);
+      if (!stage && !notes) throw new Error("Nothing to change was given.");
+      const currentStage = ctx.pipelineStages.find(s => s.id === job.status);
+      return {
+        details: [
+          label(job),
+          ...(stage ? [`Stage: ${currentStage?.name || job.status} → ${stage.name}`] : []),
+          ...(notes ? [`Append to notes: ${notes}`] : []),
+        ],
+        run: async () => {
+          ctx.updateJob(job.id, {
+            ...(stage && { status: stage.id }),
+            ...(notes && { notes: job.notes ? `${job.notes}\n\n${notes}` : notes }),
+          });
+          return `Updated ${label(job)}.`;
+        },
+      };
+    },
+  },
+
+  schedule_interview: {
+    title: 'Schedule interview',
+    description: 'Add an interview round to an application.',
+    args: `{"company": string, "role"?: string, "date": "YYYY-MM-DDTHH:mm" local time, "name"?: round name, "durationMinutes"?: number, "format"?: ${INTERVIEW_FORMATS.map(f => `"${f}"`).join(' | ')}}`,
+    prepare: (args, ctx) => {
+      const job = findJob(ctx.jobs, args);
+      const date = parseDate(args.date);
+      const format: InterviewFormat = INTERVIEW_FORMATS.includes(args.format) ? args.format : 'Video';
+      const durationMinutes = Number(args.durationMinutes) > 0 ? Math.round(Number(args.durationMinutes)) : 60;
+      const name = text(args.name) || 'Interview';
+      return {
+        details: [label(job), `${name} · ${format} · ${durationMinutes} min`, formatDate(date)],
+        run: async () => {
+          ctx.updateJob(job.id, {
+            interviewRounds: [...(job.interviewRounds || []), {
+              id: generateId(),
+              name,
+              date: date.toISOString(),
+              durationMinutes,
+              format,
+              interviewerIds: [],
+              outcome: 'Pending',
+            }],
+          });
+          return `Scheduled ${name} with ${job.company} for ${formatDate(date)}.`;
+        },
+      };
+    },
+  },
+
+  add_checklist_items: {
+    title: 'Add checklist items',
+    description: "Add to-dos to an application's checklist.",
+    args: '{"company": string, "role"?: string, "items": string[]}',
+    prepare: (args, ctx) => {
+      const job = findJob(ctx.jobs, args);
+      const items: string[] = (Array.isArray(args.items) ? args.items : [args.items]).map(text).filter(Boolean);
+      if (items.length === 0) throw new Error("No checklist items were given.");
+      return {
+        details: [label(job), ...items.map(item => `☐ ${item}`)],
+        run: async () => {
+          ctx.updateJob(job.id, {
+            checklist: [...(job.checklist || []), ...items.map(item => ({ id: generateId(), text: item, completed: false }))],
+          });
+          return `Added ${items.length} checklist item${items.length === 1 ? '' : 's'} to ${label(job)}.`;
+        },
+      };
+    },
+  },
+
+  add_contact_interaction: {
+    title: 'Log contact interaction',
+    description: "Record an email, call or meeting with someone at a company. Creates the contact if it doesn't exist.",
+    args: `{"company": string, "role"?: string, "contactName": string, "type": ${INTERACTION_TYPES.map(t => `"${t}"`).join(' | ')}, "notes": string, "date"?: "YYYY-MM-DD"}`,
+    prepare: (args, ctx) => {
+      const job = findJob(ctx.jobs, args);
+      const contactName = text(args.contactName);
+      if (!contactName) throw new Error("No contact name was given.");
+      const type: Interaction['type'] = INTERACTION_TYPES.includes(args.type) ? args.type : 'Other';
+      const date = args.date ? parseDate(args.date) : new Date();
+      const contact = (job.contacts || []).find(c => c.name.toLowerCase().includes(contactName.toLowerCase()));
+      return {
+        details: [
+          label(job),
+          contact ? `Contact: ${contact.name}` : `New contact: ${contactName}`,
+          `${type} on ${date.toLocaleDateString()}`,
+          ...(text(args.notes) ? [text(args.notes)] : []),
+        ],
+        run: async () => {
+          const interaction: Interaction = { id: generateId(), date: date.toISOString(), type, notes: text(args.notes) };
+          const contacts: Contact[] = contact
+            ? (job.contacts || []).map(c => c.id === contact.id ? { ...c, history: [...c.history, interaction] } : c)
+            : [...(job.contacts || []), { id: generateId(), name: contactName, role: '', email: '', phone: '', linkedin: '', history: [interaction] }];
+          ctx.updateJob(job.id, { contacts });
+          return `Logged a ${type.toLowerCase()} with ${contact?.name || contactName}.`;
+        },
+      };
+    },
+  },
+
+  run_agent: {
+    title: 'Run agent',
+    description: 'Run the deep research or interview prep agent for a company and save the report.',
+    args: '{"agent": "research" | "interview_prep", "company": string, "role"?: string}',
+    prepare: (args, ctx) => {
+      const company = text(args.company);
+      if (!company) throw new Error("No company was given.");
+      if (args.agent !== 'research' && args.agent !== 'interview_prep') throw new Error(`"${args.agent}" isn't an agent I can run.`);
+      // Use the tracked application for the role and JD when there is one
+      let job: Job | null = null;
+      try { job = findJob(ctx.jobs, args); } catch { job = null; }
+      const role = text(args.role) || job?.role || '';
+      const isResearch = args.agent === 'research';
+      return {
+        details: [
+          `${isResearch ? 'Deep research' : 'Interview prep'} for ${role ? `${role} at ` : ''}${job?.company || company}`,
+          'Makes a new AI request and saves the report to your agent history.',
+        ],
+        run: async () => {
+          const report = {
+            id: generateId(),
+            company: job?.company || company,
+            role,
+            date: new Date().toISOString(),
+          };
+          if (isResearch) {
+            const data = await runAgentResearch(report.company, role);
+            ctx.addResearchReport({ ...report, content: JSON.stringify(data) });
+            return `Saved a research report on ${report.company}. Open it from Agents.`;
+          }
+          const data = await runAgentInterviewPrep(report.company, role, job?.description || '');
+          ctx.addPrepReport({ ...report, content: JSON.stringify(data) });
+          return `Saved an interview prep kit for ${report.company}. Open it from Agents.`;
+        },
+      };
+    },
+  },
+};
+
+/** Validates a proposed action against the current data. */
+export const prepareChatAction = (action: ChatAction, ctx: ChaturToolContext): PreparedAction => {
+  const tool = CHATUR_TOOLS[action.tool];
+  if (!tool) throw new Error(`Chatur asked for an unknown action ("${action.tool}").`);
+  return tool.prepare(action.args || {}, ctx);
+};
+
+export const getToolTitle = (name: string) => CHATUR_TOOLS[name]?.title || name;
+
+// --- Prompt and parsing ---
+
+const ACTION_BLOCK = /```action\s*([\s\S]*?)```/g;
+
+/** The prompt section that tells the model which tools exist and how to propose them. */
+export const describeChaturTools = (stages: PipelineStage[], now = new Date()): string => {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const localNow = `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}T${pad(now.getHours())}:${pad(now.getMinutes())}`;
+  return `ACTIONS:
+    You can propose changes to the user's job tracker. The user confirms each one on a card before it is applied,
+    so never say an action has been done; say you've prepared it for them to confirm.
+    Only propose actions the user asked for. Put each one at the very end of your reply in its own block:
+    \`\`\`action
+    {"tool": "update_job", "args": {"company": "Acme", "status": "Interview"}}
+    \`\`\`
+    Tools:
+${Object.entries(CHATUR_TOOLS).map(([name, tool]) => `    - ${name}: ${tool.description} Args: ${tool.args}`).join('\n')}
+    Pipeline stages: ${stages.map(s => s.name).join(', ')}.
+    The user's local time is ${localNow} (${now.toLocaleDateString('en-US', { weekday: 'long' })}). Resolve relative dates like "Friday 3pm" against it.`;
+};
+
+/** Splits a reply into the text to show and the actions proposed in it. Malformed blocks are dropped. */
+export const extractChatActions = (reply: string): { text: string; actions: ChatAction[] } => {
+  const actions: ChatAction[] = [];
+  for (const [, body] of reply.matchAll(ACTION_BLOCK)) {
+    try {
+      const parsed = JSON.parse(body.trim());
+      if (parsed && typeof parsed.tool === 'string') {
+        actions.push({ id: generateId(), tool: parsed.tool, args: parsed.args || {}, status: 'pending' });
+      }
+    } catch (e) {
+      console.warn("Ignoring malformed Chatur action", body);
+    }
+  }
+  return { text: hideChatActions(reply), actions };
+};
+
+/** Removes action blocks from a reply, including one still being streamed in. */
+export const hideChatActions = (reply: string) =>
+  reply.replace(ACTION_BLOCK, '').replace(/```action[\s\S]*$/, '').trim();
@@ -0,0 +1,183 @@
+import { Job, PipelineStage } from "../types";
+import { getStage, getFirstStage } from "./pipeline";
+import { getNextRound } from "./interviews";
+
+/** Parses RFC 4180 CSV: quoted fields, escaped quotes ("") and newlines inside quotes. */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, ''); // Excel adds a BOM
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(cell => cell.trim()));
+};
+
+const escapeCell = (value: string) => {
+  // Leading =, +, - or @ would be run as a formula by spreadsheet apps
+  const safe = /^[=+\-@]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+};
+
+export const toCsv = (rows: string[][]) => rows.map(r => r.map(escapeCell).join(',')).join('\r\n');
+
+// --- Import mapping ---
+
+export const CSV_IMPORT_FIELDS = ['company', 'role', 'status', 'salary', 'location', 'dateApplied', 'description', 'notes'] as const;
+export type CsvImportField = typeof CSV_IMPORT_FIELDS[number];
+export type CsvColumnMapping = Record<CsvImportField, number | null>; // Column index per field
+
+export const CSV_FIELD_LABELS: Record<CsvImportField, string> = {
+  company: 'Company',
+  role: 'Role',
+  status: 'Status',
+  salary: 'Salary',
+  location: 'Location',
+  dateApplied: 'Date Applied',
+  description: 'Job Description',
+  notes: 'Notes',
+};
+
+const HEADER_ALIASES: Record<CsvImportField, string[]> = {
+  company: ['company', 'companyname', 'employer', 'organization', 'organisation'],
+  role: ['role', 'title', 'jobtitle', 'position'],
+  status: ['status', 'stage', 'state'],
+  salary: ['salary', 'compensation', 'ctc', 'pay'],
+  location: ['location', 'city', 'place'],
+  dateApplied: ['dateapplied', 'applied', 'applieddate', 'applicationdate', 'date'],
+  description: ['description', 'jobdescription', 'jd'],
+  notes: ['notes', 'note', 'comments'],
+};
+
+/** Guesses which column feeds each field from the header row. */
+export const guessColumnMapping = (headers: string[]): CsvColumnMapping => {
+  const normalized = headers.map(h => h.toLowerCase().replace(/[^a-z]/g, ''));
+  return Object.fromEntries(CSV_IMPORT_FIELDS.map(field => {
+    const index = normalized.findIndex(h => HEADER_ALIASES[field].includes(h));
+    return [field, index === -1 ? null : index];
+  })) as CsvColumnMapping;
+};
+
+// Built from local parts; toISOString() would move the day back for users east of UTC
+const formatLocalDate = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+/** `value` as YYYY-MM-DD, or null when it isn't a real date (e.g. "2024-13-45" or "31/12/2024"). */
+const toIsoDate = (value: string): string | null => {
+  const iso = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (iso) {
+    const [year, month, day] = iso.slice(1).map(Number);
+    const date = new Date(year, month - 1, day);
+    const valid = date.getFullYear() === year && date.getMonth() === month - 1 && date.getDate() === day;
+    return valid ? value : null;
+  }
+  const parsed = new Date(value);
+  return isNaN(parsed.getTime()) ? null : formatLocalDate(parsed);
+};
+
+/**
+ * Turns mapped rows into jobs (without ids). Rows missing a company or role are reported
+ * back by spreadsheet row number instead of being imported half-empty. Rows whose date
+ * can't be read are imported dated today and reported in `undatedLines`.
+ */
+export const rowsToJobs = (rows: string[][], mapping: CsvColumnMapping, stages: PipelineStage[]) => {
+  const jobs: Omit<Job, 'id'>[] = [];
+  const skippedLines: number[] = [];
+  const undatedLines: number[] = [];
+  const read = (row: string[], field: CsvImportField) => {
+    const index = mapping[field];
+    return index === null ? '' : (row[index] || '').trim();
+  };
+
+  rows.forEach((row, i) => {
+    const line = i + 2; // Spreadsheet row number: +1 for the header, +1 for 1-based rows
+    const company = read(row, 'company');
+    const role = read(row, 'role');
+    if (!company || !role) {
+      skippedLines.push(line);
+      return;
+    }
+    const dateText = read(row, 'dateApplied');
+    const dateApplied = dateText ? toIsoDate(dateText) : null;
+    if (dateText && !dateApplied) undatedLines.push(line);
+    const statusText = read(row, 'status').toLowerCase();
+    // Match on stage name or id; anything unrecognised starts at the beginning of the pipeline
+    const stage = stages.find(s => s.name.toLowerCase() === statusText || s.id.toLowerCase() === statusText)
+      || getFirstStage(stages, 'active');
+    jobs.push({
+      company,
+      role,
+      status: stage.id,
+      salary: read(row, 'salary'),
+      location: read(row, 'location'),
+      dateApplied: dateApplied || formatLocalDate(new Date()),
+      description: read(row, 'description'),
+      coverLetter: '',
+      origin: stage.category === 'offer' ? 'offer' : 'application',
+      notes: read(row, 'notes'),
+      attachments: [],
+      contacts: [],
+      checklist: [],
+      interviewLogs: [],
+      interviewRounds: [],
+    });
+  });
+
+  return { jobs, skippedLines, undatedLines };
+};
+
+// --- Export ---
+
+export const jobsToCsv = (jobs: Job[], stages: PipelineStage[]): string => {
+  const header = [
+    'Company', 'Role', 'Status', 'Salary', 'Location', 'Date Applied',
+    'Contacts', 'Interview Rounds', 'Next Interview', 'Description', 'Notes',
+  ];
+  const rows = jobs.map(job => {
+    const next = getNextRound([job]);
+    return [
+      job.company,
+      job.role,
+      getStage(stages, job.status).name,
+      job.salary || '',
+      job.location || '',
+      job.dateApplied || '',
+      String(job.contacts?.length || 0),
+      String(job.interviewRounds?.length || 0),
+      next ? `${next.round.name} (${new Date(next.round.date).toLocaleString()})` : '',
+      job.description || '',
+      job.notes || '',
+    ];
+  });
+  return toCsv([header, ...rows]);
+};
@@ -0,0 +1,229 @@
+import { Job, InterviewRound } from "../types";
+import { ScheduledRound } from "./interviews";
+
+// Minimal RFC 5545 support: enough to round-trip our own interviews and read
+// typical invites from Google Calendar, Outlook and scheduling tools.
+
+const UID_DOMAIN = 'jobjumper.ai';
+
+export interface CalendarEvent {
+  uid: string;
+  summary: string;
+  description: string;
+  location: string;
+  start: string; // ISO datetime string
+  durationMinutes: number;
+  organizer?: { name?: string; email?: string };
+  attendees: { name?: string; email?: string }[];
+}
+
+// --- Export ---
+
+const escapeText = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+const formatUtc = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+// Long lines must be folded onto continuation lines starting with a space. The limit is
+// 75 octets; counting characters instead is close enough for the text we write.
+const foldLine = (line: string) => {
+  const parts: string[] = [];
+  let rest = line;
+  while (rest.length > 75) {
+    parts.push(rest.slice(0, 75));
+    rest = ' ' + rest.slice(75);
+  }
+  parts.push(rest);
+  return parts.join('\r\n');
+};
+
+const describeRound = (job: Job, round: InterviewRound) => {
+  const interviewers = (job.contacts || []).filter(c => round.interviewerIds.includes(c.id));
+  const lines = [
+    `${job.role} at ${job.company}`,
+    `Round: ${round.name} (${round.format}, ${round.durationMinutes} min)`,
+  ];
+  if (interviewers.length > 0) {
+    lines.push('', 'Interviewers:');
+    interviewers.forEach(c => lines.push(`- ${[c.name, c.role, c.email, c.phone].filter(Boolean).join(' · ')}`));
+  }
+  const otherContacts = (job.contacts || []).filter(c => !round.interviewerIds.includes(c.id));
+  if (otherContacts.length > 0) {
+    lines.push('', 'Contacts:');
+    otherContacts.forEach(c => lines.push(`- ${[c.name, c.role, c.email, c.phone].filter(Boolean).join(' · ')}`));
+  }
+  const openItems = (job.checklist || []).filter(item => !item.completed);
+  if (openItems.length > 0) {
+    lines.push('', 'Prep checklist:');
+    openItems.forEach(item => lines.push(`[ ] ${item.text}`));
+  }
+  return lines.join('\n');
+};
+
+/** Builds a VCALENDAR with one VEVENT per interview round. Cancelled rounds are exported as cancelled. */
+export const buildCalendar = (rounds: ScheduledRound[], now = new Date()): string => {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//JobJumper AI//Interview Schedule//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    'X-WR-CALNAME:JobJumper Interviews',
+  ];
+
+  rounds.forEach(({ job, round }) => {
+    const start = new Date(round.date);
+    const end = new Date(start.getTime() + round.durationMinutes * 60000);
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${round.id}@${UID_DOMAIN}`,
+      `DTSTAMP:${formatUtc(now)}`,
+      `DTSTART:${formatUtc(start)}`,
+      `DTEND:${formatUtc(end)}`,
+      `SUMMARY:${escapeText(`${round.name}: ${job.role} at ${job.company}`)}`,
+      `DESCRIPTION:${escapeText(describeRound(job, round))}`,
+      `LOCATION:${escapeText(round.format === 'Onsite' ? job.location || 'Onsite' : round.format)}`,
+      `STATUS:${round.outcome === 'Cancelled' ? 'CANCELLED' : 'CONFIRMED'}`,
+      'END:VEVENT'
+    );
+  });
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
+
+// --- Import ---
+
+// One pass, so an escaped backslash followed by "n" stays a backslash and an n
+const unescapeText = (value: string) =>
+  value.replace(/\\([\\;,nN])/g, (_, c) => c.toLowerCase() === 'n' ? '\n' : c);
+
+/**
+ * Parses DATE-TIME / DATE values. Floating times and TZID times are read as local time;
+ * we don't ship a timezone database, and invites are almost always in the user's own zone.
+ */
+const parseDateValue = (value: string): Date | null => {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/);
+  if (!match) return null;
+  const [, y, mo, d, h = '00', mi = '00', s = '00', utc] = match;
+  const date = utc
+    ? new Date(Date.UTC(+y, +mo - 1, +d, +h, +mi, +s))
+    : new Date(+y, +mo - 1, +d, +h, +mi, +s);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+// ISO 8601 durations as used by DURATION, e.g. PT45M, PT1H30M, P1D
+const parseDurationMinutes = (value: string): number | null => {
+  const match = value.match(/^[+-]?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) return null;
+  const [, w = '0', d = '0', h = '0', m = '0'] = match;
+  return (+w * 7 + +d) * 1440 + +h * 60 + +m;
+};
+
+const parsePerson = (params: Record<string, string>, value: string) => ({
+  name: params.CN?.replace(/^"|"$/g, ''),
+  email: value.replace(/^mailto:/i, '') || undefined,
+});
+
+/** Reads every VEVENT from an .ics file. Events without a usable start time are skipped. */
+export const parseCalendar = (text: string): CalendarEvent[] => {
+  const lines = text.replace(/\r\n[ \t]/g, '').replace(/\n[ \t]/g, '').split(/\r?\n/);
+  const events: CalendarEvent[] = [];
+  let current: Record<string, { params: Record<string, string>; value: string }[]> | null = null;
+
+  for (const rawLine of lines) {
+    const line = rawLine.trimEnd();
+    if (line === 'BEGIN:VEVENT') {
+      current = {};
+      continue;
+    }
+    if (line === 'END:VEVENT' && current) {
+      const get = (key: string) => current![key]?.[0];
+      const start = get('DTSTART') && parseDateValue(get('DTSTART')!.value);
+      if (start) {
+        const end = get('DTEND') && parseDateValue(get('DTEND')!.value);
+        const duration = get('DURATION') && parseDurationMinutes(get('DURATION')!.value);
+        const organizer = get('ORGANIZER');
+        events.push({
+          uid: get('UID')?.value || `${start.getTime()}-${events.length}`,
+          summary: unescapeText(get('SUMMARY')?.value || 'Interview'),
+          description: unescapeText(get('DESCRIPTION')?.value || ''),
+          location: unescapeText(get('LOCATION')?.value || ''),
+          start: start.toISOString(),
+          durationMinutes: end ? Math.max(0, Math.round((end.getTime() - start.getTime()) / 60000)) : duration || 60,
+          organizer: organizer ? parsePerson(organizer.params, organizer.value) : undefined,
+          attendees: (current['ATTENDEE'] || []).map(a => parsePerson(a.params, a.value)),
+        });
+      }
+      current = null;
+      continue;
+    }
+    if (!current) continue;
+
+    const colon = line.indexOf(':');
+    if (colon === -1) continue;
+    const [name, ...paramParts] = line.slice(0, colon).split(';');
+    const params = Object.fromEntries(paramParts.map(p => {
+      const eq = p.indexOf('=');
+      return [p.slice(0, eq).toUpperCase(), p.slice(eq + 1)];
+    }));
+    const key = name.toUpperCase();
+    (current[key] = current[key] || []).push({ params, value: line.slice(colon + 1) });
+  }
+
+  return events;
+};
+
+/** Round ids survive an export/import cycle so re-importing our own file updates instead of duplicating. */
+export const getRoundIdFromUid = (uid: string) =>
+  uid.endsWith(`@${UID_DOMAIN}`) ? uid.slice(0, -(UID_DOMAIN.length + 1)) : `ics-${uid}`;
+
+const normalize = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Picks the job an invite most likely belongs to: first by a round we exported ourselves,
+ * then by a known contact on the invite, then by the company name appearing anywhere in it.
+ */
+export const findMatchingJob = (event: CalendarEvent, jobs: Job[]): Job | undefined => {
+  const roundId = getRoundIdFromUid(event.uid);
+  const byRound = jobs.find(j => j.interviewRounds?.some(r => r.id === roundId));
+  if (byRound) return byRound;
+
+  const emails = [event.organizer, ...event.attendees].map(p => p?.email?.toLowerCase() || '').filter(Boolean);
+  const byContact = jobs.find(j => j.contacts?.some(c => c.email && emails.includes(c.email.toLowerCase())));
+  if (byContact) return byContact;
+
+  const haystack = normalize(`${event.summary} ${event.description} ${event.location} ${emails.join(' ')}`);
+  return jobs
+    .filter(j => normalize(j.company).length > 1 && haystack.includes(normalize(j.company)))
+    // Prefer the longest company name so "Meta" doesn't swallow "Metaview"
+    .sort((a, b) => normalize(b.company).length - normalize(a.company).length)[0];
+};
+
+/** Best-effort company name for an invite that matched no job, taken from the organizer's email domain. */
+export const guessCompany = (event: CalendarEvent): string => {
+  const generic = ['gmail', 'googlemail', 'outlook', 'hotmail', 'yahoo', 'icloud', 'calendly', 'google', 'zoom'];
+  const people = [event.organizer, ...event.attendees];
+  for (const person of people) {
+    const domain = person?.email?.split('@')[1]?.split('.')[0];
+    if (domain && !generic.includes(domain.toLowerCase())) {
+      return domain.charAt(0).toUpperCase() + domain.slice(1);
+    }
+  }
+  return '';
+};
+
+export const eventToRound = (event: CalendarEvent, job?: Job): InterviewRound => {
+  const emails = [event.organizer, ...event.attendees].map(p => p?.email?.toLowerCase()).filter(Boolean);
+  const location = event.location.toLowerCase();
+  return {
+    id: getRoundIdFromUid(event.uid),
+    name: event.summary,
+    date: event.start,
+    durationMinutes: event.durationMinutes,
+    format: /zoom|meet|teams|webex|video|http/.test(location) ? 'Video' : /phone|call|\+?\d[\d\s-]{6,}/.test(location) ? 'Phone' : location ? 'Onsite' : 'Video',
+    // Tag any contacts we already know who are on the invite
+    interviewerIds: (job?.contacts || []).filter(c => c.email && emails.includes(c.email.toLowerCase())).map(c => c.id),
+    outcome: 'Pending',
+  };
+};
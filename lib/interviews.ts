@@ -0,0 +1,57 @@
+import { Job, InterviewRound, InterviewFormat, InterviewOutcome } from "../types";
+
+export const INTERVIEW_FORMATS: InterviewFormat[] = ['Phone', 'Video', 'Onsite', 'Take-home'];
+export const INTERVIEW_OUTCOMES: InterviewOutcome[] = ['Pending', 'Passed', 'Failed', 'Cancelled'];
+
+export interface ScheduledRound {
+  job: Job;
+  round: InterviewRound;
+}
+
+/**
+ * Moves a legacy single `interviewDate` into `interviewRounds`. Jobs saved before rounds
+ * existed (or restored from old backups) keep their interview this way; the id is derived
+ * from the job so repeated loads don't create duplicates.
+ */
+export const migrateLegacyInterview = (job: Job): Job => {
+  if (!job.interviewDate) return job;
+  const { interviewDate, ...rest } = job;
+  if (job.interviewRounds && job.interviewRounds.length > 0) return rest;
+  return {
+    ...rest,
+    interviewRounds: [{
+      id: `${job.id}-interview`,
+      name: 'Interview',
+      date: interviewDate,
+      durationMinutes: 60,
+      format: 'Video',
+      interviewerIds: [],
+      outcome: 'Pending',
+    }],
+  };
+};
+
+export const sortRounds = (rounds: InterviewRound[]) =>
+  [...rounds].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+
+/** Every round across all jobs, oldest first. */
+export const getScheduledRounds = (jobs: Job[]): ScheduledRound[] =>
+  jobs
+    .flatMap(job => (job.interviewRounds || []).map(round => ({ job, round })))
+    .sort((a, b) => new Date(a.round.date).getTime() - new Date(b.round.date).getTime());
+
+/** The next round that hasn't started and wasn't cancelled. Pass `[job]` for a single job's next round. */
+export const getNextRound = (jobs: Job[], now = Date.now()): ScheduledRound | undefined =>
+  getScheduledRounds(jobs).find(({ round }) =>
+    round.outcome !== 'Cancelled' && new Date(round.date).getTime() > now
+  );
+
+export const hasInterviews = (job: Job) => (job.interviewRounds || []).length > 0;
+
+/** Formats an ISO string for a `datetime-local` input, which expects local time without a zone. */
+export const toDateTimeLocal = (iso: string) => {
+  const date = new Date(iso);
+  if (isNaN(date.getTime())) return '';
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
@@ -0,0 +1,43 @@
+import { Job, PipelineStage, StageCategory, StageColor } from "../types";
+
+/** The stages every account starts with; ids match the statuses stored before stages were configurable. */
+export const DEFAULT_PIPELINE_STAGES: PipelineStage[] = [
+  { id: 'Applied', name: 'Applied', color: 'blue', category: 'active' },
+  { id: 'Interview', name: 'Interview', color: 'purple', category: 'active' },
+  { id: 'Offer', name: 'Offer', color: 'emerald', category: 'offer' },
+  { id: 'Accepted', name: 'Accepted', color: 'teal', category: 'offer' },
+  { id: 'Rejected', name: 'Rejected', color: 'rose', category: 'closed' },
+];
+
+// Class names are spelled out in full so Tailwind can see them at build time.
+export const STAGE_COLORS: Record<StageColor, { badge: string; dot: string; hex: string }> = {
+  slate: { badge: 'bg-slate-100 dark:bg-slate-800 text-slate-700 dark:text-slate-300', dot: 'bg-slate-400', hex: '#94a3b8' },
+  blue: { badge: 'bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300', dot: 'bg-blue-500', hex: '#3b82f6' },
+  sky: { badge: 'bg-sky-100 dark:bg-sky-900/30 text-sky-700 dark:text-sky-300', dot: 'bg-sky-500', hex: '#0ea5e9' },
+  indigo: { badge: 'bg-indigo-100 dark:bg-indigo-900/30 text-indigo-700 dark:text-indigo-300', dot: 'bg-indigo-500', hex: '#6366f1' },
+  purple: { badge: 'bg-purple-100 dark:bg-purple-900/30 text-purple-700 dark:text-purple-300', dot: 'bg-purple-500', hex: '#8b5cf6' },
+  amber: { badge: 'bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-300', dot: 'bg-amber-500', hex: '#f59e0b' },
+  emerald: { badge: 'bg-emerald-100 dark:bg-emerald-900/30 text-emerald-700 dark:text-emerald-300', dot: 'bg-emerald-500', hex: '#10b981' },
+  teal: { badge: 'bg-teal-100 dark:bg-teal-900/30 text-teal-700 dark:text-teal-300', dot: 'bg-teal-500', hex: '#14b8a6' },
+  rose: { badge: 'bg-rose-100 dark:bg-rose-900/30 text-rose-700 dark:text-rose-300', dot: 'bg-rose-500', hex: '#f43f5e' },
+};
+
+export const STAGE_CATEGORY_LABELS: Record<StageCategory, string> = {
+  active: 'Active',
+  offer: 'Offer',
+  closed: 'Closed',
+};
+
+/**
+ * Looks up a job's stage. Jobs can outlive the stage they point at (e.g. it was deleted on
+ * another device), so unknown ids resolve to a neutral placeholder instead of failing.
+ */
+export const getStage = (stages: PipelineStage[], id: string): PipelineStage =>
+  stages.find(s => s.id === id) || { id, name: id, color: 'slate', category: 'active' };
+
+export const isInCategory = (stages: PipelineStage[], job: Job, category: StageCategory) =>
+  getStage(stages, job.status).category === category;
+
+/** The stage new applications and offers land in by default. */
+export const getFirstStage = (stages: PipelineStage[], category: StageCategory): PipelineStage =>
+  stages.find(s => s.category === category) || stages[0] || DEFAULT_PIPELINE_STAGES[0];
@@ -0,0 +1,104 @@
+import { Resume, ResumeLibrary, ResumeSectionId, ResumeSnapshot, ResumeSnapshotReason } from "../types";
+import { generateId } from "./id";
+
+/** Accounts from before the library have one resume, which becomes this entry. */
+export const DEFAULT_RESUME_LIBRARY: ResumeLibrary = {
+  activeId: 'main',
+  resumes: [{ id: 'main', name: 'My Resume' }],
+};
+
+export const SNAPSHOT_REASON_LABELS: Record<ResumeSnapshotReason, string> = {
+  saved: 'Saved',
+  tailored: 'Tailored',
+  enhanced: 'Polished',
+  imported: 'Imported',
+};
+
+/** e.g. "Frontend v3" */
+export const snapshotLabel = (snapshot: ResumeSnapshot) => `${snapshot.resumeName} v${snapshot.number}`;
+
+export const latestSnapshot = (snapshots: ResumeSnapshot[], resumeId: string): ResumeSnapshot | undefined =>
+  snapshots
+    .filter(s => s.resumeId === resumeId)
+    .reduce<ResumeSnapshot | undefined>((latest, s) => !latest || s.number > latest.number ? s : latest, undefined);
+
+export const DEFAULT_SECTION_ORDER: ResumeSectionId[] = [
+  'summary', 'skills', 'experience', 'projects', 'education',
+  'certifications', 'awards', 'languages', 'publications', 'volunteering',
+];
+
+export const RESUME_SECTION_LABELS: Record<ResumeSectionId, string> = {
+  summary: 'Professional Summary',
+  skills: 'Skills',
+  experience: 'Experience',
+  projects: 'Projects',
+  education: 'Education',
+  certifications: 'Certifications',
+  awards: 'Awards & Honors',
+  languages: 'Languages',
+  publications: 'Publications',
+  volunteering: 'Volunteering',
+};
+
+/** The resume's own order, with unknown ids dropped and sections it doesn't mention appended. */
+export const getSectionOrder = (resume: Resume): ResumeSectionId[] => {
+  const saved = (resume.sectionOrder || []).filter((id, i, all) => DEFAULT_SECTION_ORDER.includes(id) && all.indexOf(id) === i);
+  return [...saved, ...DEFAULT_SECTION_ORDER.filter(id => !saved.includes(id))];
+};
+
+/** Sections made of entries that each carry an id. */
+export const RESUME_LIST_KEYS = [
+  'experience', 'projects', 'education', 'certifications', 'awards', 'languages', 'publications', 'volunteering',
+] as const;
+
+export type ResumeListKey = typeof RESUME_LIST_KEYS[number];
+
+/**
+ * Gives every entry an id. Entries from an AI rewrite keep the id they came back with, or take
+ * the id of the entry at the same position in `previous`; without `previous` (e.g. after an
+ * import) every entry gets a fresh one. Ids are unique within a section afterwards, since the
+ * diff matches entries by id and would merge two that shared one.
+ */
+export const fillEntryIds = <T extends Partial<Resume>>(resume: T, previous?: Resume): T => {
+  const result: Record<string, unknown> = { ...resume };
+  RESUME_LIST_KEYS.forEach(key => {
+    const items = resume[key] as { id?: string }[] | undefined;
+    if (!Array.isArray(items)) return;
+    // A positional id must not take one the model kept on another entry
+    const kept = new Set(items.map(item => item.id).filter(Boolean));
+    const used = new Set<string>();
+    result[key] = items.map((item, i) => {
+      const positional = (previous?.[key] as { id: string }[] | undefined)?.[i]?.id;
+      let id = previous ? item.id || (positional && !kept.has(positional) ? positional : '') : '';
+      if (!id || used.has(id)) id = generateId();
+      used.add(id);
+      return { ...item, id };
+    });
+  });
+  return result as T;
+};
+
+// Skills used to be stored as a list or as categories; they are shown as one pipe-separated line
+export const formatSkills = (skills: any): string => {
+  if (!skills) return '';
+  if (typeof skills === 'string') return skills;
+
+  if (typeof skills === 'object') {
+    if (Array.isArray(skills)) return skills.join(' | ');
+
+    try {
+      const allSkills: string[] = [];
+      Object.values(skills).forEach((items: any) => {
+        if (Array.isArray(items)) {
+          allSkills.push(...items);
+        } else if (typeof items === 'string') {
+          allSkills.push(items);
+        }
+      });
+      return allSkills.join(' | ');
+    } catch (e) {
+      return JSON.stringify(skills);
+    }
+  }
+  return String(skills);
+};
@@ -0,0 +1,225 @@
+import { Resume } from "../types";
+import { formatSkills, ResumeListKey } from "./resume";
+
+/**
+ * Field-by-field comparison of the current resume with one the AI proposed, so each change can
+ * be accepted or rejected on its own. Experience and project descriptions are compared bullet by
+ * bullet, matched by position, since rewrites keep one bullet per original bullet.
+ */
+
+export type ResumeSection = 'profile' | ResumeListKey;
+
+export interface ResumeChange {
+  id: string; // Stable for a given pair of resumes, e.g. 'experience:<itemId>:description:2'
+  section: ResumeSection;
+  label: string; // e.g. "Senior Engineer at Acme · Bullet 2"
+  before: string; // Empty when the AI added something
+  after: string; // Empty when the AI removed something
+}
+
+export interface WordDiff {
+  text: string;
+  type: 'same' | 'added' | 'removed';
+}
+
+type Item = Record<string, any> & { id: string };
+
+const PROFILE_FIELDS: { field: 'jobTitle' | 'summary' | 'skills'; label: string }[] = [
+  { field: 'jobTitle', label: 'Headline' },
+  { field: 'summary', label: 'Professional Summary' },
+  { field: 'skills', label: 'Skills' },
+];
+
+const LIST_SECTIONS: Record<ResumeListKey, { fields: Record<string, string>; bullets: boolean; name: (item: Item) => string }> = {
+  experience: {
+    fields: { role: 'Role', company: 'Company', startDate: 'Start date', endDate: 'End date' },
+    bullets: true,
+    name: (e) => [e.role, e.company].filter(Boolean).join(' at ') || 'Experience',
+  },
+  projects: {
+    fields: { name: 'Name', technologies: 'Technologies', link: 'Link' },
+    bullets: true,
+    name: (p) => p.name || 'Project',
+  },
+  education: {
+    fields: { degree: 'Degree', school: 'School', year: 'Year', grade: 'Grade' },
+    bullets: false,
+    name: (e) => e.school || e.degree || 'Education',
+  },
+  certifications: {
+    fields: { name: 'Name', issuer: 'Issuer', date: 'Date', credentialId: 'Credential ID', link: 'Link' },
+    bullets: false,
+    name: (c) => c.name || 'Certification',
+  },
+  awards: {
+    fields: { title: 'Title', issuer: 'Issuer', date: 'Date', description: 'Description' },
+    bullets: false,
+    name: (a) => a.title || 'Award',
+  },
+  languages: {
+    fields: { name: 'Language', proficiency: 'Proficiency' },
+    bullets: false,
+    name: (l) => l.name || 'Language',
+  },
+  publications: {
+    fields: { title: 'Title', publisher: 'Publisher', date: 'Date', link: 'Link', description: 'Description' },
+    bullets: false,
+    name: (p) => p.title || 'Publication',
+  },
+  volunteering: {
+    fields: { role: 'Role', organization: 'Organization', startDate: 'Start date', endDate: 'End date' },
+    bullets: true,
+    name: (v) => [v.role, v.organization].filter(Boolean).join(' at ') || 'Volunteering',
+  },
+};
+
+// Models sometimes return a description as a list of bullets
+const toText = (value: unknown): string =>
+  Array.isArray(value) ? value.join('\n') : value == null ? '' : String(value);
+
+const toBullets = (value: unknown) => toText(value).split('\n').map(line => line.trim()).filter(Boolean);
+
+const profileValue = (resume: Resume, field: typeof PROFILE_FIELDS[number]['field']) =>
+  field === 'skills' ? formatSkills(resume.skills) : toText(resume[field]);
+
+const describeItem = (section: ResumeListKey, item: Item) => {
+  const spec = LIST_SECTIONS[section];
+  const details = Object.keys(spec.fields).map(f => toText(item[f])).filter(Boolean).join(' · ');
+  return [details, ...(spec.bullets ? toBullets(item.description) : [])].join('\n');
+};
+
+const bulletIds = (section: ResumeListKey, item: Item, match: Item) =>
+  Array.from({ length: Math.max(toBullets(item.description).length, toBullets(match.description).length) },
+    (_, i) => `${section}:${item.id}:description:${i}`);
+
+export const diffResume = (current: Resume, proposed: Resume): ResumeChange[] => {
+  const changes: ResumeChange[] = [];
+
+  PROFILE_FIELDS.forEach(({ field, label }) => {
+    const before = profileValue(current, field);
+    const after = profileValue(proposed, field);
+    if (before.trim() !== after.trim()) changes.push({ id: `profile:${field}`, section: 'profile', label, before, after });
+  });
+
+  (Object.keys(LIST_SECTIONS) as ResumeListKey[]).forEach(section => {
+    const spec = LIST_SECTIONS[section];
+    if (!proposed[section]) return; // Left out of the proposal, so nothing to change
+    const currentItems = (current[section] || []) as Item[];
+    const proposedItems = proposed[section] as Item[];
+
+    currentItems.forEach(item => {
+      const match = proposedItems.find(p => p.id === item.id);
+      const name = spec.name(item);
+      if (!match) {
+        changes.push({ id: `${section}:${item.id}:removed`, section, label: `${name} · Removed`, before: describeItem(section, item), after: '' });
+        return;
+      }
+      Object.entries(spec.fields).forEach(([field, label]) => {
+        const before = toText(item[field]);
+        const after = toText(match[field]);
+        if (before.trim() !== after.trim()) changes.push({ id: `${section}:${item.id}:${field}`, section, label: `${name} · ${label}`, before, after });
+      });
+      if (spec.bullets) {
+        const before = toBullets(item.description);
+        const after = toBullets(match.description);
+        bulletIds(section, item, match).forEach((id, i) => {
+          if ((before[i] || '') !== (after[i] || '')) {
+            changes.push({ id, section, label: `${name} · Bullet ${i + 1}`, before: before[i] || '', after: after[i] || '' });
+          }
+        });
+      }
+    });
+
+    proposedItems
+      .filter(item => !currentItems.some(c => c.id === item.id))
+      .forEach(item => changes.push({ id: `${section}:${item.id}:added`, section, label: `${spec.name(item)} · Added`, before: '', after: describeItem(section, item) }));
+  });
+
+  return changes;
+};
+
+/** The current resume with only the `accepted` changes (ids from diffResume) taken from `proposed`. */
+export const applyResumeChanges = (current: Resume, proposed: Resume, accepted: Set<string>): Resume => {
+  const result: Resume = { ...current };
+
+  PROFILE_FIELDS.forEach(({ field }) => {
+    if (accepted.has(`profile:${field}`)) result[field] = profileValue(proposed, field);
+  });
+
+  (Object.keys(LIST_SECTIONS) as ResumeListKey[]).forEach(section => {
+    const spec = LIST_SECTIONS[section];
+    if (!proposed[section]) return;
+    const currentItems = (current[section] || []) as Item[];
+    const proposedItems = proposed[section] as Item[];
+
+    const merged = currentItems.flatMap(item => {
+      const match = proposedItems.find(p => p.id === item.id);
+      if (!match) return accepted.has(`${section}:${item.id}:removed`) ? [] : [item];
+      const next: Item = { ...item };
+      Object.keys(spec.fields).forEach(field => {
+        if (accepted.has(`${section}:${item.id}:${field}`)) next[field] = match[field];
+      });
+      if (spec.bullets) {
+        const ids = bulletIds(section, item, match);
+        if (ids.some(id => accepted.has(id))) {
+          const before = toBullets(item.description);
+          const after = toBullets(match.description);
+          next.description = ids.map((id, i) => accepted.has(id) ? after[i] : before[i]).filter(Boolean).join('\n');
+        }
+      }
+      return [next];
+    });
+
+    // Added items go where the AI put them, as near as the kept items allow
+    proposedItems.forEach((item, i) => {
+      if (!currentItems.some(c => c.id === item.id) && accepted.has(`${section}:${item.id}:added`)) {
+        merged.splice(Math.min(i, merged.length), 0, item);
+      }
+    });
+
+    (result as any)[section] = merged;
+  });
+
+  return result;
+};
+
+// Longer texts are shown as a plain before/after instead of a word-level diff
+const MAX_DIFF_CELLS = 40000;
+
+/** Word-level differences between two texts, for highlighting a change. */
+export const diffWords = (before: string, after: string): WordDiff[] => {
+  const a = before.split(/(\s+)/).filter(Boolean);
+  const b = after.split(/(\s+)/).filter(Boolean);
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    return [{ text: before, type: 'removed' as const }, { text: after, type: 'added' as const }].filter(d => d.text);
+  }
+
+  // Longest common subsequence, filled from the end so the walk below can go forwards
+  const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const result: WordDiff[] = [];
+  const push = (text: string, type: WordDiff['type']) => {
+    const last = result[result.length - 1];
+    if (last && last.type === type) last.text += text;
+    else result.push({ text, type });
+  };
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      push(a[i], 'same');
+      i++;
+      j++;
+    } else if (j < b.length && (i >= a.length || lcs[i][j + 1] >= lcs[i + 1][j])) {
+      push(b[j++], 'added');
+    } else {
+      push(a[i++], 'removed');
+    }
+  }
+  return result;
+};
@@ -0,0 +1,245 @@
+import { Resume, ResumeSectionId } from "../types";
+import { formatSkills, getSectionOrder, RESUME_SECTION_LABELS } from "./resume";
+import { createZip } from "./zip";
+
+/**
+ * Text-based resume exports for applicant tracking systems, which often can't read the PDF (it is
+ * an image of the preview). All three are built from the resume data through one list of blocks,
+ * so they always agree on content and section order.
+ */
+
+type BlockKind = 'name' | 'headline' | 'contact' | 'heading' | 'entry' | 'meta' | 'paragraph' | 'bullet';
+
+interface Block {
+  kind: BlockKind;
+  text: string; // May contain **bold** from the editor
+  aside?: string; // Dates or a link, shown at the end of an entry line
+}
+
+// Models sometimes return a description as a list of bullets
+const toLines = (value: unknown): string[] =>
+  (Array.isArray(value) ? value.join('\n') : value == null ? '' : String(value))
+    .split('\n').map(line => line.trim()).filter(Boolean);
+
+const BULLET_MARKER = /^[•\-*]\s?/;
+
+const describe = (value: unknown): Block[] => toLines(value).map(line => BULLET_MARKER.test(line)
+  ? { kind: 'bullet', text: line.replace(BULLET_MARKER, '') }
+  : { kind: 'paragraph', text: line });
+
+const joinParts = (...parts: (string | undefined)[]) => parts.map(p => p?.trim()).filter(Boolean).join(' · ');
+
+const entry = (text: string, aside?: string, meta?: string): Block[] => [
+  { kind: 'entry', text: text || meta || '', aside: aside?.trim() || undefined },
+  ...(meta && text ? [{ kind: 'meta' as const, text: meta }] : []),
+];
+
+const sectionBlocks = (resume: Resume, section: ResumeSectionId): Block[] => {
+  switch (section) {
+    case 'summary':
+      return describe(resume.summary);
+    case 'skills': {
+      const skills = formatSkills(resume.skills);
+      return skills ? [{ kind: 'paragraph', text: skills }] : [];
+    }
+    case 'experience':
+      return resume.experience.flatMap(exp => [
+        ...entry(exp.role, [exp.startDate, exp.endDate].filter(Boolean).join(' - '), exp.company),
+        ...describe(exp.description),
+      ]);
+    case 'projects':
+      return (resume.projects || []).flatMap(proj => [
+        ...entry(proj.name, proj.link, proj.technologies),
+        ...describe(proj.description),
+      ]);
+    case 'education':
+      return resume.education.flatMap(edu => entry(edu.school, edu.year, joinParts(edu.degree, edu.grade)));
+    case 'certifications':
+      return (resume.certifications || []).flatMap(cert =>
+        entry(cert.name, cert.date, joinParts(cert.issuer, cert.credentialId && `Credential ${cert.credentialId}`, cert.link)));
+    case 'awards':
+      return (resume.awards || []).flatMap(award => [...entry(award.title, award.date, award.issuer), ...describe(award.description)]);
+    case 'languages': {
+      const languages = (resume.languages || []).map(lang => lang.proficiency ? `${lang.name} (${lang.proficiency})` : lang.name);
+      return languages.length ? [{ kind: 'paragraph', text: languages.join(' | ') }] : [];
+    }
+    case 'publications':
+      return (resume.publications || []).flatMap(pub => [
+        ...entry(pub.title, pub.date, joinParts(pub.publisher, pub.link)),
+        ...describe(pub.description),
+      ]);
+    case 'volunteering':
+      return (resume.volunteering || []).flatMap(vol => [
+        ...entry(vol.role, [vol.startDate, vol.endDate].filter(Boolean).join(' - '), vol.organization),
+        ...describe(vol.description),
+      ]);
+  }
+};
+
+const toBlocks = (resume: Resume): Block[] => {
+  const blocks: Block[] = [{ kind: 'name', text: resume.fullName || 'Resume' }];
+  if (resume.jobTitle) blocks.push({ kind: 'headline', text: resume.jobTitle });
+  const contact = [resume.email, resume.phone, resume.location, resume.linkedin].filter(Boolean).join(' | ');
+  if (contact) blocks.push({ kind: 'contact', text: contact });
+
+  getSectionOrder(resume).forEach(section => {
+    const content = sectionBlocks(resume, section).filter(block => block.text);
+    if (content.length) blocks.push({ kind: 'heading', text: RESUME_SECTION_LABELS[section] }, ...content);
+  });
+  return blocks;
+};
+
+const stripBold = (text: string) => text.replace(/\*\*(.*?)\*\*/g, '$1');
+
+export const resumeToText = (resume: Resume): string => {
+  const lines: string[] = [];
+  toBlocks(resume).forEach((block, i, blocks) => {
+    const text = stripBold(block.text);
+    switch (block.kind) {
+      case 'name':
+        lines.push(text.toUpperCase());
+        break;
+      case 'heading':
+        lines.push('', text.toUpperCase());
+        break;
+      case 'entry':
+        if (blocks[i - 1]?.kind !== 'heading') lines.push('');
+        lines.push(block.aside ? `${text} | ${block.aside}` : text);
+        break;
+      case 'bullet':
+        lines.push(`- ${text}`);
+        break;
+      default:
+        lines.push(text);
+    }
+  });
+  return lines.join('\n') + '\n';
+};
+
+export const resumeToMarkdown = (resume: Resume): string => {
+  const chunks: string[] = [];
+  toBlocks(resume).forEach((block, i, blocks) => {
+    // Consecutive bullets form one list; everything else is its own paragraph
+    const sameList = block.kind === 'bullet' && blocks[i - 1]?.kind === 'bullet';
+    const text = (() => {
+      switch (block.kind) {
+        case 'name': return `# ${block.text}`;
+        case 'headline': return `**${stripBold(block.text)}**`;
+        case 'heading': return `## ${block.text}`;
+        // Dates go on the details line under the title, or on their own line without one
+        case 'entry': return `### ${block.text}${block.aside && blocks[i + 1]?.kind !== 'meta' ? `\n*${block.aside}*` : ''}`;
+        case 'meta': return `*${joinParts(stripBold(block.text), blocks[i - 1]?.kind === 'entry' ? blocks[i - 1].aside : undefined)}*`;
+        case 'bullet': return `- ${block.text}`;
+        default: return block.text;
+      }
+    })();
+    if (sameList) chunks[chunks.length - 1] += `\n${text}`;
+    else chunks.push(text);
+  });
+  return chunks.join('\n\n') + '\n';
+};
+
+// --- .docx (Office Open XML) ---
+
+const escapeXml = (text: string) => text
+  .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '') // Not allowed in XML at all
+  .replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const run = (text: string, props = '') =>
+  `<w:r>${props ? `<w:rPr>${props}</w:rPr>` : ''}<w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r>`;
+
+// **bold** becomes bold runs
+const runs = (text: string) => text
+  .split(/(\*\*.*?\*\*)/g)
+  .filter(Boolean)
+  .map(part => part.startsWith('**') && part.endsWith('**') && part.length > 4 ? run(part.slice(2, -2), '<w:b/>') : run(part))
+  .join('');
+
+const paragraph = (style: string, content: string, extra = '') =>
+  `<w:p><w:pPr><w:pStyle w:val="${style}"/>${extra}</w:pPr>${content}</w:p>`;
+
+const blockXml = (block: Block): string => {
+  switch (block.kind) {
+    case 'name': return paragraph('Title', runs(stripBold(block.text)));
+    case 'headline': return paragraph('Subtitle', runs(stripBold(block.text)));
+    case 'contact': return paragraph('Contact', runs(block.text));
+    case 'heading': return paragraph('Heading1', runs(block.text));
+    case 'entry': return paragraph('Heading2', runs(block.text) + (block.aside ? `<w:r><w:tab/></w:r>${run(block.aside, '<w:b w:val="0"/>')}` : ''));
+    case 'meta': return paragraph('Meta', runs(block.text));
+    case 'bullet': return paragraph('ListBullet', runs(block.text), '<w:numPr><w:ilvl w:val="0"/><w:numId w:val="1"/></w:numPr>');
+    default: return paragraph('Normal', runs(block.text));
+  }
+};
+
+// A4 with half-inch margins, in twentieths of a point
+const PAGE = { width: 11906, height: 16838, margin: 720 };
+const TEXT_WIDTH = PAGE.width - 2 * PAGE.margin;
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>';
+const W_NS = 'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"';
+
+const CONTENT_TYPES = `${XML_HEADER}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">`
+  + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+  + '<Default Extension="xml" ContentType="application/xml"/>'
+  + '<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>'
+  + '<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>'
+  + '<Override PartName="/word/numbering.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.numbering+xml"/>'
+  + '<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>'
+  + '</Types>';
+
+const PACKAGE_RELS = `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">`
+  + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>'
+  + '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>'
+  + '</Relationships>';
+
+const DOCUMENT_RELS = `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">`
+  + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>'
+  + '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/numbering" Target="numbering.xml"/>'
+  + '</Relationships>';
+
+const style = (id: string, name: string, pPr: string, rPr: string, extra = '') =>
+  `<w:style w:type="paragraph" w:styleId="${id}"><w:name w:val="${name}"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/>${extra}<w:qFormat/><w:pPr>${pPr}</w:pPr><w:rPr>${rPr}</w:rPr></w:style>`;
+
+// Real Word heading styles, so parsers that look for headings find the sections
+const STYLES = `${XML_HEADER}<w:styles ${W_NS}>`
+  + '<w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:eastAsia="Calibri" w:cs="Calibri"/><w:sz w:val="21"/><w:szCs w:val="21"/><w:lang w:val="en-US"/></w:rPr></w:rPrDefault>'
+  + '<w:pPrDefault><w:pPr><w:spacing w:after="60" w:line="259" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults>'
+  + '<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>'
+  + style('Title', 'Title', '<w:spacing w:after="40"/>', '<w:b/><w:caps/><w:sz w:val="36"/><w:szCs w:val="36"/>')
+  + style('Subtitle', 'Subtitle', '<w:spacing w:after="40"/>', '<w:color w:val="555555"/><w:sz w:val="22"/><w:szCs w:val="22"/>')
+  + style('Contact', 'Contact', '<w:spacing w:after="120"/>', '<w:color w:val="444444"/><w:sz w:val="19"/><w:szCs w:val="19"/>')
+  + style('Heading1', 'heading 1', '<w:keepNext/><w:pBdr><w:bottom w:val="single" w:sz="6" w:space="1" w:color="999999"/></w:pBdr><w:spacing w:before="240" w:after="100"/><w:outlineLvl w:val="0"/>', '<w:b/><w:caps/><w:sz w:val="22"/><w:szCs w:val="22"/>')
+  + style('Heading2', 'heading 2', `<w:keepNext/><w:tabs><w:tab w:val="right" w:pos="${TEXT_WIDTH}"/></w:tabs><w:spacing w:before="140" w:after="20"/><w:outlineLvl w:val="1"/>`, '<w:b/><w:sz w:val="21"/><w:szCs w:val="21"/>')
+  + style('Meta', 'Entry Details', '<w:keepNext/><w:spacing w:after="40"/>', '<w:i/><w:color w:val="555555"/>')
+  + style('ListBullet', 'List Bullet', '<w:spacing w:after="20"/><w:ind w:left="360" w:hanging="220"/>', '')
+  + '</w:styles>';
+
+const NUMBERING = `${XML_HEADER}<w:numbering ${W_NS}>`
+  + '<w:abstractNum w:abstractNumId="0"><w:multiLevelType w:val="singleLevel"/><w:lvl w:ilvl="0"><w:start w:val="1"/><w:numFmt w:val="bullet"/><w:lvlText w:val="•"/><w:lvlJc w:val="left"/>'
+  + '<w:pPr><w:ind w:left="360" w:hanging="220"/></w:pPr></w:lvl></w:abstractNum>'
+  + '<w:num w:numId="1"><w:abstractNumId w:val="0"/></w:num>'
+  + '</w:numbering>';
+
+const coreProperties = (resume: Resume) => `${XML_HEADER}<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">`
+  + `<dc:title>${escapeXml(`${resume.fullName || 'Resume'} Resume`)}</dc:title>`
+  + `<dc:creator>${escapeXml(resume.fullName || '')}</dc:creator>`
+  + `<dcterms:created xsi:type="dcterms:W3CDTF">${new Date().toISOString().replace(/\.\d+Z$/, 'Z')}</dcterms:created>`
+  + '</cp:coreProperties>';
+
+/** A Word document with real headings and bullet lists, as the bytes of a .docx file. */
+export const resumeToDocx = (resume: Resume): ArrayBuffer => {
+  const body = toBlocks(resume).map(blockXml).join('');
+  const document = `${XML_HEADER}<w:document ${W_NS}><w:body>${body}`
+    + `<w:sectPr><w:pgSz w:w="${PAGE.width}" w:h="${PAGE.height}"/><w:pgMar w:top="${PAGE.margin}" w:right="${PAGE.margin}" w:bottom="${PAGE.margin}" w:left="${PAGE.margin}" w:header="0" w:footer="0" w:gutter="0"/></w:sectPr>`
+    + '</w:body></w:document>';
+
+  return createZip([
+    { name: '[Content_Types].xml', content: CONTENT_TYPES },
+    { name: '_rels/.rels', content: PACKAGE_RELS },
+    { name: 'docProps/core.xml', content: coreProperties(resume) },
+    { name: 'word/document.xml', content: document },
+    { name: 'word/_rels/document.xml.rels', content: DOCUMENT_RELS },
+    { name: 'word/styles.xml', content: STYLES },
+    { name: 'word/numbering.xml', content: NUMBERING },
+  ]);
+};
@@ -0,0 +1,81 @@
+import { Resume, ResumeFont, ResumeSectionId, ResumeSpacing, ResumeTemplateId, ResumeTemplateOptions } from "../types";
+
+export interface ResumeTemplate {
+  id: ResumeTemplateId;
+  name: string;
+  description: string;
+  defaults: ResumeTemplateOptions;
+  /** Pages it is meant to fit; the preview warns past this. */
+  maxPages: number;
+}
+
+export const RESUME_TEMPLATES: Record<ResumeTemplateId, ResumeTemplate> = {
+  classic: {
+    id: 'classic',
+    name: 'Classic',
+    description: 'Single column, plain headings. Reads cleanly in applicant tracking systems.',
+    defaults: { font: 'sans', spacing: 'normal', accent: '#1e293b' },
+    maxPages: 2,
+  },
+  modern: {
+    id: 'modern',
+    name: 'Modern',
+    description: 'Two columns with a tinted sidebar for contact details, skills and education.',
+    defaults: { font: 'sans', spacing: 'normal', accent: '#4f46e5' },
+    maxPages: 2,
+  },
+  compact: {
+    id: 'compact',
+    name: 'Compact',
+    description: 'Smaller type and tight spacing to fit everything on one page.',
+    defaults: { font: 'arial', spacing: 'tight', accent: '#1e293b' },
+    maxPages: 1,
+  },
+};
+
+export const RESUME_FONTS: Record<ResumeFont, { label: string; family: string }> = {
+  sans: { label: 'Inter', family: "'Inter', ui-sans-serif, system-ui, sans-serif" },
+  serif: { label: 'Georgia', family: "Georgia, 'Times New Roman', serif" },
+  arial: { label: 'Arial', family: "Arial, Helvetica, sans-serif" },
+};
+
+export const RESUME_SPACING_LABELS: Record<ResumeSpacing, string> = {
+  tight: 'Tight',
+  normal: 'Normal',
+  relaxed: 'Relaxed',
+};
+
+// Dark enough to print well and to keep white text readable on them
+export const RESUME_ACCENTS = ['#1e293b', '#4f46e5', '#0f766e', '#be123c', '#b45309', '#0369a1'];
+
+/** Shown in the modern template's sidebar; everything else goes in the main column. */
+export const SIDEBAR_SECTIONS: ResumeSectionId[] = ['skills', 'education', 'certifications', 'languages', 'awards'];
+
+// A4 is 210 x 297 mm, and the PDF export scales the page to that width
+export const A4_HEIGHT_RATIO = 297 / 210;
+
+export interface ResolvedLayout extends ResumeTemplateOptions {
+  template: ResumeTemplate;
+}
+
+/** The resume's template with its saved options filled in from the template's defaults. */
+export const getResumeLayout = (resume: Resume): ResolvedLayout => {
+  const template = RESUME_TEMPLATES[resume.layout?.template as ResumeTemplateId] || RESUME_TEMPLATES.classic;
+  return {
+    ...template.defaults,
+    ...resume.layout?.options?.[template.id],
+    template,
+  };
+};
+
+/** `resume` switched to `templateId`, with `options` saved for that template only. */
+export const withResumeLayout = (resume: Resume, templateId: ResumeTemplateId, options?: Partial<ResumeTemplateOptions>): Resume => {
+  const saved = resume.layout?.options || {};
+  return {
+    ...resume,
+    layout: {
+      template: templateId,
+      options: options ? { ...saved, [templateId]: { ...saved[templateId], ...options } } : saved,
+    },
+  };
+};
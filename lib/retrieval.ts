@@ -0,0 +1,171 @@
+import { Job, ResearchReport, InterviewPrepReport } from "../types";
+
+export type SourceKind = 'notes' | 'description' | 'interview' | 'contact' | 'research' | 'prep';
+
+export const SOURCE_KIND_LABELS: Record<SourceKind, string> = {
+  notes: 'Notes',
+  description: 'Job description',
+  interview: 'Interview log',
+  contact: 'Contact history',
+  research: 'Research report',
+  prep: 'Prep report',
+};
+
+/** A passage of the user's own material that can be searched and cited. */
+export interface Chunk {
+  id: string; // Stable for the same source and position, so cached embeddings can be reused
+  kind: SourceKind;
+  title: string; // e.g. "Senior AI Engineer at Google"
+  jobId?: string;
+  reportId?: string;
+  text: string;
+}
+
+export interface RetrievedChunk extends Chunk {
+  score: number;
+}
+
+const CHUNK_SIZE = 800; // Characters
+const CHUNK_OVERLAP = 120;
+
+/**
+ * Splits text into passages of about CHUNK_SIZE characters, breaking at paragraph or sentence
+ * ends where possible and overlapping a little so a fact on a boundary survives in one piece.
+ */
+export const chunkText = (text: string): string[] => {
+  const clean = text.replace(/\r/g, '').replace(/\n{3,}/g, '\n\n').trim();
+  if (clean.length <= CHUNK_SIZE) return clean ? [clean] : [];
+
+  const chunks: string[] = [];
+  let start = 0;
+  while (start < clean.length) {
+    let end = Math.min(clean.length, start + CHUNK_SIZE);
+    if (end < clean.length) {
+      const window = clean.slice(start, end);
+      const breakAt = Math.max(window.lastIndexOf('\n'), window.lastIndexOf('. '));
+      if (breakAt > CHUNK_SIZE / 2) end = start + breakAt + 1;
+    }
+    chunks.push(clean.slice(start, end).trim());
+    if (end >= clean.length) break;
+    start = end - CHUNK_OVERLAP;
+  }
+  return chunks.filter(Boolean);
+};
+
+// Reports are stored as JSON; indexing wants readable "key: value" lines
+const flattenJson = (value: unknown, path = ''): string[] => {
+  if (value === null || value === undefined || value === '') return [];
+  if (Array.isArray(value)) return value.flatMap(item => flattenJson(item, path));
+  if (typeof value === 'object') {
+    return Object.entries(value as Record<string, unknown>).flatMap(([key, v]) =>
+      flattenJson(v, key.replace(/([a-z])([A-Z])/g, '$1 $2').toLowerCase())
+    );
+  }
+  return [path ? `${path}: ${value}` : String(value)];
+};
+
+const reportText = (content: string) => {
+  try {
+    return flattenJson(JSON.parse(content)).join('\n');
+  } catch (e) {
+    return content;
+  }
+};
+
+const toChunks = (base: Omit<Chunk, 'id' | 'text'>, key: string, text: string | undefined): Chunk[] =>
+  chunkText(text || '').map((piece, i) => ({ ...base, id: `${key}#${i}`, text: piece }));
+
+/** Every passage of notes, JDs, interview logs, contact history and saved reports. */
+export const collectChunks = (jobs: Job[], research: ResearchReport[], prep: InterviewPrepReport[]): Chunk[] => {
+  const chunks: Chunk[] = [];
+
+  jobs.forEach(job => {
+    const base = { title: `${job.role} at ${job.company}`, jobId: job.id };
+    chunks.push(...toChunks({ ...base, kind: 'notes' }, `job:${job.id}:notes`, job.notes));
+    chunks.push(...toChunks({ ...base, kind: 'description' }, `job:${job.id}:jd`, job.description));
+    job.interviewLogs?.forEach(log => {
+      chunks.push(...toChunks({ ...base, kind: 'interview' }, `job:${job.id}:log:${log.id}`, `${log.date.split('T')[0]}: ${log.note}`));
+    });
+    job.interviewRounds?.filter(r => r.feedback).forEach(round => {
+      chunks.push(...toChunks(
+        { ...base, kind: 'interview', title: `${round.name} · ${base.title}` },
+        `job:${job.id}:round:${round.id}`,
+        `${round.name} (${round.format}, ${round.date.split('T')[0]}, ${round.outcome}): ${round.feedback}`
+      ));
+    });
+    job.contacts?.forEach(contact => {
+      const history = (contact.history || []).map(h => `${h.date} ${h.type}: ${h.notes}`).join('\n');
+      chunks.push(...toChunks(
+        { ...base, kind: 'contact', title: `${contact.name} · ${base.title}` },
+        `job:${job.id}:contact:${contact.id}`,
+        history && `${contact.name} (${contact.role})\n${history}`
+      ));
+    });
+  });
+
+  research.forEach(report => {
+    chunks.push(...toChunks(
+      { kind: 'research', title: `Research: ${report.role} at ${report.company}`, reportId: report.id },
+      `research:${report.id}`, reportText(report.content)
+    ));
+  });
+  prep.forEach(report => {
+    chunks.push(...toChunks(
+      { kind: 'prep', title: `Interview prep: ${report.role} at ${report.company}`, reportId: report.id },
+      `prep:${report.id}`, reportText(report.content)
+    ));
+  });
+
+  return chunks;
+};
+
+// --- Lexical ranking (BM25), used when no embedding model is available ---
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'you', 'with', 'what', 'how', 'can', 'about', 'this', 'that', 'are', 'was', 'were',
+  'have', 'has', 'had', 'my', 'me', 'is', 'it', 'to', 'of', 'in', 'on', 'do', 'did', 'a', 'an', 'at', 'i',
+  'be', 'or', 'as', 'by', 'from', 'your', 'we', 'they', 'their', 'there', 'which', 'when', 'who', 'will',
+]);
+
+export const tokenize = (text: string) =>
+  (text.toLowerCase().match(/[a-z0-9+#]+/g) || []).filter(t => t.length > 1 && !STOP_WORDS.has(t));
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+export const rankBm25 = (query: string, chunks: Chunk[]): RetrievedChunk[] => {
+  const queryTerms = Array.from(new Set(tokenize(query)));
+  if (queryTerms.length === 0 || chunks.length === 0) return [];
+
+  const docs = chunks.map(chunk => tokenize(`${chunk.title} ${chunk.text}`));
+  const avgLength = docs.reduce((sum, d) => sum + d.length, 0) / docs.length || 1;
+  const docFreq = new Map<string, number>();
+  docs.forEach(doc => new Set(doc).forEach(term => docFreq.set(term, (docFreq.get(term) || 0) + 1)));
+
+  return chunks
+    .map((chunk, i) => {
+      const doc = docs[i];
+      const score = queryTerms.reduce((sum, term) => {
+        const tf = doc.filter(t => t === term).length;
+        if (tf === 0) return sum;
+        const df = docFreq.get(term) || 0;
+        const idf = Math.log(1 + (chunks.length - df + 0.5) / (df + 0.5));
+        return sum + idf * (tf * (BM25_K1 + 1)) / (tf + BM25_K1 * (1 - BM25_B + BM25_B * doc.length / avgLength));
+      }, 0);
+      return { ...chunk, score };
+    })
+    .filter(c => c.score > 0)
+    .sort((a, b) => b.score - a.score);
+};
+
+// --- Vector ranking ---
+
+export const cosineSimilarity = (a: number[], b: number[]) => {
+  let dot = 0, normA = 0, normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+};
@@ -0,0 +1,78 @@
+import { Job, JobStatus, StatusChange, PipelineStage } from "../types";
+import { getStage } from "./pipeline";
+
+const DAY_MS = 86400000;
+
+// null for a missing or unparseable date, which toISOString() would throw on
+const toIsoString = (value?: string): string | null => {
+  if (!value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+};
+
+export interface StageStint {
+  status: JobStatus;
+  start: string; // ISO string
+  end: string | null; // null while the job is still in this stage
+  days: number;
+}
+
+/** Records a transition if the status actually changed; returns the history unchanged otherwise. */
+export const appendStatusChange = (job: Job, nextStatus: JobStatus, date = new Date().toISOString()): StatusChange[] => {
+  const history = job.statusHistory || [];
+  if (job.status === nextStatus) return history;
+  return [...history, { from: job.status, to: nextStatus, date }];
+};
+
+/** Initial entry for a brand-new job, so its first stage has a start date. */
+export const initialStatusHistory = (status: JobStatus, dateApplied?: string): StatusChange[] => [
+  { from: null, to: status, date: toIsoString(dateApplied) || new Date().toISOString() }
+];
+
+/**
+ * Splits a job's life into consecutive stints per status.
+ * Jobs created before history existed fall back to dateApplied as the start of their first stage.
+ */
+export const getStageStints = (job: Job, now = Date.now()): StageStint[] => {
+  const history = [...(job.statusHistory || [])].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+  const appliedAt = toIsoString(job.dateApplied);
+
+  const starts: { status: JobStatus; start: string }[] = [];
+  if (history.length === 0 || history[0].from !== null) {
+    const firstStatus = history.length > 0 ? (history[0].from as JobStatus) : job.status;
+    if (appliedAt) starts.push({ status: firstStatus, start: appliedAt });
+  }
+  history.forEach(change => starts.push({ status: change.to, start: change.date }));
+
+  return starts.map((stint, i) => {
+    const end = i < starts.length - 1 ? starts[i + 1].start : null;
+    const endMs = end ? new Date(end).getTime() : now;
+    return {
+      ...stint,
+      end,
+      days: Math.max(0, (endMs - new Date(stint.start).getTime()) / DAY_MS)
+    };
+  });
+};
+
+/**
+ * Average days a job spends in each stage across all jobs. Stages with no data are omitted.
+ * Time sitting in a closed stage is not "waiting", so ongoing closed stints are left out.
+ */
+export const getAverageDaysInStage = (jobs: Job[], stages: PipelineStage[], now = Date.now()): { status: JobStatus; days: number; count: number }[] => {
+  const totals = new Map<JobStatus, { days: number; count: number }>();
+
+  jobs.forEach(job => {
+    getStageStints(job, now).forEach(stint => {
+      if (stint.end === null && getStage(stages, stint.status).category === 'closed') return;
+      const entry = totals.get(stint.status) || { days: 0, count: 0 };
+      totals.set(stint.status, { days: entry.days + stint.days, count: entry.count + 1 });
+    });
+  });
+
+  return Array.from(totals.entries()).map(([status, { days, count }]) => ({
+    status,
+    days: days / count,
+    count
+  }));
+};
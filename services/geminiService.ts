@@ -1,29 +1,9 @@
 
-import { GoogleGenAI, Type, Schema } from "@google/genai";
 import { Resume, ChatMessage } from "../types";
-
-// Access process.env.API_KEY directly
-const getApiKey = () => {
-  return process.env.API_KEY || process.env.GEMINI_API_KEY || '';
-};
-
-// --- DATA SANITIZATION HELPERS (Prevents React Error #31) ---
-
-const ensureString = (val: any): string => {
-  if (val === null || val === undefined) return "";
-  if (typeof val === 'string') return val;
-  if (typeof val === 'number') return String(val);
-  if (Array.isArray(val)) return val.map(item => ensureString(item)).join(' ');
-  if (typeof val === 'object') {
-    return val.text || val.value || val.description || JSON.stringify(val);
-  }
-  return String(val);
-};
-
-const ensureStringArray = (arr: any): string[] => {
-  if (!Array.isArray(arr)) return [];
-  return arr.map(item => ensureString(item));
-};
+import { getLlmClient, LlmClient, LlmSchema, LlmError, toLlmError, missingProviderError, generateStructured, describeSchema, checkSchema } from "./llm";
+import { outlineTurns } from "../lib/chaturContext";
+import { cachedCall, CACHE_TTL, CacheOptions } from "./responseCache";
+import { createRedactor, withRedaction, getRedactionSettings } from "./redaction";
 
 // Helper to extract clean base64 and mimeType
 const parseDataUrl = (dataUrl: string) => {
@@ -63,6 +43,19 @@ const traverseAndClean = (obj: any): any => {
   return obj;
 };
 
+// The photo and page layout mean nothing to the model and only cost tokens
+const resumeForPrompt = (resume: Resume) => JSON.stringify({ ...resume, avatarImage: undefined, sectionOrder: undefined, layout: undefined });
+
+// An empty answer is a failure too, not something to show the user
+const requireText = (text: string) => {
+  if (!text.trim()) throw new LlmError('malformed', "The AI returned an empty answer. Please try again.");
+  return text;
+};
+
+// Keeps the classification but swaps in a message that fits this feature
+const withMessage = (error: LlmError, kind: LlmError['kind'], message: string) =>
+  error.kind === kind ? new LlmError(kind, message, { status: error.status, cause: error }) : error;
+
 const normalizeResumeJSON = (data: any): any => {
   const normalizeDescription = (desc: any) => {
     if (Array.isArray(desc)) {
@@ -81,6 +74,11 @@ const normalizeResumeJSON = (data: any): any => {
        if (proj.description) proj.description = normalizeDescription(proj.description);
     });
   }
+  if (data.volunteering && Array.isArray(data.volunteering)) {
+    data.volunteering.forEach((vol: any) => {
+       if (vol.description) vol.description = normalizeDescription(vol.description);
+    });
+  }
   return data;
 };
 
@@ -92,10 +90,24 @@ export interface ResumeScore {
   recommendations: string[];
 }
 
-export const scoreResume = async (resume: Resume, jobDescription: string): Promise<ResumeScore> => {
-  const apiKey = getApiKey();
+const stringList: LlmSchema = { type: 'array', items: { type: 'string' } };
+
+export const RESUME_SCORE_SCHEMA: LlmSchema = {
+  type: 'object',
+  properties: {
+    score: { type: 'number', minimum: 0, maximum: 100 },
+    summary: { type: 'string' },
+    strengths: stringList,
+    gaps: stringList,
+    recommendations: stringList,
+  },
+  required: ["score", "summary", "strengths", "gaps", "recommendations"],
+};
+
+export const scoreResume = async (resume: Resume, jobDescription: string, options?: CacheOptions): Promise<ResumeScore> => {
+  const llm = getLlmClient('scoreResume');
   
-  if (!apiKey) {
+  if (!llm) {
       return {
           score: 75,
           summary: "Your resume is a good match for this role, but could be improved by highlighting more specific technical achievements.",
@@ -105,89 +117,65 @@ export const scoreResume = async (resume: Resume, jobDescription: string): Promi
       };
   }
 
-  const ai = new GoogleGenAI({ apiKey });
+  const redactor = createRedactor(resume);
+  const prompt = `Act as a strict Technical Recruiter. Score the Resume against the JD. Credit relevant certifications, awards, languages, publications and volunteering, and list any the JD requires but the resume lacks as gaps.\nJD: "${truncateString(jobDescription, 2000)}"\nResume: ${resumeForPrompt(redactor.resume)}`;
 
   try {
-    const prompt = `Act as a strict Technical Recruiter. Score the Resume against the JD.\nJD: "${truncateString(jobDescription, 2000)}"\nResume: ${JSON.stringify(resume)}`;
-    const schema: Schema = {
-      type: Type.OBJECT,
-      properties: {
-        score: { type: Type.NUMBER },
-        summary: { type: Type.STRING },
-        strengths: { type: Type.ARRAY, items: { type: Type.STRING } },
-        gaps: { type: Type.ARRAY, items: { type: Type.STRING } },
-        recommendations: { type: Type.ARRAY, items: { type: Type.STRING } },
-      },
-      required: ["score", "summary", "strengths", "gaps", "recommendations"],
-    };
-
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: [{ parts: [{ text: prompt }] }],
-      config: { responseMimeType: 'application/json', responseSchema: schema }
-    });
-
-    const parsed = JSON.parse(response.text || "{}");
-    return {
-      score: typeof parsed.score === 'number' ? parsed.score : 0,
-      summary: ensureString(parsed.summary),
-      strengths: ensureStringArray(parsed.strengths),
-      gaps: ensureStringArray(parsed.gaps),
-      recommendations: ensureStringArray(parsed.recommendations),
-    };
+    // Cached with its placeholders, so a saved answer never carries another profile's details
+    const score = await cachedCall('scoreResume', llm, prompt, CACHE_TTL.score, async () => {
+      const { value } = await generateStructured<ResumeScore>(withRedaction(llm, redactor, false), { prompt, schema: RESUME_SCORE_SCHEMA });
+      return value;
+    }, options);
+    return redactor.restore(score);
   } catch (error) {
     console.error("Score Error:", error);
-    throw error;
+    throw toLlmError(error);
   }
 };
 
 export const generateCoverLetter = async (jobRole: string, company: string, userSkills: string, jobDescription?: string): Promise<string> => {
-  const apiKey = getApiKey();
-  if (!apiKey) return "Error: API Key is missing.";
-  const ai = new GoogleGenAI({ apiKey });
+  const llm = getLlmClient('generateCoverLetter');
+  if (!llm) throw missingProviderError();
   try {
     const prompt = `Write a professional cover letter for ${jobRole} at ${company}. My skills: ${userSkills}. ${jobDescription ? `JD: ${truncateString(jobDescription, 1500)}` : ''}`;
-    const response = await ai.models.generateContent({ model: 'gemini-2.5-flash', contents: prompt });
-    return cleanAIResponse(response.text || "Failed to generate.");
+    return cleanAIResponse(requireText(await llm.generateText({ prompt })));
   } catch (error) {
-    return "An error occurred.";
+    console.error("Cover Letter Error:", error);
+    throw toLlmError(error);
   }
 };
 
 export const generateInterviewGuide = async (jobRole: string, company: string, description: string): Promise<string> => {
-  const apiKey = getApiKey();
-  if (!apiKey) {
+  const llm = getLlmClient('generateInterviewGuide');
+  if (!llm) {
       return `**Interview Guide for ${jobRole} at ${company}**\n\n**1. Role Overview**\nThis role focuses on ${jobRole} responsibilities. Key skills required: [Extracted from JD].\n\n**2. Key Technical Topics**\n- Topic A\n- Topic B\n\n**3. Behavioral Prep**\nPrepare stories for: "Tell me about a time you handled a difficult stakeholder."`;
   }
-  const ai = new GoogleGenAI({ apiKey });
   try {
     const prompt = `Create a strategic interview prep guide for ${jobRole} at ${company}.\nJD: "${truncateString(description, 2000)}"`;
-    const response = await ai.models.generateContent({ model: 'gemini-2.5-flash', contents: prompt });
-    return response.text || "Failed to generate.";
+    return requireText(await llm.generateText({ prompt }));
   } catch (error) {
-    return "An error occurred.";
+    console.error("Interview Guide Error:", error);
+    throw toLlmError(error);
   }
 };
 
 export const generateNegotiationStrategy = async (jobRole: string, company: string, salary: string, description: string): Promise<string> => {
-  const apiKey = getApiKey();
-  if (!apiKey) {
+  const llm = getLlmClient('generateNegotiationStrategy');
+  if (!llm) {
       return `**Negotiation Strategy for ${jobRole} at ${company}**\n\n**1. Market Value Analysis**\nBased on your role and location, the market range is typically 10-20% higher than the initial offer of ${salary}. \n\n**2. Leverage Points**\n- Highlight your specific experience with the tech stack mentioned in the JD.\n- Mention any competing offers if you have them.\n\n**3. Script**\n"I'm very excited about the opportunity to join ${company}. However, based on my research and experience, I was expecting a base salary closer to [Target Amount]. Is there flexibility in the budget?"`;
   }
-  const ai = new GoogleGenAI({ apiKey });
   try {
     const prompt = `Create a salary negotiation strategy for ${jobRole} at ${company}. Offer: ${salary}.\nJD: "${truncateString(description, 1000)}"`;
-    const response = await ai.models.generateContent({ model: 'gemini-2.5-flash', contents: prompt });
-    return response.text || "Failed to generate.";
+    return requireText(await llm.generateText({ prompt }));
   } catch (error) {
-    return "An error occurred.";
+    console.error("Negotiation Strategy Error:", error);
+    throw toLlmError(error);
   }
 };
 
 export const enhanceResumeText = async (text: string, type: 'summary' | 'experience' | 'project', context?: any): Promise<string> => {
-  const apiKey = getApiKey();
-  if (!apiKey) return "";
-  const ai = new GoogleGenAI({ apiKey });
+  const llm = getLlmClient('enhanceResumeText');
+  if (!llm) throw missingProviderError();
   
   try {
     let prompt = "";
@@ -225,229 +213,298 @@ export const enhanceResumeText = async (text: string, type: 'summary' | 'experie
         return "";
     }
 
-    const response = await ai.models.generateContent({ model: 'gemini-2.5-flash', contents: prompt });
-    return cleanAIResponse(response.text || text);
+    const enhanced = await llm.generateText({ prompt });
+    return cleanAIResponse(enhanced || text);
   } catch (error) {
     console.error("Enhance Error:", error);
-    return text;
+    throw toLlmError(error);
   }
 };
 
+const experienceSchema: LlmSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    role: { type: 'string' },
+    company: { type: 'string' },
+    startDate: { type: 'string' },
+    endDate: { type: 'string' },
+    description: { type: 'string', description: "Bullet points, one per line" },
+  },
+  required: ["role", "company"],
+};
+
+const projectSchema: LlmSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    name: { type: 'string' },
+    technologies: { type: 'string' },
+    link: { type: 'string' },
+    description: { type: 'string', description: "Bullet points, one per line" },
+  },
+  required: ["name"],
+};
+
+const educationSchema: LlmSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    degree: { type: 'string' },
+    school: { type: 'string' },
+    year: { type: 'string' },
+    grade: { type: 'string' },
+  },
+  required: ["school"],
+};
+
+const certificationSchema: LlmSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    name: { type: 'string' },
+    issuer: { type: 'string' },
+    date: { type: 'string' },
+    credentialId: { type: 'string' },
+    link: { type: 'string' },
+  },
+  required: ["name"],
+};
+
+const awardSchema: LlmSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    title: { type: 'string' },
+    issuer: { type: 'string' },
+    date: { type: 'string' },
+    description: { type: 'string' },
+  },
+  required: ["title"],
+};
+
+const languageSchema: LlmSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    name: { type: 'string' },
+    proficiency: { type: 'string', description: "e.g. Native, Fluent, Professional working, Elementary" },
+  },
+  required: ["name"],
+};
+
+const publicationSchema: LlmSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    title: { type: 'string' },
+    publisher: { type: 'string', description: "Journal, conference or site" },
+    date: { type: 'string' },
+    link: { type: 'string' },
+    description: { type: 'string' },
+  },
+  required: ["title"],
+};
+
+const volunteeringSchema: LlmSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    role: { type: 'string' },
+    organization: { type: 'string' },
+    startDate: { type: 'string' },
+    endDate: { type: 'string' },
+    description: { type: 'string', description: "Bullet points, one per line" },
+  },
+  required: ["role", "organization"],
+};
+
+// Optional everywhere, since most resumes have none of these
+const extraSectionProperties: Record<string, LlmSchema> = {
+  certifications: { type: 'array', items: certificationSchema },
+  awards: { type: 'array', items: awardSchema },
+  languages: { type: 'array', items: languageSchema },
+  publications: { type: 'array', items: publicationSchema },
+  volunteering: { type: 'array', items: volunteeringSchema },
+};
+
+type ResumeContent = Pick<Resume,
+  | 'jobTitle' | 'summary' | 'skills' | 'experience' | 'projects' | 'education'
+  | 'certifications' | 'awards' | 'languages' | 'publications' | 'volunteering'>;
+
+/** The parts of a resume the AI may rewrite when enhancing or tailoring it. */
+export const RESUME_CONTENT_SCHEMA: LlmSchema = {
+  type: 'object',
+  properties: {
+    jobTitle: { type: 'string' },
+    summary: { type: 'string' },
+    skills: { type: 'string', description: "Pipe-separated, e.g. React | TypeScript" },
+    experience: { type: 'array', items: experienceSchema },
+    projects: { type: 'array', items: projectSchema },
+    education: { type: 'array', items: educationSchema },
+    ...extraSectionProperties,
+  },
+  required: ["summary", "skills", "experience", "projects", "education"],
+};
+
+type ImportedResume = Omit<Resume, 'skills' | 'avatarImage' | 'sectionOrder' | 'version'> & { skills: string[] };
+
+export const RESUME_IMPORT_SCHEMA: LlmSchema = {
+  type: 'object',
+  properties: {
+    fullName: { type: 'string' },
+    email: { type: 'string' },
+    phone: { type: 'string' },
+    linkedin: { type: 'string' },
+    location: { type: 'string' },
+    jobTitle: { type: 'string' },
+    summary: { type: 'string' },
+    skills: stringList,
+    experience: { type: 'array', items: experienceSchema },
+    projects: { type: 'array', items: projectSchema },
+    education: { type: 'array', items: educationSchema },
+    ...extraSectionProperties,
+  },
+  required: ["fullName"],
+};
+
+// Contact details aren't part of the schema, so a rewrite can't change or drop them
+const rewriteResume = async (llm: LlmClient, currentResume: Resume, prompt: string): Promise<Resume> => {
+  const { value } = await generateStructured<ResumeContent>(llm, {
+    prompt,
+    schema: RESUME_CONTENT_SCHEMA,
+    prepare: normalizeResumeJSON,
+  });
+  // Missing lists come back empty; an extra section the model left out is kept as it was
+  const rewritten = traverseAndClean(value);
+  Object.keys(extraSectionProperties).forEach(key => {
+    if (!rewritten[key]?.length) delete rewritten[key];
+  });
+  return { ...currentResume, ...rewritten };
+};
+
 export const enhanceFullResume = async (currentResume: Resume): Promise<Resume> => {
-  const apiKey = getApiKey();
-  if (!apiKey) throw new Error("API Key is missing.");
-  const ai = new GoogleGenAI({ apiKey });
+  const llm = getLlmClient('enhanceFullResume');
+  if (!llm) throw missingProviderError();
   try {
-    const cleanInput = JSON.stringify({ ...currentResume, avatarImage: undefined });
-    const prompt = `Rewrite the resume content to be professional and impactful. Return ONLY JSON.\n${cleanInput}`;
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: [{ parts: [{ text: prompt }] }],
-      config: { responseMimeType: 'application/json' }
-    });
-    const parsed = JSON.parse(response.text || "{}");
-    const cleaned = traverseAndClean(parsed);
-    return normalizeResumeJSON(cleaned);
+    const redactor = createRedactor(currentResume);
+    const cleanInput = resumeForPrompt(redactor.resume);
+    const prompt = `Rewrite the resume content to be professional and impactful. Keep every entry and its id, in every section. Return ONLY JSON.\n${cleanInput}`;
+    return await rewriteResume(withRedaction(llm, redactor), currentResume, prompt);
   } catch (error) {
-    throw new Error("The resume is too long for the AI to process in one go.");
+    console.error("Enhance Resume Error:", error);
+    throw toLlmError(error);
   }
 };
 
 export const tailorResume = async (currentResume: Resume, jobDescription: string): Promise<Resume> => {
-  const apiKey = getApiKey();
-  if (!apiKey) throw new Error("API Key is missing.");
-  const ai = new GoogleGenAI({ apiKey });
+  const llm = getLlmClient('tailorResume');
+  if (!llm) throw missingProviderError();
   try {
-    const prompt = `Tailor this resume to the JD below. Return ONLY JSON.\nResume: ${JSON.stringify({ ...currentResume, avatarImage: undefined })}\nJD: ${truncateString(jobDescription, 3000)}`;
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: [{ parts: [{ text: prompt }] }],
-      config: { responseMimeType: 'application/json' }
-    });
-    const parsed = JSON.parse(response.text || "{}");
-    const cleaned = traverseAndClean(parsed);
-    return normalizeResumeJSON(cleaned);
+    const redactor = createRedactor(currentResume);
+    const prompt = `Tailor this resume to the JD below. Keep the ids of the entries you keep. Bring out the certifications, awards, publications, languages and volunteering that matter for this JD, but never invent any. Return ONLY JSON.\nResume: ${resumeForPrompt(redactor.resume)}\nJD: ${truncateString(jobDescription, 3000)}`;
+    return await rewriteResume(withRedaction(llm, redactor), currentResume, prompt);
   } catch (error) {
-    throw new Error("The tailored resume was too large to process.");
+    console.error("Tailor Resume Error:", error);
+    throw toLlmError(error);
   }
 };
 
 export const generateAvatar = async (imageBase64: string, stylePrompt: string): Promise<string> => {
-  const apiKey = getApiKey();
-  if (!apiKey) throw new Error("API Key is missing.");
+  const llm = getLlmClient('generateAvatar');
+  if (!llm) throw missingProviderError();
+  if (!llm.supportsImages) throw new LlmError('unknown', "Avatar generation needs an AI provider that can create images, such as Gemini.");
   
   const { mimeType, data } = parseDataUrl(imageBase64);
   const prompt = `Transform this portrait into a high-quality professional corporate headshot. Style: ${stylePrompt}.`;
-  
-  // Try models in order of preference to handle quota limits
-  const models = ['gemini-3-pro-image-preview', 'gemini-2.5-flash-image'];
-  
-  let lastError: any;
-
-  for (const model of models) {
-    try {
-        const ai = new GoogleGenAI({ apiKey });
-        
-        // Configure specific to model if needed
-        const config: any = {
-            imageConfig: {
-                aspectRatio: "1:1"
-            }
-        };
-        // gemini-3-pro-image-preview supports imageSize, others might not
-        if (model === 'gemini-3-pro-image-preview') {
-            config.imageConfig.imageSize = "1K";
-        }
 
-        const response = await ai.models.generateContent({
-            model: model,
-            contents: { parts: [{ inlineData: { data: data, mimeType: mimeType } }, { text: prompt }] },
-            config: config
-        });
-        
-        if (response.candidates?.[0]?.content?.parts) {
-            for (const part of response.candidates[0].content.parts) {
-                if (part.inlineData && part.inlineData.data) {
-                    return `data:image/png;base64,${part.inlineData.data}`;
-                }
-            }
-        }
-    } catch (error: any) {
-        console.warn(`Avatar generation failed with model ${model}:`, error.message);
-        lastError = error;
-        // Loop continues to next model
+  try {
+    return await llm.generateImage({ prompt, image: { data, mimeType } });
+  } catch (lastError) {
+    console.error("All avatar models failed:", lastError);
+    const error = toLlmError(lastError);
+    if (error.kind === 'quota') {
+      throw withMessage(error, 'quota', "Daily image generation quota exceeded. Please check your plan or try again tomorrow.");
     }
+    throw withMessage(error, 'network', "Network error: The image might be too large. Please try a smaller file.");
   }
-
-  // If all failed
-  console.error("All avatar models failed:", lastError);
-  let userMessage = "Failed to generate avatar. Please try again later.";
-  
-  if (lastError?.status === 429 || lastError?.message?.includes('429') || lastError?.message?.includes('Quota') || lastError?.message?.includes('RESOURCE_EXHAUSTED')) {
-      userMessage = "Daily image generation quota exceeded. Please check your plan or try again tomorrow.";
-  } else if (lastError?.message?.includes('disconnected port') || lastError?.message?.includes('network')) {
-      userMessage = "Network error: The image might be too large. Please try a smaller file.";
-  }
-  
-  throw new Error(userMessage);
 };
 
 export const parseResumeFromDocument = async (fileBase64: string): Promise<Partial<Resume>> => {
-  const apiKey = getApiKey();
-  if (!apiKey) throw new Error("API Key is missing.");
-  const ai = new GoogleGenAI({ apiKey });
-
-  // Explicit schema for robust extraction
-  const schema: Schema = {
-    type: Type.OBJECT,
-    properties: {
-      fullName: { type: Type.STRING },
-      email: { type: Type.STRING },
-      phone: { type: Type.STRING },
-      linkedin: { type: Type.STRING },
-      location: { type: Type.STRING },
-      jobTitle: { type: Type.STRING },
-      summary: { type: Type.STRING },
-      skills: { type: Type.ARRAY, items: { type: Type.STRING } }, // Extract as array initially
-      experience: {
-        type: Type.ARRAY,
-        items: {
-          type: Type.OBJECT,
-          properties: {
-            role: { type: Type.STRING },
-            company: { type: Type.STRING },
-            startDate: { type: Type.STRING },
-            endDate: { type: Type.STRING },
-            description: { type: Type.STRING } // Markdown bullet points
-          }
-        }
-      },
-      projects: {
-        type: Type.ARRAY,
-        items: {
-          type: Type.OBJECT,
-          properties: {
-            name: { type: Type.STRING },
-            technologies: { type: Type.STRING },
-            link: { type: Type.STRING },
-            description: { type: Type.STRING }
-          }
-        }
-      },
-      education: {
-        type: Type.ARRAY,
-        items: {
-          type: Type.OBJECT,
-          properties: {
-            degree: { type: Type.STRING },
-            school: { type: Type.STRING },
-            year: { type: Type.STRING },
-            grade: { type: Type.STRING }
-          }
-        }
-      }
-    }
-  };
+  const llm = getLlmClient('parseResumeFromDocument');
+  if (!llm) throw missingProviderError();
+  // The file is sent as is, so there is no way to hold back the contact details in it
+  if (getRedactionSettings().privacyMode) {
+    throw new LlmError('unknown', "Resume import sends the whole document, contact details included, so it is off in privacy mode. Turn privacy mode off under Settings → Data & Privacy to import.");
+  }
 
   try {
     const { mimeType, data } = parseDataUrl(fileBase64);
     const prompt = `Extract data from this resume. 
     - For 'skills', list them as an array.
+    - Put certifications, awards, languages (with proficiency), publications and volunteering in their own sections, not in 'skills'.
     - For 'description' fields in experience and projects, maintain bullet points if present.
     - Infer 'jobTitle' if not explicitly stated (e.g. current role).
     - Ensure dates are formatted nicely (e.g. "Jan 2023").`;
 
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: { parts: [{ inlineData: { data: data, mimeType: mimeType } }, { text: prompt }] },
-      config: { 
-        responseMimeType: 'application/json',
-        responseSchema: schema
-      }
+    const { value } = await generateStructured<ImportedResume>(llm, {
+      prompt,
+      schema: RESUME_IMPORT_SCHEMA,
+      attachments: [{ data, mimeType }],
+      timeoutMs: 180000, // Reading a multi-page PDF takes longer than an ordinary JSON call
+      prepare: (raw) => {
+        // Flatten categorized skills, e.g. { "Languages": [...], "Tools": [...] }
+        if (raw?.skills && typeof raw.skills === 'object' && !Array.isArray(raw.skills)) {
+          raw.skills = Object.values(raw.skills).flat().filter(skill => typeof skill === 'string');
+        }
+        return normalizeResumeJSON(raw);
+      },
     });
 
-    const parsed = JSON.parse(response.text || "{}");
-    
-    // Post-processing: Convert skills array or object to pipe-separated string
-    if (Array.isArray(parsed.skills)) {
-        parsed.skills = parsed.skills.join(' | ');
-    } else if (typeof parsed.skills === 'object' && parsed.skills !== null) {
-        // Flatten categorized skills
-        const allSkills: string[] = [];
-        Object.values(parsed.skills).forEach((val: any) => {
-            if (Array.isArray(val)) {
-                allSkills.push(...val);
-            } else if (typeof val === 'string') {
-                allSkills.push(val);
-            }
-        });
-        parsed.skills = allSkills.join(' | ');
-    }
-    
-    const cleaned = traverseAndClean(parsed);
-    return normalizeResumeJSON(cleaned);
+    // Skills are stored as one pipe-separated string
+    return traverseAndClean({ ...value, skills: value.skills.join(' | ') });
   } catch (error) {
     console.error("Resume Import Error:", error);
-    throw error;
+    throw toLlmError(error);
   }
 };
 
 export const chatWithChatur = async (history: ChatMessage[], userMessage: string, contextData: any): Promise<string> => {
-  const apiKey = getApiKey();
-  if (!apiKey) return "API key missing.";
-  const ai = new GoogleGenAI({ apiKey });
+  const llm = getLlmClient('chatWithChatur');
+  if (!llm) throw missingProviderError();
   try {
-    const systemInstruction = `You are Chatur, an expert AI Career Coach. Date: ${contextData.currentDate}`;
-    const contents = history.map(msg => ({ role: msg.role, parts: [{ text: msg.text }] }));
-    contents.push({ role: 'user', parts: [{ text: userMessage }] });
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: contents,
-      config: { systemInstruction }
-    });
-    return response.text || "I didn't catch that.";
+    const system = `You are Chatur, an expert AI Career Coach. Date: ${contextData.currentDate}`;
+    const messages = history.map(msg => ({ role: msg.role, text: msg.text }));
+    messages.push({ role: 'user', text: userMessage });
+    return requireText(await llm.generateText({ prompt: messages, system }));
   } catch (error) {
-    return "Error occurred.";
+    console.error("Chat Error:", error);
+    throw toLlmError(error);
+  }
+};
+
+/**
+ * Folds older chat turns into Chatur's rolling memory, so they can leave the prompt
+ * without being forgotten. Without a model the turns are just outlined.
+ */
+export const summarizeChatMemory = async (previousMemory: string, turns: ChatMessage[], resume: Resume): Promise<string> => {
+  const fallback = [previousMemory, outlineTurns(turns)].filter(Boolean).join('\n');
+  const llm = getLlmClient('summarizeChatMemory');
+  if (!llm) return fallback;
+  try {
+    const prompt = `Update the running summary of a conversation between a job seeker and their career coach, Chatur.
+    Keep facts, decisions, preferences and open questions (companies, dates, numbers); drop small talk. Max 150 words, plain bullet points.
+
+    CURRENT SUMMARY:
+    ${previousMemory || 'None yet.'}
+
+    NEW TURNS:
+    ${truncateString(turns.map(m => `${m.role === 'user' ? 'User' : 'Chatur'}: ${m.text}`).join('\n'), 6000)}`;
+    const text = await withRedaction(llm, createRedactor(resume)).generateText({ prompt });
+    return text.trim() || fallback;
+  } catch (error) {
+    console.error("Chat Memory Error:", error);
+    return fallback;
   }
 };
 
@@ -462,10 +519,69 @@ export interface AnalyzerResult {
   recommendation: { status: string; reason: string; };
 }
 
-export const runAgentAnalyzer = async (jobDescription: string, resume: Resume): Promise<AnalyzerResult> => {
-  const apiKey = getApiKey();
+const scoredReason: LlmSchema = {
+  type: 'object',
+  properties: { score: { type: 'number', minimum: 0, maximum: 100 }, reason: { type: 'string' } },
+  required: ["score"],
+};
+
+export const ANALYZER_RESULT_SCHEMA: LlmSchema = {
+  type: 'object',
+  properties: {
+    keyInfo: {
+      type: 'object',
+      properties: {
+        company: { type: 'string' },
+        role: { type: 'string' },
+        location: { type: 'string' },
+        salary: { type: 'string' },
+        experience: { type: 'string' },
+        workMode: { type: 'string' },
+      },
+    },
+    skills: {
+      type: 'object',
+      properties: {
+        technical: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: { name: { type: 'string' }, status: { type: 'string', enum: ['matched', 'missing'], default: 'missing' } },
+            required: ["name"],
+          },
+        },
+        soft: stringList,
+        niceToHave: stringList,
+      },
+    },
+    matchAnalysis: {
+      type: 'object',
+      properties: {
+        overallScore: { type: 'number', minimum: 0, maximum: 100 },
+        technicalMatch: scoredReason,
+        experienceMatch: scoredReason,
+        roleMatch: scoredReason,
+      },
+      required: ["overallScore"],
+    },
+    redFlags: stringList,
+    competitiveAnalysis: {
+      type: 'object',
+      properties: { level: { type: 'string', enum: ['High', 'Medium', 'Low'], default: 'Medium' }, poolSize: { type: 'string' }, differentiators: stringList },
+    },
+    recommendation: {
+      type: 'object',
+      properties: { status: { type: 'string', enum: ['Strong Apply', 'Conditional Apply', 'Avoid'] }, reason: { type: 'string' } },
+      required: ["status", "reason"],
+    },
+  },
+  required: ["keyInfo", "skills", "matchAnalysis", "recommendation"],
+};
+
+export const runAgentAnalyzer = async (jobDescription: string, resume: Resume, options?: CacheOptions): Promise<AnalyzerResult> => {
+  const llm = getLlmClient('runAgentAnalyzer');
   
-  if (!apiKey) {
+  if (!llm) {
       console.warn("API Key missing, returning mock analyzer data.");
       await new Promise(resolve => setTimeout(resolve, 2000));
       return {
@@ -506,46 +622,11 @@ export const runAgentAnalyzer = async (jobDescription: string, resume: Resume):
       };
   }
 
-  const ai = new GoogleGenAI({ apiKey });
-  
-  const schemaDescription = `
-  {
-    "keyInfo": { 
-      "company": "string", 
-      "role": "string", 
-      "location": "string", 
-      "salary": "string", 
-      "experience": "string", 
-      "workMode": "string" 
-    },
-    "skills": { 
-      "technical": [{ "name": "string", "status": "matched" | "missing" }], 
-      "soft": ["string"], 
-      "niceToHave": ["string"] 
-    },
-    "matchAnalysis": { 
-      "overallScore": number, 
-      "technicalMatch": { "score": number, "reason": "string" }, 
-      "experienceMatch": { "score": number, "reason": "string" }, 
-      "roleMatch": { "score": number, "reason": "string" } 
-    },
-    "redFlags": ["string"],
-    "competitiveAnalysis": { 
-      "level": "High/Medium/Low", 
-      "poolSize": "string", 
-      "differentiators": ["string"] 
-    },
-    "recommendation": { 
-      "status": "Strong Apply" | "Conditional Apply" | "Avoid", 
-      "reason": "string" 
-    }
-  }
-  `;
-
+  const redactor = createRedactor(resume);
   const prompt = `Analyze the fit between the Candidate Resume and the Job Description (JD).
   
   RESUME:
-  ${JSON.stringify({ ...resume, avatarImage: undefined })}
+  ${resumeForPrompt(redactor.resume)}
   
   JOB DESCRIPTION:
   ${jobDescription.substring(0, 5000)}
@@ -558,74 +639,20 @@ export const runAgentAnalyzer = async (jobDescription: string, resume: Resume):
   
   OUTPUT FORMAT:
   Return a STRICT JSON object matching exactly this structure:
-  ${schemaDescription}
+  ${describeSchema(ANALYZER_RESULT_SCHEMA)}
   
   IMPORTANT: Return ONLY the raw JSON string. Do not use markdown code blocks (no \`\`\`json).`;
 
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: prompt,
-    });
-
-    let jsonStr = response.text || "{}";
-    jsonStr = jsonStr.replace(/```json/g, "").replace(/```/g, "").trim();
-    
-    const start = jsonStr.indexOf('{');
-    const end = jsonStr.lastIndexOf('}');
-    if (start !== -1 && end !== -1) {
-      jsonStr = jsonStr.substring(start, end + 1);
-    }
-
-    const parsed = JSON.parse(jsonStr);
-    
-    // Strict Validation
-    return {
-      keyInfo: {
-        company: ensureString(parsed.keyInfo?.company),
-        role: ensureString(parsed.keyInfo?.role),
-        location: ensureString(parsed.keyInfo?.location),
-        salary: ensureString(parsed.keyInfo?.salary),
-        experience: ensureString(parsed.keyInfo?.experience),
-        workMode: ensureString(parsed.keyInfo?.workMode),
-      },
-      skills: {
-        technical: (parsed.skills?.technical || []).map((s: any) => ({
-          name: ensureString(s.name),
-          status: (s.status === 'matched' || s.status === 'missing') ? s.status : 'missing'
-        })),
-        soft: ensureStringArray(parsed.skills?.soft),
-        niceToHave: ensureStringArray(parsed.skills?.niceToHave),
-      },
-      matchAnalysis: {
-        overallScore: typeof parsed.matchAnalysis?.overallScore === 'number' ? parsed.matchAnalysis.overallScore : 0,
-        technicalMatch: { 
-          score: typeof parsed.matchAnalysis?.technicalMatch?.score === 'number' ? parsed.matchAnalysis.technicalMatch.score : 0, 
-          reason: ensureString(parsed.matchAnalysis?.technicalMatch?.reason) 
-        },
-        experienceMatch: { 
-          score: typeof parsed.matchAnalysis?.experienceMatch?.score === 'number' ? parsed.matchAnalysis.experienceMatch.score : 0, 
-          reason: ensureString(parsed.matchAnalysis?.experienceMatch?.reason) 
-        },
-        roleMatch: { 
-          score: typeof parsed.matchAnalysis?.roleMatch?.score === 'number' ? parsed.matchAnalysis.roleMatch.score : 0, 
-          reason: ensureString(parsed.matchAnalysis?.roleMatch?.reason) 
-        },
-      },
-      redFlags: ensureStringArray(parsed.redFlags),
-      competitiveAnalysis: {
-        level: ensureString(parsed.competitiveAnalysis?.level),
-        poolSize: ensureString(parsed.competitiveAnalysis?.poolSize),
-        differentiators: ensureStringArray(parsed.competitiveAnalysis?.differentiators),
-      },
-      recommendation: {
-        status: ensureString(parsed.recommendation?.status),
-        reason: ensureString(parsed.recommendation?.reason),
-      }
-    };
+    // Restored after the cache, like scoreResume
+    const result = await cachedCall('runAgentAnalyzer', llm, prompt, CACHE_TTL.analyzer, async () => {
+      const { value } = await generateStructured<AnalyzerResult>(withRedaction(llm, redactor, false), { prompt, schema: ANALYZER_RESULT_SCHEMA });
+      return value;
+    }, options);
+    return redactor.restore(result);
   } catch (error) {
     console.error("Analyzer Error:", error);
-    throw new Error("Failed to analyze application.");
+    throw toLlmError(error);
   }
 };
 
@@ -648,79 +675,106 @@ export interface ResearchResult {
   sources: { title: string; url: string }[];
 }
 
-export const validateResearchResult = (data: any): ResearchResult => {
-  return {
-    companyName: ensureString(data?.companyName) || "Unknown Company",
-    roleTitle: ensureString(data?.roleTitle) || "Unknown Role",
+const notAvailable: LlmSchema = { type: 'string', default: "Not available." };
+
+export const RESEARCH_RESULT_SCHEMA: LlmSchema = {
+  type: 'object',
+  properties: {
+    companyName: { type: 'string', default: "Unknown Company" },
+    roleTitle: { type: 'string', default: "Unknown Role" },
     summary: {
-      opportunityScore: typeof data?.summary?.opportunityScore === 'number' ? data.summary.opportunityScore : 0,
-      applyPriority: ensureString(data?.summary?.applyPriority) || "Low",
-      verdict: ensureString(data?.summary?.verdict) || "No verdict provided.",
-      nextSteps: ensureStringArray(data?.summary?.nextSteps)
+      type: 'object',
+      properties: {
+        opportunityScore: { type: 'number', minimum: 0, maximum: 10 },
+        applyPriority: { type: 'string', enum: ['High', 'Medium', 'Low'], default: 'Low' },
+        verdict: { type: 'string', default: "No verdict provided." },
+        nextSteps: stringList,
+      },
+      required: ["opportunityScore"],
     },
     companyIntelligence: {
-      overview: ensureString(data?.companyIntelligence?.overview) || "Not available.",
-      sizeAndStage: ensureString(data?.companyIntelligence?.sizeAndStage) || "Not available.",
-      competitors: ensureStringArray(data?.companyIntelligence?.competitors),
-      financialHealth: ensureString(data?.companyIntelligence?.financialHealth) || "Not available."
+      type: 'object',
+      properties: { overview: notAvailable, sizeAndStage: notAvailable, competitors: stringList, financialHealth: notAvailable },
     },
     marketAnalysis: {
-      recentNews: ensureStringArray(data?.marketAnalysis?.recentNews),
-      marketPosition: ensureString(data?.marketAnalysis?.marketPosition) || "Not available."
+      type: 'object',
+      properties: { recentNews: stringList, marketPosition: notAvailable },
     },
     culture: {
-      workEnvironment: ensureString(data?.culture?.workEnvironment) || "Not available.",
-      engineeringCulture: ensureString(data?.culture?.engineeringCulture) || "Not available."
+      type: 'object',
+      properties: { workEnvironment: notAvailable, engineeringCulture: notAvailable },
     },
     compensation: {
-      salaryRange: ensureString(data?.compensation?.salaryRange) || "Not available",
-      breakdown: {
-          fresher: ensureString(data?.compensation?.breakdown?.fresher) || "N/A",
-          mid: ensureString(data?.compensation?.breakdown?.mid) || "N/A",
-          senior: ensureString(data?.compensation?.breakdown?.senior) || "N/A"
+      type: 'object',
+      properties: {
+        salaryRange: { type: 'string', default: "Not available" },
+        breakdown: {
+          type: 'object',
+          properties: {
+            fresher: { type: 'string', default: "N/A" },
+            mid: { type: 'string', default: "N/A" },
+            senior: { type: 'string', default: "N/A" },
+          },
+        },
+        comparison: { type: 'string' },
+        benefits: stringList,
       },
-      comparison: ensureString(data?.compensation?.comparison) || "",
-      benefits: ensureStringArray(data?.compensation?.benefits)
     },
     hiring: {
-      process: ensureStringArray(data?.hiring?.process),
-      applicationStrategy: ensureString(data?.hiring?.applicationStrategy) || ""
+      type: 'object',
+      properties: { process: stringList, applicationStrategy: { type: 'string' } },
     },
     risks: {
-      level: ensureString(data?.risks?.level) || "Medium",
-      concerns: ensureStringArray(data?.risks?.concerns)
+      type: 'object',
+      properties: { level: { type: 'string', enum: ['High', 'Medium', 'Low'], default: 'Medium' }, concerns: stringList },
     },
     strategy: {
-      outreach: ensureString(data?.strategy?.outreach) || "",
-      differentiators: ensureStringArray(data?.strategy?.differentiators)
+      type: 'object',
+      properties: { outreach: { type: 'string' }, differentiators: stringList },
     },
     reviews: {
-      glassdoor: {
-        rating: ensureString(data?.reviews?.glassdoor?.rating) || "N/A",
-        pros: ensureString(data?.reviews?.glassdoor?.pros) || "",
-        cons: ensureString(data?.reviews?.glassdoor?.cons) || ""
-      },
-      reddit: {
-        sentiment: ensureString(data?.reviews?.reddit?.sentiment) || "Neutral",
-        keyDiscussions: ensureStringArray(data?.reviews?.reddit?.keyDiscussions)
+      type: 'object',
+      properties: {
+        glassdoor: {
+          type: 'object',
+          properties: { rating: { type: 'string', default: "N/A" }, pros: { type: 'string' }, cons: { type: 'string' } },
+        },
+        reddit: {
+          type: 'object',
+          properties: { sentiment: { type: 'string', default: "Neutral" }, keyDiscussions: stringList },
+        },
+        employeeVoices: {
+          type: 'array',
+          maxItems: 5,
+          items: {
+            type: 'object',
+            properties: {
+              source: { type: 'string' },
+              quote: { type: 'string' },
+              sentiment: { type: 'string', enum: ['Positive', 'Negative', 'Neutral'], default: 'Neutral' },
+            },
+            required: ["quote"],
+          },
+        },
       },
-      employeeVoices: (data?.reviews?.employeeVoices || []).slice(0, 5).map((v: any) => ({
-        source: ensureString(v.source),
-        quote: ensureString(v.quote),
-        sentiment: ensureString(v.sentiment) || 'Neutral'
-      }))
     },
-    sources: (data?.sources || []).slice(0, 10).map((s: any) => ({
-      title: ensureString(s.title),
-      url: ensureString(s.url)
-    }))
-  };
+    sources: {
+      type: 'array',
+      maxItems: 10,
+      items: { type: 'object', properties: { title: { type: 'string' }, url: { type: 'string' } }, required: ["url"] },
+    },
+  },
+  required: ["summary", "companyIntelligence"],
 };
 
-export const runAgentResearch = async (company: string, role: string): Promise<ResearchResult> => {
-  const apiKey = getApiKey();
+/** Coerces a research result, e.g. one saved before the schema last changed, into the current shape. */
+export const validateResearchResult = (data: any): ResearchResult =>
+  checkSchema<ResearchResult>(data, RESEARCH_RESULT_SCHEMA).value;
+
+export const runAgentResearch = async (company: string, role: string, options?: CacheOptions): Promise<ResearchResult> => {
+  const llm = getLlmClient('runAgentResearch');
   
-  if (!apiKey) {
+  if (!llm) {
       console.warn("API Key missing, returning mock research data.");
       await new Promise(resolve => setTimeout(resolve, 2000));
       return {
@@ -778,25 +832,6 @@ export const runAgentResearch = async (company: string, role: string): Promise<R
       };
   }
 
-  const ai = new GoogleGenAI({ apiKey });
-  
-  const schemaDescription = `
-  {
-    "companyName": "string",
-    "roleTitle": "string",
-    "summary": { "opportunityScore": number, "applyPriority": "High/Medium/Low", "verdict": "string", "nextSteps": ["string"] },
-    "companyIntelligence": { "overview": "string", "sizeAndStage": "string", "competitors": ["string"], "financialHealth": "string" },
-    "marketAnalysis": { "recentNews": ["string"], "marketPosition": "string" },
-    "culture": { "workEnvironment": "string", "engineeringCulture": "string" },
-    "compensation": { "salaryRange": "string", "breakdown": { "fresher": "string", "mid": "string", "senior": "string" }, "comparison": "string", "benefits": ["string"] },
-    "hiring": { "process": ["string"], "applicationStrategy": "string" },
-    "risks": { "level": "High/Medium/Low", "concerns": ["string"] },
-    "strategy": { "outreach": "string", "differentiators": ["string"] },
-    "reviews": { "glassdoor": { "rating": "string", "pros": "string", "cons": "string" }, "reddit": { "sentiment": "string", "keyDiscussions": ["string"] }, "employeeVoices": [{ "source": "string", "quote": "string", "sentiment": "Positive/Negative/Neutral" }] },
-    "sources": [{ "title": "string", "url": "string" }]
-  }
-  `;
-
   const prompt = `Conduct deep research on "${company}" for the role of "${role}".
   Use Google Search to find real-time data about salaries, culture, interview process, and recent news.
   
@@ -807,41 +842,19 @@ export const runAgentResearch = async (company: string, role: string): Promise<R
   4. "opportunityScore" MUST be a number between 0 and 10 (where 10 is excellent).
   
   Return the result as a STRICT JSON object matching exactly this structure:
-  ${schemaDescription}
+  ${describeSchema(RESEARCH_RESULT_SCHEMA)}
   
   IMPORTANT: Return ONLY the raw JSON string. Do not use markdown code blocks.`;
 
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: prompt,
-      config: { 
-        tools: [{ googleSearch: {} }] 
-      }
-    });
-
-    let jsonStr = response.text || "{}";
-    jsonStr = jsonStr.replace(/```json/g, "").replace(/```/g, "").trim();
-    
-    const start = jsonStr.indexOf('{');
-    const end = jsonStr.lastIndexOf('}');
-    if (start !== -1 && end !== -1) {
-      jsonStr = jsonStr.substring(start, end + 1);
-    }
-
-    const parsed = JSON.parse(jsonStr);
-    return validateResearchResult(parsed);
-  } catch (error: any) {
+    return await cachedCall('runAgentResearch', llm, prompt, CACHE_TTL.research, async () => {
+      const { value, sources } = await generateStructured<ResearchResult>(llm, { prompt, schema: RESEARCH_RESULT_SCHEMA, grounded: true });
+      // Fall back to the pages the search actually visited when the model lists none itself
+      return value.sources.length > 0 ? value : { ...value, sources: sources.slice(0, 10) };
+    }, options);
+  } catch (error) {
     console.error("Research Agent Error:", error);
-    if (error.status === 429 || (error.message && error.message.includes('429'))) {
-       throw new Error("You exceeded your daily AI quota for deep research. Please try again later.");
-    }
-    // Fallback for JSON parse errors or other issues
-    if (error instanceof SyntaxError) {
-       console.error("Invalid JSON from Agent:", error);
-       // We can attempt to recover partial data or just fail
-    }
-    throw error;
+    throw withMessage(toLlmError(error), 'quota', "You exceeded your daily AI quota for deep research. Please try again later.");
   }
 };
 
@@ -863,11 +876,45 @@ export interface InterviewPrepResult {
   questionsToAsk: string[];
 }
 
-export const runAgentInterviewPrep = async (company: string, role: string, jd: string): Promise<InterviewPrepResult> => {
-  const apiKey = getApiKey();
+export const INTERVIEW_PREP_SCHEMA: LlmSchema = {
+  type: 'object',
+  properties: {
+    companyResearch: {
+      type: 'object',
+      properties: { mission: { type: 'string' }, products: stringList, culture: { type: 'string' }, recentNews: stringList },
+    },
+    technical: {
+      type: 'object',
+      properties: {
+        topics: stringList,
+        questions: {
+          type: 'array',
+          items: { type: 'object', properties: { question: { type: 'string' }, answer: { type: 'string' } }, required: ["question", "answer"] },
+        },
+      },
+      required: ["questions"],
+    },
+    behavioral: {
+      type: 'object',
+      properties: {
+        competencies: stringList,
+        questions: {
+          type: 'array',
+          items: { type: 'object', properties: { question: { type: 'string' }, starGuide: { type: 'string' } }, required: ["question", "starGuide"] },
+        },
+      },
+      required: ["questions"],
+    },
+    questionsToAsk: stringList,
+  },
+  required: ["companyResearch", "technical", "behavioral", "questionsToAsk"],
+};
+
+export const runAgentInterviewPrep = async (company: string, role: string, jd: string, options?: CacheOptions): Promise<InterviewPrepResult> => {
+  const llm = getLlmClient('runAgentInterviewPrep');
   
   // Mock Data Fallback if API Key is missing (Demo Mode behavior)
-  if (!apiKey) {
+  if (!llm) {
       console.warn("API Key missing, returning mock interview prep data.");
       await new Promise(resolve => setTimeout(resolve, 2000)); // Simulate delay
       return {
@@ -897,27 +944,6 @@ export const runAgentInterviewPrep = async (company: string, role: string, jd: s
       };
   }
 
-  const ai = new GoogleGenAI({ apiKey });
-  
-  const schemaDescription = `
-  {
-    "companyResearch": { 
-      "mission": "string", 
-      "products": ["string"], 
-      "culture": "string", 
-      "recentNews": ["string"] 
-    },
-    "technical": { 
-      "topics": ["string"], 
-      "questions": [{ "question": "string", "answer": "string" }] 
-    },
-    "behavioral": { 
-      "competencies": ["string"], 
-      "questions": [{ "question": "string", "starGuide": "string" }] 
-    },
-    "questionsToAsk": ["string"]
-  }`;
-
   const prompt = `Create a comprehensive interview preparation kit for the role of "${role}" at "${company}".
   
   JD CONTEXT:
@@ -930,55 +956,18 @@ export const runAgentInterviewPrep = async (company: string, role: string, jd: s
   4. Suggest 5 smart questions for the candidate to ask the interviewer.
   
   Return the result as a STRICT JSON object matching exactly this structure:
-  ${schemaDescription}
+  ${describeSchema(INTERVIEW_PREP_SCHEMA)}
   
   IMPORTANT: Return ONLY the raw JSON string. Do not use markdown code blocks.`;
 
   try {
-    const response = await ai.models.generateContent({ 
-      model: 'gemini-2.5-flash', 
-      contents: prompt,
-      config: { responseMimeType: 'application/json' }
-    });
-    
-    let jsonStr = response.text || "{}";
-    jsonStr = jsonStr.replace(/```json/g, "").replace(/```/g, "").trim();
-    
-    const parsed = JSON.parse(jsonStr);
-    
-    // Validate and Clean
-    return {
-      companyResearch: {
-        mission: ensureString(parsed.companyResearch?.mission),
-        products: ensureStringArray(parsed.companyResearch?.products),
-        culture: ensureString(parsed.companyResearch?.culture),
-        recentNews: ensureStringArray(parsed.companyResearch?.recentNews)
-      },
-      technical: {
-        topics: ensureStringArray(parsed.technical?.topics),
-        questions: (parsed.technical?.questions || []).map((q: any) => ({
-          question: ensureString(q.question),
-          answer: ensureString(q.answer)
-        }))
-      },
-      behavioral: {
-        competencies: ensureStringArray(parsed.behavioral?.competencies),
-        questions: (parsed.behavioral?.questions || []).map((q: any) => ({
-          question: ensureString(q.question),
-          starGuide: ensureString(q.starGuide)
-        }))
-      },
-      questionsToAsk: ensureStringArray(parsed.questionsToAsk)
-    };
+    return await cachedCall('runAgentInterviewPrep', llm, prompt, CACHE_TTL.interviewPrep, async () => {
+      const { value } = await generateStructured<InterviewPrepResult>(llm, { prompt, schema: INTERVIEW_PREP_SCHEMA });
+      return value;
+    }, options);
   } catch (error) {
     console.error("Prep Agent Error:", error);
-    // Return empty structure on error to prevent UI crash
-    return {
-      companyResearch: { mission: "Failed to generate.", products: [], culture: "", recentNews: [] },
-      technical: { topics: [], questions: [] },
-      behavioral: { competencies: [], questions: [] },
-      questionsToAsk: []
-    };
+    throw toLlmError(error);
   }
 };
 
@@ -990,14 +979,14 @@ export const runAgentDocumentGen = async (params: {
   resume: Resume;
   additionalContext?: string;
 }): Promise<string> => {
-  const apiKey = getApiKey();
+  const llm = getLlmClient('runAgentDocumentGen');
   
-  if (!apiKey) {
+  if (!llm) {
       return `[Subject: Application for ${params.type}]\n\nDear Hiring Manager,\n\nI am writing to express my strong interest in the open position at your company. With my background in ${params.resume.jobTitle} and experience with ${params.resume.skills}, I am confident in my ability to contribute effectively to your team.\n\n[This is a generated demo document. Please configure your API key for full functionality.]\n\nSincerely,\n${params.resume.fullName}`;
   }
 
-  const ai = new GoogleGenAI({ apiKey });
-  
+  const redactor = createRedactor(params.resume);
+  const resume = redactor.resume;
   const systemPrompt = `You are a world-class career strategist and expert copywriter. 
   Your task is to generate a high-impact career document based on the specific template and tone provided.
   
@@ -1008,10 +997,10 @@ export const runAgentDocumentGen = async (params: {
   - "The Referral Request": A message meant to be sent to a contact inside the company to ask for a referral.
   
   RULES:
-  - Do NOT use placeholders like [Your Name]. Use the real name from the resume: ${params.resume.fullName}.
-  - Use the contact info provided: Email: ${params.resume.email}, Phone: ${params.resume.phone}.
+  - Do NOT invent placeholders like [Your Name]. Use the name from the resume: ${resume.fullName}.
+  - Use the contact info provided: Email: ${resume.email}, Phone: ${resume.phone}.
   - Maintain a ${params.tone} tone throughout.
-  - Inject relevant skills from the user's profile: ${params.resume.skills}.`;
+  - Inject relevant skills from the user's profile: ${resume.skills}.`;
 
   const prompt = `Generate a ${params.type} using the "${params.template}" strategy.
   
@@ -1022,15 +1011,14 @@ export const runAgentDocumentGen = async (params: {
   ${params.additionalContext || "None provided."}
   
   FULL RESUME DATA FOR CONTEXT:
-  ${JSON.stringify({ ...params.resume, avatarImage: undefined })}
+  ${resumeForPrompt(resume)}
   
   Return ONLY the generated content in professional Markdown format. Do not include introductory text like "Here is your letter".`;
 
-  const response = await ai.models.generateContent({ 
-    model: 'gemini-2.5-flash', 
-    contents: prompt,
-    config: { systemInstruction: systemPrompt }
-  });
-  
-  return cleanAIResponse(response.text || "");
+  try {
+    return cleanAIResponse(requireText(await withRedaction(llm, redactor).generateText({ prompt, system: systemPrompt })));
+  } catch (error) {
+    console.error("Document Agent Error:", error);
+    throw toLlmError(error);
+  }
 };
@@ -1,22 +1,22 @@
-
-import { GeminiChatModel } from "../lib/GeminiAdapter";
+import { LlmChatModel } from "../lib/LlmChatModel";
+import { getLlmClient, missingProviderError, toLlmError } from "./llm";
 import { ChatPromptTemplate, MessagesPlaceholder } from "@langchain/core/prompts";
 import { HumanMessage, AIMessage } from "@langchain/core/messages";
 import { StringOutputParser } from "@langchain/core/output_parsers";
-import { ChatMessage } from "../types";
+import { ChatMessage, Resume } from "../types";
+import { createRedactor, withRedaction } from "./redaction";
 
-// Access process.env.API_KEY directly so Vite can replace it at build time.
-// Do not wrap in 'typeof process' checks as they fail in the browser.
-const getApiKey = () => {
-  return process.env.API_KEY || '';
+/**
+ * Builds the chat model over the configured provider's LLM client, so Chatur gets the same
+ * timeouts, retries and rate limit as every other AI call. Null when no provider is usable.
+ * Calls are recorded in the usage ledger under `feature`. The whole prompt, notes and memory
+ * included, is redacted against `resume` and the reply restored.
+ */
+const createChatModel = (feature: string, resume: Resume) => {
+  const client = getLlmClient(feature);
+  return client ? new LlmChatModel({ client: withRedaction(client, createRedactor(resume)) }) : null;
 };
 
-// Initialize the custom model
-const model = new GeminiChatModel({ 
-  apiKey: getApiKey(),
-  modelName: "gemini-2.5-flash" 
-});
-
 // Define the prompt template
 const prompt = ChatPromptTemplate.fromMessages([
   [
@@ -39,8 +39,15 @@ const prompt = ChatPromptTemplate.fromMessages([
     ACTIVE OFFERS (HIGH PRIORITY):
     {offersData}
     
-    JOB LIST:
+    JOB LIST (most relevant first; less relevant jobs may be abbreviated or left out):
     {jobsData}
+    {focusData}
+
+    EARLIER IN THIS CONVERSATION:
+    {memory}
+
+    FROM THE USER'S NOTES AND SAVED REPORTS (most relevant to this message):
+    {passagesData}
 
     YOUR MISSION:
     1. Help the user land a job by providing strategic advice, interview prep, and motivation.
@@ -49,48 +56,84 @@ const prompt = ChatPromptTemplate.fromMessages([
     STRICT CONTEXT RULES:
     - Identify which company the user is talking about. If ambiguous, ASK.
     - Use the specific data provided (salary, dates, notes). Do not hallucinate.
-    - Be professional, encouraging, and concise.`
+    - Be professional, encouraging, and concise.
+    - When you use one of the numbered notes or reports, cite it right after the statement as [n]. Never cite a number that isn't listed.
+
+    {toolInstructions}`
   ],
   new MessagesPlaceholder("history"),
   ["human", "{input}"],
 ]);
 
-// Create the chain
-const chain = prompt.pipe(model).pipe(new StringOutputParser());
+const buildChainInput = (history: ChatMessage[], userMessage: string, contextData: any) => ({
+  input: userMessage,
+  // Convert app's ChatMessage[] to LangChain's BaseMessage[]
+  history: history.map(msg => {
+    if (msg.role === 'user') return new HumanMessage(msg.text);
+    // Tell the model what became of the actions it proposed, since the user decides on the cards
+    const outcomes = (msg.actions || []).map(a => `[${a.tool}: ${a.status}${a.result ? ` - ${a.result}` : ''}]`);
+    return new AIMessage([msg.text, ...outcomes].filter(Boolean).join('\n'));
+  }),
+
+  // Flatten context data for the prompt template
+  currentDate: contextData.currentDate,
+  userName: contextData.userProfile.name,
+  userTitle: contextData.userProfile.title,
+  userSkills: contextData.userProfile.skills,
+  userSummary: contextData.userProfile.summary,
+  statTotal: contextData.stats.total,
+  statInterview: contextData.stats.interview,
+  statOffer: contextData.stats.offer,
+  offersData: JSON.stringify(contextData.offers),
+  jobsData: JSON.stringify(contextData.jobs),
+  memory: contextData.memory || 'Nothing yet.',
+  passagesData: contextData.passages?.length
+    ? contextData.passages.map((p: any) => `[${p.n}] ${p.title} (${p.kind}):\n${p.text}`).join('\n\n')
+    : 'Nothing relevant found.',
+  focusData: contextData.focusJob
+    ? `\n    THIS CONVERSATION IS ABOUT (answer in the context of this application unless the user says otherwise):\n    ${JSON.stringify(contextData.focusJob)}`
+    : '',
+  toolInstructions: contextData.toolInstructions || ''
+});
 
 export const runChaturChain = async (
   history: ChatMessage[],
   userMessage: string,
-  contextData: any
+  contextData: any,
+  resume: Resume
 ): Promise<string> => {
+  const model = createChatModel('runChaturChain', resume);
+  if (!model) throw missingProviderError();
   try {
-    // Convert app's ChatMessage[] to LangChain's BaseMessage[]
-    // We filter out the very last user message because we pass it explicitly as 'input'
-    const langChainHistory = history.map(msg => {
-      if (msg.role === 'user') return new HumanMessage(msg.text);
-      return new AIMessage(msg.text);
-    });
-
-    const result = await chain.invoke({
-      input: userMessage,
-      history: langChainHistory,
-      
-      // Flatten context data for the prompt template
-      currentDate: contextData.currentDate,
-      userName: contextData.userProfile.name,
-      userTitle: contextData.userProfile.title,
-      userSkills: contextData.userProfile.skills,
-      userSummary: contextData.userProfile.summary,
-      statTotal: contextData.stats.total,
-      statInterview: contextData.stats.interview,
-      statOffer: contextData.stats.offer,
-      offersData: JSON.stringify(contextData.offers),
-      jobsData: JSON.stringify(contextData.jobs)
-    });
-
-    return result;
+    const chain = prompt.pipe(model).pipe(new StringOutputParser());
+    return await chain.invoke(buildChainInput(history, userMessage, contextData));
   } catch (error) {
     console.error("LangChain Error:", error);
-    return "I'm having a bit of trouble connecting to my new LangChain brain. Please try again in a moment.";
+    throw toLlmError(error);
+  }
+};
+
+/**
+ * Streaming variant of `runChaturChain`: yields the reply as it is generated.
+ * Aborting `signal` cancels the model request. Errors are thrown as LlmErrors rather than turned
+ * into a reply, so the caller can tell a stop apart from a failure and keep what already arrived.
+ */
+export const streamChaturChain = async function* (
+  history: ChatMessage[],
+  userMessage: string,
+  contextData: any,
+  resume: Resume,
+  signal?: AbortSignal
+): AsyncGenerator<string> {
+  const model = createChatModel('streamChaturChain', resume);
+  if (!model) throw missingProviderError();
+  try {
+    const chain = prompt.pipe(model.bind({ signal })).pipe(new StringOutputParser());
+    const stream = await chain.stream(buildChainInput(history, userMessage, contextData));
+    for await (const chunk of stream) {
+      yield chunk;
+    }
+  } catch (error) {
+    throw toLlmError(error);
   }
 };
@@ -0,0 +1,81 @@
+/**
+ * Every failure from the LLM layer ends up as an LlmError with one of these kinds, so callers
+ * can decide what to do (retry, ask for a key, rephrase) without parsing provider messages.
+ */
+export type LlmErrorKind =
+  | 'auth'        // Missing, invalid or unauthorised API key
+  | 'quota'       // Rate limit or quota exhausted (HTTP 429)
+  | 'safety'      // The provider blocked the prompt or the answer
+  | 'timeout'     // No answer within the call's time limit
+  | 'malformed'   // The answer wasn't the JSON (or text) that was asked for
+  | 'network'     // The provider couldn't be reached
+  | 'server'      // The provider failed (HTTP 5xx)
+  | 'aborted'     // Cancelled by the caller
+  | 'budget'      // The monthly usage cap set in Settings is used up
+  | 'unknown';
+
+/** Kinds worth trying again after a pause; the rest fail the same way every time. */
+const RETRYABLE: LlmErrorKind[] = ['quota', 'timeout', 'network', 'server'];
+
+export const LLM_ERROR_MESSAGES: Record<LlmErrorKind, string> = {
+  auth: "The AI provider rejected the API key. Check it in Settings → App Preferences → AI Provider.",
+  quota: "You've hit the AI provider's rate limit or quota. Please try again later.",
+  safety: "The AI provider blocked this request for safety reasons. Try rephrasing it.",
+  timeout: "The AI took too long to answer. Please try again.",
+  malformed: "The AI returned an answer in an unexpected format. Please try again.",
+  network: "Couldn't reach the AI provider. Check your connection and try again.",
+  server: "The AI provider is having problems right now. Please try again shortly.",
+  aborted: "The request was cancelled.",
+  budget: "You've reached this month's AI budget. Raise or remove the cap in Settings → App Preferences → AI Usage.",
+  unknown: "Something went wrong while talking to the AI. Please try again.",
+};
+
+export class LlmError extends Error {
+  kind: LlmErrorKind;
+  status?: number;
+
+  constructor(kind: LlmErrorKind, message = LLM_ERROR_MESSAGES[kind], options: { status?: number; cause?: unknown } = {}) {
+    super(message);
+    this.name = 'LlmError';
+    this.kind = kind;
+    this.status = options.status;
+    if (options.cause !== undefined) (this as any).cause = options.cause;
+  }
+
+  get retryable() {
+    return RETRYABLE.includes(this.kind);
+  }
+}
+
+/** Thrown by service functions when no provider is configured at all. */
+export const missingProviderError = () =>
+  new LlmError('auth', "No AI provider is configured. Add an API key in Settings → App Preferences → AI Provider.");
+
+const statusOf = (error: any): number | undefined => {
+  if (typeof error?.status === 'number') return error.status;
+  if (typeof error?.code === 'number') return error.code;
+  // The Gemini SDK sometimes only has the status inside the message, e.g. `{"error":{"code":429,...`
+  const match = String(error?.message || '').match(/"code":\s*(\d{3})|\bstatus:? (\d{3})\b/);
+  return match ? Number(match[1] || match[2]) : undefined;
+};
+
+const kindOf = (error: any, status: number | undefined): LlmErrorKind => {
+  const message = String(error?.message || '');
+  if (error?.name === 'AbortError') return 'aborted';
+  if (error instanceof SyntaxError) return 'malformed';
+  if (status === 401 || status === 403 || /API key not valid|API_KEY_INVALID|UNAUTHENTICATED|PERMISSION_DENIED/i.test(message)) return 'auth';
+  if (status === 429 || /RESOURCE_EXHAUSTED|quota/i.test(message)) return 'quota';
+  if (status === 408 || status === 504 || /DEADLINE_EXCEEDED|timed? ?out/i.test(message)) return 'timeout';
+  if (status !== undefined && status >= 500) return 'server';
+  if (/SAFETY|PROHIBITED_CONTENT|blocked/i.test(message)) return 'safety';
+  if (error instanceof TypeError && /fetch|network|load failed/i.test(message)) return 'network';
+  if (/network|disconnected port|ECONNREFUSED|ENOTFOUND/i.test(message)) return 'network';
+  return 'unknown';
+};
+
+/** Classifies anything thrown by a provider SDK, fetch or JSON parsing. */
+export const toLlmError = (error: unknown): LlmError => {
+  if (error instanceof LlmError) return error;
+  const status = statusOf(error);
+  return new LlmError(kindOf(error, status), undefined, { status, cause: error });
+};
@@ -0,0 +1,99 @@
+import { LlmClient, LlmRequest, LlmSchema, LlmSource } from "./types";
+
+/** A canned answer, used for the first request whose prompt contains `match`. */
+export interface LlmFixture {
+  match: string | RegExp;
+  text?: string;
+  json?: unknown;
+  sources?: LlmSource[];
+}
+
+const FIXTURE_DIMENSIONS = 64;
+
+// 1x1 transparent PNG
+const PLACEHOLDER_IMAGE = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=';
+
+const promptText = ({ prompt, system }: LlmRequest) =>
+  [system || '', ...(typeof prompt === 'string' ? [prompt] : prompt.map(m => m.text))].join('\n');
+
+/** Builds the smallest value that satisfies a schema, so unmatched JSON calls still validate. */
+const sampleFromSchema = (schema: LlmSchema, key = 'value'): unknown => {
+  switch (schema.type) {
+    case 'object':
+      return Object.fromEntries(Object.entries(schema.properties || {}).map(([k, v]) => [k, sampleFromSchema(v, k)]));
+    case 'array':
+      return schema.items ? [sampleFromSchema(schema.items, key)] : [];
+    case 'number':
+    case 'integer':
+      return 0;
+    case 'boolean':
+      return false;
+    default:
+      return schema.enum?.[0] ?? `fixture ${key}`;
+  }
+};
+
+/** Hashed bag of words: texts sharing words land close together, with no model involved. */
+const hashEmbedding = (text: string): number[] => {
+  const vector = new Array(FIXTURE_DIMENSIONS).fill(0);
+  for (const word of text.toLowerCase().match(/[a-z0-9]+/g) || []) {
+    let hash = 0;
+    for (let i = 0; i < word.length; i++) hash = (hash * 31 + word.charCodeAt(i)) | 0;
+    vector[Math.abs(hash) % FIXTURE_DIMENSIONS] += 1;
+  }
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0)) || 1;
+  return vector.map(v => v / norm);
+};
+
+/**
+ * Deterministic provider for tests and offline demos: never touches the network and answers
+ * the same request the same way every time. Unmatched text calls echo the start of the prompt.
+ */
+export const createFixtureClient = (fixtures: LlmFixture[] = []): LlmClient => {
+  const find = (request: LlmRequest) => {
+    const text = promptText(request);
+    return fixtures.find(f => typeof f.match === 'string' ? text.includes(f.match) : f.match.test(text));
+  };
+  const echo = (request: LlmRequest) => {
+    const prompt = typeof request.prompt === 'string' ? request.prompt : request.prompt[request.prompt.length - 1]?.text || '';
+    return `[fixture] ${prompt.trim().split('\n')[0].slice(0, 120)}`;
+  };
+
+  return {
+    provider: 'fixture',
+    model: 'fixture',
+    supportsSearch: false,
+    supportsImages: true,
+    embeddingModel: 'fixture-hash',
+
+    generateText: async (request) => find(request)?.text ?? echo(request),
+
+    async *streamText(request, signal) {
+      const text = find(request)?.text ?? echo(request);
+      // Word by word, so streaming UIs can be exercised without a model
+      for (const piece of text.match(/\S+\s*/g) || []) {
+        if (signal?.aborted) throw new DOMException('Aborted', 'AbortError');
+        yield piece;
+      }
+    },
+
+    generateJson: async (request) => {
+      const fixture = find(request);
+      if (fixture?.json !== undefined) return fixture.json;
+      if (fixture?.text !== undefined) return JSON.parse(fixture.text);
+      return request.schema ? sampleFromSchema(request.schema) : {};
+    },
+
+    generateGrounded: async (request) => {
+      const fixture = find(request);
+      return {
+        text: fixture?.text ?? (fixture?.json !== undefined ? JSON.stringify(fixture.json) : echo(request)),
+        sources: fixture?.sources || [],
+      };
+    },
+
+    generateImage: async ({ image }) => image ? `data:${image.mimeType};base64,${image.data}` : PLACEHOLDER_IMAGE,
+
+    embed: async (texts) => texts.map(hashEmbedding),
+  };
+};
@@ -0,0 +1,183 @@
+import { GoogleGenAI, Type, Schema, Content, Part, GenerateContentResponse, FinishReason } from "@google/genai";
+import { LlmClient, LlmConfig, LlmRequest, LlmSchema, LlmSource, LlmUsage } from "./types";
+import { parseJsonText } from "./json";
+import { LlmError } from "./errors";
+
+// Tried in order, so a quota error on the first falls through to the next
+const IMAGE_MODELS = ['gemini-3-pro-image-preview', 'gemini-2.5-flash-image'];
+const EMBED_BATCH_SIZE = 100; // Most texts the embedding endpoint takes per request
+const BLOCKED_FINISH_REASONS: (FinishReason | undefined)[] = [
+  FinishReason.SAFETY, FinishReason.PROHIBITED_CONTENT, FinishReason.BLOCKLIST, FinishReason.SPII, FinishReason.RECITATION,
+];
+
+const SCHEMA_TYPES: Record<LlmSchema['type'], Type> = {
+  object: Type.OBJECT,
+  array: Type.ARRAY,
+  string: Type.STRING,
+  number: Type.NUMBER,
+  integer: Type.INTEGER,
+  boolean: Type.BOOLEAN,
+};
+
+const toGeminiSchema = (schema: LlmSchema): Schema => ({
+  type: SCHEMA_TYPES[schema.type],
+  description: schema.description,
+  enum: schema.enum,
+  required: schema.required,
+  minimum: schema.minimum,
+  maximum: schema.maximum,
+  maxItems: schema.maxItems !== undefined ? String(schema.maxItems) : undefined,
+  items: schema.items && toGeminiSchema(schema.items),
+  properties: schema.properties && Object.fromEntries(
+    Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)])
+  ),
+});
+
+const toContents = ({ prompt, attachments = [] }: LlmRequest): Content[] => {
+  const messages = typeof prompt === 'string' ? [{ role: 'user' as const, text: prompt }] : prompt;
+  return messages.map((message, i) => {
+    const parts: Part[] = [{ text: message.text }];
+    if (i === messages.length - 1 && attachments.length > 0) {
+      parts.unshift(...attachments.map(a => ({ inlineData: { data: a.data, mimeType: a.mimeType } })));
+    }
+    return { role: message.role, parts };
+  });
+};
+
+// A blocked prompt or answer comes back as an empty response rather than an error
+const checkBlocked = (response: GenerateContentResponse) => {
+  const blockReason = response.promptFeedback?.blockReason;
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (blockReason || (!response.text && BLOCKED_FINISH_REASONS.includes(finishReason))) {
+    throw new LlmError('safety', undefined, { cause: new Error(`Blocked: ${blockReason || finishReason}`) });
+  }
+  return response;
+};
+
+/** Token counts from a Gemini response, or null when it has none. Thinking tokens are billed as output. */
+export const geminiUsage = (response: GenerateContentResponse, model?: string): LlmUsage | null => {
+  const usage = response.usageMetadata;
+  if (!usage) return null;
+  return {
+    inputTokens: usage.promptTokenCount || 0,
+    outputTokens: (usage.candidatesTokenCount || 0) + (usage.thoughtsTokenCount || 0),
+    model,
+  };
+};
+
+const reportUsage = (response: GenerateContentResponse, onUsage?: (usage: LlmUsage) => void, model?: string) => {
+  const usage = geminiUsage(response, model);
+  if (usage) onUsage?.(usage);
+};
+
+export const createGeminiClient = (config: LlmConfig): LlmClient => {
+  const ai = new GoogleGenAI({ apiKey: config.apiKey });
+  const model = config.model || 'gemini-2.5-flash';
+  const embeddingModel = config.embeddingModel || 'text-embedding-004';
+
+  return {
+    provider: 'gemini',
+    model,
+    supportsSearch: true,
+    supportsImages: true,
+    embeddingModel,
+
+    generateText: async (request) => {
+      const response = checkBlocked(await ai.models.generateContent({
+        model,
+        contents: toContents(request),
+        config: { systemInstruction: request.system, abortSignal: request.signal },
+      }));
+      reportUsage(response, request.onUsage);
+      return response.text || "";
+    },
+
+    async *streamText(request, signal) {
+      const stream = await ai.models.generateContentStream({
+        model,
+        contents: toContents(request),
+        config: { systemInstruction: request.system, abortSignal: signal },
+      });
+      // Every chunk carries the running totals, so only the last one counts
+      let last: GenerateContentResponse | undefined;
+      for await (const chunk of stream) {
+        checkBlocked(chunk);
+        if (chunk.usageMetadata) last = chunk;
+        if (chunk.text) yield chunk.text;
+      }
+      if (last) reportUsage(last, request.onUsage);
+    },
+
+    generateJson: async (request) => {
+      const response = checkBlocked(await ai.models.generateContent({
+        model,
+        contents: toContents(request),
+        config: {
+          systemInstruction: request.system,
+          responseMimeType: 'application/json',
+          responseSchema: request.schema && toGeminiSchema(request.schema),
+          abortSignal: request.signal,
+        },
+      }));
+      reportUsage(response, request.onUsage);
+      return parseJsonText(response.text || "{}");
+    },
+
+    generateGrounded: async (request) => {
+      const response = checkBlocked(await ai.models.generateContent({
+        model,
+        contents: toContents(request),
+        config: { systemInstruction: request.system, tools: [{ googleSearch: {} }], abortSignal: request.signal },
+      }));
+      reportUsage(response, request.onUsage);
+      const chunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
+      const sources: LlmSource[] = chunks
+        .filter(chunk => chunk.web?.uri)
+        .map(chunk => ({ title: chunk.web!.title || chunk.web!.uri!, url: chunk.web!.uri! }));
+      return { text: response.text || "", sources };
+    },
+
+    generateImage: async ({ prompt, image, signal, onUsage }) => {
+      let lastError: any;
+      for (const imageModel of IMAGE_MODELS) {
+        try {
+          const imageConfig: Record<string, string> = { aspectRatio: "1:1" };
+          // Only the pro model accepts an explicit output size
+          if (imageModel === 'gemini-3-pro-image-preview') imageConfig.imageSize = "1K";
+
+          const parts: Part[] = [{ text: prompt }];
+          if (image) parts.unshift({ inlineData: { data: image.data, mimeType: image.mimeType } });
+          const response = await ai.models.generateContent({
+            model: imageModel,
+            contents: { parts },
+            config: { imageConfig, abortSignal: signal },
+          });
+          reportUsage(response, onUsage, imageModel);
+          const imagePart = response.candidates?.[0]?.content?.parts?.find(part => part.inlineData?.data);
+          if (imagePart) {
+            return `data:${imagePart.inlineData!.mimeType || 'image/png'};base64,${imagePart.inlineData!.data}`;
+          }
+        } catch (error: any) {
+          if (signal?.aborted) throw error;
+          console.warn(`Image generation failed with model ${imageModel}:`, error.message);
+          lastError = error;
+        }
+      }
+      throw lastError || new Error("The model did not return an image.");
+    },
+
+    // The Gemini API doesn't report token counts for embeddings
+    embed: async (texts, purpose, signal) => {
+      const vectors: number[][] = [];
+      for (let i = 0; i < texts.length; i += EMBED_BATCH_SIZE) {
+        const response = await ai.models.embedContent({
+          model: embeddingModel,
+          contents: texts.slice(i, i + EMBED_BATCH_SIZE),
+          config: { taskType: purpose === 'query' ? 'RETRIEVAL_QUERY' : 'RETRIEVAL_DOCUMENT', abortSignal: signal },
+        });
+        vectors.push(...(response.embeddings || []).map(e => e.values || []));
+      }
+      return vectors;
+    },
+  };
+};
@@ -0,0 +1,136 @@
+import { createGeminiClient } from "./geminiClient";
+import { createOpenAiCompatibleClient } from "./openAiCompatibleClient";
+import { createFixtureClient } from "./fixtureClient";
+import { withCallPolicy } from "./policy";
+import { withUsageLedger } from "./usage";
+import { LlmClient, LlmConfig, LlmProvider } from "./types";
+
+export type {
+  LlmClient, LlmConfig, LlmProvider, LlmSchema, LlmAttachment, LlmMessage,
+  LlmRequest, LlmJsonRequest, LlmImageRequest, LlmSource, LlmUsage, GroundedResponse, EmbeddingPurpose
+} from "./types";
+export { createGeminiClient, geminiUsage } from "./geminiClient";
+export { createOpenAiCompatibleClient } from "./openAiCompatibleClient";
+export { createFixtureClient } from "./fixtureClient";
+export type { LlmFixture } from "./fixtureClient";
+export { parseJsonText } from "./json";
+export { LlmError, LLM_ERROR_MESSAGES, toLlmError, missingProviderError } from "./errors";
+export type { LlmErrorKind } from "./errors";
+export { withCallPolicy, DEFAULT_CALL_POLICY } from "./policy";
+export { checkSchema, describeSchema } from "./schema";
+export type { SchemaCheck } from "./schema";
+export { generateStructured } from "./structured";
+export type { StructuredRequest, StructuredResult } from "./structured";
+export type { CallPolicy } from "./policy";
+export {
+  withUsageLedger, recordUsage, listUsage, clearUsage, sumUsage, getMonthUsage,
+  checkBudget, getUsageBudget, saveUsageBudget
+} from "./usage";
+export type { UsageRecord, UsageBudget, UsageTotals, UsageMethod } from "./usage";
+export { estimateCost, getModelPrice } from "./pricing";
+export type { ModelPrice } from "./pricing";
+
+const CONFIG_KEY = 'llmConfig';
+const PROVIDERS: LlmProvider[] = ['gemini', 'openai', 'fixture'];
+
+let cached: { key: string; client: LlmClient | null } | null = null;
+let override: LlmClient | null = null;
+
+export const LLM_PROVIDER_LABELS: Record<LlmProvider, string> = {
+  gemini: 'Google Gemini',
+  openai: 'OpenAI-compatible (Ollama, llama.cpp, ...)',
+  fixture: 'Fixtures (offline, deterministic)',
+};
+
+// Access process.env directly so Vite can replace each value at build time.
+const getEnvConfig = (): LlmConfig => {
+  const provider = PROVIDERS.includes(process.env.LLM_PROVIDER as LlmProvider) ? process.env.LLM_PROVIDER as LlmProvider : 'gemini';
+  // The Gemini key predates this config, so it still works on its own
+  const geminiKey = provider === 'gemini' ? process.env.API_KEY || process.env.GEMINI_API_KEY : '';
+  return {
+    provider,
+    model: process.env.LLM_MODEL || '',
+    apiKey: process.env.LLM_API_KEY || geminiKey || '',
+    baseUrl: process.env.LLM_BASE_URL || '',
+    embeddingModel: process.env.LLM_EMBEDDING_MODEL || '',
+  };
+};
+
+/** The per-browser override saved from Settings, if any. */
+export const getSavedLlmConfig = (): LlmConfig | null => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(CONFIG_KEY) || 'null');
+    if (saved && PROVIDERS.includes(saved.provider)) {
+      return {
+        provider: saved.provider,
+        model: saved.model || '',
+        apiKey: saved.apiKey || '',
+        baseUrl: saved.baseUrl || '',
+        embeddingModel: saved.embeddingModel || '',
+      };
+    }
+  } catch (e) {
+    console.error("Failed to read saved AI provider settings", e);
+  }
+  return null;
+};
+
+/** The build-time config with any per-browser override from Settings applied on top. */
+export const getLlmConfig = (): LlmConfig => {
+  const config = getEnvConfig();
+  const saved = getSavedLlmConfig();
+  if (!saved) return config;
+  // An empty key in the override means "use the one the app was built with"
+  return { ...saved, apiKey: saved.apiKey || (saved.provider === config.provider ? config.apiKey : '') };
+};
+
+/** Stores a per-browser override; null goes back to the build-time config. */
+export const saveLlmConfig = (config: LlmConfig | null) => {
+  if (config) {
+    localStorage.setItem(CONFIG_KEY, JSON.stringify(config));
+  } else {
+    localStorage.removeItem(CONFIG_KEY);
+  }
+  cached = null;
+};
+
+// Gemini's free tier allows 15 requests a minute on Flash; local servers have no limit to respect
+const GEMINI_REQUESTS_PER_MINUTE = 15;
+
+const createClient = (config: LlmConfig): LlmClient | null => {
+  switch (config.provider) {
+    case 'openai':
+      return withCallPolicy(createOpenAiCompatibleClient(config));
+    case 'fixture':
+      // Guarded like a real provider, so its failures reach callers as LlmErrors too
+      return withCallPolicy(createFixtureClient());
+    default:
+      // Without a key the callers fall back to their built-in demo data
+      return config.apiKey ? withCallPolicy(createGeminiClient(config), { requestsPerMinute: GEMINI_REQUESTS_PER_MINUTE }) : null;
+  }
+};
+
+/**
+ * The client every AI feature should call, or null when nothing is configured.
+ * Rebuilt only when the config changes. Calls are recorded in the usage ledger under `feature`,
+ * normally the name of the calling service function.
+ */
+export const getLlmClient = (feature = 'other'): LlmClient | null => {
+  if (!override) {
+    const config = getLlmConfig();
+    const key = JSON.stringify(config);
+    if (!cached || cached.key !== key) {
+      cached = { key, client: createClient(config) };
+    }
+  }
+  const client = override || cached!.client;
+  return client && withUsageLedger(client, feature);
+};
+
+/**
+ * Pins a specific client, e.g. a fixture client with canned answers in tests. Pass the bare client;
+ * it gets the same call policy as a configured provider. Pass null to undo.
+ */
+export const setLlmClient = (client: LlmClient | null) => {
+  override = client && withCallPolicy(client);
+};
@@ -0,0 +1,15 @@
+/**
+ * Parses a model's JSON answer. Models without a native JSON mode (or with search tools on)
+ * still wrap it in ```json fences or a sentence of preamble, so both are stripped first.
+ * Throws a SyntaxError when nothing parseable is left.
+ */
+export const parseJsonText = (text: string): unknown => {
+  let jsonStr = (text || "{}").replace(/```json/g, "").replace(/```/g, "").trim();
+  const starts = [jsonStr.indexOf('{'), jsonStr.indexOf('[')].filter(i => i !== -1);
+  if (starts.length > 0) {
+    const start = Math.min(...starts);
+    const end = Math.max(jsonStr.lastIndexOf('}'), jsonStr.lastIndexOf(']'));
+    if (end > start) jsonStr = jsonStr.substring(start, end + 1);
+  }
+  return JSON.parse(jsonStr);
+};
@@ -0,0 +1,151 @@
+import { LlmClient, LlmConfig, LlmRequest, LlmSchema, LlmUsage } from "./types";
+import { parseJsonText } from "./json";
+
+type ContentPart = { type: 'text'; text: string } | { type: 'image_url'; image_url: { url: string } };
+
+interface ChatCompletionMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string | ContentPart[];
+}
+
+// Strict json_schema servers reject objects that don't list `required` and close additionalProperties
+const toJsonSchema = (schema: LlmSchema): Record<string, unknown> => ({
+  type: schema.type,
+  ...(schema.description && { description: schema.description }),
+  ...(schema.enum && { enum: schema.enum }),
+  ...(schema.minimum !== undefined && { minimum: schema.minimum }),
+  ...(schema.maximum !== undefined && { maximum: schema.maximum }),
+  ...(schema.maxItems !== undefined && { maxItems: schema.maxItems }),
+  ...(schema.items && { items: toJsonSchema(schema.items) }),
+  ...(schema.properties && {
+    properties: Object.fromEntries(Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)])),
+    required: schema.required || [],
+    additionalProperties: false,
+  }),
+});
+
+const toMessages = ({ prompt, system, attachments = [] }: LlmRequest): ChatCompletionMessage[] => {
+  const messages: ChatCompletionMessage[] = system ? [{ role: 'system', content: system }] : [];
+  const turns = typeof prompt === 'string' ? [{ role: 'user' as const, text: prompt }] : prompt;
+  turns.forEach((turn, i) => {
+    const role = turn.role === 'model' ? 'assistant' : 'user';
+    if (i === turns.length - 1 && attachments.length > 0) {
+      const unsupported = attachments.find(a => !a.mimeType.startsWith('image/'));
+      if (unsupported) {
+        throw new Error(`This AI provider can only read images, not ${unsupported.mimeType} files.`);
+      }
+      messages.push({
+        role,
+        content: [
+          ...attachments.map(a => ({ type: 'image_url' as const, image_url: { url: `data:${a.mimeType};base64,${a.data}` } })),
+          { type: 'text', text: turn.text },
+        ],
+      });
+    } else {
+      messages.push({ role, content: turn.text });
+    }
+  });
+  return messages;
+};
+
+// Servers that don't count tokens (some llama.cpp builds) leave `usage` out
+const reportUsage = (body: any, onUsage?: (usage: LlmUsage) => void, model?: string) => {
+  if (!body?.usage || !onUsage) return;
+  onUsage({ inputTokens: body.usage.prompt_tokens || 0, outputTokens: body.usage.completion_tokens || 0, model });
+};
+
+/**
+ * Talks to any server exposing the OpenAI chat completions API: Ollama, llama.cpp's server,
+ * LM Studio, vLLM or OpenAI itself. These have no search tool, so grounded calls answer
+ * from the model alone and report no sources.
+ */
+export const createOpenAiCompatibleClient = (config: LlmConfig): LlmClient => {
+  const baseUrl = (config.baseUrl || 'http://localhost:11434/v1').replace(/\/+$/, '');
+  const model = config.model || 'llama3.1';
+
+  const post = async (body: Record<string, unknown>, signal?: AbortSignal, path = '/chat/completions'): Promise<Response> => {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(config.apiKey && { Authorization: `Bearer ${config.apiKey}` }),
+      },
+      body: JSON.stringify({ model, ...body }), // `body` may name a different model, e.g. for embeddings
+      signal,
+    });
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      const error: any = new Error(`LLM server responded ${response.status}: ${detail.slice(0, 200)}`);
+      error.status = response.status;
+      throw error;
+    }
+    return response;
+  };
+
+  const complete = async (request: LlmRequest, responseFormat?: Record<string, unknown>): Promise<string> => {
+    const response = await post({ messages: toMessages(request), ...(responseFormat && { response_format: responseFormat }) }, request.signal);
+    const body = await response.json();
+    reportUsage(body, request.onUsage);
+    return body.choices?.[0]?.message?.content || "";
+  };
+
+  return {
+    provider: 'openai',
+    model,
+    supportsSearch: false,
+    supportsImages: false,
+    // Chat models rarely embed, so this needs its own model (e.g. nomic-embed-text on Ollama)
+    embeddingModel: config.embeddingModel || null,
+
+    generateText: (request) => complete(request),
+
+    async *streamText(request, signal) {
+      // include_usage adds a final chunk with the token counts and no choices
+      const response = await post({ messages: toMessages(request), stream: true, stream_options: { include_usage: true } }, signal);
+      if (!response.body) throw new Error("The LLM server did not return a stream.");
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+        // Server-sent events: one "data: {...}" line per delta, ending with "data: [DONE]"
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+        for (const line of lines) {
+          const data = line.replace(/^data:\s*/, '').trim();
+          if (!line.startsWith('data:') || !data) continue;
+          if (data === '[DONE]') return;
+          const chunk = JSON.parse(data);
+          reportUsage(chunk, request.onUsage);
+          const delta = chunk.choices?.[0]?.delta?.content;
+          if (delta) yield delta;
+        }
+      }
+    },
+
+    generateJson: async (request) => {
+      const format = request.schema
+        ? { type: 'json_schema', json_schema: { name: 'result', schema: toJsonSchema(request.schema) } }
+        : { type: 'json_object' };
+      return parseJsonText(await complete(request, format));
+    },
+
+    generateGrounded: async (request) => ({ text: await complete(request), sources: [] }),
+
+    generateImage: async () => {
+      throw new Error("Image generation isn't available with the configured AI provider.");
+    },
+
+    embed: async (texts, _purpose, signal, onUsage) => {
+      if (!config.embeddingModel) throw new Error("No embedding model is configured for this AI provider.");
+      const response = await post({ model: config.embeddingModel, input: texts }, signal, '/embeddings');
+      const body = await response.json();
+      reportUsage(body, onUsage, config.embeddingModel);
+      return [...(body.data || [])]
+        .sort((a: any, b: any) => a.index - b.index)
+        .map((item: any) => item.embedding as number[]);
+    },
+  };
+};
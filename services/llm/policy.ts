@@ -0,0 +1,187 @@
+import { LlmClient } from "./types";
+import { LlmError, toLlmError } from "./errors";
+
+/**
+ * How a client's calls are guarded: a time limit per attempt, retries with exponential backoff
+ * for failures that may pass (rate limits, timeouts, network and server errors), and a
+ * client-side rate limit so a burst of agent runs doesn't trip the provider's own.
+ */
+export interface CallPolicy {
+  maxAttempts: number;
+  baseDelayMs: number; // Wait before the first retry; doubles for each one after
+  maxDelayMs: number;
+  requestsPerMinute: number | null; // Null for no client-side limit, e.g. a local server
+  timeoutsMs: {
+    text: number;
+    json: number;
+    grounded: number; // Searching takes a while before the answer starts
+    image: number;
+    embed: number;
+    streamIdle: number; // Longest gap allowed between streamed pieces
+  };
+}
+
+export const DEFAULT_CALL_POLICY: CallPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 15000,
+  requestsPerMinute: null,
+  timeoutsMs: {
+    text: 60000,
+    json: 90000,
+    grounded: 120000,
+    image: 120000,
+    embed: 30000,
+    streamIdle: 30000,
+  },
+};
+
+const RATE_WINDOW_MS = 60000;
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(new LlmError('aborted'));
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(new LlmError('aborted'));
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/** Sliding window of start times; callers queue in order until a slot frees up. */
+const createRateLimiter = (perMinute: number | null) => {
+  const starts: number[] = [];
+  let queue = Promise.resolve();
+
+  return (signal?: AbortSignal): Promise<void> => {
+    if (!perMinute) return Promise.resolve();
+    const turn = queue.then(async () => {
+      while (true) {
+        const now = Date.now();
+        while (starts.length > 0 && starts[0] <= now - RATE_WINDOW_MS) starts.shift();
+        if (starts.length < perMinute) {
+          starts.push(now);
+          return;
+        }
+        await sleep(starts[0] + RATE_WINDOW_MS - now, signal);
+      }
+    });
+    queue = turn.catch(() => undefined); // One cancelled caller mustn't block the rest
+    return turn;
+  };
+};
+
+// Exponential backoff with "equal jitter": half the delay is fixed, half random
+const backoffDelay = (policy: CallPolicy, attempt: number) => {
+  const delay = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  return delay / 2 + Math.random() * (delay / 2);
+};
+
+/**
+ * An AbortSignal that fires when the caller aborts or when `ms` pass without `touch()`.
+ * `error()` turns whatever the call threw into the matching LlmError.
+ */
+const createDeadline = (ms: number, outer?: AbortSignal) => {
+  const controller = new AbortController();
+  let timedOut = false;
+  let timer: ReturnType<typeof setTimeout>;
+  const touch = () => {
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, ms);
+  };
+  const onAbort = () => controller.abort();
+  outer?.addEventListener('abort', onAbort, { once: true });
+  if (outer?.aborted) controller.abort();
+  touch();
+
+  return {
+    signal: controller.signal,
+    touch,
+    clear: () => {
+      clearTimeout(timer);
+      outer?.removeEventListener('abort', onAbort);
+    },
+    error: (error: unknown) => {
+      if (timedOut) return new LlmError('timeout', undefined, { cause: error });
+      if (outer?.aborted) return new LlmError('aborted', undefined, { cause: error });
+      return toLlmError(error);
+    },
+  };
+};
+
+/** Wraps a client so every call follows `policy`. Errors always come out as LlmError. */
+export const withCallPolicy = (client: LlmClient, overrides: Partial<CallPolicy> = {}): LlmClient => {
+  const policy = { ...DEFAULT_CALL_POLICY, ...overrides };
+  const acquire = createRateLimiter(policy.requestsPerMinute);
+
+  const call = async <T>(timeoutMs: number, signal: AbortSignal | undefined, run: (signal: AbortSignal) => Promise<T>): Promise<T> => {
+    for (let attempt = 1; ; attempt++) {
+      await acquire(signal);
+      const deadline = createDeadline(timeoutMs, signal);
+      try {
+        // Racing the deadline covers SDK calls that ignore the signal
+        return await Promise.race([
+          run(deadline.signal),
+          new Promise<never>((_, reject) => deadline.signal.addEventListener('abort', () => reject(deadline.error(null)), { once: true })),
+        ]);
+      } catch (e) {
+        const error = deadline.error(e);
+        if (!error.retryable || attempt >= policy.maxAttempts) throw error;
+        console.warn(`AI call failed (${error.kind}), retrying (${attempt}/${policy.maxAttempts - 1})`, e);
+        await sleep(backoffDelay(policy, attempt), signal);
+      } finally {
+        deadline.clear();
+      }
+    }
+  };
+
+  return {
+    ...client,
+
+    generateText: (request) =>
+      call(request.timeoutMs ?? policy.timeoutsMs.text, request.signal, signal => client.generateText({ ...request, signal })),
+
+    generateJson: (request) =>
+      call(request.timeoutMs ?? policy.timeoutsMs.json, request.signal, signal => client.generateJson({ ...request, signal })),
+
+    generateGrounded: (request) =>
+      call(request.timeoutMs ?? policy.timeoutsMs.grounded, request.signal, signal => client.generateGrounded({ ...request, signal })),
+
+    generateImage: (request) =>
+      call(policy.timeoutsMs.image, request.signal, signal => client.generateImage({ ...request, signal })),
+
+    embed: (texts, purpose, signal, onUsage) =>
+      call(policy.timeoutsMs.embed, signal, callSignal => client.embed(texts, purpose, callSignal, onUsage)),
+
+    // Retried only until the first piece arrives; after that a failure would repeat text already shown
+    async *streamText(request, signal) {
+      for (let attempt = 1; ; attempt++) {
+        await acquire(signal);
+        const deadline = createDeadline(request.timeoutMs ?? policy.timeoutsMs.streamIdle, signal);
+        let started = false;
+        try {
+          for await (const piece of client.streamText(request, deadline.signal)) {
+            if (deadline.signal.aborted) throw deadline.error(null);
+            started = true;
+            deadline.touch();
+            yield piece;
+          }
+          return;
+        } catch (e) {
+          const error = deadline.error(e);
+          if (started || !error.retryable || attempt >= policy.maxAttempts) throw error;
+          console.warn(`AI stream failed (${error.kind}), retrying (${attempt}/${policy.maxAttempts - 1})`, e);
+          await sleep(backoffDelay(policy, attempt), signal);
+        } finally {
+          deadline.clear();
+        }
+      }
+    },
+  };
+};
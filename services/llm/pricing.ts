@@ -0,0 +1,38 @@
+/** List prices in US dollars per million tokens. */
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+/**
+ * Published prices for the models this app is likely to run, matched in order, so more
+ * specific names come first. They change now and then, which is why costs are only ever
+ * shown as estimates. Models not listed, such as anything local, count as free.
+ */
+const MODEL_PRICES: [RegExp, ModelPrice][] = [
+  [/gemini-3-pro-image/, { input: 2, output: 120 }],
+  [/gemini-3-pro/, { input: 2, output: 12 }],
+  [/gemini-2\.5-pro/, { input: 1.25, output: 10 }],
+  [/gemini-2\.5-flash-image/, { input: 0.3, output: 30 }],
+  [/gemini-2\.5-flash-lite/, { input: 0.1, output: 0.4 }],
+  [/gemini-2\.5-flash/, { input: 0.3, output: 2.5 }],
+  [/gemini-2\.0-flash-lite/, { input: 0.075, output: 0.3 }],
+  [/gemini-2\.0-flash/, { input: 0.1, output: 0.4 }],
+  [/gemini-embedding/, { input: 0.15, output: 0 }],
+  [/text-embedding-004/, { input: 0, output: 0 }],
+  [/gpt-4o-mini/, { input: 0.15, output: 0.6 }],
+  [/gpt-4o/, { input: 2.5, output: 10 }],
+  [/gpt-4\.1-nano/, { input: 0.1, output: 0.4 }],
+  [/gpt-4\.1-mini/, { input: 0.4, output: 1.6 }],
+  [/gpt-4\.1/, { input: 2, output: 8 }],
+  [/text-embedding-3-small/, { input: 0.02, output: 0 }],
+  [/text-embedding-3-large/, { input: 0.13, output: 0 }],
+];
+
+export const getModelPrice = (model: string): ModelPrice | null =>
+  MODEL_PRICES.find(([pattern]) => pattern.test(model))?.[1] || null;
+
+export const estimateCost = (model: string, inputTokens: number, outputTokens: number): number => {
+  const price = getModelPrice(model);
+  return price ? (inputTokens * price.input + outputTokens * price.output) / 1000000 : 0;
+};
@@ -0,0 +1,151 @@
+import { LlmSchema } from "./types";
+
+/**
+ * Runtime side of LlmSchema: the same schema that is sent as the provider's response format
+ * also checks and coerces the answer, so results never reach the UI in an unexpected shape.
+ *
+ * Harmless drift is fixed silently (numbers as strings, a single string where a list was asked
+ * for, enum values in the wrong case, missing optional fields). Anything that can't be fixed
+ * (a missing required field, an unknown enum value without a default, a list where text belongs)
+ * is reported as an issue, so the caller can ask the model to repair its answer.
+ */
+
+export interface SchemaCheck<T> {
+  value: T;
+  issues: string[]; // Empty when the value matches the schema
+}
+
+const isMissing = (value: unknown) => value === null || value === undefined || value === '';
+
+const emptyValue = (schema: LlmSchema): unknown => {
+  if (schema.default !== undefined) return schema.default;
+  switch (schema.type) {
+    case 'object':
+      return Object.fromEntries(Object.entries(schema.properties || {}).map(([key, s]) => [key, emptyValue(s)]));
+    case 'array':
+      return [];
+    case 'number':
+    case 'integer':
+      return schema.minimum ?? 0;
+    case 'boolean':
+      return false;
+    default:
+      return '';
+  }
+};
+
+// Models sometimes wrap text in an object, e.g. { "text": "..." }
+const textOf = (value: unknown): string | null => {
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  if (Array.isArray(value)) {
+    const parts = value.map(textOf);
+    return parts.every(p => p !== null) ? parts.join(' ') : null;
+  }
+  if (value && typeof value === 'object') {
+    const { text, value: inner, description } = value as Record<string, unknown>;
+    const found = [text, inner, description].find(v => typeof v === 'string');
+    return typeof found === 'string' ? found : null;
+  }
+  return null;
+};
+
+const coerce = (value: unknown, schema: LlmSchema, path: string, issues: string[]): unknown => {
+  const where = path || 'answer';
+  if (isMissing(value)) return emptyValue(schema);
+
+  switch (schema.type) {
+    case 'string': {
+      const text = textOf(value);
+      if (text === null) {
+        issues.push(`${where}: expected text`);
+        return emptyValue(schema);
+      }
+      if (!schema.enum) return text.trim();
+      const match = schema.enum.find(option => option.toLowerCase() === text.trim().toLowerCase());
+      if (match) return match;
+      if (schema.default !== undefined) return schema.default;
+      issues.push(`${where}: "${text}" is not one of ${schema.enum.map(o => `"${o}"`).join(', ')}`);
+      return schema.enum[0];
+    }
+
+    case 'number':
+    case 'integer': {
+      const number = typeof value === 'number' ? value : parseFloat(String(value).replace(/[^0-9.+-]/g, ''));
+      if (!Number.isFinite(number)) {
+        issues.push(`${where}: expected a number`);
+        return emptyValue(schema);
+      }
+      const clamped = Math.min(schema.maximum ?? Infinity, Math.max(schema.minimum ?? -Infinity, number));
+      return schema.type === 'integer' ? Math.round(clamped) : clamped;
+    }
+
+    case 'boolean':
+      if (typeof value === 'boolean') return value;
+      if (value === 'true' || value === 'false') return value === 'true';
+      issues.push(`${where}: expected true or false`);
+      return false;
+
+    case 'array': {
+      // A lone item where a list was asked for is still usable
+      const items = Array.isArray(value) ? value : [value];
+      if (!Array.isArray(value) && schema.items?.type === 'object' && typeof value !== 'object') {
+        issues.push(`${where}: expected a list`);
+        return [];
+      }
+      const limited = schema.maxItems !== undefined ? items.slice(0, schema.maxItems) : items;
+      return schema.items
+        ? limited.filter(item => !isMissing(item)).map((item, i) => coerce(item, schema.items!, `${path}[${i}]`, issues))
+        : limited;
+    }
+
+    case 'object': {
+      if (typeof value !== 'object' || Array.isArray(value)) {
+        issues.push(`${where}: expected an object`);
+        return emptyValue(schema);
+      }
+      if (!schema.properties) return value; // Free-form
+      const source = value as Record<string, unknown>;
+      return Object.fromEntries(Object.entries(schema.properties).map(([key, propertySchema]) => {
+        const childPath = path ? `${path}.${key}` : key;
+        if (isMissing(source[key]) && schema.required?.includes(key)) {
+          issues.push(`${childPath}: missing`);
+        }
+        return [key, coerce(source[key], propertySchema, childPath, issues)];
+      }));
+    }
+  }
+};
+
+/** Checks `value` against `schema` and returns the coerced value together with any issues. */
+export const checkSchema = <T>(value: unknown, schema: LlmSchema): SchemaCheck<T> => {
+  const issues: string[] = [];
+  return { value: coerce(value, schema, '', issues) as T, issues };
+};
+
+/**
+ * A JSON-like outline of the schema for prompts, for calls that can't send a response format
+ * (search-grounded ones) and for models that follow an example better than a format.
+ */
+export const describeSchema = (schema: LlmSchema, indent = ''): string => {
+  const next = `${indent}  `;
+  switch (schema.type) {
+    case 'object': {
+      const entries = Object.entries(schema.properties || {});
+      if (entries.length === 0) return '{}';
+      const lines = entries.map(([key, s]) => `${next}"${key}": ${describeSchema(s, next)}`);
+      return `{\n${lines.join(',\n')}\n${indent}}`;
+    }
+    case 'array':
+      return `[${schema.items ? describeSchema(schema.items, indent) : ''}]`;
+    case 'string':
+      return schema.enum ? schema.enum.map(o => `"${o}"`).join(' | ') : '"string"';
+    case 'number':
+    case 'integer':
+      return schema.minimum !== undefined && schema.maximum !== undefined
+        ? `${schema.type} (${schema.minimum}-${schema.maximum})`
+        : schema.type;
+    default:
+      return schema.type;
+  }
+};
@@ -0,0 +1,78 @@
+import { LlmClient, LlmJsonRequest, LlmMessage, LlmSchema, LlmSource } from "./types";
+import { LlmError, toLlmError } from "./errors";
+import { checkSchema } from "./schema";
+import { parseJsonText } from "./json";
+
+export interface StructuredRequest extends LlmJsonRequest {
+  schema: LlmSchema;
+  /** Answer with web search. Search can't be combined with a response format, so the schema then only checks. */
+  grounded?: boolean;
+  /** Tidies the parsed answer before it is checked, e.g. turning bullet arrays into text. */
+  prepare?: (raw: any) => unknown;
+}
+
+export interface StructuredResult<T> {
+  value: T;
+  sources: LlmSource[]; // Pages a grounded call searched
+}
+
+const MAX_ISSUES_IN_PROMPT = 15;
+
+/**
+ * Asks for JSON matching `request.schema` and validates the answer against it. An answer that
+ * doesn't parse or match is sent back once with the list of problems for the model to repair;
+ * if the repaired answer still fails, this throws a 'malformed' LlmError naming what was wrong.
+ */
+export const generateStructured = async <T>(llm: LlmClient, request: StructuredRequest): Promise<StructuredResult<T>> => {
+  const { grounded, prepare = (raw: any) => raw, ...jsonRequest } = request;
+  let sources: LlmSource[] = [];
+  let answer: string | null = null;
+  let issues: string[];
+
+  try {
+    let raw: unknown;
+    if (grounded) {
+      const response = await llm.generateGrounded(jsonRequest);
+      sources = response.sources;
+      answer = response.text;
+      raw = parseJsonText(response.text);
+    } else {
+      raw = await llm.generateJson(jsonRequest);
+      answer = JSON.stringify(raw);
+    }
+    const check = checkSchema<T>(prepare(raw), request.schema);
+    if (check.issues.length === 0) return { value: check.value, sources };
+    issues = check.issues;
+  } catch (error) {
+    const llmError = toLlmError(error);
+    if (llmError.kind !== 'malformed') throw llmError;
+    issues = ['the answer was not valid JSON'];
+  }
+
+  console.warn("Structured answer failed validation, asking the model to repair it:", issues);
+  const listed = issues.slice(0, MAX_ISSUES_IN_PROMPT).map(issue => `- ${issue}`).join('\n');
+  const instruction = `Your answer does not match the required JSON format:\n${listed}\n\nReply with the complete corrected JSON object only.`;
+  const turns: LlmMessage[] = typeof request.prompt === 'string' ? [{ role: 'user', text: request.prompt }] : [...request.prompt];
+  if (answer) {
+    turns.push({ role: 'model', text: answer }, { role: 'user', text: instruction });
+  } else {
+    const last = turns[turns.length - 1];
+    turns[turns.length - 1] = { ...last, text: `${last.text}\n\n${instruction}` };
+  }
+
+  try {
+    const repaired = await llm.generateJson({ ...jsonRequest, prompt: turns });
+    const check = checkSchema<T>(prepare(repaired), request.schema);
+    if (check.issues.length === 0) return { value: check.value, sources };
+    issues = check.issues;
+  } catch (error) {
+    const llmError = toLlmError(error);
+    if (llmError.kind !== 'malformed') throw llmError;
+    issues = ['the answer was not valid JSON'];
+  }
+
+  throw new LlmError(
+    'malformed',
+    `The AI's answer didn't match the expected format, even after asking it to fix it (${issues.slice(0, 3).join('; ')}${issues.length > 3 ? '; ...' : ''}). Please try again.`
+  );
+};
@@ -0,0 +1,112 @@
+export type LlmProvider = 'gemini' | 'openai' | 'fixture';
+
+/**
+ * Which backend the AI features talk to. Read from the build env and overridable per browser
+ * from Settings, so switching to a local model never means editing the service functions.
+ */
+export interface LlmConfig {
+  provider: LlmProvider;
+  model: string;
+  apiKey: string;
+  baseUrl: string; // OpenAI-compatible servers only, e.g. http://localhost:11434/v1 for Ollama
+  embeddingModel: string; // Empty uses the provider's default, if it has one
+}
+
+/**
+ * Provider-neutral subset of JSON Schema used to ask for structured output.
+ * Gemini receives it as a responseSchema, OpenAI-compatible servers as a json_schema response format,
+ * and `checkSchema` validates the answer against it.
+ */
+export interface LlmSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  properties?: Record<string, LlmSchema>;
+  items?: LlmSchema;
+  required?: string[];
+  enum?: string[];
+  description?: string;
+  minimum?: number; // Numbers outside the range are clamped
+  maximum?: number;
+  maxItems?: number; // Longer lists are cut
+  default?: unknown; // Used when the field is missing, or for an unknown enum value
+}
+
+/** A file sent inline with the prompt, as raw base64 without the data: prefix. */
+export interface LlmAttachment {
+  data: string;
+  mimeType: string;
+}
+
+export interface LlmMessage {
+  role: 'user' | 'model';
+  text: string;
+}
+
+/** Token counts a provider reported for one response. */
+export interface LlmUsage {
+  inputTokens: number;
+  outputTokens: number;
+  model?: string; // When the response came from a different model than the client's, e.g. an image model
+}
+
+export interface LlmRequest {
+  /** A single prompt, or a conversation that ends with the user's turn. */
+  prompt: string | LlmMessage[];
+  system?: string;
+  /** Sent before the prompt text in the last user turn. */
+  attachments?: LlmAttachment[];
+  /** Cancels the request. */
+  signal?: AbortSignal;
+  /** Overrides the call policy's time limit, e.g. for a large attachment. */
+  timeoutMs?: number;
+  /** Receives the token counts of each response, when the provider reports them. */
+  onUsage?: (usage: LlmUsage) => void;
+}
+
+export interface LlmJsonRequest extends LlmRequest {
+  schema?: LlmSchema; // Without one the model is only asked for a JSON object
+}
+
+export interface LlmImageRequest {
+  prompt: string;
+  image?: LlmAttachment; // Source image to transform
+  signal?: AbortSignal;
+  onUsage?: (usage: LlmUsage) => void;
+}
+
+export interface LlmSource {
+  title: string;
+  url: string;
+}
+
+/** Embeddings are tuned differently for the stored text and the question searching it. */
+export type EmbeddingPurpose = 'document' | 'query';
+
+export interface GroundedResponse {
+  text: string;
+  sources: LlmSource[]; // Pages the answer was grounded on, when the provider can search
+}
+
+/**
+ * The one surface the service layer calls. Implementations throw on transport or API errors;
+ * clients from `getLlmClient` are wrapped in the call policy, which turns those into LlmErrors.
+ */
+export interface LlmClient {
+  provider: LlmProvider;
+  model: string;
+  /** Whether search-grounded calls actually search, rather than answering from the model alone. */
+  supportsSearch: boolean;
+  supportsImages: boolean;
+  /** Null when the provider can't embed; retrieval then ranks lexically. */
+  embeddingModel: string | null;
+
+  generateText: (request: LlmRequest) => Promise<string>;
+  /** Yields the answer in pieces as it is generated. Aborting the signal cancels the request. */
+  streamText: (request: LlmRequest, signal?: AbortSignal) => AsyncGenerator<string>;
+  /** Resolves the parsed JSON value; validating its shape is up to the caller. */
+  generateJson: (request: LlmJsonRequest) => Promise<unknown>;
+  generateGrounded: (request: LlmRequest) => Promise<GroundedResponse>;
+  /** Resolves a data: URL. */
+  generateImage: (request: LlmImageRequest) => Promise<string>;
+  /** One vector per text, in order. Throws when `embeddingModel` is null. */
+  embed: (texts: string[], purpose: EmbeddingPurpose, signal?: AbortSignal, onUsage?: (usage: LlmUsage) => void) => Promise<number[][]>;
+}
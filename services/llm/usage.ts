@@ -0,0 +1,254 @@
+import { LlmClient, LlmProvider, LlmUsage } from "./types";
+import { LlmError, LlmErrorKind, toLlmError } from "./errors";
+import { estimateCost } from "./pricing";
+
+/**
+ * Local ledger of every model call: which feature made it, the tokens the provider reported,
+ * how long it took and whether it worked. Kept in this browser's IndexedDB and never synced.
+ * Optional monthly caps, checked before each call, stop the app from spending past a budget.
+ */
+
+export type UsageMethod = 'text' | 'stream' | 'json' | 'grounded' | 'image' | 'embed';
+
+export interface UsageRecord {
+  id?: number; // Assigned by IndexedDB
+  at: number;
+  feature: string; // The service function that made the call, e.g. 'runAgentResearch'
+  provider: LlmProvider;
+  model: string;
+  method?: UsageMethod; // Missing for cache hits
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number; // Estimated with the prices known at the time of the call
+  latencyMs: number;
+  cacheHit: boolean; // Answered from the response cache without calling the model
+  ok: boolean;
+  errorKind?: LlmErrorKind;
+}
+
+export interface UsageBudget {
+  monthlyCostUsd: number | null; // Null for no cap
+  monthlyTokens: number | null;
+}
+
+export interface UsageTotals {
+  calls: number;
+  tokens: number;
+  costUsd: number;
+}
+
+const DB_NAME = 'jobjumper_ai_usage';
+const STORE = 'calls';
+const BUDGET_KEY = 'aiUsageBudget';
+const RETENTION_MS = 400 * 24 * 60 * 60 * 1000; // A little over a year, enough for month-on-month comparisons
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+// This month's totals, reloaded after every write so a cap holds across concurrent calls
+let monthTotals: { month: number; totals: Promise<UsageTotals> } | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE, { keyPath: 'id', autoIncrement: true }).createIndex('at', 'at');
+      };
+      request.onsuccess = () => {
+        // Old records are dropped once per session
+        const index = request.result.transaction(STORE, 'readwrite').objectStore(STORE).index('at');
+        const expired = index.openCursor(IDBKeyRange.upperBound(Date.now() - RETENTION_MS, true));
+        expired.onsuccess = () => {
+          expired.result?.delete();
+          expired.result?.continue();
+        };
+        resolve(request.result);
+      };
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return dbPromise;
+};
+
+const startOfMonth = (time = Date.now()) => {
+  const date = new Date(time);
+  return new Date(date.getFullYear(), date.getMonth(), 1).getTime();
+};
+
+/** Totals over records that actually reached the model; cache hits cost nothing. */
+export const sumUsage = (records: UsageRecord[]): UsageTotals => records.reduce(
+  (totals, r) => r.cacheHit ? totals : {
+    calls: totals.calls + 1,
+    tokens: totals.tokens + r.inputTokens + r.outputTokens,
+    costUsd: totals.costUsd + r.costUsd,
+  },
+  { calls: 0, tokens: 0, costUsd: 0 }
+);
+
+/** Records made at or after `since`, oldest first. */
+export const listUsage = async (since = 0): Promise<UsageRecord[]> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = db.transaction(STORE, 'readonly').objectStore(STORE).index('at').getAll(IDBKeyRange.lowerBound(since));
+    request.onsuccess = () => resolve(request.result as UsageRecord[]);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const getMonthUsage = (): Promise<UsageTotals> => {
+  const month = startOfMonth();
+  if (!monthTotals || monthTotals.month !== month) {
+    const totals = listUsage(month).then(sumUsage);
+    monthTotals = { month, totals };
+    totals.catch(() => { if (monthTotals?.totals === totals) monthTotals = null; });
+  }
+  return monthTotals.totals;
+};
+
+/** Adds a record, pricing it from its model when no cost is given. Never throws. */
+export const recordUsage = async (record: Omit<UsageRecord, 'id' | 'costUsd'> & { costUsd?: number }) => {
+  const row: UsageRecord = { ...record, costUsd: record.costUsd ?? estimateCost(record.model, record.inputTokens, record.outputTokens) };
+  try {
+    const db = await openDb();
+    await new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(STORE, 'readwrite');
+      tx.objectStore(STORE).add(row);
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+    monthTotals = null;
+  } catch (e) {
+    console.warn("Failed to record AI usage", e);
+  }
+};
+
+export const clearUsage = async () => {
+  const db = await openDb();
+  await new Promise<void>((resolve, reject) => {
+    const tx = db.transaction(STORE, 'readwrite');
+    tx.objectStore(STORE).clear();
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+  monthTotals = null;
+};
+
+export const getUsageBudget = (): UsageBudget => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(BUDGET_KEY) || 'null');
+    const cap = (value: unknown) => typeof value === 'number' && value > 0 ? value : null;
+    return { monthlyCostUsd: cap(saved?.monthlyCostUsd), monthlyTokens: cap(saved?.monthlyTokens) };
+  } catch (e) {
+    console.error("Failed to read AI usage budget", e);
+    return { monthlyCostUsd: null, monthlyTokens: null };
+  }
+};
+
+export const saveUsageBudget = (budget: UsageBudget) => {
+  if (budget.monthlyCostUsd === null && budget.monthlyTokens === null) {
+    localStorage.removeItem(BUDGET_KEY);
+  } else {
+    localStorage.setItem(BUDGET_KEY, JSON.stringify(budget));
+  }
+};
+
+/** Throws a 'budget' LlmError when this month's usage has reached a cap. */
+export const checkBudget = async () => {
+  const budget = getUsageBudget();
+  if (budget.monthlyCostUsd === null && budget.monthlyTokens === null) return;
+  let month: UsageTotals;
+  try {
+    month = await getMonthUsage();
+  } catch (e) {
+    console.warn("AI usage ledger unavailable, budget not enforced", e);
+    return;
+  }
+  if (budget.monthlyCostUsd !== null && month.costUsd >= budget.monthlyCostUsd) {
+    throw new LlmError('budget', `You've reached this month's AI budget of $${budget.monthlyCostUsd.toFixed(2)}. Raise or remove the cap in Settings → App Preferences → AI Usage.`);
+  }
+  if (budget.monthlyTokens !== null && month.tokens >= budget.monthlyTokens) {
+    throw new LlmError('budget', `You've used this month's cap of ${budget.monthlyTokens.toLocaleString()} AI tokens. Raise or remove the cap in Settings → App Preferences → AI Usage.`);
+  }
+};
+
+/**
+ * Checks the budget, then returns a meter for one call: pass `track()` as the call's onUsage and
+ * call `end()` once it settles, with the error if it failed.
+ */
+const meterCall = async (call: { feature: string; provider: LlmProvider; model: string; method: UsageMethod }) => {
+  await checkBudget();
+  const startedAt = Date.now();
+  let model = call.model;
+  let inputTokens = 0;
+  let outputTokens = 0;
+
+  return {
+    track: (forward?: (usage: LlmUsage) => void) => (usage: LlmUsage) => {
+      inputTokens += usage.inputTokens;
+      outputTokens += usage.outputTokens;
+      if (usage.model) model = usage.model;
+      forward?.(usage);
+    },
+    end: (error?: unknown) => {
+      const failure = error === undefined ? null : toLlmError(error);
+      recordUsage({
+        ...call,
+        model,
+        at: startedAt,
+        inputTokens,
+        outputTokens,
+        latencyMs: Date.now() - startedAt,
+        cacheHit: false,
+        ok: !failure,
+        ...(failure && { errorKind: failure.kind }),
+      });
+    },
+  };
+};
+
+/** Wraps a client so every call is checked against the budget and recorded under `feature`. */
+export const withUsageLedger = (client: LlmClient, feature: string): LlmClient => {
+  const metered = async <T>(method: UsageMethod, run: (meter: Awaited<ReturnType<typeof meterCall>>) => Promise<T>, model = client.model): Promise<T> => {
+    const meter = await meterCall({ feature, provider: client.provider, model, method });
+    try {
+      const result = await run(meter);
+      meter.end();
+      return result;
+    } catch (e) {
+      meter.end(e);
+      throw e;
+    }
+  };
+
+  return {
+    ...client,
+
+    generateText: (request) =>
+      metered('text', meter => client.generateText({ ...request, onUsage: meter.track(request.onUsage) })),
+
+    generateJson: (request) =>
+      metered('json', meter => client.generateJson({ ...request, onUsage: meter.track(request.onUsage) })),
+
+    generateGrounded: (request) =>
+      metered('grounded', meter => client.generateGrounded({ ...request, onUsage: meter.track(request.onUsage) })),
+
+    generateImage: (request) =>
+      metered('image', meter => client.generateImage({ ...request, onUsage: meter.track(request.onUsage) })),
+
+    embed: (texts, purpose, signal, onUsage) =>
+      metered('embed', meter => client.embed(texts, purpose, signal, meter.track(onUsage)), client.embeddingModel || client.model),
+
+    async *streamText(request, signal) {
+      const meter = await meterCall({ feature, provider: client.provider, model: client.model, method: 'stream' });
+      let failure: unknown = new LlmError('aborted'); // Stays set if the reader stops early
+      try {
+        yield* client.streamText({ ...request, onUsage: meter.track(request.onUsage) }, signal);
+        failure = undefined;
+      } catch (e) {
+        failure = e;
+        throw e;
+      } finally {
+        meter.end(failure);
+      }
+    },
+  };
+};
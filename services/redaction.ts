@@ -0,0 +1,180 @@
+import { Resume } from "../types";
+import { LlmClient, LlmRequest } from "./llm";
+
+/**
+ * Keeps personal identifiers out of prompts. Chosen resume fields are swapped for placeholders
+ * like [[CANDIDATE_EMAIL]] before a request leaves the browser, and the real values are put back
+ * into whatever the model answers. Privacy mode always redacts the contact details.
+ */
+
+export type PiiField = 'fullName' | 'email' | 'phone' | 'linkedin' | 'location';
+
+export const PII_FIELD_LABELS: Record<PiiField, string> = {
+  fullName: 'Full name',
+  email: 'Email',
+  phone: 'Phone',
+  linkedin: 'LinkedIn',
+  location: 'Location',
+};
+
+/** Always redacted in privacy mode. */
+export const CONTACT_FIELDS: PiiField[] = ['email', 'phone', 'linkedin'];
+
+const PLACEHOLDERS: Record<PiiField, string> = {
+  fullName: '[[CANDIDATE_NAME]]',
+  email: '[[CANDIDATE_EMAIL]]',
+  phone: '[[CANDIDATE_PHONE]]',
+  linkedin: '[[CANDIDATE_LINKEDIN]]',
+  location: '[[CANDIDATE_LOCATION]]',
+};
+
+export interface RedactionSettings {
+  fields: Record<PiiField, boolean>; // Whether each field is replaced with its placeholder
+  privacyMode: boolean;
+}
+
+export const DEFAULT_REDACTION_SETTINGS: RedactionSettings = {
+  fields: { fullName: false, email: true, phone: true, linkedin: true, location: false },
+  privacyMode: false,
+};
+
+const SETTINGS_KEY = 'redactionSettings';
+
+// Shorter values (a location like "NY") would also match unrelated words in free text
+const MIN_FREE_TEXT_LENGTH = 4;
+
+const SYSTEM_NOTE = "Some of the candidate's personal details appear as placeholders such as [[CANDIDATE_EMAIL]]. Copy a placeholder exactly wherever that detail belongs; it is filled in afterwards. Never invent the detail itself.";
+
+export const getRedactionSettings = (): RedactionSettings => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(SETTINGS_KEY) || 'null');
+    if (saved) {
+      return {
+        fields: { ...DEFAULT_REDACTION_SETTINGS.fields, ...saved.fields },
+        privacyMode: !!saved.privacyMode,
+      };
+    }
+  } catch (e) {
+    console.error("Failed to read redaction settings", e);
+  }
+  return DEFAULT_REDACTION_SETTINGS;
+};
+
+export const saveRedactionSettings = (settings: RedactionSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+/** The fields that are replaced under `settings`, with privacy mode's contact fields added. */
+export const redactedFields = (settings = getRedactionSettings()): PiiField[] =>
+  (Object.keys(PII_FIELD_LABELS) as PiiField[]).filter(field =>
+    settings.fields[field] || (settings.privacyMode && CONTACT_FIELDS.includes(field)));
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Catches the same value written differently, e.g. a phone number with other separators
+const valuePattern = (field: PiiField, value: string): RegExp | null => {
+  if (field === 'phone') {
+    // The last ten digits, so the number still matches when written without its country code
+    const digits = value.replace(/\D/g, '').slice(-10);
+    return digits.length >= 7 ? new RegExp(`(\\+\\d{1,3}[\\s.-]*)?\\(?${digits.split('').join('[\\s().-]*')}`, 'g') : null;
+  }
+  if (field === 'linkedin') {
+    const path = value.replace(/^(https?:\/\/)?(www\.)?/i, '').replace(/\/+$/, '');
+    return path.length >= MIN_FREE_TEXT_LENGTH ? new RegExp(`(https?:\\/\\/)?(www\\.)?${escapeRegExp(path)}\\/?`, 'gi') : null;
+  }
+  return value.length >= MIN_FREE_TEXT_LENGTH ? new RegExp(escapeRegExp(value), 'gi') : null;
+};
+
+// Models sometimes add spaces inside the brackets or change the case
+const placeholderPattern = (field: PiiField) =>
+  new RegExp(`\\[\\[\\s*${PLACEHOLDERS[field].slice(2, -2).replace('_', '[_ ]')}\\s*\\]\\]`, 'gi');
+
+export interface Redactor {
+  /** The resume with redacted fields replaced by their placeholders. */
+  resume: Resume;
+  /** Whether anything is redacted at all. */
+  active: boolean;
+  /** Replaces the redacted values wherever they appear in free text, e.g. notes or a pasted letter. */
+  redact: (text: string) => string;
+  /** Puts the real values back into every string inside `value`. */
+  restore: <T>(value: T) => T;
+}
+
+export const createRedactor = (resume: Resume, settings = getRedactionSettings()): Redactor => {
+  const fields = redactedFields(settings).filter(field => resume[field]?.trim());
+  const patterns = fields
+    .map(field => ({ field, pattern: valuePattern(field, resume[field].trim()) }))
+    .sort((a, b) => resume[b.field].length - resume[a.field].length); // Longest first, e.g. a URL containing the name
+
+  const restoreText = (text: string) => fields.reduce(
+    (result, field) => result.replace(placeholderPattern(field), () => resume[field]),
+    text
+  );
+
+  const restore = <T>(value: T): T => {
+    if (typeof value === 'string') return restoreText(value) as T;
+    if (Array.isArray(value)) return value.map(restore) as T;
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([key, v]) => [key, restore(v)])) as T;
+    }
+    return value;
+  };
+
+  return {
+    resume: { ...resume, ...Object.fromEntries(fields.map(field => [field, PLACEHOLDERS[field]])) },
+    active: fields.length > 0,
+    redact: (text) => patterns.reduce(
+      (result, { field, pattern }) => pattern ? result.replace(pattern, PLACEHOLDERS[field]) : result,
+      text
+    ),
+    restore,
+  };
+};
+
+// A placeholder split across streamed pieces is held back until it is complete
+const PARTIAL_PLACEHOLDER = /\[(\[[A-Za-z_ ]*\]?)?$/;
+
+/**
+ * Wraps a client so every request is redacted with `redactor` and every answer restored.
+ * With `restoreAnswers` false answers keep their placeholders, e.g. to be cached and restored later.
+ */
+export const withRedaction = (llm: LlmClient, redactor: Redactor, restoreAnswers = true): LlmClient => {
+  if (!redactor.active) return llm;
+  const restore = restoreAnswers ? redactor.restore : <T>(value: T) => value;
+
+  const redactRequest = <R extends LlmRequest>(request: R): R => ({
+    ...request,
+    prompt: typeof request.prompt === 'string'
+      ? redactor.redact(request.prompt)
+      : request.prompt.map(message => ({ ...message, text: redactor.redact(message.text) })),
+    system: [request.system && redactor.redact(request.system), SYSTEM_NOTE].filter(Boolean).join('\n\n'),
+  });
+
+  return {
+    ...llm,
+
+    generateText: async (request) => restore(await llm.generateText(redactRequest(request))),
+
+    generateJson: async (request) => restore(await llm.generateJson(redactRequest(request))),
+
+    generateGrounded: async (request) => {
+      const response = await llm.generateGrounded(redactRequest(request));
+      return { ...response, text: restore(response.text) };
+    },
+
+    async *streamText(request, signal) {
+      let pending = '';
+      for await (const piece of llm.streamText(redactRequest(request), signal)) {
+        pending += piece;
+        const hold = pending.match(PARTIAL_PLACEHOLDER)?.index ?? pending.length;
+        if (hold > 0) {
+          yield restore(pending.slice(0, hold));
+          pending = pending.slice(hold);
+        }
+      }
+      if (pending) yield restore(pending);
+    },
+
+    embed: (texts, purpose, signal, onUsage) => llm.embed(texts.map(redactor.redact), purpose, signal, onUsage),
+  };
+};
@@ -0,0 +1,128 @@
+import { LlmClient, recordUsage } from "./llm";
+
+/**
+ * Cache for the expensive AI calls (analysis, scoring, research, prep), kept in IndexedDB and keyed
+ * by a hash of the function, model and exact inputs, so asking the same question twice doesn't
+ * bill the API twice. Identical calls made while one is still running share its result.
+ */
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+/** How long a result stays fresh. Research goes stale with the news; a score only changes with its inputs. */
+export const CACHE_TTL = {
+  research: 12 * HOUR,
+  interviewPrep: 3 * DAY,
+  analyzer: 14 * DAY,
+  score: 30 * DAY,
+};
+
+export interface CacheOptions {
+  refresh?: boolean; // Ignore any saved result and replace it with a new one
+  onCached?: (savedAt: number) => void; // Called when a saved result is returned instead of calling the model
+}
+
+const DB_NAME = 'jobjumper_ai_cache';
+const STORE = 'responses';
+
+interface CacheRow {
+  key: string;
+  value: unknown;
+  savedAt: number;
+  expiresAt: number;
+}
+
+interface Lookup {
+  value: unknown;
+  savedAt: number | null; // Null when the model was actually called
+}
+
+const inFlight = new Map<string, { promise: Promise<Lookup>; refresh: boolean }>();
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => request.result.createObjectStore(STORE, { keyPath: 'key' });
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return dbPromise;
+};
+
+const readRow = async (key: string): Promise<CacheRow | undefined> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = db.transaction(STORE, 'readonly').objectStore(STORE).get(key);
+    request.onsuccess = () => resolve(request.result as CacheRow | undefined);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const writeRow = async (row: CacheRow) => {
+  const db = await openDb();
+  await new Promise<void>((resolve, reject) => {
+    const tx = db.transaction(STORE, 'readwrite');
+    tx.objectStore(STORE).put(row);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+};
+
+const hashInputs = async (text: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+/**
+ * Runs `call` unless a fresh result for the same function, model and inputs is saved.
+ * Only successful results are saved; a call that throws leaves the cache untouched.
+ */
+export const cachedCall = async <T>(
+  name: string,
+  llm: LlmClient,
+  inputs: unknown,
+  ttlMs: number,
+  call: () => Promise<T>,
+  options: CacheOptions = {}
+): Promise<T> => {
+  const startedAt = Date.now();
+  const key = `${name}:${llm.provider}:${llm.model}:${await hashInputs(JSON.stringify(inputs))}`;
+
+  // A refresh must not pick up a saved result another caller is about to return
+  const pending = inFlight.get(key);
+  const promise = pending && (pending.refresh || !options.refresh) ? pending.promise : (async (): Promise<Lookup> => {
+    if (!options.refresh) {
+      try {
+        const row = await readRow(key);
+        if (row && row.expiresAt > Date.now()) return { value: row.value, savedAt: row.savedAt };
+      } catch (e) {
+        console.warn("AI response cache unavailable", e);
+      }
+    }
+    const value = await call();
+    const savedAt = Date.now();
+    writeRow({ key, value, savedAt, expiresAt: savedAt + ttlMs })
+      .catch(e => console.warn("Failed to cache AI response", e));
+    return { value, savedAt: null };
+  })();
+
+  if (promise !== pending?.promise) {
+    inFlight.set(key, { promise, refresh: !!options.refresh });
+    const clear = () => { if (inFlight.get(key)?.promise === promise) inFlight.delete(key); };
+    promise.then(clear, clear);
+  }
+
+  const { value, savedAt } = await promise;
+  if (savedAt !== null) {
+    options.onCached?.(savedAt);
+    // Logged so the usage panel can show how many calls the cache saved
+    recordUsage({
+      at: startedAt, feature: name, provider: llm.provider, model: llm.model,
+      inputTokens: 0, outputTokens: 0, costUsd: 0, latencyMs: Date.now() - startedAt, cacheHit: true, ok: true,
+    });
+  }
+  return value as T;
+};
@@ -0,0 +1,151 @@
+import { Job, ResearchReport, InterviewPrepReport, Resume } from "../types";
+import { getLlmClient, LlmClient } from "./llm";
+import { createRedactor, getRedactionSettings, withRedaction } from "./redaction";
+import { Chunk, RetrievedChunk, collectChunks, rankBm25, cosineSimilarity } from "../lib/retrieval";
+
+/**
+ * Local search over the user's notes, JDs, interview logs and saved reports.
+ *
+ * Passages are embedded through the LLM layer and the vectors cached in IndexedDB, keyed by
+ * embedding model and passage text, so only new or edited material is ever sent again.
+ * Without an embedding model (or when embedding fails) passages are ranked with BM25 instead.
+ * Privacy mode keeps passages on this device, so they are only ever ranked with BM25 then.
+ */
+
+export interface KnowledgeSources {
+  jobs: Job[];
+  researchReports: ResearchReport[];
+  prepReports: InterviewPrepReport[];
+  resume: Resume; // Whose personal details are redacted before passages are embedded
+}
+
+export interface RetrievalResult {
+  chunks: RetrievedChunk[];
+  method: 'embedding' | 'keyword';
+}
+
+const DB_NAME = 'jobjumper_retrieval';
+const STORE = 'embeddings';
+const MIN_SIMILARITY = 0.3; // Below this an embedding match is noise rather than a related passage
+
+interface EmbeddingRow {
+  key: string;
+  vector: number[];
+}
+
+// Vectors already read or computed this session
+const memoryCache = new Map<string, number[]>();
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => request.result.createObjectStore(STORE, { keyPath: 'key' });
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return dbPromise;
+};
+
+const readVectors = async (keys: string[]): Promise<Map<string, number[]>> => {
+  const found = new Map<string, number[]>();
+  const db = await openDb();
+  const store = db.transaction(STORE, 'readonly').objectStore(STORE);
+  await Promise.all(keys.map(key => new Promise<void>(resolve => {
+    const request = store.get(key);
+    request.onsuccess = () => {
+      const row = request.result as EmbeddingRow | undefined;
+      if (row) found.set(key, row.vector);
+      resolve();
+    };
+    request.onerror = () => resolve(); // A missing vector is just recomputed
+  })));
+  return found;
+};
+
+const writeVectors = async (rows: EmbeddingRow[]) => {
+  const db = await openDb();
+  await new Promise<void>((resolve, reject) => {
+    const tx = db.transaction(STORE, 'readwrite');
+    rows.forEach(row => tx.objectStore(STORE).put(row));
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+};
+
+// Cheap content hash (FNV-1a); the key only has to change when the text does
+const hashText = (text: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `${(hash >>> 0).toString(36)}${text.length.toString(36)}`;
+};
+
+const vectorKey = (model: string, chunk: Chunk) => `${model}|${hashText(`${chunk.title}\n${chunk.text}`)}`;
+
+/** Returns a vector for every chunk, embedding only the ones not cached yet. */
+const ensureEmbeddings = async (llm: LlmClient, model: string, chunks: Chunk[], signal?: AbortSignal): Promise<number[][]> => {
+  const keys = chunks.map(chunk => vectorKey(model, chunk));
+  const unknown = keys.filter(key => !memoryCache.has(key));
+  if (unknown.length > 0) {
+    try {
+      (await readVectors(unknown)).forEach((vector, key) => memoryCache.set(key, vector));
+    } catch (e) {
+      console.warn("Embedding cache unavailable", e);
+    }
+  }
+
+  const missing = chunks.filter((_, i) => !memoryCache.has(keys[i]));
+  if (missing.length > 0) {
+    const vectors = await llm.embed(missing.map(c => `${c.title}\n${c.text}`), 'document', signal);
+    const rows = missing.map((chunk, i) => ({ key: vectorKey(model, chunk), vector: vectors[i] || [] }));
+    rows.forEach(row => memoryCache.set(row.key, row.vector));
+    writeVectors(rows).catch(e => console.warn("Failed to cache embeddings", e));
+  }
+  return keys.map(key => memoryCache.get(key) || []);
+};
+
+// Null in privacy mode or when the provider can't embed
+const getEmbeddingClient = (feature: string, resume: Resume): LlmClient | null => {
+  if (getRedactionSettings().privacyMode) return null;
+  const llm = getLlmClient(feature);
+  return llm?.embeddingModel ? withRedaction(llm, createRedactor(resume)) : null;
+};
+
+/** Finds the passages most relevant to `query`, best first. Aborting `signal` stops the embedding calls. */
+export const searchKnowledge = async (query: string, sources: KnowledgeSources, signal?: AbortSignal, limit = 6): Promise<RetrievalResult> => {
+  const chunks = collectChunks(sources.jobs, sources.researchReports, sources.prepReports);
+  if (chunks.length === 0 || !query.trim()) return { chunks: [], method: 'keyword' };
+
+  const llm = getEmbeddingClient('searchKnowledge', sources.resume);
+  if (llm) {
+    try {
+      const [vectors, [queryVector]] = await Promise.all([
+        ensureEmbeddings(llm, `${llm.provider}:${llm.embeddingModel}`, chunks, signal),
+        llm.embed([query], 'query', signal),
+      ]);
+      const ranked = chunks
+        .map((chunk, i) => ({ ...chunk, score: cosineSimilarity(queryVector, vectors[i]) }))
+        .filter(c => c.score >= MIN_SIMILARITY)
+        .sort((a, b) => b.score - a.score);
+      return { chunks: ranked.slice(0, limit), method: 'embedding' };
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      console.warn("Embedding search failed, using keyword search instead:", error);
+    }
+  }
+  return { chunks: rankBm25(query, chunks).slice(0, limit), method: 'keyword' };
+};
+
+/** Embeds anything new in the background, so the first question doesn't wait for indexing. */
+export const warmKnowledgeIndex = (sources: KnowledgeSources) => {
+  const llm = getEmbeddingClient('warmKnowledgeIndex', sources.resume);
+  if (!llm) return;
+  const chunks = collectChunks(sources.jobs, sources.researchReports, sources.prepReports);
+  ensureEmbeddings(llm, `${llm.provider}:${llm.embeddingModel}`, chunks)
+    .catch(error => console.warn("Background indexing failed:", error));
+};
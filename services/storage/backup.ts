@@ -0,0 +1,221 @@
+import { Job, Resume, ChatMessage, ChatThread, ResearchReport, InterviewPrepReport, PipelineStage, ResumeLibrary, ResumeSnapshot } from "../../types";
+import { StorageRepository, StorageSnapshot } from "./types";
+import { threadFromHistory } from "./chatThreads";
+import { stampVersion } from "./syncQueue";
+import { generateId } from "../../lib/id";
+
+/**
+ * Backup file format.
+ *   v1: the original Settings export ({ userProfile, jobApplications, stats, exportDate }).
+ *   v2: every user-owned collection, wrapped in a { format, version, data } envelope.
+ *   v3: chat history split into threads (`chatThreads` instead of `chatHistory`).
+ *   v4: the resume library and its snapshots.
+ */
+export const BACKUP_FORMAT = 'jobjumper-ai-backup';
+export const BACKUP_VERSION = 4;
+
+export interface BackupData extends Omit<StorageSnapshot, 'resume'> {
+  resume: Resume | null; // Old exports may not include one
+  pipelineStages: PipelineStage[] | null;
+  resumeLibrary: ResumeLibrary | null;
+}
+
+export interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: string;
+  data: BackupData;
+}
+
+export type RestoreMode = 'merge' | 'replace';
+
+interface CollectionPlan<T> {
+  insert: T[];
+  deleteIds: string[];
+  skipped: number; // Identical records already present
+  reassigned: number; // Records whose id collided with a different existing record
+}
+
+export interface RestorePlan {
+  mode: RestoreMode;
+  jobs: CollectionPlan<Job>;
+  researchReports: CollectionPlan<ResearchReport>;
+  prepReports: CollectionPlan<InterviewPrepReport>;
+  resume: Resume | null; // null keeps the current resume
+  chatThreads: ChatThread[] | null; // null keeps the current threads
+  pipelineStages: PipelineStage[] | null;
+  resumeLibrary: ResumeLibrary | null; // Restored together with the resume
+  resumeSnapshots: ResumeSnapshot[]; // Snapshots are never replaced, only added
+}
+
+export const createBackup = (data: BackupData): BackupFile => ({
+  format: BACKUP_FORMAT,
+  version: BACKUP_VERSION,
+  exportedAt: new Date().toISOString(),
+  data,
+});
+
+const asArray = <T>(value: unknown, isValid: (item: any) => boolean): T[] =>
+  Array.isArray(value) ? value.filter(item => item && typeof item === 'object' && isValid(item)) : [];
+
+const isJob = (item: any) => typeof item.id === 'string' && typeof item.company === 'string' && typeof item.role === 'string';
+const isReport = (item: any) => typeof item.id === 'string' && typeof item.content === 'string';
+const isMessage = (item: any) => typeof item.id === 'string' && typeof item.text === 'string' && (item.role === 'user' || item.role === 'model');
+const isThread = (item: any) => typeof item.id === 'string' && Array.isArray(item.messages);
+const isStage = (item: any) => typeof item.id === 'string' && typeof item.name === 'string';
+const isSnapshot = (item: any) => typeof item.id === 'string' && typeof item.resumeId === 'string' && item.content && typeof item.content === 'object';
+const isLibrary = (item: any) => item && typeof item === 'object' && typeof item.activeId === 'string' && Array.isArray(item.resumes);
+
+/**
+ * Validates a parsed backup file and normalises older versions to the current shape.
+ * Throws with a user-facing message when the file is not a backup we understand.
+ */
+export const readBackup = (raw: unknown): BackupData => {
+  if (!raw || typeof raw !== 'object') {
+    throw new Error("This file is not a JobJumper backup.");
+  }
+  const file = raw as Record<string, any>;
+
+  if (file.format === BACKUP_FORMAT) {
+    if (typeof file.version !== 'number' || file.version > BACKUP_VERSION) {
+      throw new Error("This backup was made by a newer version of the app. Please update and try again.");
+    }
+    const data = file.data || {};
+    const stages = asArray<PipelineStage>(data.pipelineStages, isStage);
+    return {
+      jobs: asArray<Job>(data.jobs, isJob),
+      resume: data.resume && typeof data.resume === 'object' ? data.resume : null,
+      chatThreads: file.version < 3
+        ? threadFromHistory(asArray<ChatMessage>(data.chatHistory, isMessage))
+        : asArray<ChatThread>(data.chatThreads, isThread).map(t => ({
+            ...t,
+            title: typeof t.title === 'string' ? t.title : 'Imported conversation',
+            messages: asArray<ChatMessage>(t.messages, isMessage),
+          })),
+      researchReports: asArray<ResearchReport>(data.researchReports, isReport),
+      prepReports: asArray<InterviewPrepReport>(data.prepReports, isReport),
+      pipelineStages: stages.length > 0 ? stages : null,
+      resumeLibrary: isLibrary(data.resumeLibrary) ? data.resumeLibrary : null,
+      resumeSnapshots: asArray<ResumeSnapshot>(data.resumeSnapshots, isSnapshot),
+    };
+  }
+
+  // v1 exports had no envelope
+  if (Array.isArray(file.jobApplications) || file.userProfile) {
+    return {
+      jobs: asArray<Job>(file.jobApplications, isJob),
+      resume: file.userProfile && typeof file.userProfile === 'object' ? file.userProfile : null,
+      chatThreads: [],
+      researchReports: [],
+      prepReports: [],
+      pipelineStages: null,
+      resumeLibrary: null,
+      resumeSnapshots: [],
+    };
+  }
+
+  throw new Error("This file is not a JobJumper backup.");
+};
+
+// Sync metadata changes on every save, so it is ignored when deciding whether two records are the same
+const fingerprint = (record: object) => {
+  const { version, updatedAt, ...rest } = record as Record<string, unknown>;
+  return JSON.stringify(rest);
+};
+
+const planCollection = <T extends { id: string }>(current: T[], incoming: T[], mode: RestoreMode): CollectionPlan<T> => {
+  if (mode === 'replace') {
+    return { insert: incoming, deleteIds: current.map(r => r.id), skipped: 0, reassigned: 0 };
+  }
+  const existing = new Map(current.map(r => [r.id, fingerprint(r)]));
+  const plan: CollectionPlan<T> = { insert: [], deleteIds: [], skipped: 0, reassigned: 0 };
+  const seen = new Set<string>();
+  incoming.forEach(record => {
+    const print = fingerprint(record);
+    if (existing.get(record.id) === print || seen.has(print)) {
+      plan.skipped++;
+      return;
+    }
+    seen.add(print);
+    if (existing.has(record.id) || plan.insert.some(r => r.id === record.id)) {
+      // Same id, different content: keep both rather than silently overwriting either
+      plan.insert.push({ ...record, id: generateId() });
+      plan.reassigned++;
+    } else {
+      plan.insert.push(record);
+    }
+  });
+  return plan;
+};
+
+const isEmptyResume = (resume: Resume | null) =>
+  !resume || (!resume.fullName && resume.experience.length === 0);
+
+// Merged jobs may use stages the current pipeline doesn't have yet, so those are appended
+const mergeStages = (current: PipelineStage[] | null, incoming: PipelineStage[] | null): PipelineStage[] | null => {
+  if (!incoming) return null;
+  if (!current) return incoming;
+  const missing = incoming.filter(s => !current.some(c => c.id === s.id));
+  return missing.length > 0 ? [...current, ...missing] : null;
+};
+
+/** Works out what a restore would change, without writing anything, so it can be previewed. */
+export const planRestore = (current: BackupData, incoming: BackupData, mode: RestoreMode): RestorePlan => {
+  let chatThreads: ChatThread[] | null = null;
+  if (mode === 'replace') {
+    chatThreads = incoming.chatThreads;
+  } else {
+    // New threads are added; threads we already have pick up any messages they are missing
+    let changed = false;
+    const merged = current.chatThreads.map(thread => {
+      const match = incoming.chatThreads.find(t => t.id === thread.id);
+      const knownIds = new Set(thread.messages.map(m => m.id));
+      const added = match ? match.messages.filter(m => !knownIds.has(m.id)) : [];
+      if (added.length === 0) return thread;
+      changed = true;
+      return { ...thread, messages: [...thread.messages, ...added].sort((a, b) => a.timestamp - b.timestamp) };
+    });
+    const newThreads = incoming.chatThreads.filter(t => !current.chatThreads.some(c => c.id === t.id));
+    chatThreads = changed || newThreads.length > 0 ? [...merged, ...newThreads] : null;
+  }
+
+  // Merging keeps the profile you have now unless it was never filled in
+  const resume = mode === 'replace' || isEmptyResume(current.resume) ? incoming.resume : null;
+
+  return {
+    mode,
+    jobs: planCollection(current.jobs, incoming.jobs, mode),
+    researchReports: planCollection(current.researchReports, incoming.researchReports, mode),
+    prepReports: planCollection(current.prepReports, incoming.prepReports, mode),
+    resume,
+    chatThreads,
+    pipelineStages: mode === 'replace'
+      ? incoming.pipelineStages
+      : mergeStages(current.pipelineStages, incoming.pipelineStages),
+    resumeLibrary: resume ? incoming.resumeLibrary : null,
+    resumeSnapshots: incoming.resumeSnapshots.filter(s => !current.resumeSnapshots.some(c => c.id === s.id)),
+  };
+};
+
+/** Writes a restore plan through the repository. Deletions run first so replaced ids can be reused. */
+export const applyRestore = async (repository: StorageRepository, plan: RestorePlan): Promise<void> => {
+  for (const id of plan.jobs.deleteIds) await repository.deleteJob(id);
+  for (const id of plan.researchReports.deleteIds) await repository.deleteResearchReport(id);
+  for (const id of plan.prepReports.deleteIds) await repository.deletePrepReport(id);
+
+  // Insert oldest first so the newest job ends up at the top of the list.
+  for (const job of [...plan.jobs.insert].reverse()) await repository.insertJob(job);
+  for (const report of plan.researchReports.insert) await repository.insertResearchReport(report);
+  for (const report of plan.prepReports.insert) await repository.insertPrepReport(report);
+
+  for (const snapshot of plan.resumeSnapshots) await repository.insertResumeSnapshot(snapshot);
+
+  if (plan.resumeLibrary) await repository.saveResumeLibrary(plan.resumeLibrary);
+  if (plan.resume) {
+    // The backup's version stamp is from when it was taken; stamp on top of the saved resume instead
+    const current = await repository.getProfile();
+    await repository.saveResume(stampVersion({ ...plan.resume, version: current?.resume?.version }));
+  }
+  if (plan.chatThreads) await repository.saveChatThreads(plan.chatThreads);
+  if (plan.pipelineStages) await repository.savePipelineStages(plan.pipelineStages);
+};
@@ -0,0 +1,16 @@
+import { ChatMessage, ChatThread } from "../../types";
+
+export const DEFAULT_THREAD_TITLE = 'New conversation';
+
+/** Chat used to be one flat message list; it becomes the first thread. */
+export const threadFromHistory = (messages: ChatMessage[]): ChatThread[] => {
+  if (messages.length === 0) return [];
+  const first = messages[0].timestamp || Date.now();
+  return [{
+    id: `legacy-${first}`,
+    title: 'Earlier conversation',
+    messages,
+    createdAt: first,
+    updatedAt: messages[messages.length - 1].timestamp || first,
+  }];
+};
@@ -0,0 +1,212 @@
+import { Job, Resume, ChatMessage, ChatThread, ResearchReport, InterviewPrepReport } from "../../types";
+import { StorageSnapshot } from "./types";
+import { generateId } from "../../lib/id";
+
+/**
+ * Sample persona used to seed demo mode and the "Load Demo Data" developer tool.
+ * Dates are computed relative to now so the schedule always has something upcoming.
+ */
+export const createDemoSnapshot = (): StorageSnapshot => {
+  // Fresh ids each time, since jobs keep their id in Supabase and the demo can be loaded twice
+  const googleJobId = generateId();
+  const demoJobs: Job[] = [
+      {
+          id: googleJobId,
+          company: 'Google',
+          role: 'Senior AI Engineer',
+          status: 'Interview',
+          statusHistory: [
+              { from: null, to: 'Applied', date: new Date(Date.now() - 86400000 * 10).toISOString() },
+              { from: 'Applied', to: 'Interview', date: new Date(Date.now() - 86400000 * 4).toISOString() }
+          ],
+          salary: '₹45L - ₹60L',
+          location: 'Bangalore (Hybrid)',
+          dateApplied: new Date(Date.now() - 86400000 * 10).toISOString().split('T')[0],
+          description: 'Join the Google Research India team to work on LLMs for Indian languages.',
+          coverLetter: 'I am excited to apply for the Senior AI Engineer role...',
+          origin: 'application',
+          interviewRounds: [
+              { id: 'ir1', name: 'Recruiter Screen', date: new Date(Date.now() - 86400000 * 4).toISOString(), durationMinutes: 30, format: 'Phone', interviewerIds: ['ct1'], outcome: 'Passed', feedback: 'Strong interest in the multilingual LLM work.' },
+              { id: 'ir2', name: 'ML Coding', date: new Date(Date.now() + 86400000 * 3).toISOString(), durationMinutes: 60, format: 'Video', interviewerIds: [], outcome: 'Pending' },
+              { id: 'ir3', name: 'System Design', date: new Date(Date.now() + 86400000 * 6).toISOString(), durationMinutes: 60, format: 'Video', interviewerIds: [], outcome: 'Pending' }
+          ],
+          checklist: [{ id: 'cl1', text: 'Review Transformer architecture', completed: true }, { id: 'cl2', text: 'Prepare system design for LLM serving', completed: false }],
+          contacts: [{ id: 'ct1', name: 'Priya Singh', role: 'Technical Recruiter', email: 'priya.s@google.com', phone: '', linkedin: '', history: [] }]
+      },
+      {
+          id: generateId(),
+          company: 'Swiggy',
+          role: 'Lead Data Scientist',
+          status: 'Offer',
+          salary: '₹55L',
+          location: 'Bangalore (Remote)',
+          dateApplied: new Date(Date.now() - 86400000 * 25).toISOString().split('T')[0],
+          description: 'Lead the delivery optimization team using RL.',
+          coverLetter: '',
+          origin: 'offer',
+          checklist: [],
+          contacts: []
+      },
+      {
+          id: generateId(),
+          company: 'Zomato',
+          role: 'Machine Learning Engineer',
+          status: 'Applied',
+          salary: '₹35L - ₹50L',
+          location: 'Gurgaon',
+          dateApplied: new Date(Date.now() - 86400000 * 2).toISOString().split('T')[0],
+          description: 'Work on personalization and search.',
+          coverLetter: '',
+          origin: 'application',
+          checklist: [],
+          contacts: []
+      },
+      {
+          id: generateId(),
+          company: 'Microsoft',
+          role: 'Applied Scientist II',
+          status: 'Rejected',
+          salary: '₹50L',
+          location: 'Hyderabad',
+          dateApplied: new Date(Date.now() - 86400000 * 45).toISOString().split('T')[0],
+          description: 'Bing Search team.',
+          coverLetter: '',
+          origin: 'application',
+          checklist: [],
+          contacts: []
+      }
+  ];
+
+  const demoResume: Resume = {
+      fullName: "Rishiraj Gupta",
+      email: "rishiraj.gupta@example.com",
+      phone: "+91 98765 43210",
+      linkedin: "https://linkedin.com/in/rishirajgupta-ds",
+      location: "Bangalore, India",
+      summary: "Senior Data Scientist with 5+ years of experience in Machine Learning, NLP, and Predictive Analytics. Proven track record of deploying scalable AI models in production for e-commerce and fintech sectors.",
+      skills: "Python, TensorFlow, PyTorch, SQL, AWS SageMaker, NLP, Computer Vision, Docker, Kubernetes, React (Basic)",
+      jobTitle: "Lead Data Scientist",
+      avatarImage: "",
+      experience: [
+          { id: 'exp1', role: 'Senior Data Scientist', company: 'Flipkart', startDate: '2022-01', endDate: 'Present', description: '• Led the development of a new recommendation engine improving conversion by 15%.\n• Managed a team of 4 junior data scientists.\n• Optimized search ranking algorithms using BERT models.' },
+          { id: 'exp2', role: 'Data Scientist', company: 'Paytm', startDate: '2019-06', endDate: '2021-12', description: '• Built fraud detection models reducing transaction fraud by 25%.\n• Collaborated with engineering teams to deploy models on AWS.' }
+      ],
+      projects: [
+          { id: 'proj1', name: 'IndicNLP Library', technologies: 'Python, PyTorch, HuggingFace', link: 'github.com/aarav/indic-nlp', description: 'Open source library for NLP tasks in Indian languages.' },
+          { id: 'proj2', name: 'StockPred', technologies: 'LSTM, Python, Pandas', link: 'github.com/aarav/stockpred', description: 'Time-series forecasting tool for NSE/BSE stocks.' }
+      ],
+      education: [
+          { id: 'edu1', degree: 'M.Tech in Artificial Intelligence', school: 'IIT Bombay', year: '2019' },
+          { id: 'edu2', degree: 'B.Tech in Computer Science', school: 'NIT Trichy', year: '2017' }
+      ]
+  };
+
+  const demoChat: ChatMessage[] = [
+      { id: 'msg1', role: 'user', text: 'Can you help me prepare for my Google interview?', timestamp: Date.now() - 10000 },
+      { id: 'msg2', role: 'model', text: 'Certainly! For a Senior AI Engineer role at Google Research India, you should focus on: \n\n1. **Deep Learning Fundamentals**: Transformers, Attention mechanisms, Backpropagation.\n2. **System Design**: How to serve LLMs at scale, inference optimization.\n3. **Coding**: LeetCode Hard problems (Graphs, DP).\n\nWould you like a mock interview question?', timestamp: Date.now() }
+  ];
+
+  const demoThreads: ChatThread[] = [
+      { id: 'thread1', title: 'Google interview prep', jobId: googleJobId, messages: demoChat, createdAt: Date.now() - 10000, updatedAt: Date.now() }
+  ];
+
+  const demoResearch: ResearchReport[] = [
+      {
+          id: generateId(),
+          company: 'Google',
+          role: 'Senior AI Engineer',
+          date: new Date(Date.now() - 86400000 * 2).toISOString(),
+          content: JSON.stringify({
+              companyName: 'Google',
+              roleTitle: 'Senior AI Engineer',
+              summary: {
+                  opportunityScore: 9,
+                  applyPriority: "High",
+                  verdict: "Excellent opportunity for AI research impact.",
+                  nextSteps: ["Review Transformer papers", "Practice System Design"]
+              },
+              companyIntelligence: {
+                  overview: "Google is a global tech leader in AI, Search, and Cloud.",
+                  sizeAndStage: "Public, 100k+ employees",
+                  competitors: ["Microsoft", "OpenAI", "Meta"],
+                  financialHealth: "Strong, consistent growth"
+              },
+              marketAnalysis: {
+                  recentNews: ["Gemini model launch", "Focus on AI integration across products"],
+                  marketPosition: "Market Leader in Search & AI"
+              },
+              culture: {
+                  workEnvironment: "Hybrid (3 days office)",
+                  engineeringCulture: "Engineering-driven, innovative, collaborative"
+              },
+              compensation: {
+                  salaryRange: "₹50L - ₹80L",
+                  breakdown: { fresher: "₹30L", mid: "₹50L", senior: "₹80L+" },
+                  comparison: "Top Tier",
+                  benefits: ["Free food", "Health insurance", "Stock options"]
+              },
+              hiring: {
+                  process: ["Recruiter Screen", "Coding Rounds (x2)", "System Design", "Googlyness (Behavioral)"],
+                  applicationStrategy: "Referrals are very effective."
+              },
+              risks: {
+                  level: "Low",
+                  concerns: ["High competition"]
+              },
+              strategy: {
+                  outreach: "Connect with current AI researchers on LinkedIn.",
+                  differentiators: ["Published papers", "Open source contributions"]
+              },
+              reviews: {
+                  glassdoor: { rating: "4.5", pros: "Great perks, smart people", cons: "Bureaucracy" },
+                  reddit: { sentiment: "Positive", keyDiscussions: ["Best place for AI research", "Good WLB"] },
+                  employeeVoices: [{ source: "Blind", quote: "Amazing learning opportunities.", sentiment: "Positive" }]
+              },
+              sources: [{ title: "Google Careers", url: "https://careers.google.com" }]
+          })
+      }
+  ];
+
+  const demoPrep: InterviewPrepReport[] = [
+      {
+          id: generateId(),
+          company: 'Swiggy',
+          role: 'Lead Data Scientist',
+          date: new Date(Date.now() - 86400000 * 5).toISOString(),
+          content: JSON.stringify({
+              companyResearch: {
+                  mission: "To elevate the quality of life for the urban consumer with unparalleled convenience.",
+                  products: ["Food Delivery", "Instamart", "Genie"],
+                  culture: "Fast-paced, data-driven, customer-obsessed.",
+                  recentNews: ["IPO plans", "Expansion of Instamart"]
+              },
+              technical: {
+                  topics: ["Reinforcement Learning", "Optimization", "A/B Testing"],
+                  questions: [
+                      { question: "How would you optimize delivery times using RL?", answer: "Model the problem as an MDP where agents (drivers) take actions (routes) to maximize reward (on-time delivery)." },
+                      { question: "Explain the Multi-Armed Bandit problem in the context of food recommendations.", answer: "Balancing exploration (new restaurants) vs exploitation (user favorites) to maximize order value." }
+                  ]
+              },
+              behavioral: {
+                  competencies: ["Leadership", "Stakeholder Management", "Bias for Action"],
+                  questions: [
+                      { question: "Tell me about a time you had to convince a product manager to change a feature based on data.", starGuide: "Situation: PM wanted feature X. Task: Prove Y is better. Action: Ran A/B test. Result: Y showed 10% lift. PM agreed." }
+                  ]
+              },
+              questionsToAsk: [
+                  "How is the data science team structured?",
+                  "What is the biggest technical challenge in last-mile delivery right now?"
+              ]
+          })
+      }
+  ];
+
+  return {
+      jobs: demoJobs,
+      resume: demoResume,
+      chatThreads: demoThreads,
+      researchReports: demoResearch,
+      prepReports: demoPrep,
+      resumeSnapshots: []
+  };
+};
@@ -0,0 +1,64 @@
+import { createSupabaseRepository } from "./supabaseRepository";
+import { createIndexedDbRepository } from "./indexedDbRepository";
+import { createDemoSnapshot } from "./demoData";
+import { StorageRepository, StorageSnapshot } from "./types";
+import { stampVersion } from "./syncQueue";
+
+export type { StorageRepository, StorageSnapshot, ProfileData } from "./types";
+export { createDemoSnapshot } from "./demoData";
+export { createSyncQueue, stampVersion } from "./syncQueue";
+export { DEFAULT_THREAD_TITLE } from "./chatThreads";
+export type { SyncQueue, SyncState, SyncConflict } from "./syncQueue";
+export { createBackup, readBackup, planRestore, applyRestore, BACKUP_VERSION } from "./backup";
+export type { BackupFile, BackupData, RestoreMode, RestorePlan } from "./backup";
+
+// Demo jobs used to live in localStorage before the local repository existed.
+const LEGACY_DEMO_JOBS_KEY = 'demo_jobs_cache';
+
+const seedDemoStore = (): StorageSnapshot => {
+  const snapshot = createDemoSnapshot();
+  const cachedJobs = localStorage.getItem(LEGACY_DEMO_JOBS_KEY);
+  if (cachedJobs) {
+    try {
+      snapshot.jobs = JSON.parse(cachedJobs);
+    } catch (e) {
+      console.error("Failed to parse cached demo jobs", e);
+    }
+    localStorage.removeItem(LEGACY_DEMO_JOBS_KEY);
+  }
+  return snapshot;
+};
+
+/**
+ * Picks the storage backend for a session.
+ * Demo sessions are kept entirely in the browser; signed-in users go to Supabase.
+ */
+export const createStorageRepository = (userId: string, isDemoMode: boolean): StorageRepository => {
+  if (isDemoMode) {
+    return createIndexedDbRepository(userId, { seed: seedDemoStore });
+  }
+  return createSupabaseRepository(userId);
+};
+
+/**
+ * Appends every record in a snapshot to the repository and overwrites the resume and chat threads.
+ */
+export const importSnapshot = async (repository: StorageRepository, snapshot: StorageSnapshot): Promise<void> => {
+  // Insert oldest first so the newest job ends up at the top of the list.
+  for (const job of [...snapshot.jobs].reverse()) {
+    await repository.insertJob(job);
+  }
+  // Stamped on top of the saved resume; the snapshot's own version says nothing about this account
+  const current = await repository.getProfile();
+  await repository.saveResume(stampVersion({ ...snapshot.resume, version: current?.resume?.version }));
+  await repository.saveChatThreads(snapshot.chatThreads);
+  for (const resumeSnapshot of snapshot.resumeSnapshots) {
+    await repository.insertResumeSnapshot(resumeSnapshot);
+  }
+  for (const report of snapshot.researchReports) {
+    await repository.insertResearchReport(report);
+  }
+  for (const report of snapshot.prepReports) {
+    await repository.insertPrepReport(report);
+  }
+};
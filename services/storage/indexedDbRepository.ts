@@ -0,0 +1,174 @@
+import { Job, Resume, ChatMessage, ChatThread, ResearchReport, InterviewPrepReport, PipelineStage, ResumeLibrary, ResumeSnapshot } from "../../types";
+import { StorageRepository, StorageSnapshot } from "./types";
+import { threadFromHistory } from "./chatThreads";
+
+const DB_VERSION = 2; // v2: resume_snapshots
+const STORES = ['jobs', 'profiles', 'research_reports', 'prep_reports', 'resume_snapshots'] as const;
+type StoreName = typeof STORES[number];
+
+interface JobRow {
+  id: string;
+  content: Job;
+  createdAt: number;
+}
+
+interface ProfileRow {
+  id: string;
+  resume: Resume | null;
+  chatThreads?: ChatThread[] | null;
+  chatHistory?: ChatMessage[] | null; // Before chat threads
+  pipelineStages?: PipelineStage[] | null;
+  resumeLibrary?: ResumeLibrary | null;
+}
+
+// --- Minimal promise wrappers around the IndexedDB request API ---
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openDatabase = (name: string): Promise<{ db: IDBDatabase; isNew: boolean }> =>
+  new Promise((resolve, reject) => {
+    let isNew = false;
+    const request = indexedDB.open(name, DB_VERSION);
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      isNew = event.oldVersion === 0;
+      STORES.forEach(store => {
+        if (!db.objectStoreNames.contains(store)) {
+          db.createObjectStore(store, { keyPath: 'id' });
+        }
+      });
+    };
+    request.onsuccess = () => resolve({ db: request.result, isNew });
+    request.onerror = () => reject(request.error);
+  });
+
+export interface IndexedDbRepositoryOptions {
+  /** Called once when the database is first created, to pre-populate it. */
+  seed?: () => StorageSnapshot;
+}
+
+/**
+ * Browser-local implementation of StorageRepository.
+ * Each user gets their own database so demo and real sessions never mix.
+ */
+export const createIndexedDbRepository = (userId: string, options: IndexedDbRepositoryOptions = {}): StorageRepository => {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  const getDb = () => {
+    if (!dbPromise) {
+      dbPromise = openDatabase(`jobjumper_${userId}`).then(async ({ db, isNew }) => {
+        if (isNew && options.seed) {
+          await writeSnapshot(db, userId, options.seed());
+        }
+        return db;
+      });
+    }
+    return dbPromise;
+  };
+
+  const run = async <T>(store: StoreName, mode: IDBTransactionMode, fn: (s: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+    const db = await getDb();
+    return promisify(fn(db.transaction(store, mode).objectStore(store)));
+  };
+
+  const getProfileRow = async (): Promise<ProfileRow | undefined> =>
+    run<ProfileRow | undefined>('profiles', 'readonly', s => s.get(userId));
+
+  const putProfileRow = async (patch: Partial<ProfileRow>) => {
+    const existing = await getProfileRow();
+    const row: ProfileRow = { id: userId, resume: null, ...existing, ...patch };
+    await run('profiles', 'readwrite', s => s.put(row));
+  };
+
+  const listReports = async (store: 'research_reports' | 'prep_reports') => {
+    const rows = await run<ResearchReport[]>(store, 'readonly', s => s.getAll());
+    return rows.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+  };
+
+  return {
+    listJobs: async () => {
+      const rows = await run<JobRow[]>('jobs', 'readonly', s => s.getAll());
+      return rows.sort((a, b) => b.createdAt - a.createdAt).map(row => ({ ...row.content, id: row.id }));
+    },
+
+    getJob: async (id: string) => {
+      const row = await run<JobRow | undefined>('jobs', 'readonly', s => s.get(id));
+      return row ? { ...row.content, id: row.id } : null;
+    },
+
+    insertJob: async (job: Job) => {
+      const row: JobRow = { id: job.id, content: job, createdAt: Date.now() };
+      await run('jobs', 'readwrite', s => s.put(row));
+    },
+
+    updateJob: async (job: Job) => {
+      const existing = await run<JobRow | undefined>('jobs', 'readonly', s => s.get(job.id));
+      const row: JobRow = { id: job.id, content: job, createdAt: existing?.createdAt ?? Date.now() };
+      await run('jobs', 'readwrite', s => s.put(row));
+    },
+
+    deleteJob: async (id: string) => {
+      await run('jobs', 'readwrite', s => s.delete(id));
+    },
+
+    getProfile: async () => {
+      const row = await getProfileRow();
+      if (!row) return null;
+      const chatThreads = row.chatThreads || (row.chatHistory ? threadFromHistory(row.chatHistory) : null);
+      return { resume: row.resume, chatThreads, pipelineStages: row.pipelineStages || null, resumeLibrary: row.resumeLibrary || null };
+    },
+
+    createProfile: (resume: Resume) => putProfileRow({ resume }),
+    saveResume: (resume: Resume) => putProfileRow({ resume }),
+    saveChatThreads: (threads: ChatThread[]) => putProfileRow({ chatThreads: threads, chatHistory: undefined }),
+    savePipelineStages: (stages: PipelineStage[]) => putProfileRow({ pipelineStages: stages }),
+    saveResumeLibrary: (library: ResumeLibrary) => putProfileRow({ resumeLibrary: library }),
+
+    listResumeSnapshots: async () => {
+      const rows = await run<ResumeSnapshot[]>('resume_snapshots', 'readonly', s => s.getAll());
+      return rows.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+    },
+    insertResumeSnapshot: async (snapshot: ResumeSnapshot) => {
+      await run('resume_snapshots', 'readwrite', s => s.put(snapshot));
+    },
+
+    listResearchReports: () => listReports('research_reports'),
+    insertResearchReport: async (report: ResearchReport) => {
+      await run('research_reports', 'readwrite', s => s.put(report));
+    },
+    deleteResearchReport: async (id: string) => {
+      await run('research_reports', 'readwrite', s => s.delete(id));
+    },
+
+    listPrepReports: () => listReports('prep_reports'),
+    insertPrepReport: async (report: InterviewPrepReport) => {
+      await run('prep_reports', 'readwrite', s => s.put(report));
+    },
+    deletePrepReport: async (id: string) => {
+      await run('prep_reports', 'readwrite', s => s.delete(id));
+    },
+  };
+};
+
+// Writes a snapshot in a single transaction so a half-seeded database is never observed.
+const writeSnapshot = (db: IDBDatabase, userId: string, snapshot: StorageSnapshot): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const tx = db.transaction([...STORES], 'readwrite');
+    const now = Date.now();
+    // Preserve the snapshot order (newest first) by counting createdAt down.
+    snapshot.jobs.forEach((job, i) => {
+      const row: JobRow = { id: job.id, content: job, createdAt: now - i };
+      tx.objectStore('jobs').put(row);
+    });
+    const profile: ProfileRow = { id: userId, resume: snapshot.resume, chatThreads: snapshot.chatThreads };
+    tx.objectStore('profiles').put(profile);
+    snapshot.researchReports.forEach(r => tx.objectStore('research_reports').put(r));
+    snapshot.prepReports.forEach(r => tx.objectStore('prep_reports').put(r));
+    snapshot.resumeSnapshots.forEach(s => tx.objectStore('resume_snapshots').put(s));
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
@@ -0,0 +1,172 @@
+import { supabase } from "../supabaseClient";
+import { Job, Resume, ChatMessage, ChatThread, ResearchReport, InterviewPrepReport, PipelineStage, ResumeLibrary, ResumeSnapshot } from "../../types";
+import { StorageRepository, ProfileData } from "./types";
+import { threadFromHistory } from "./chatThreads";
+
+type ReportTable = 'research_reports' | 'prep_reports';
+
+const chatCacheKey = (userId: string) => `chat_threads_${userId}`;
+const legacyChatCacheKey = (userId: string) => `chat_history_${userId}`;
+
+const readCache = <T>(key: string): T | null => {
+  const cached = localStorage.getItem(key);
+  if (!cached) return null;
+  try {
+    return JSON.parse(cached);
+  } catch (e) {
+    return null;
+  }
+};
+
+// Threads replaced the single chat_history list; old history becomes the first thread.
+const readChatThreads = (userId: string, data: any): ChatThread[] | null => {
+  if (Array.isArray(data.chat_threads)) return data.chat_threads;
+  const cached = readCache<ChatThread[]>(chatCacheKey(userId));
+  if (cached) return cached;
+  // Older profiles have no chat_history column populated; fall back to the local cache.
+  const history = Array.isArray(data.chat_history) ? data.chat_history : readCache<ChatMessage[]>(legacyChatCacheKey(userId));
+  return history ? threadFromHistory(history) : null;
+};
+
+export const createSupabaseRepository = (userId: string): StorageRepository => {
+  const listReports = async (table: ReportTable) => {
+    const { data, error } = await supabase
+      .from(table)
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false });
+    if (error) throw error;
+
+    return (data || []).map(r => ({
+      id: r.id,
+      company: r.company,
+      role: r.role,
+      date: r.created_at,
+      content: r.content
+    }));
+  };
+
+  const insertReport = async (table: ReportTable, report: ResearchReport | InterviewPrepReport) => {
+    const { error } = await supabase.from(table).insert({
+      id: report.id,
+      user_id: userId,
+      company: report.company,
+      role: report.role,
+      content: report.content,
+      created_at: report.date
+    });
+    if (error) throw error;
+  };
+
+  const deleteReport = async (table: ReportTable, id: string) => {
+    const { error } = await supabase.from(table).delete().eq('id', id).eq('user_id', userId);
+    if (error) throw error;
+  };
+
+  return {
+    listJobs: async () => {
+      const { data, error } = await supabase
+        .from('jobs')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false });
+      if (error) throw error;
+
+      return (data || []).map(row => ({ ...row.content, id: row.id }));
+    },
+
+    getJob: async (id: string) => {
+      const { data, error } = await supabase.from('jobs').select('*').eq('id', id).maybeSingle();
+      if (error) throw error;
+      return data ? { ...data.content, id: data.id } : null;
+    },
+
+    insertJob: async (job: Job) => {
+      const { error } = await supabase.from('jobs').insert({ id: job.id, user_id: userId, content: job });
+      if (error) throw error;
+    },
+
+    updateJob: async (job: Job) => {
+      const { error } = await supabase.from('jobs').update({ content: job }).eq('id', job.id);
+      if (error) throw error;
+    },
+
+    deleteJob: async (id: string) => {
+      const { error } = await supabase.from('jobs').delete().eq('id', id);
+      if (error) throw error;
+    },
+
+    getProfile: async (): Promise<ProfileData | null> => {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('*')
+        .eq('id', userId)
+        .maybeSingle();
+      if (error) throw error;
+      if (!data) return null;
+
+      return {
+        resume: data.resume_data || null,
+        chatThreads: readChatThreads(userId, data),
+        pipelineStages: Array.isArray(data.pipeline_stages) ? data.pipeline_stages : null,
+        resumeLibrary: data.resume_library || null
+      };
+    },
+
+    createProfile: async (resume: Resume) => {
+      const { error } = await supabase.from('profiles').upsert({ id: userId, resume_data: resume }, { onConflict: 'id' });
+      if (error) throw error;
+    },
+
+    saveResume: async (resume: Resume) => {
+      const { error } = await supabase.from('profiles').update({ resume_data: resume }).eq('id', userId);
+      if (error) throw error;
+    },
+
+    saveChatThreads: async (threads: ChatThread[]) => {
+      const { error } = await supabase.from('profiles').update({ chat_threads: threads }).eq('id', userId);
+      if (error) throw error;
+      localStorage.setItem(chatCacheKey(userId), JSON.stringify(threads));
+      localStorage.removeItem(legacyChatCacheKey(userId));
+    },
+
+    savePipelineStages: async (stages: PipelineStage[]) => {
+      const { error } = await supabase.from('profiles').update({ pipeline_stages: stages }).eq('id', userId);
+      if (error) throw error;
+    },
+
+    saveResumeLibrary: async (library: ResumeLibrary) => {
+      const { error } = await supabase.from('profiles').update({ resume_library: library }).eq('id', userId);
+      if (error) throw error;
+    },
+
+    listResumeSnapshots: async () => {
+      const { data, error } = await supabase
+        .from('resume_snapshots')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false });
+      if (error) throw error;
+      return (data || []).map(row => ({ ...row.content, id: row.id }));
+    },
+
+    insertResumeSnapshot: async (snapshot: ResumeSnapshot) => {
+      // A replayed insert that already landed is a no-op rather than a duplicate key error
+      const { error } = await supabase.from('resume_snapshots').upsert({
+        id: snapshot.id,
+        user_id: userId,
+        resume_id: snapshot.resumeId,
+        content: snapshot,
+        created_at: snapshot.date
+      }, { onConflict: 'id', ignoreDuplicates: true });
+      if (error) throw error;
+    },
+
+    listResearchReports: () => listReports('research_reports'),
+    insertResearchReport: (report) => insertReport('research_reports', report),
+    deleteResearchReport: (id) => deleteReport('research_reports', id),
+    listPrepReports: () => listReports('prep_reports'),
+    insertPrepReport: (report) => insertReport('prep_reports', report),
+    deletePrepReport: (id) => deleteReport('prep_reports', id),
+  };
+};
@@ -0,0 +1,493 @@
+import { Job, Resume, ChatMessage, ChatThread, ResearchReport, InterviewPrepReport, PipelineStage, ResumeLibrary, ResumeSnapshot } from "../../types";
+import { StorageRepository } from "./types";
+import { threadFromHistory } from "./chatThreads";
+import { generateId } from "../../lib/id";
+
+/**
+ * Offline-first write path.
+ *
+ * Every mutation is appended to a persistent outbound queue (localStorage) and replayed
+ * against the underlying repository in order. Failed writes stay queued and are retried
+ * with backoff, and immediately when the browser comes back online.
+ *
+ * Jobs and the resume carry a `version` stamp. A queued update remembers the version it
+ * was based on; if the server copy has moved on by the time it replays (another tab or
+ * device wrote in between), the update is parked as a SyncConflict for the user to resolve.
+ *
+ * A write that keeps failing for another reason (e.g. the backend rejects it) is never dropped:
+ * after MAX_ATTEMPTS it is parked as a SyncFailure, still shown in the app, until the user
+ * retries or discards it. A later edit to the same record retries it along with the edit.
+ */
+
+type Mutation =
+  | { kind: 'insertJob'; job: Job }
+  | { kind: 'updateJob'; job: Job; baseVersion: number }
+  | { kind: 'deleteJob'; id: string }
+  | { kind: 'createProfile'; resume: Resume }
+  | { kind: 'saveResume'; resume: Resume; baseVersion: number }
+  | { kind: 'saveChatThreads'; threads: ChatThread[] }
+  | { kind: 'savePipelineStages'; stages: PipelineStage[] }
+  | { kind: 'saveResumeLibrary'; library: ResumeLibrary }
+  | { kind: 'insertResumeSnapshot'; snapshot: ResumeSnapshot }
+  | { kind: 'insertResearchReport'; report: ResearchReport }
+  | { kind: 'deleteResearchReport'; id: string }
+  | { kind: 'insertPrepReport'; report: InterviewPrepReport }
+  | { kind: 'deletePrepReport'; id: string };
+
+interface QueueEntry {
+  id: string;
+  createdAt: number;
+  attempts: number;
+  mutation: Mutation;
+}
+
+interface FailedEntry extends QueueEntry {
+  error: string;
+  failedAt: number;
+}
+
+/** A write that failed MAX_ATTEMPTS times and waits for the user to retry or discard it. */
+export interface SyncFailure {
+  id: string;
+  description: string; // e.g. "Update to Frontend Engineer at Acme"
+  error: string;
+  failedAt: number;
+}
+
+export type SyncConflict =
+  | { id: string; entity: 'job'; recordId: string; local: Job; server: Job | null; detectedAt: number }
+  | { id: string; entity: 'resume'; recordId: string; local: Resume; server: Resume | null; detectedAt: number };
+
+export interface SyncState {
+  pending: number;
+  conflicts: SyncConflict[];
+  failures: SyncFailure[];
+  isOnline: boolean;
+  isFlushing: boolean;
+}
+
+export interface SyncQueue {
+  /** Reads go straight to the backend; writes are queued. */
+  repository: StorageRepository;
+  getState: () => SyncState;
+  subscribe: (listener: (state: SyncState) => void) => () => void;
+  flush: () => Promise<void>;
+  /**
+   * Resolves a conflict. 'local' re-queues our copy on top of the server version;
+   * 'server' discards our copy. Returns the record the UI should now show.
+   */
+  resolveConflict: (conflictId: string, choice: 'local' | 'server') => Promise<Job | Resume | null>;
+  /** Puts a failed write back in the queue and replays it. */
+  retryFailure: (failureId: string) => void;
+  /** Gives up on a failed write; the backend keeps whatever it has. */
+  discardFailure: (failureId: string) => void;
+  /** Re-applies writes that have not reached the backend yet on top of freshly loaded data. */
+  applyPendingJobs: (jobs: Job[]) => Job[];
+  pendingResume: () => Resume | null;
+  pendingChatThreads: () => ChatThread[] | null;
+  pendingPipelineStages: () => PipelineStage[] | null;
+  pendingResumeLibrary: () => ResumeLibrary | null;
+  applyPendingResumeSnapshots: (snapshots: ResumeSnapshot[]) => ResumeSnapshot[];
+  /** Starts listening for connectivity changes and replays anything left from a previous session. */
+  start: () => void;
+  stop: () => void;
+}
+
+const MAX_ATTEMPTS = 8;
+const BASE_RETRY_MS = 2000;
+const MAX_RETRY_MS = 60000;
+
+/** Returns a copy of the record with its version bumped, ready to hand to a queued repository. */
+export const stampVersion = <T extends { version?: number }>(record: T): T => ({
+  ...record,
+  version: (record.version ?? 0) + 1
+});
+
+const describeMutation = (m: Mutation): string => {
+  switch (m.kind) {
+    case 'insertJob': return `New application: ${m.job.role} at ${m.job.company}`;
+    case 'updateJob': return `Update to ${m.job.role} at ${m.job.company}`;
+    case 'deleteJob': return 'Deleted application';
+    case 'createProfile': return 'New profile';
+    case 'saveResume': return 'Resume changes';
+    case 'saveChatThreads': return 'Chatur conversations';
+    case 'savePipelineStages': return 'Pipeline stages';
+    case 'saveResumeLibrary': return 'Resume library';
+    case 'insertResumeSnapshot': return `Saved resume version: ${m.snapshot.resumeName} v${m.snapshot.number}`;
+    case 'insertResearchReport': return 'New research report';
+    case 'deleteResearchReport': return 'Deleted research report';
+    case 'insertPrepReport': return 'New interview prep report';
+    case 'deletePrepReport': return 'Deleted interview prep report';
+  }
+};
+
+const isNetworkError = (err: any) =>
+  (typeof navigator !== 'undefined' && !navigator.onLine) ||
+  err instanceof TypeError ||
+  /network|fetch|timeout/i.test(err?.message || '');
+
+export const createSyncQueue = (remote: StorageRepository, userId: string): SyncQueue => {
+  const storageKey = `sync_queue_${userId}`;
+  const listeners = new Set<(state: SyncState) => void>();
+
+  let entries: QueueEntry[] = [];
+  let conflicts: SyncConflict[] = [];
+  let failed: FailedEntry[] = [];
+  let isFlushing = false;
+  let inFlightId: string | null = null;
+  let isOnline = typeof navigator === 'undefined' ? true : navigator.onLine;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+  let retryDelay = BASE_RETRY_MS;
+
+  try {
+    const saved = JSON.parse(localStorage.getItem(storageKey) || 'null');
+    if (saved) {
+      // Chat history saves queued before chat threads existed
+      entries = (saved.entries || []).map((e: any) => e.mutation.kind === 'saveChatHistory'
+        ? { ...e, mutation: { kind: 'saveChatThreads', threads: threadFromHistory(e.mutation.messages as ChatMessage[]) } }
+        : e);
+      conflicts = saved.conflicts || [];
+      failed = saved.failed || [];
+    }
+  } catch (e) {
+    console.error("Failed to read sync queue", e);
+  }
+
+  const getState = (): SyncState => ({
+    pending: entries.length,
+    conflicts,
+    failures: failed.map(({ id, mutation, error, failedAt }) => ({ id, description: describeMutation(mutation), error, failedAt })),
+    isOnline,
+    isFlushing,
+  });
+
+  const persist = () => {
+    localStorage.setItem(storageKey, JSON.stringify({ entries, conflicts, failed }));
+    const state = getState();
+    listeners.forEach(l => l(state));
+  };
+
+  // --- Enqueue with coalescing, so a burst of edits replays as one write ---
+
+  // Whether `mutation` writes the same record as `earlier`, and so carries its data forward
+  const supersedes = (mutation: Mutation, earlier: Mutation) => {
+    const jobId = mutation.kind === 'updateJob' ? mutation.job.id : mutation.kind === 'deleteJob' ? mutation.id : null;
+    if (jobId) return (earlier.kind === 'insertJob' || earlier.kind === 'updateJob') && earlier.job.id === jobId;
+    return earlier.kind === mutation.kind
+      && ['saveResume', 'saveChatThreads', 'savePipelineStages', 'saveResumeLibrary'].includes(mutation.kind);
+  };
+
+  const enqueue = (mutation: Mutation) => {
+    // Failed writes to this record go back in the queue, so the coalescing below folds the new
+    // edit into them instead of writing it on top of a version the server never got
+    const revived = failed.filter(f => supersedes(mutation, f.mutation));
+    if (revived.length > 0) {
+      failed = failed.filter(f => !revived.includes(f));
+      entries.push(...revived.map(({ id, createdAt, mutation: m }) => ({ id, createdAt, attempts: 0, mutation: m })));
+    }
+
+    const last = (predicate: (m: Mutation) => boolean) => {
+      for (let i = entries.length - 1; i >= 0; i--) {
+        // The in-flight entry is already on its way; folding new data into it would lose it.
+        if (entries[i].id === inFlightId) return undefined;
+        if (predicate(entries[i].mutation)) return entries[i];
+      }
+      return undefined;
+    };
+
+    if (mutation.kind === 'updateJob') {
+      const prior = last(m => (m.kind === 'insertJob' || m.kind === 'updateJob') && m.job.id === mutation.job.id);
+      if (prior && prior.mutation.kind === 'insertJob') {
+        prior.mutation = { kind: 'insertJob', job: mutation.job };
+        return persist();
+      }
+      if (prior && prior.mutation.kind === 'updateJob') {
+        // Keep the original base version: the server has not seen any of these edits yet.
+        prior.mutation = { ...mutation, baseVersion: prior.mutation.baseVersion };
+        return persist();
+      }
+    }
+
+    if (mutation.kind === 'deleteJob') {
+      const isQueuedWrite = (e: QueueEntry) =>
+        e.id !== inFlightId && (e.mutation.kind === 'insertJob' || e.mutation.kind === 'updateJob') && e.mutation.job.id === mutation.id;
+      const neverSent = entries.some(e => isQueuedWrite(e) && e.mutation.kind === 'insertJob');
+      entries = entries.filter(e => !isQueuedWrite(e));
+      if (neverSent) return persist();
+    }
+
+    if (mutation.kind === 'saveResume') {
+      const prior = last(m => m.kind === 'saveResume');
+      if (prior && prior.mutation.kind === 'saveResume') {
+        prior.mutation = { ...mutation, baseVersion: prior.mutation.baseVersion };
+        return persist();
+      }
+    }
+
+    // Whole-document saves: only the latest one matters
+    if (mutation.kind === 'saveChatThreads' || mutation.kind === 'savePipelineStages' || mutation.kind === 'saveResumeLibrary') {
+      entries = entries.filter(e => e.id === inFlightId || e.mutation.kind !== mutation.kind);
+    }
+
+    entries.push({ id: generateId(), createdAt: Date.now(), attempts: 0, mutation });
+    persist();
+  };
+
+  // --- Replay ---
+
+  const addConflict = (conflict: SyncConflict) => {
+    // A newer conflict on the same record supersedes the older one.
+    conflicts = [...conflicts.filter(c => !(c.entity === conflict.entity && c.recordId === conflict.recordId)), conflict];
+  };
+
+  /** Returns false when the entry was parked as a conflict instead of being written. */
+  const apply = async (mutation: Mutation): Promise<boolean> => {
+    switch (mutation.kind) {
+      case 'insertJob': {
+        await remote.insertJob(mutation.job);
+        return true;
+      }
+      case 'updateJob': {
+        const server = await remote.getJob(mutation.job.id);
+        if (!server || (server.version ?? 0) !== mutation.baseVersion) {
+          addConflict({ id: generateId(), entity: 'job', recordId: mutation.job.id, local: mutation.job, server, detectedAt: Date.now() });
+          return false;
+        }
+        await remote.updateJob(mutation.job);
+        return true;
+      }
+      case 'saveResume': {
+        const profile = await remote.getProfile();
+        const server = profile?.resume || null;
+        if (server && (server.version ?? 0) !== mutation.baseVersion) {
+          addConflict({ id: generateId(), entity: 'resume', recordId: userId, local: mutation.resume, server, detectedAt: Date.now() });
+          return false;
+        }
+        await remote.saveResume(mutation.resume);
+        return true;
+      }
+      case 'deleteJob': await remote.deleteJob(mutation.id); return true;
+      case 'createProfile': await remote.createProfile(mutation.resume); return true;
+      case 'saveChatThreads': await remote.saveChatThreads(mutation.threads); return true;
+      case 'savePipelineStages': await remote.savePipelineStages(mutation.stages); return true;
+      case 'saveResumeLibrary': await remote.saveResumeLibrary(mutation.library); return true;
+      case 'insertResumeSnapshot': await remote.insertResumeSnapshot(mutation.snapshot); return true;
+      case 'insertResearchReport': await remote.insertResearchReport(mutation.report); return true;
+      case 'deleteResearchReport': await remote.deleteResearchReport(mutation.id); return true;
+      case 'insertPrepReport': await remote.insertPrepReport(mutation.report); return true;
+      case 'deletePrepReport': await remote.deletePrepReport(mutation.id); return true;
+    }
+  };
+
+  const scheduleRetry = () => {
+    if (retryTimer) return;
+    retryTimer = setTimeout(() => {
+      retryTimer = null;
+      flush();
+    }, retryDelay + Math.random() * 500);
+    retryDelay = Math.min(retryDelay * 2, MAX_RETRY_MS);
+  };
+
+  const flush = async () => {
+    if (isFlushing || entries.length === 0) return;
+    isFlushing = true;
+    persist();
+
+    try {
+      while (entries.length > 0) {
+        const entry = entries[0];
+        inFlightId = entry.id;
+        try {
+          await apply(entry.mutation);
+          entries = entries.filter(e => e.id !== entry.id);
+          retryDelay = BASE_RETRY_MS;
+          persist();
+        } catch (err) {
+          if (isNetworkError(err)) {
+            scheduleRetry();
+            break;
+          }
+          entry.attempts += 1;
+          if (entry.attempts >= MAX_ATTEMPTS) {
+            console.error(`Parking ${entry.mutation.kind} after ${entry.attempts} failed attempts:`, err);
+            entries = entries.filter(e => e.id !== entry.id);
+            failed = [...failed, { ...entry, error: (err as any)?.message || String(err), failedAt: Date.now() }];
+            persist();
+            continue;
+          }
+          console.warn(`Sync of ${entry.mutation.kind} failed, will retry:`, err);
+          persist();
+          scheduleRetry();
+          break;
+        }
+      }
+    } finally {
+      inFlightId = null;
+      isFlushing = false;
+      persist();
+    }
+  };
+
+  const resolveConflict = async (conflictId: string, choice: 'local' | 'server') => {
+    const conflict = conflicts.find(c => c.id === conflictId);
+    if (!conflict) return null;
+    conflicts = conflicts.filter(c => c.id !== conflictId);
+
+    if (choice === 'server') {
+      persist();
+      return conflict.server;
+    }
+
+    if (conflict.entity === 'job') {
+      const job = { ...conflict.local, version: (conflict.server?.version ?? 0) + 1, updatedAt: new Date().toISOString() };
+      if (conflict.server) {
+        entries.push({ id: generateId(), createdAt: Date.now(), attempts: 0, mutation: { kind: 'updateJob', job, baseVersion: conflict.server.version ?? 0 } });
+      } else {
+        // Deleted elsewhere: bring it back.
+        entries.push({ id: generateId(), createdAt: Date.now(), attempts: 0, mutation: { kind: 'insertJob', job } });
+      }
+      persist();
+      flush();
+      return job;
+    }
+
+    const resume = { ...conflict.local, version: (conflict.server?.version ?? 0) + 1 };
+    entries.push({ id: generateId(), createdAt: Date.now(), attempts: 0, mutation: { kind: 'saveResume', resume, baseVersion: conflict.server?.version ?? 0 } });
+    persist();
+    flush();
+    return resume;
+  };
+
+  const retryFailure = (failureId: string) => {
+    const entry = failed.find(f => f.id === failureId);
+    if (!entry) return;
+    failed = failed.filter(f => f.id !== failureId);
+    entries.push({ id: entry.id, createdAt: entry.createdAt, attempts: 0, mutation: entry.mutation });
+    retryDelay = BASE_RETRY_MS;
+    persist();
+    flush();
+  };
+
+  const discardFailure = (failureId: string) => {
+    failed = failed.filter(f => f.id !== failureId);
+    persist();
+  };
+
+  // --- Overlay of unsent writes ---
+
+  // Failed writes are older than anything still queued, and still count until discarded
+  const unsent = (): QueueEntry[] => [...failed, ...entries];
+
+  const applyPendingJobs = (jobs: Job[]) => {
+    let result = [...jobs];
+    unsent().forEach(({ mutation: m }) => {
+      if (m.kind === 'insertJob' && !result.some(j => j.id === m.job.id)) result = [m.job, ...result];
+      if (m.kind === 'updateJob') result = result.map(j => j.id === m.job.id ? m.job : j);
+      if (m.kind === 'deleteJob') result = result.filter(j => j.id !== m.id);
+    });
+    return result;
+  };
+
+  const pendingResume = () => {
+    const entry = unsent().reverse().find(e => e.mutation.kind === 'saveResume');
+    return entry && entry.mutation.kind === 'saveResume' ? entry.mutation.resume : null;
+  };
+
+  const pendingChatThreads = () => {
+    const entry = unsent().reverse().find(e => e.mutation.kind === 'saveChatThreads');
+    return entry && entry.mutation.kind === 'saveChatThreads' ? entry.mutation.threads : null;
+  };
+
+  const pendingPipelineStages = () => {
+    const entry = unsent().reverse().find(e => e.mutation.kind === 'savePipelineStages');
+    return entry && entry.mutation.kind === 'savePipelineStages' ? entry.mutation.stages : null;
+  };
+
+  const pendingResumeLibrary = () => {
+    const entry = unsent().reverse().find(e => e.mutation.kind === 'saveResumeLibrary');
+    return entry && entry.mutation.kind === 'saveResumeLibrary' ? entry.mutation.library : null;
+  };
+
+  const applyPendingResumeSnapshots = (snapshots: ResumeSnapshot[]) => {
+    let result = [...snapshots];
+    unsent().forEach(({ mutation: m }) => {
+      if (m.kind === 'insertResumeSnapshot' && !result.some(s => s.id === m.snapshot.id)) result = [m.snapshot, ...result];
+    });
+    return result;
+  };
+
+  // --- Connectivity ---
+
+  const handleOnline = () => {
+    isOnline = true;
+    retryDelay = BASE_RETRY_MS;
+    persist();
+    flush();
+  };
+  const handleOffline = () => {
+    isOnline = false;
+    persist();
+  };
+
+  // Queue entries are written in order, so fire-and-forget a flush after each one.
+  const write = (mutation: Mutation) => {
+    enqueue(mutation);
+    flush();
+    return Promise.resolve();
+  };
+
+  const repository: StorageRepository = {
+    listJobs: remote.listJobs,
+    getJob: remote.getJob,
+    getProfile: remote.getProfile,
+    listResearchReports: remote.listResearchReports,
+    listPrepReports: remote.listPrepReports,
+    listResumeSnapshots: remote.listResumeSnapshots,
+
+    insertJob: (job) => write({ kind: 'insertJob', job }),
+    updateJob: (job) => write({ kind: 'updateJob', job, baseVersion: (job.version ?? 1) - 1 }),
+    deleteJob: (id) => write({ kind: 'deleteJob', id }),
+    createProfile: (resume) => write({ kind: 'createProfile', resume }),
+    saveResume: (resume) => write({ kind: 'saveResume', resume, baseVersion: (resume.version ?? 1) - 1 }),
+    saveChatThreads: (threads) => write({ kind: 'saveChatThreads', threads }),
+    savePipelineStages: (stages) => write({ kind: 'savePipelineStages', stages }),
+    saveResumeLibrary: (library) => write({ kind: 'saveResumeLibrary', library }),
+    insertResumeSnapshot: (snapshot) => write({ kind: 'insertResumeSnapshot', snapshot }),
+    insertResearchReport: (report) => write({ kind: 'insertResearchReport', report }),
+    deleteResearchReport: (id) => write({ kind: 'deleteResearchReport', id }),
+    insertPrepReport: (report) => write({ kind: 'insertPrepReport', report }),
+    deletePrepReport: (id) => write({ kind: 'deletePrepReport', id }),
+  };
+
+  return {
+    repository,
+    getState,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+    flush,
+    resolveConflict,
+    retryFailure,
+    discardFailure,
+    applyPendingJobs,
+    pendingResume,
+    pendingChatThreads,
+    pendingPipelineStages,
+    pendingResumeLibrary,
+    applyPendingResumeSnapshots,
+    start: () => {
+      window.addEventListener('online', handleOnline);
+      window.addEventListener('offline', handleOffline);
+      flush();
+    },
+    stop: () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+      if (retryTimer) {
+        clearTimeout(retryTimer);
+        retryTimer = null;
+      }
+    }
+  };
+};
@@ -0,0 +1,53 @@
+import { Job, Resume, ChatThread, ResearchReport, InterviewPrepReport, PipelineStage, ResumeLibrary, ResumeSnapshot } from "../../types";
+
+export interface ProfileData {
+  resume: Resume | null;
+  chatThreads: ChatThread[] | null;
+  pipelineStages: PipelineStage[] | null;
+  resumeLibrary: ResumeLibrary | null;
+}
+
+/**
+ * Persistence boundary for everything JobContext owns.
+ * Both the Supabase backend and the local IndexedDB store implement this,
+ * so the context never needs to know which one it is talking to.
+ */
+export interface StorageRepository {
+  // Jobs (newest first)
+  listJobs: () => Promise<Job[]>;
+  getJob: (id: string) => Promise<Job | null>;
+  /** Stores the job under its own id, so chat threads and citations that point at it stay valid. */
+  insertJob: (job: Job) => Promise<void>;
+  updateJob: (job: Job) => Promise<void>;
+  deleteJob: (id: string) => Promise<void>;
+
+  // Profile (resume, resume library, chat threads, settings). `getProfile` resolves null when none exists yet.
+  getProfile: () => Promise<ProfileData | null>;
+  createProfile: (resume: Resume) => Promise<void>;
+  saveResume: (resume: Resume) => Promise<void>;
+  saveChatThreads: (threads: ChatThread[]) => Promise<void>;
+  savePipelineStages: (stages: PipelineStage[]) => Promise<void>;
+  saveResumeLibrary: (library: ResumeLibrary) => Promise<void>;
+
+  // Resume snapshots (newest first). Never changed once written, since jobs point at them.
+  listResumeSnapshots: () => Promise<ResumeSnapshot[]>;
+  insertResumeSnapshot: (snapshot: ResumeSnapshot) => Promise<void>;
+
+  // Agent reports (newest first)
+  listResearchReports: () => Promise<ResearchReport[]>;
+  insertResearchReport: (report: ResearchReport) => Promise<void>;
+  deleteResearchReport: (id: string) => Promise<void>;
+  listPrepReports: () => Promise<InterviewPrepReport[]>;
+  insertPrepReport: (report: InterviewPrepReport) => Promise<void>;
+  deletePrepReport: (id: string) => Promise<void>;
+}
+
+/** A complete copy of one user's data, used for seeding a fresh store. */
+export interface StorageSnapshot {
+  jobs: Job[];
+  resume: Resume;
+  chatThreads: ChatThread[];
+  researchReports: ResearchReport[];
+  prepReports: InterviewPrepReport[];
+  resumeSnapshots: ResumeSnapshot[];
+}
@@ -0,0 +1,3 @@
+-- User-defined pipeline stages, stored with the profile. Null means the default stages.
+alter table public.profiles
+  add column if not exists pipeline_stages jsonb;
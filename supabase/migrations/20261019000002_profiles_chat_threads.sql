@@ -0,0 +1,4 @@
+-- Chatur conversations as named threads, replacing the single chat_history list.
+-- chat_history is kept so older profiles can still be read and turned into a first thread.
+alter table public.profiles
+  add column if not exists chat_threads jsonb;
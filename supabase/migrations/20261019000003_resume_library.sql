@@ -0,0 +1,27 @@
+-- Named resumes. The active resume's content stays in resume_data.
+alter table public.profiles
+  add column if not exists resume_library jsonb;
+
+-- Saved resume versions. Rows are never updated; applications link to them by id.
+create table if not exists public.resume_snapshots (
+  id text primary key,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  resume_id text not null,
+  content jsonb not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists resume_snapshots_user_created_idx
+  on public.resume_snapshots (user_id, created_at desc);
+
+alter table public.resume_snapshots enable row level security;
+
+drop policy if exists "Users read their own resume snapshots" on public.resume_snapshots;
+create policy "Users read their own resume snapshots"
+  on public.resume_snapshots for select
+  using (auth.uid() = user_id);
+
+drop policy if exists "Users add their own resume snapshots" on public.resume_snapshots;
+create policy "Users add their own resume snapshots"
+  on public.resume_snapshots for insert
+  with check (auth.uid() = user_id);
@@ -1,6 +1,17 @@
 
 
-export type JobStatus = 'Applied' | 'Interview' | 'Offer' | 'Rejected' | 'Accepted';
+// Id of a PipelineStage. The defaults are 'Applied' | 'Interview' | 'Offer' | 'Accepted' | 'Rejected'.
+export type JobStatus = string;
+
+export type StageCategory = 'active' | 'offer' | 'closed';
+export type StageColor = 'slate' | 'blue' | 'sky' | 'indigo' | 'purple' | 'amber' | 'emerald' | 'teal' | 'rose';
+
+export interface PipelineStage {
+  id: string; // Stored on Job.status; never changes after creation
+  name: string;
+  color: StageColor;
+  category: StageCategory; // Drives stats, the Offers view and time-in-stage metrics
+}
 
 export interface Attachment {
   id: string;
@@ -21,6 +32,20 @@ export interface InterviewLog {
   note: string;
 }
 
+export type InterviewFormat = 'Phone' | 'Video' | 'Onsite' | 'Take-home';
+export type InterviewOutcome = 'Pending' | 'Passed' | 'Failed' | 'Cancelled';
+
+export interface InterviewRound {
+  id: string;
+  name: string; // e.g. "Recruiter Screen", "System Design"
+  date: string; // ISO datetime string
+  durationMinutes: number;
+  format: InterviewFormat;
+  interviewerIds: string[]; // Contact ids from the same job
+  outcome: InterviewOutcome;
+  feedback?: string;
+}
+
 export interface Interaction {
   id: string;
   date: string;
@@ -38,11 +63,18 @@ export interface Contact {
   history: Interaction[];
 }
 
+export interface StatusChange {
+  from: JobStatus | null; // null for the status a job was created with
+  to: JobStatus;
+  date: string; // ISO string
+}
+
 export interface Job {
   id: string;
   company: string;
   role: string;
   status: JobStatus;
+  statusHistory?: StatusChange[]; // Appended automatically by updateJob
   salary: string;
   location: string;
   dateApplied: string;
@@ -51,13 +83,17 @@ export interface Job {
   origin: 'application' | 'offer';
   
   // New Features
-  resumeVersion?: string; // e.g. "Frontend_Resume_v3"
+  resumeSnapshotId?: string; // The ResumeSnapshot sent with this application
+  /** @deprecated Free-text label from before the resume library, e.g. "Frontend_Resume_v3". */
+  resumeVersion?: string;
   notes?: string; // Preparation notes, culture, research
   questions?: string; // Questions to ask interviewers
   attachments?: Attachment[]; // Repository of sent docs
   
   // Schedule & Logs
-  interviewDate?: string; // ISO datetime string
+  interviewRounds?: InterviewRound[];
+  /** @deprecated Single interview from before rounds existed; folded into interviewRounds on load. */
+  interviewDate?: string;
   checklist?: ChecklistItem[];
   interviewLogs?: InterviewLog[];
   
@@ -67,6 +103,10 @@ export interface Job {
   // AI Persistent Data
   interviewGuide?: string;
   negotiationStrategy?: string;
+
+  // Sync metadata (bumped on every local edit, used for conflict detection)
+  version?: number;
+  updatedAt?: string; // ISO string
 }
 
 export interface Experience {
@@ -94,6 +134,67 @@ export interface Education {
   grade?: string; // GPA, Percentage, etc.
 }
 
+export interface Certification {
+  id: string;
+  name: string;
+  issuer: string;
+  date: string;
+  credentialId?: string;
+  link?: string;
+}
+
+export interface Award {
+  id: string;
+  title: string;
+  issuer: string;
+  date: string;
+  description?: string;
+}
+
+export interface Language {
+  id: string;
+  name: string;
+  proficiency: string; // e.g. "Native", "Professional working"
+}
+
+export interface Publication {
+  id: string;
+  title: string;
+  publisher: string; // Journal, conference or site
+  date: string;
+  link?: string;
+  description?: string;
+}
+
+export interface Volunteering {
+  id: string;
+  role: string;
+  organization: string;
+  startDate: string;
+  endDate: string;
+  description: string;
+}
+
+export type ResumeSectionId =
+  | 'summary' | 'skills' | 'experience' | 'projects' | 'education'
+  | 'certifications' | 'awards' | 'languages' | 'publications' | 'volunteering';
+
+export type ResumeTemplateId = 'classic' | 'modern' | 'compact';
+export type ResumeFont = 'sans' | 'serif' | 'arial';
+export type ResumeSpacing = 'tight' | 'normal' | 'relaxed';
+
+export interface ResumeTemplateOptions {
+  font: ResumeFont;
+  spacing: ResumeSpacing;
+  accent: string; // Hex colour for the name, headings and rules
+}
+
+/** How the resume is laid out on the page. Options are kept per template, so switching back restores them. */
+export interface ResumeLayout {
+  template: ResumeTemplateId;
+  options?: Partial<Record<ResumeTemplateId, Partial<ResumeTemplateOptions>>>;
+}
+
 export interface Resume {
   fullName: string;
   email: string;
@@ -105,8 +206,72 @@ export interface Resume {
   experience: Experience[];
   projects: Project[];
   education: Education[];
+  certifications?: Certification[];
+  awards?: Award[];
+  languages?: Language[];
+  publications?: Publication[];
+  volunteering?: Volunteering[];
+  sectionOrder?: ResumeSectionId[]; // Order of sections on the page; missing ones follow in the default order
+  layout?: ResumeLayout; // Missing means the classic template
   jobTitle?: string;
   avatarImage?: string;
+  version?: number; // Sync metadata, see Job.version
+}
+
+/** One of the user's named resumes, e.g. "Frontend" or "Data Engineering". */
+export interface NamedResume {
+  id: string;
+  name: string;
+  content?: Resume; // Held here while another resume is active; the active one is the profile resume
+}
+
+export interface ResumeLibrary {
+  activeId: string;
+  resumes: NamedResume[];
+}
+
+/** A change the AI proposed in a tailor or polish, and whether it was kept. */
+export interface ReviewedChange {
+  label: string; // e.g. "Senior Engineer at Acme · Bullet 2"
+  before: string;
+  after: string;
+  accepted: boolean;
+}
+
+export type ResumeSnapshotReason = 'saved' | 'tailored' | 'enhanced' | 'imported';
+
+/** An immutable copy of a named resume, taken when it is saved or rewritten by the AI. */
+export interface ResumeSnapshot {
+  id: string;
+  resumeId: string; // NamedResume id
+  resumeName: string; // As it was named when the snapshot was taken
+  number: number; // 1, 2, 3… within its resume
+  reason: ResumeSnapshotReason;
+  note?: string;
+  review?: ReviewedChange[]; // For AI rewrites, every proposed change and whether it was accepted
+  date: string; // ISO string
+  content: Resume;
+}
+
+export type ChatActionStatus = 'pending' | 'applied' | 'dismissed' | 'failed';
+
+/** A change Chatur proposed to the tracker. Nothing is applied until the user confirms it. */
+export interface ChatAction {
+  id: string;
+  tool: string; // Tool name from lib/chaturTools.ts
+  args: Record<string, any>;
+  status: ChatActionStatus;
+  result?: string; // What was done, or why it failed
+}
+
+/** A passage of the user's own notes or reports that a Chatur reply drew on. */
+export interface ChatCitation {
+  n: number; // The [n] marker used in the reply
+  kind: string; // See SOURCE_KIND_LABELS
+  title: string;
+  excerpt: string;
+  jobId?: string;
+  reportId?: string;
 }
 
 export interface ChatMessage {
@@ -114,6 +279,19 @@ export interface ChatMessage {
   role: 'user' | 'model';
   text: string;
   timestamp: number;
+  actions?: ChatAction[];
+  citations?: ChatCitation[];
+  memory?: string; // Rolling summary of the conversation up to and including this message
+}
+
+/** A named Chatur conversation, optionally about one job. */
+export interface ChatThread {
+  id: string;
+  title: string;
+  jobId?: string; // Scoped threads focus the prompt on this job
+  messages: ChatMessage[];
+  createdAt: number;
+  updatedAt: number;
 }
 
 export interface ResearchReport {
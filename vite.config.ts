@@ -8,6 +8,11 @@ export default defineConfig(({ mode }) => {
     define: {
       'process.env.API_KEY': JSON.stringify(env.API_KEY || env.GEMINI_API_KEY),
       'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY || env.API_KEY),
+      'process.env.LLM_PROVIDER': JSON.stringify(env.LLM_PROVIDER),
+      'process.env.LLM_MODEL': JSON.stringify(env.LLM_MODEL),
+      'process.env.LLM_API_KEY': JSON.stringify(env.LLM_API_KEY),
+      'process.env.LLM_BASE_URL': JSON.stringify(env.LLM_BASE_URL),
+      'process.env.LLM_EMBEDDING_MODEL': JSON.stringify(env.LLM_EMBEDDING_MODEL),
       'process.env.SUPABASE_URL': JSON.stringify(env.SUPABASE_URL),
       'process.env.SUPABASE_ANON_KEY': JSON.stringify(env.SUPABASE_ANON_KEY),
       // Fix for some libraries that check process.env